@@ -1,9 +1,34 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import { parse } from 'url';
+import { ParsedUrlQuery } from 'querystring';
 import { appService } from '../services/app';
 import { getLogger } from '../utils/logger';
+import { PageRequest, PaginationError } from '../utils/pagination';
+import { SearchSort } from '../mcp/tools';
+import { Authenticator, AccessDeniedError, clientFromAuthInfo, readOnlyTools } from '../utils/auth';
+
+/**
+ * Page selection from the `limit`, `offset` and `cursor` query parameters
+ */
+function pageQuery(query: ParsedUrlQuery): PageRequest {
+  return {
+    limit: query.limit ? Number(query.limit) : undefined,
+    offset: query.offset ? Number(query.offset) : undefined,
+    cursor: query.cursor ? String(query.cursor) : undefined
+  };
+}
+
+function setPageHeaders(res: ServerResponse, out: { totalCount?: number; nextCursor?: string }) {
+  if (out.totalCount !== undefined) res.setHeader('x-total-count', String(out.totalCount));
+  if (out.nextCursor) res.setHeader('x-next-cursor', out.nextCursor);
+}
 
 export class Router {
+  /**
+   * @param auth Authentication of the endpoints other than /health (default: from the settings)
+   */
+  constructor(private auth: Authenticator = appService.auth) {}
+
   async handle(req: IncomingMessage, res: ServerResponse) {
     const url = parse(req.url || '', true);
     const pathname = url.pathname || '/';
@@ -16,25 +41,37 @@ export class Router {
       return;
     }
 
+    if (!this.auth.authenticateRequest(req, res)) return;
+    // Each endpoint is allowed to the clients that may call the tool behind it
+    const authorize = (tool: string, params: unknown) => this.auth.authorize(clientFromAuthInfo((req as any).auth), tool, params);
+    // Read-only mode serves only the endpoints whose tool /mcp exposes too
+    const config = appService.config;
+    const exposed = (tool: string) => !config.readOnly || readOnlyTools(config.readOnlyTools).includes(tool);
+
     try {
-      if (req.method === 'GET' && pathname === '/views') {
+      const language = url.query?.lang ? String(url.query.lang) : undefined;
+
+      if (req.method === 'GET' && pathname === '/views' && exposed('SearchViews')) {
         const q = (url.query && (url.query.q || url.query.query)) || url.query?.query || '';
-        const input = { query: String(q || '') };
+        const input = { query: String(q || ''), language, ...pageQuery(url.query), sort: url.query?.sort ? String(url.query.sort) as SearchSort : undefined };
+        await authorize('SearchViews', input);
         const out = await logger.auditHttpInvocation(
           'GET', '/views', input, 
           async () => appService.tools.searchViewsHandler(input)
         );
         res.statusCode = 200;
         res.setHeader('content-type', 'text/markdown');
+        setPageHeaders(res, out);
         res.end(out.markdown);
         return;
       }
 
-      if (req.method === 'GET' && pathname && pathname.startsWith('/views/')) {
+      if (req.method === 'GET' && pathname && pathname.startsWith('/views/') && exposed('GetViewDetails')) {
         const name = decodeURIComponent(pathname.replace('/views/', ''));
+        await authorize('GetViewDetails', { viewname: name, language });
         const out = await logger.auditHttpInvocation(
-          'GET', '/views/:name', { viewname: name }, 
-          async () => appService.tools.getViewDetailsHandler({ viewname: name })
+          'GET', '/views/:name', { viewname: name, language }, 
+          async () => appService.tools.getViewDetailsHandler({ viewname: name, language })
         );
         res.statusCode = 200;
         res.setHeader('content-type', 'text/markdown');
@@ -42,33 +79,58 @@ export class Router {
         return;
       }
 
-      if (req.method === 'GET' && pathname === '/elements') {
+      if (req.method === 'GET' && pathname === '/elements' && exposed('SearchElements')) {
         const q = (url.query && (url.query.q || url.query.query)) || url.query?.query || '';
         const type = url.query?.type || '';
-        const input = { query: String(q || ''), type: String(type || '') };
+        const input = { query: String(q || ''), type: String(type || ''), language, ...pageQuery(url.query), sort: url.query?.sort ? String(url.query.sort) as SearchSort : undefined };
+        await authorize('SearchElements', input);
         const out = await logger.auditHttpInvocation(
           'GET', '/elements', input, 
           async () => appService.tools.searchElementsHandler(input)
         );
         res.statusCode = 200;
         res.setHeader('content-type', 'text/markdown');
+        setPageHeaders(res, out);
         res.end(out.markdown);
         return;
       }
 
-      if (req.method === 'GET' && pathname && pathname.startsWith('/elements/')) {
+      if (req.method === 'GET' && pathname && pathname.startsWith('/elements/') && exposed('GetElementDetails')) {
         const name = decodeURIComponent(pathname.replace('/elements/', ''));
+        await authorize('GetElementDetails', { elementname: name, language });
         const out = await logger.auditHttpInvocation(
-          'GET', '/elements/:name', { elementname: name }, 
-          async () => appService.tools.getElementDetailsHandler({ elementname: name })
+          'GET', '/elements/:name', { elementname: name, language }, 
+          async () => appService.tools.getElementDetailsHandler({ elementname: name, language })
         );
         res.statusCode = 200;
         res.setHeader('content-type', 'text/markdown');
         res.end(out.markdown);
         return;
       }
+
+      if (req.method === 'GET' && pathname === '/diff' && exposed('DiffModels')) {
+        const input = {
+          basePath: url.query?.base ? String(url.query.base) : undefined,
+          targetPath: url.query?.target ? String(url.query.target) : undefined,
+          format: url.query?.format === 'json' ? 'json' as const : 'markdown' as const
+        };
+        await authorize('DiffModels', input);
+        const out = await logger.auditHttpInvocation(
+          'GET', '/diff', input,
+          async () => appService.tools.diffModelsHandler(input)
+        );
+        res.statusCode = 200;
+        if (input.format === 'json') {
+          res.setHeader('content-type', 'application/json');
+          res.end(JSON.stringify(out.diff));
+        } else {
+          res.setHeader('content-type', 'text/markdown');
+          res.end(out.markdown);
+        }
+        return;
+      }
     } catch (err: any) {
-      res.statusCode = 500;
+      res.statusCode = err instanceof AccessDeniedError ? 403 : err instanceof PaginationError ? 400 : 500;
       res.setHeader('content-type', 'text/plain');
       res.end(String(err?.message || err));
       return;
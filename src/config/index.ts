@@ -1,5 +1,6 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import type { AuthConfig } from '../utils/auth';
 
 export interface Config {
   modelPath: string;
@@ -10,6 +11,17 @@ export interface Config {
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   disclaimerPrefix?: string;
   enableHttpEndpoints?: boolean;
+  language?: string;
+  historyLimit?: number;
+  semanticSearch?: boolean;
+  embeddingModelPath?: string;
+  embeddingModel?: string;
+  sessionTimeoutMinutes?: number;
+  transport?: 'http' | 'stdio';
+  auth?: AuthConfig;
+  readOnly?: boolean;
+  readOnlyTools?: string[];
+  relationshipTablePath?: string;
 }
 
 function readSettings(): Partial<Config> {
@@ -39,6 +51,17 @@ export function loadConfig(): Config {
     enableHttpEndpoints: (process.env.ENABLE_HTTP_ENDPOINTS || String((defaults as any).enableHttpEndpoints || 'false')) === 'true',
     logPath: process.env.LOG_PATH || (defaults as any).logPath || 'logs',
     logLevel: (process.env.LOG_LEVEL as any) || (defaults as any).logLevel || 'info',
-    disclaimerPrefix: process.env.DISCLAIMER_PREFIX || (defaults as any).disclaimerPrefix || ''
+    disclaimerPrefix: process.env.DISCLAIMER_PREFIX || (defaults as any).disclaimerPrefix || '',
+    language: process.env.MODEL_LANGUAGE || defaults.language || undefined,
+    historyLimit: Number(process.env.HISTORY_LIMIT || defaults.historyLimit) || undefined,
+    semanticSearch: (process.env.SEMANTIC_SEARCH || String(defaults.semanticSearch || 'false')) === 'true',
+    embeddingModelPath: process.env.EMBEDDING_MODEL_PATH || defaults.embeddingModelPath || join(__dirname, '..', '..', 'models'),
+    embeddingModel: process.env.EMBEDDING_MODEL || defaults.embeddingModel || undefined,
+    sessionTimeoutMinutes: Number(process.env.SESSION_TIMEOUT_MINUTES || defaults.sessionTimeoutMinutes) || undefined,
+    transport: (process.env.MCP_TRANSPORT as Config['transport']) || defaults.transport || 'http',
+    auth: defaults.auth,
+    readOnly: (process.env.READ_ONLY || String(defaults.readOnly || 'false')) === 'true',
+    relationshipTablePath: process.env.RELATIONSHIP_TABLE_PATH || defaults.relationshipTablePath || undefined,
+    readOnlyTools: process.env.READ_ONLY_TOOLS ? process.env.READ_ONLY_TOOLS.split(',').map(tool => tool.trim()).filter(Boolean) : defaults.readOnlyTools
   };
 }
@@ -1,6 +1,8 @@
 import { createServer } from 'http';
 import { Router } from '../api/router';
 import { createMcpServer } from './server';
+import { SessionManager, DEFAULT_SESSION_TIMEOUT_MINUTES } from './sessions';
+import { isStdioMode, runStdioServer } from './stdio';
 import { appService } from '../services/app';
 import { createJsonRpcError, handleMcpError } from '../utils/errors';
 import { getLogger } from '../utils/logger';
@@ -24,8 +26,8 @@ function readRequestBody(req: import('http').IncomingMessage): Promise<any> {
   });
 }
 
-async function handleMcpRequest(mcp: any, req: any, res: any): Promise<void> {
-  if (!mcp.sdkServer) {
+async function handleMcpRequest(mcp: any, sessions: SessionManager | undefined, req: any, res: any): Promise<void> {
+  if (!mcp.sdkServer || !sessions) {
     // Return a 404 JSON-RPC error so clients fall back to legacy SSE
     const errorResponse = createJsonRpcError(-32000, 'Not Found');
     res.statusCode = 404;
@@ -34,23 +36,25 @@ async function handleMcpRequest(mcp: any, req: any, res: any): Promise<void> {
     return;
   }
 
-  const body = await readRequestBody(req);
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { StreamableHTTPServerTransport } = require('@modelcontextprotocol/sdk/server/streamableHttp.js');
-
-  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
-
-  // Close transport when response closes
-  res.on('close', () => {
-    try { transport.close(); } catch (_) { /* ignore */ }
-  });
+  // GET and DELETE have no body
+  const body = req.method === 'POST' ? await readRequestBody(req) : undefined;
+  await sessions.handleRequest(req, res, body);
+}
 
-  // Connect and handle the request
-  await mcp.sdkServer.connect(transport);
-  await transport.handleRequest(req as any, res as any, body);
+// Serve a desktop client over stdin and stdout; exit when it closes stdin
+async function mainStdio() {
+  const stop = await runStdioServer();
+  const exit = () => {
+    stop().then(() => logger.flush()).finally(() => process.exit(0));
+  };
+  process.stdin.once('end', exit);
+  process.once('SIGINT', exit);
+  process.once('SIGTERM', exit);
 }
 
 async function main() {
+  if (isStdioMode()) return mainStdio();
+
   const enableHttp = Boolean(appService.config.enableHttpEndpoints);
   const router = enableHttp ? new Router() : undefined;
   const mcp = await createMcpServer();
@@ -63,6 +67,16 @@ async function main() {
     logger.log('warn', 'server.mcp.start', { success: false, error: (err as Error)?.message || String(err) });
   }
 
+  // Each client session gets its own server and transport
+  const sessions = mcp.sdkServer
+    ? new SessionManager(mcp.createSessionServer, { idleTimeoutMs: (appService.config.sessionTimeoutMinutes || DEFAULT_SESSION_TIMEOUT_MINUTES) * 60_000 })
+    : undefined;
+
+  if (!appService.auth.enabled) {
+    console.warn(`MCP: authentication is off; anyone who can reach port ${port} can call every tool (configure auth.tokens in config/settings.json)`);
+    logger.log('warn', 'auth.disabled', { port });
+  }
+
   const server = createServer(async (req, res) => {
     // handle /mcp transport requests
     const host = 'localhost';
@@ -71,7 +85,8 @@ async function main() {
 
     if (pathname === '/mcp') {
       try {
-        await handleMcpRequest(mcp, req, res);
+        if (!appService.auth.authenticateRequest(req, res, true)) return;
+        await handleMcpRequest(mcp, sessions, req, res);
       } catch (err: any) {
         handleMcpError(res, err);
       }
@@ -100,6 +115,17 @@ async function main() {
     console.log(`Server listening on port ${port}`);
     logger.log('info', 'server.listen', { port });
   });
+
+  // Close the sessions, and with them their event streams, before exiting
+  const shutdown = async (signal: string) => {
+    logger.log('info', 'server.shutdown', { signal, sessions: sessions?.size || 0 });
+    await sessions?.closeAll();
+    await mcp.stop();
+    server.close(() => process.exit(0));
+    server.closeAllConnections();
+  };
+  process.once('SIGINT', () => { shutdown('SIGINT').catch(() => process.exit(1)); });
+  process.once('SIGTERM', () => { shutdown('SIGTERM').catch(() => process.exit(1)); });
 }
 
 main().catch(err => {
@@ -0,0 +1,153 @@
+/**
+ * MCP Prompts
+ *
+ * Prompt templates for common architecture tasks. Each prompt finds a view
+ * or element by name, the way `GetViewDetails` and `GetElementDetails` do,
+ * and embeds its rendered markdown after the instructions. The markdown
+ * starts with the configured disclaimer prefix, so the model treats the
+ * model content as data rather than instructions. Instructions only point
+ * to tools the server exposes.
+ *
+ * @module mcp/prompts
+ */
+
+import { loadConfig } from '../config';
+import { allTexts, Localizable } from '../model/languages';
+import { renderViewDetailsMarkdownFromModel, renderElementDetailsMarkdownFromModel } from '../renderer';
+import { ToolsFactory } from './tools';
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface PromptResult {
+  description: string;
+  messages: PromptMessage[];
+  [key: string]: unknown; // MCP compatibility
+}
+
+export interface ViewPromptInput {
+  /** Name of the view; an exact match, or else the first view whose name contains it */
+  view: string;
+  language?: string;
+}
+
+export interface ExplainViewInput extends ViewPromptInput {
+  /** Who the explanation is for (default: a developer new to the team) */
+  audience?: string;
+}
+
+export interface DraftAdrInput extends ViewPromptInput {
+  /** The decision to record; when absent, the most significant decision the view reflects */
+  decision?: string;
+}
+
+export interface OnboardToComponentInput {
+  /** Name of the element; an exact match, or else the first element whose name contains it */
+  element: string;
+  language?: string;
+}
+
+/**
+ * @param exposed - Whether the server exposes a tool; by default all tools are
+ */
+export function createPrompts(tools: ToolsFactory, exposed: (tool: string) => boolean = () => true) {
+  const cfg = loadConfig();
+  const DISCLAIMER_PREFIX = cfg.disclaimerPrefix || '';
+  const { loader } = tools;
+
+  // Exact name match first, then the first name that contains it, in any language
+  function findByName<T extends Localizable>(items: T[], name: string): T | undefined {
+    const search = name.toLowerCase();
+    return items.find(x => allTexts(x, 'name').some(n => n.toLowerCase() === search))
+      || items.find(x => allTexts(x, 'name').some(n => n.toLowerCase().includes(search)));
+  }
+
+  async function viewMarkdown(input: ViewPromptInput): Promise<string> {
+    if (!input?.view) throw new Error('view required');
+    const model = loader.load();
+    const view = findByName(model.views || [], input.view);
+    if (!view) throw new Error(`View not found: ${input.view}`);
+    return DISCLAIMER_PREFIX + renderViewDetailsMarkdownFromModel(model, view, input.language || cfg.language);
+  }
+
+  async function elementMarkdown(input: OnboardToComponentInput): Promise<string> {
+    if (!input?.element) throw new Error('element required');
+    const model = loader.load();
+    const element = findByName(model.elements || [], input.element);
+    if (!element) throw new Error(`Element not found: ${input.element}`);
+    return DISCLAIMER_PREFIX + renderElementDetailsMarkdownFromModel(model, element, input.language || cfg.language);
+  }
+
+  // Add the sentences about tools the server exposes to an instruction
+  function withToolHints(instruction: string, hints: Array<[tool: string, hint: string]>): string {
+    return [instruction, ...hints.filter(([tool]) => exposed(tool)).map(([, hint]) => hint)].join(' ');
+  }
+
+  function prompt(description: string, instructions: string[], markdown: string): PromptResult {
+    return {
+      description,
+      messages: [{ role: 'user', content: { type: 'text', text: [...instructions, '', markdown].join('\n') } }]
+    };
+  }
+
+  async function explainView(input: ExplainViewInput): Promise<PromptResult> {
+    const markdown = await viewMarkdown(input);
+    const audience = input.audience || 'a developer who is new to the team';
+    return prompt(`Explain the view "${input.view}"`, [
+      `Explain the ArchiMate view below to ${audience}.`,
+      'Start with the purpose of the view in one or two sentences. Then walk through the main elements, grouped by layer (business, application, technology), and explain how they work together by following the relationships.',
+      'Use the names from the view, and do not invent elements or relationships that are not in it. End with the questions the reader should ask the team.'
+    ], markdown);
+  }
+
+  async function reviewForGaps(input: ViewPromptInput): Promise<PromptResult> {
+    const markdown = await viewMarkdown(input);
+    return prompt(`Review the view "${input.view}" for gaps`, [
+      'Review the ArchiMate view below for gaps and inconsistencies, such as:',
+      '- elements without relationships',
+      '- elements or relationships without documentation',
+      '- elements without the supporting elements of the layer below, e.g. application components without the technology they run on',
+      '- relationships whose type does not fit the elements they connect',
+      '- inconsistent naming',
+      '',
+      withToolHints('List each gap with the elements concerned and a suggested fix, most important first.', [
+        ['ValidateModel', 'Use ValidateModel for the rules of the ArchiMate specification.']
+      ])
+    ], markdown);
+  }
+
+  async function draftAdrFromView(input: DraftAdrInput): Promise<PromptResult> {
+    const markdown = await viewMarkdown(input);
+    const decision = input.decision
+      ? `The decision to record: ${input.decision}`
+      : 'Record the most significant architecture decision the view reflects, and mark what you assumed.';
+    return prompt(`Draft an ADR from the view "${input.view}"`, [
+      'Draft an Architecture Decision Record (ADR) based on the ArchiMate view below.',
+      decision,
+      'Use the sections Title, Status (Proposed), Context, Decision, Consequences and Alternatives Considered. Base the context on the elements and relationships of the view and name them as they appear in it.'
+    ], markdown);
+  }
+
+  async function onboardToComponent(input: OnboardToComponentInput): Promise<PromptResult> {
+    const markdown = await elementMarkdown(input);
+    return prompt(`Onboard to "${input.element}"`, [
+      'Help a developer get started on the component described below.',
+      withToolHints('Explain what it does, which elements it depends on and which depend on it, and in which views it appears.', [
+        ['GetViewDetails', 'Use GetViewDetails for those views.'],
+        ['AnalyzeImpact', 'Use AnalyzeImpact for what a change to the component affects.']
+      ]),
+      'End with a short reading list: the views and elements to look at first, in order.'
+    ], markdown);
+  }
+
+  return {
+    explainView,
+    reviewForGaps,
+    draftAdrFromView,
+    onboardToComponent
+  };
+}
+
+export type PromptsFactory = ReturnType<typeof createPrompts>;
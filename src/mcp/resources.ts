@@ -0,0 +1,233 @@
+/**
+ * MCP Resources
+ *
+ * Exposes each view and element of the model as a markdown resource, so
+ * clients can pin them as context:
+ *
+ * - `archimate://view/{id}` — the view with its elements and relationships
+ * - `archimate://element/{id}` — the element with its properties, views and relationships
+ *
+ * Clients may subscribe to a resource. After the model file changes on disk
+ * or is saved, subscribers are told about each subscribed resource whose
+ * content changed (or that was removed), and list listeners about views or
+ * elements that were added or removed.
+ *
+ * @module mcp/resources
+ */
+
+import { createHash } from 'crypto';
+import { loadConfig } from '../config';
+import { renderViewDetailsMarkdownFromModel, renderElementDetailsMarkdownFromModel } from '../renderer';
+import { ModelData } from '../model/types';
+import { getLogger } from '../utils/logger';
+import { ToolsFactory } from './tools';
+
+export const VIEW_RESOURCE_TEMPLATE = 'archimate://view/{id}';
+export const ELEMENT_RESOURCE_TEMPLATE = 'archimate://element/{id}';
+
+export const RESOURCE_MIME_TYPE = 'text/markdown';
+
+export type ResourceKind = 'view' | 'element';
+
+export interface ResourceListEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export function resourceUri(kind: ResourceKind, id: string): string {
+  return `archimate://${kind}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Kind and id of a resource URI, or undefined for URIs of other servers
+ */
+export function parseResourceUri(uri: string): { kind: ResourceKind; id: string } | undefined {
+  const match = /^archimate:\/\/(view|element)\/(.+)$/.exec(uri);
+  if (!match) return undefined;
+  return { kind: match[1] as ResourceKind, id: decodeURIComponent(match[2]) };
+}
+
+export function createResources(tools: ToolsFactory) {
+  const cfg = loadConfig();
+  const logger = getLogger();
+  const DISCLAIMER_PREFIX = cfg.disclaimerPrefix || '';
+  const { loader, manipulator } = tools;
+
+  // Subscribed URIs with a hash of the content last sent, or undefined when the resource did not exist
+  const subscriptions = new Map<string, string | undefined>();
+  let updateListeners: Array<(uri: string) => void> = [];
+  let listChangedListeners: Array<() => void> = [];
+  let listedIds: string | undefined;
+  let checkPending = false;
+
+  function listViews(): ResourceListEntry[] {
+    const model = loader.load();
+    return (model.views || []).map(v => ({
+      uri: resourceUri('view', v.id),
+      name: v.name || v.id,
+      description: v.viewpoint ? `ArchiMate view (${v.viewpoint})` : 'ArchiMate view',
+      mimeType: RESOURCE_MIME_TYPE
+    }));
+  }
+
+  function listElements(): ResourceListEntry[] {
+    const model = loader.load();
+    return (model.elements || []).map(e => ({
+      uri: resourceUri('element', e.id),
+      name: e.name || e.id,
+      description: e.type,
+      mimeType: RESOURCE_MIME_TYPE
+    }));
+  }
+
+  function render(model: ModelData, uri: string): string | undefined {
+    const parsed = parseResourceUri(uri);
+    if (!parsed) return undefined;
+    if (parsed.kind === 'view') {
+      const view = (model.views || []).find(v => v.id === parsed.id);
+      return view ? renderViewDetailsMarkdownFromModel(model, view, cfg.language) : undefined;
+    }
+    const element = (model.elements || []).find(e => e.id === parsed.id);
+    return element ? renderElementDetailsMarkdownFromModel(model, element, cfg.language) : undefined;
+  }
+
+  /**
+   * Read a view or element resource
+   *
+   * @throws Error when the URI is not a model resource or the concept does not exist
+   */
+  function readResource(uri: string): ResourceContent {
+    if (!parseResourceUri(uri)) throw new Error(`Unknown resource URI: ${uri}`);
+    const markdown = render(loader.load(), uri);
+    if (markdown === undefined) throw new Error(`Resource not found: ${uri}`);
+    return { uri, mimeType: RESOURCE_MIME_TYPE, text: DISCLAIMER_PREFIX + markdown };
+  }
+
+  function conceptIds(model: ModelData): string {
+    return [...(model.views || []), ...(model.elements || [])].map(c => c.id).join('\n');
+  }
+
+  function hash(markdown: string | undefined): string | undefined {
+    return markdown === undefined ? undefined : createHash('sha1').update(markdown).digest('hex');
+  }
+
+  /**
+   * Start sending updates of a resource
+   *
+   * @throws Error when the URI is not a model resource
+   */
+  function subscribe(uri: string): void {
+    if (!parseResourceUri(uri)) throw new Error(`Unknown resource URI: ${uri}`);
+    subscriptions.set(uri, hash(render(loader.load(), uri)));
+    logger.log('info', 'mcp.resource.subscribe', { uri });
+  }
+
+  function unsubscribe(uri: string): void {
+    subscriptions.delete(uri);
+    logger.log('info', 'mcp.resource.unsubscribe', { uri });
+  }
+
+  function getSubscriptions(): string[] {
+    return [...subscriptions.keys()];
+  }
+
+  /**
+   * Compare the subscribed resources and the resource list with the current model
+   */
+  function checkForChanges(): void {
+    if (subscriptions.size === 0 && listChangedListeners.length === 0) return;
+    const model = loader.load();
+
+    for (const [uri, previous] of subscriptions) {
+      const current = hash(render(model, uri));
+      if (current === previous) continue;
+      subscriptions.set(uri, current);
+      logger.log('info', 'mcp.resource.updated', { uri, removed: current === undefined });
+      for (const listener of updateListeners) listener(uri);
+    }
+
+    const ids = conceptIds(model);
+    if (listedIds !== undefined && ids !== listedIds) {
+      for (const listener of listChangedListeners) listener();
+    }
+    listedIds = ids;
+  }
+
+  // The loader drops its cache when the file changes or the model is saved;
+  // check once the current operation is done, as the file may still be in use
+  function scheduleCheck(): void {
+    if (checkPending) return;
+    checkPending = true;
+    setImmediate(() => {
+      checkPending = false;
+      try {
+        checkForChanges();
+      } catch (err) {
+        logger.log('warn', 'mcp.resource.check.failed', { error: (err as Error)?.message || String(err) });
+      }
+    });
+  }
+  const removeListeners = [loader.onInvalidate(scheduleCheck), manipulator.onSave(scheduleCheck)];
+
+  /**
+   * Call a listener with the URI of each subscribed resource that changed;
+   * returns a function that removes the listener
+   */
+  function onUpdated(listener: (uri: string) => void): () => void {
+    updateListeners.push(listener);
+    return () => {
+      updateListeners = updateListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Call a listener when views or elements are added or removed;
+   * returns a function that removes the listener
+   */
+  function onListChanged(listener: () => void): () => void {
+    if (listedIds === undefined) {
+      try {
+        listedIds = conceptIds(loader.load());
+      } catch (err) {
+        // Compared after the next successful load
+      }
+    }
+    listChangedListeners.push(listener);
+    return () => {
+      listChangedListeners = listChangedListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Stop following the model, e.g. when the client disconnects
+   */
+  function dispose(): void {
+    for (const remove of removeListeners) remove();
+    subscriptions.clear();
+    updateListeners = [];
+    listChangedListeners = [];
+  }
+
+  return {
+    listViews,
+    listElements,
+    readResource,
+    subscribe,
+    unsubscribe,
+    getSubscriptions,
+    checkForChanges,
+    onUpdated,
+    onListChanged,
+    dispose
+  };
+}
+
+export type ResourcesFactory = ReturnType<typeof createResources>;
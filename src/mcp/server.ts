@@ -1,6 +1,9 @@
 import { appService } from '../services/app';
 import { z } from 'zod';
 import { getLogger } from '../utils/logger';
+import { clientFromAuthInfo, readOnlyTools, TOOL_ACCESS } from '../utils/auth';
+import { createResources, parseResourceUri, VIEW_RESOURCE_TEMPLATE, ELEMENT_RESOURCE_TEMPLATE, RESOURCE_MIME_TYPE } from './resources';
+import { createPrompts, PromptResult } from './prompts';
 
 type SdkServer = any;
 
@@ -10,99 +13,164 @@ type SdkServer = any;
 export async function createMcpServer() {
   const tools = appService.tools;
   let sdkServer: SdkServer | null = null;
+  // Removes the resource listeners of sdkServer; called by stop()
+  let disposeSdkServer = () => {};
   const logger = getLogger();
+  // In read-only mode only the listed read tools are registered
+  const readOnly = !!appService.config.readOnly;
+  const allowed = readOnly ? new Set(readOnlyTools(appService.config.readOnlyTools)) : undefined;
+  const exposed = (tool: string) => !allowed || allowed.has(tool);
+  
+  let sdk: { McpServer: any; ResourceTemplate: any; SubscribeRequestSchema: any; UnsubscribeRequestSchema: any } | undefined;
   
   try {
     // Try to load the high-level McpServer (preferred approach)
-    const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+    const { McpServer, ResourceTemplate } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+    const { SubscribeRequestSchema, UnsubscribeRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+    sdk = { McpServer, ResourceTemplate, SubscribeRequestSchema, UnsubscribeRequestSchema };
     
     console.info('MCP: initialising server');
     logger.log('info', 'mcp.init', { message: 'initialising server' });
-    
+    if (readOnly) {
+      console.info(`MCP: read-only mode, registering only ${[...allowed!].join(', ')}`);
+      logger.log('info', 'mcp.readonly', { tools: [...allowed!], hidden: Object.keys(TOOL_ACCESS).filter(tool => !exposed(tool)) });
+    }
+
+    ({ server: sdkServer, dispose: disposeSdkServer } = buildServer(true));
+  } catch (err) {
+    // SDK not available or registration failed; continue with in-process tools only
+    const msg = (err as Error)?.message || String(err);
+    console.warn('MCP SDK not loaded, falling back to in-process tools only:', msg);
+    logger.log('warn', 'mcp.init.fallback', { message: 'SDK not loaded, using in-process tools', error: msg });
+    sdkServer = null;
+  }
+
+  // Build a server with all tools, resources and prompts. A server talks to
+  // one transport at a time, so each HTTP session gets its own; only the
+  // first one logs its registrations.
+  function buildServer(announce: boolean): { server: SdkServer; dispose: () => void } {
+    const { McpServer, ResourceTemplate, SubscribeRequestSchema, UnsubscribeRequestSchema } = sdk!;
+
+    // Register a tool that runs only for clients whose roles allow it; over
+    // HTTP with authentication on, the transport passes the client as authInfo.
+    // Read-only mode leaves out the tools that are not on its list.
+    function registerTool(name: string, config: any, handler: (args: any) => Promise<any>) {
+      if (!exposed(name)) return;
+      server.registerTool(name, config, async (args: any, extra: any) => {
+        await appService.auth.authorize(clientFromAuthInfo(extra?.authInfo), name, args);
+        return handler(args);
+      });
+    }
+
+    function registered(tool: string) {
+      if (!announce || !exposed(tool)) return;
+      console.info(`MCP: registered tool: ${tool}`);
+      logger.log('info', 'mcp.tool.register', { tool, highLevel: true });
+    }
+
+    // Resources and prompts stand in for the read tools, so read-only mode leaves them out with those tools
+    const viewsExposed = exposed('GetViewDetails');
+    const elementsExposed = exposed('GetElementDetails');
     const server = new McpServer(
       { name: 'ArchiScribe MCP', version: '1.0.0' }, 
-      { capabilities: { tools: { listChanged: true } } }
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          ...(viewsExposed || elementsExposed ? { resources: { subscribe: true, listChanged: true }, prompts: { listChanged: true } } : {})
+        }
+      }
     );
 
     // Register the SearchViews tool
-    server.registerTool(
+    registerTool(
       'SearchViews',
       {
         title: 'Search Views',
-        description: 'Search view names in the ArchiMate model',
+        description: 'Search views in the ArchiMate model by name, documentation or property values. Results are ranked by relevance and tolerate small typos. Results come in pages of 50 by default; pass nextCursor to get the next page.',
         inputSchema: { 
-          query: z.string().optional().describe('Search keyword to filter view names') 
+          query: z.string().optional().describe('Words to search for; without a query, all views are listed'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names and documentation; defaults to the configured language'),
+          limit: z.number().int().min(1).max(500).optional().describe('Results per page (default: 50, max: 500)'),
+          offset: z.number().int().min(0).optional().describe('Results to skip (default: 0)'),
+          cursor: z.string().optional().describe('nextCursor of the previous page, to get the next page'),
+          sort: z.enum(['relevance', 'name', 'model']).optional().describe('Result order: relevance (default with a query), name, or model order (default without a query)')
         },
       },
-      async (args: { query?: string }) => {
-        const out = await tools.searchViewsHandler({ query: args?.query });
+      async (args: { query?: string; language?: string; limit?: number; offset?: number; cursor?: string; sort?: 'relevance' | 'name' | 'model' }) => {
+        const out = await tools.searchViewsHandler(args);
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: SearchViews');
-    logger.log('info', 'mcp.tool.register', { tool: 'SearchViews', highLevel: true });
+    registered('SearchViews');
 
     // Register the GetViewDetails tool
-    server.registerTool(
+    registerTool(
       'GetViewDetails',
       {
         title: 'Get View Details',
-        description: 'Get detailed markdown for a named view in the ArchiMate model',
+        description: 'Get detailed markdown for a named view in the ArchiMate model. Large views can be summarized to fit maxTokens: first without properties, then with shortened documentation, then with elements grouped by type; the result says what was left out.',
         inputSchema: { 
-          viewname: z.string().describe('The exact name of the view to retrieve details for') 
+          viewname: z.string().describe('The exact name of the view to retrieve details for'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names and documentation; defaults to the configured language'),
+          maxTokens: z.number().int().min(1).optional().describe('Token budget (about four characters per token); the view is summarized until it fits'),
+          detail: z.enum(['full', 'compact', 'brief', 'summary']).optional().describe('Most detailed level to show: full (default), compact (no properties), brief (no properties, short documentation) or summary (elements grouped by type)')
         },
       },
-      async (args: { viewname: string }) => {
-        const out = await tools.getViewDetailsHandler({ viewname: args.viewname });
+      async (args: { viewname: string; language?: string; maxTokens?: number; detail?: 'full' | 'compact' | 'brief' | 'summary' }) => {
+        const out = await tools.getViewDetailsHandler({ viewname: args.viewname, language: args.language, maxTokens: args.maxTokens, detail: args.detail });
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: GetViewDetails');
-    logger.log('info', 'mcp.tool.register', { tool: 'GetViewDetails', highLevel: true });
+    registered('GetViewDetails');
 
     // Register the SearchElements tool
-    server.registerTool(
+    registerTool(
       'SearchElements',
       {
         title: 'Search Elements',
-        description: 'Search elements in the ArchiMate model by name, type, or documentation',
+        description: 'Search elements in the ArchiMate model by name, type, documentation or property values. Results are ranked by relevance, with scores and the matching fields highlighted, and tolerate small typos. Results come in pages of 50 by default; pass nextCursor to get the next page.',
         inputSchema: { 
-          query: z.string().optional().describe('Search keyword to filter element names, documentation, and properties'),
-          type: z.string().optional().describe('Filter elements by type')
+          query: z.string().optional().describe('Words to search for in element names, documentation and property values'),
+          type: z.string().optional().describe('Filter elements by type'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names and documentation; defaults to the configured language'),
+          limit: z.number().int().min(1).max(500).optional().describe('Results per page (default: 50, max: 500)'),
+          offset: z.number().int().min(0).optional().describe('Results to skip (default: 0)'),
+          cursor: z.string().optional().describe('nextCursor of the previous page, to get the next page'),
+          sort: z.enum(['relevance', 'name', 'type', 'model']).optional().describe('Result order: relevance (default with a query), name, type, or model order (default without a query)')
         },
       },
-      async (args: { query?: string, type?: string }) => {
-        const out = await tools.searchElementsHandler({ query: args?.query, type: args?.type });
+      async (args: { query?: string; type?: string; language?: string; limit?: number; offset?: number; cursor?: string; sort?: 'relevance' | 'name' | 'type' | 'model' }) => {
+        const out = await tools.searchElementsHandler(args);
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: SearchElements');
-    logger.log('info', 'mcp.tool.register', { tool: 'SearchElements', highLevel: true });
+    registered('SearchElements');
 
     // Register the GetElementDetails tool
-    server.registerTool(
+    registerTool(
       'GetElementDetails',
       {
         title: 'Get Element Details',
         description: 'Get detailed markdown for a named element in the ArchiMate model',
         inputSchema: { 
-          elementname: z.string().describe('The name of the element to retrieve details for') 
+          elementname: z.string().describe('The name of the element to retrieve details for'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names and documentation; defaults to the configured language'),
+          includeDerived: z.boolean().optional().describe('Also list up to 20 valid derived relationships of the element (default: false)')
         },
       },
-      async (args: { elementname: string }) => {
-        const out = await tools.getElementDetailsHandler({ elementname: args.elementname });
+      async (args: { elementname: string; language?: string; includeDerived?: boolean }) => {
+        const out = await tools.getElementDetailsHandler({ elementname: args.elementname, language: args.language, includeDerived: args.includeDerived });
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: GetElementDetails');
-    logger.log('info', 'mcp.tool.register', { tool: 'GetElementDetails', highLevel: true });
+    registered('GetElementDetails');
 
     // ============================================================================
     // Element Management Tools
     // ============================================================================
 
     // Register the CreateElement tool
-    server.registerTool(
+    registerTool(
       'CreateElement',
       {
         title: 'Create Element',
@@ -113,19 +181,19 @@ export async function createMcpServer() {
           identifier: z.string().optional().describe('Element identifier (auto-generated if not provided)'),
           documentation: z.string().optional().describe('Element documentation'),
           properties: z.record(z.string()).optional().describe('Custom properties as key-value pairs'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") of the name and documentation; text in other languages is kept'),
           autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
         },
       },
-      async (args: { type: string; name: string; identifier?: string; documentation?: string; properties?: Record<string, string>; autoSave?: boolean }) => {
+      async (args: { type: string; name: string; identifier?: string; documentation?: string; properties?: Record<string, string>; language?: string; autoSave?: boolean }) => {
         const out = await tools.createElementHandler(args);
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: CreateElement');
-    logger.log('info', 'mcp.tool.register', { tool: 'CreateElement', highLevel: true });
+    registered('CreateElement');
 
     // Register the UpdateElement tool
-    server.registerTool(
+    registerTool(
       'UpdateElement',
       {
         title: 'Update Element',
@@ -136,19 +204,19 @@ export async function createMcpServer() {
           type: z.string().optional().describe('Updated element type'),
           documentation: z.string().optional().describe('Updated element documentation'),
           properties: z.record(z.string()).optional().describe('Updated custom properties as key-value pairs'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") of the name and documentation; text in other languages is kept'),
           autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
         },
       },
-      async (args: { identifier: string; name?: string; type?: string; documentation?: string; properties?: Record<string, string>; autoSave?: boolean }) => {
+      async (args: { identifier: string; name?: string; type?: string; documentation?: string; properties?: Record<string, string>; language?: string; autoSave?: boolean }) => {
         const out = await tools.updateElementHandler(args);
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: UpdateElement');
-    logger.log('info', 'mcp.tool.register', { tool: 'UpdateElement', highLevel: true });
+    registered('UpdateElement');
 
     // Register the DeleteElement tool
-    server.registerTool(
+    registerTool(
       'DeleteElement',
       {
         title: 'Delete Element',
@@ -164,19 +232,18 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: DeleteElement');
-    logger.log('info', 'mcp.tool.register', { tool: 'DeleteElement', highLevel: true });
+    registered('DeleteElement');
 
     // ============================================================================
     // Relationship Management Tools
     // ============================================================================
 
     // Register the CreateRelationship tool
-    server.registerTool(
+    registerTool(
       'CreateRelationship',
       {
         title: 'Create Relationship',
-        description: 'Create a new relationship between elements in the ArchiMate model. ⚠️ WARNING: If autoSave is true, changes are saved without backup. Create a backup first using SaveModel with createBackup: true.',
+        description: 'Create a new relationship between elements in the ArchiMate model. The relationship type must be allowed between the source and target element types by the ArchiMate 3.2 relationship table; otherwise the allowed types are listed in the error. ⚠️ WARNING: If autoSave is true, changes are saved without backup. Create a backup first using SaveModel with createBackup: true.',
         inputSchema: {
           type: z.string().describe('ArchiMate relationship type (e.g., Serving, Access, Composition)'),
           sourceId: z.string().describe('Source element identifier'),
@@ -185,19 +252,19 @@ export async function createMcpServer() {
           name: z.string().optional().describe('Relationship name'),
           documentation: z.string().optional().describe('Relationship documentation'),
           properties: z.record(z.string()).optional().describe('Custom properties as key-value pairs'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") of the name and documentation; text in other languages is kept'),
           autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
         },
       },
-      async (args: { type: string; sourceId: string; targetId: string; identifier?: string; name?: string; documentation?: string; properties?: Record<string, string>; autoSave?: boolean }) => {
+      async (args: { type: string; sourceId: string; targetId: string; identifier?: string; name?: string; documentation?: string; properties?: Record<string, string>; language?: string; autoSave?: boolean }) => {
         const out = await tools.createRelationshipHandler(args);
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: CreateRelationship');
-    logger.log('info', 'mcp.tool.register', { tool: 'CreateRelationship', highLevel: true });
+    registered('CreateRelationship');
 
     // Register the UpdateRelationship tool
-    server.registerTool(
+    registerTool(
       'UpdateRelationship',
       {
         title: 'Update Relationship',
@@ -210,19 +277,19 @@ export async function createMcpServer() {
           name: z.string().optional().describe('Updated relationship name'),
           documentation: z.string().optional().describe('Updated relationship documentation'),
           properties: z.record(z.string()).optional().describe('Updated custom properties as key-value pairs'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") of the name and documentation; text in other languages is kept'),
           autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
         },
       },
-      async (args: { identifier: string; type?: string; sourceId?: string; targetId?: string; name?: string; documentation?: string; properties?: Record<string, string>; autoSave?: boolean }) => {
+      async (args: { identifier: string; type?: string; sourceId?: string; targetId?: string; name?: string; documentation?: string; properties?: Record<string, string>; language?: string; autoSave?: boolean }) => {
         const out = await tools.updateRelationshipHandler(args);
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: UpdateRelationship');
-    logger.log('info', 'mcp.tool.register', { tool: 'UpdateRelationship', highLevel: true });
+    registered('UpdateRelationship');
 
     // Register the DeleteRelationship tool
-    server.registerTool(
+    registerTool(
       'DeleteRelationship',
       {
         title: 'Delete Relationship',
@@ -237,15 +304,14 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: DeleteRelationship');
-    logger.log('info', 'mcp.tool.register', { tool: 'DeleteRelationship', highLevel: true });
+    registered('DeleteRelationship');
 
     // ============================================================================
     // View Management Tools
     // ============================================================================
 
     // Register the CreateView tool
-    server.registerTool(
+    registerTool(
       'CreateView',
       {
         title: 'Create View',
@@ -263,6 +329,7 @@ export async function createMcpServer() {
             parentElement: z.string(),
             childElement: z.string()
           })).optional().describe('Node hierarchy (parent-child relationships)'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") of the name and documentation; text in other languages is kept'),
           autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
         },
       },
@@ -271,11 +338,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: CreateView');
-    logger.log('info', 'mcp.tool.register', { tool: 'CreateView', highLevel: true });
+    registered('CreateView');
 
     // Register the UpdateView tool
-    server.registerTool(
+    registerTool(
       'UpdateView',
       {
         title: 'Update View',
@@ -293,6 +359,7 @@ export async function createMcpServer() {
             parentElement: z.string(),
             childElement: z.string()
           })).optional().describe('Updated node hierarchy (parent-child relationships)'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") of the name and documentation; text in other languages is kept'),
           autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
         },
       },
@@ -301,11 +368,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: UpdateView');
-    logger.log('info', 'mcp.tool.register', { tool: 'UpdateView', highLevel: true });
+    registered('UpdateView');
 
     // Register the AddElementToView tool
-    server.registerTool(
+    registerTool(
       'AddElementToView',
       {
         title: 'Add Element to View',
@@ -322,11 +388,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: AddElementToView');
-    logger.log('info', 'mcp.tool.register', { tool: 'AddElementToView', highLevel: true });
+    registered('AddElementToView');
 
     // Register the RemoveElementFromView tool
-    server.registerTool(
+    registerTool(
       'RemoveElementFromView',
       {
         title: 'Remove Element from View',
@@ -342,11 +407,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: RemoveElementFromView');
-    logger.log('info', 'mcp.tool.register', { tool: 'RemoveElementFromView', highLevel: true });
+    registered('RemoveElementFromView');
 
     // Register the DeleteView tool
-    server.registerTool(
+    registerTool(
       'DeleteView',
       {
         title: 'Delete View',
@@ -361,21 +425,381 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: DeleteView');
-    logger.log('info', 'mcp.tool.register', { tool: 'DeleteView', highLevel: true });
+    registered('DeleteView');
+
+    // ============================================================================
+    // Organization (Folder) Tools
+    // ============================================================================
+
+    // Register the ListFolders tool
+    registerTool(
+      'ListFolders',
+      {
+        title: 'List Folders',
+        description: 'List the folder structure (organizations) of the ArchiMate model',
+        inputSchema: {
+          includeItems: z.boolean().optional().describe('If true, list the elements, relationships and views in each folder')
+        },
+      },
+      async (args: { includeItems?: boolean }) => {
+        const out = await tools.listFoldersHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('ListFolders');
+
+    // Register the MoveToFolder tool
+    registerTool(
+      'MoveToFolder',
+      {
+        title: 'Move to Folder',
+        description: 'Move an element, relationship or view to another folder in the ArchiMate model. ⚠️ WARNING: If autoSave is true, changes are saved without backup. Create a backup first using SaveModel with createBackup: true.',
+        inputSchema: {
+          identifier: z.string().describe('Identifier of the element, relationship or view to move'),
+          folder: z.string().describe('Target folder identifier or path (e.g. "Business/Customers")'),
+          autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
+        },
+      },
+      async (args: { identifier: string; folder: string; autoSave?: boolean }) => {
+        const out = await tools.moveToFolderHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('MoveToFolder');
+
+    // ============================================================================
+    // Model Metadata Tools
+    // ============================================================================
+
+    // Register the GetModelMetadata tool
+    registerTool(
+      'GetModelMetadata',
+      {
+        title: 'Get Model Metadata',
+        description: 'Get the model name, identifier, documentation, Dublin Core metadata and model properties',
+        inputSchema: {},
+      },
+      async () => {
+        const out = await tools.getModelMetadataHandler();
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('GetModelMetadata');
+
+    // Register the UpdateModelMetadata tool
+    registerTool(
+      'UpdateModelMetadata',
+      {
+        title: 'Update Model Metadata',
+        description: 'Update the model name, documentation, Dublin Core metadata or model properties. ⚠️ WARNING: If autoSave is true, changes are saved without backup. Create a backup first using SaveModel with createBackup: true.',
+        inputSchema: {
+          name: z.string().optional().describe('New model name'),
+          documentation: z.string().optional().describe('New model documentation (empty string removes it)'),
+          metadata: z.record(z.union([z.string(), z.array(z.string())])).optional().describe('Dublin Core fields to set, e.g. { "creator": ["EA Team", "Security Office"], "date": "2025-01-31" }; a list repeats the element. An empty value removes the field. Not supported for Archi native models.'),
+          properties: z.record(z.string()).optional().describe('Model properties keyed by property definition ID (replaces all model properties)'),
+          autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
+        },
+      },
+      async (args: { name?: string; documentation?: string; metadata?: Record<string, string | string[]>; properties?: Record<string, string>; autoSave?: boolean }) => {
+        const out = await tools.updateModelMetadataHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('UpdateModelMetadata');
+
+    // ============================================================================
+    // Batch Operations Tools
+    // ============================================================================
+
+    // Register the BatchOperations tool
+    registerTool(
+      'BatchOperations',
+      {
+        title: 'Batch Operations',
+        description: 'Run a list of create/update/delete steps on elements, relationships and views as one transaction: either all steps are applied, or none. The model is validated once after the last step. Give new concepts an identifier to refer to them in later steps. ⚠️ WARNING: If autoSave is true, changes are saved without backup. Create a backup first using SaveModel with createBackup: true.',
+        inputSchema: {
+          operations: z.array(z.object({
+            action: z.enum([
+              'createElement', 'updateElement', 'deleteElement',
+              'createRelationship', 'updateRelationship', 'deleteRelationship',
+              'createView', 'updateView', 'deleteView',
+              'addElementToView', 'removeElementFromView'
+            ]).describe('Operation to run'),
+            identifier: z.string().optional().describe('Identifier of the concept to create, update or delete'),
+            type: z.string().optional().describe('Element or relationship type'),
+            name: z.string().optional().describe('Name'),
+            documentation: z.string().optional().describe('Documentation'),
+            properties: z.record(z.string()).optional().describe('Custom properties as key-value pairs'),
+            language: z.string().optional().describe('Language (xml:lang code) of the name and documentation'),
+            sourceId: z.string().optional().describe('Relationship source element identifier'),
+            targetId: z.string().optional().describe('Relationship target element identifier'),
+            cascade: z.boolean().optional().describe('For deleteElement: also delete dependent relationships (default: true)'),
+            viewpoint: z.string().optional().describe('View viewpoint'),
+            elements: z.array(z.string()).optional().describe('Element IDs in the view'),
+            relationships: z.array(z.string()).optional().describe('Relationship IDs in the view'),
+            viewId: z.string().optional().describe('View identifier for addElementToView/removeElementFromView'),
+            elementId: z.string().optional().describe('Element identifier for addElementToView/removeElementFromView'),
+            parentElementId: z.string().optional().describe('Parent element identifier for addElementToView')
+          })).describe('Steps to run in order'),
+          autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
+        },
+      },
+      async (args: any) => {
+        const out = await tools.batchOperationsHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('BatchOperations');
+
+    // ============================================================================
+    // Edit History Tools
+    // ============================================================================
+
+    // Register the Undo tool
+    registerTool(
+      'Undo',
+      {
+        title: 'Undo',
+        description: 'Undo the most recent edits. Each step is one earlier tool call (e.g. UpdateElement, DeleteRelationship or a whole BatchOperations call); use GetEditHistory to see what each step changed. The history is kept in memory and cleared when another model is loaded. ⚠️ WARNING: If autoSave is true, changes are saved without backup. Create a backup first using SaveModel with createBackup: true.',
+        inputSchema: {
+          steps: z.number().int().min(1).optional().describe('Number of steps to undo (default: 1)'),
+          autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
+        },
+      },
+      async (args: { steps?: number; autoSave?: boolean }) => {
+        const out = await tools.undoHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('Undo');
+
+    // Register the Redo tool
+    registerTool(
+      'Redo',
+      {
+        title: 'Redo',
+        description: 'Redo edits that were undone with Undo. Any new edit after an undo clears the steps that can be redone. ⚠️ WARNING: If autoSave is true, changes are saved without backup. Create a backup first using SaveModel with createBackup: true.',
+        inputSchema: {
+          steps: z.number().int().min(1).optional().describe('Number of steps to redo (default: 1)'),
+          autoSave: z.boolean().optional().describe('If true, automatically save after operation without backup (default: false). ⚠️ WARNING: Ensure backups are managed externally.')
+        },
+      },
+      async (args: { steps?: number; autoSave?: boolean }) => {
+        const out = await tools.redoHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('Redo');
+
+    // Register the GetEditHistory tool
+    registerTool(
+      'GetEditHistory',
+      {
+        title: 'Get Edit History',
+        description: 'List the edits that can be undone (most recent first) and redone, with the tool call that made each step and what it changed',
+        inputSchema: {},
+      },
+      async () => {
+        const out = await tools.getEditHistoryHandler();
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('GetEditHistory');
+
+    // ============================================================================
+    // Model Diff Tools
+    // ============================================================================
+
+    // Register the DiffModels tool
+    registerTool(
+      'DiffModels',
+      {
+        title: 'Diff Models',
+        description: 'Compare two ArchiMate models and list the added, removed and changed elements, relationships, views, properties and view membership, matched by identifier. Without paths, compares the saved model file with the current model in memory (i.e. the unsaved changes). To review a revision, compare the two model files.',
+        inputSchema: {
+          basePath: z.string().optional().describe('Model file to compare from (default: the current model file as saved on disk)'),
+          targetPath: z.string().optional().describe('Model file to compare to (default: the current model in memory, including unsaved changes)'),
+          format: z.enum(['markdown', 'json']).optional().describe('Output format of the text result (default: markdown)')
+        },
+      },
+      async (args: { basePath?: string; targetPath?: string; format?: 'markdown' | 'json' }) => {
+        const out = await tools.diffModelsHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('DiffModels');
+
+    // ============================================================================
+    // Model Merge Tools
+    // ============================================================================
+
+    // Register the MergeModels tool
+    registerTool(
+      'MergeModels',
+      {
+        title: 'Merge Models',
+        description: 'Three-way merge of ArchiMate model files: combines the changes "ours" and "theirs" each made to a common "base" version, and writes the merged model in Exchange Format. Non-conflicting changes to elements, relationships, views, properties and folders are merged automatically. Conflicts (e.g. the same element renamed differently on both sides, or modified on one side and deleted on the other) are listed; nothing is written unless "prefer" says which side wins them. The currently loaded model is not changed; load the result with SetModelPath.',
+        inputSchema: {
+          basePath: z.string().describe('Common ancestor of both versions'),
+          oursPath: z.string().describe('Our version of the model'),
+          theirsPath: z.string().describe('Their version of the model'),
+          outputPath: z.string().describe('File to write the merged model to'),
+          prefer: z.enum(['ours', 'theirs']).optional().describe('Side that wins conflicts. Without it, a merge with conflicts only reports them.'),
+          overwrite: z.boolean().optional().describe('Replace outputPath if it already exists (default: false)')
+        },
+      },
+      async (args: { basePath: string; oursPath: string; theirsPath: string; outputPath: string; prefer?: 'ours' | 'theirs'; overwrite?: boolean }) => {
+        const out = await tools.mergeModelsHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('MergeModels');
+
+    // ============================================================================
+    // Impact Analysis Tools
+    // ============================================================================
+
+    // Register the AnalyzeImpact tool
+    registerTool(
+      'AnalyzeImpact',
+      {
+        title: 'Analyze Impact',
+        description: 'Find the elements a change to an element may affect, by following relationships transitively up to a depth limit. Returns the affected elements grouped by layer (with the relationship each was reached through) and the views that show the element or an affected element and may need updating. "outgoing" follows relationships from source to target: through Serving, Realization, Assignment, Triggering and Flow these are the elements that depend on the start element (e.g. everything a Node serves or realizes). "incoming" follows them backwards: what the start element depends on.',
+        inputSchema: {
+          identifier: z.string().optional().describe('Identifier of the start element'),
+          elementname: z.string().optional().describe('Name of the start element, when no identifier is given'),
+          direction: z.enum(['outgoing', 'incoming', 'both']).optional().describe('Direction to follow relationships in (default: outgoing)'),
+          relationshipTypes: z.array(z.string()).optional().describe('Relationship types to follow, e.g. ["Serving", "Realization"] (default: all)'),
+          maxDepth: z.number().int().min(1).max(10).optional().describe('Number of relationships to follow from the start element (default: 3, max: 10)'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names; defaults to the configured language')
+        },
+      },
+      async (args: { identifier?: string; elementname?: string; direction?: 'outgoing' | 'incoming' | 'both'; relationshipTypes?: string[]; maxDepth?: number; language?: string }) => {
+        const out = await tools.analyzeImpactHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('AnalyzeImpact');
+
+    // ============================================================================
+    // Path Finding Tools
+    // ============================================================================
+
+    // Register the FindPaths tool
+    registerTool(
+      'FindPaths',
+      {
+        title: 'Find Paths',
+        description: 'Find how two elements are connected: returns the shortest and the k-shortest relationship paths between them, each rendered as a chain of elements and relationships (e.g. **CRM** —[Flow "customer data"]→ **ETL** ←[Serving]— **Data Warehouse**). Use this instead of calling GetElementDetails repeatedly. Relationships are followed in both directions unless directed is true.',
+        inputSchema: {
+          sourceId: z.string().optional().describe('Identifier of the element to start from'),
+          sourceName: z.string().optional().describe('Name of the element to start from, when no sourceId is given'),
+          targetId: z.string().optional().describe('Identifier of the element to reach'),
+          targetName: z.string().optional().describe('Name of the element to reach, when no targetId is given'),
+          relationshipTypes: z.array(z.string()).optional().describe('Relationship types to follow, e.g. ["Flow", "Serving"] (default: all)'),
+          maxHops: z.number().int().min(1).max(10).optional().describe('Longest path to return, in relationships (default: 6, max: 10)'),
+          k: z.number().int().min(1).max(10).optional().describe('Number of paths to return, shortest first (default: 3, max: 10)'),
+          directed: z.boolean().optional().describe('Only follow relationships from their source to their target (default: false)'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names; defaults to the configured language')
+        },
+      },
+      async (args: { sourceId?: string; sourceName?: string; targetId?: string; targetName?: string; relationshipTypes?: string[]; maxHops?: number; k?: number; directed?: boolean; language?: string }) => {
+        const out = await tools.findPathsHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('FindPaths');
+
+    // ============================================================================
+    // Derived Relationships Tools
+    // ============================================================================
+
+    // Register the GetDerivedRelationships tool
+    registerTool(
+      'GetDerivedRelationships',
+      {
+        title: 'Get Derived Relationships',
+        description: 'List relationships implied by chains of modelled relationships according to the ArchiMate derivation rules, e.g. a Node assigned to a component that serves a process derives "Node serves process". Valid derivations always hold; potential derivations may hold depending on what the relationships mean and are listed separately. Each derived relationship shows the chain of modelled relationships it runs through. Give a source and/or target element to narrow the result; without either, the whole model is analyzed.',
+        inputSchema: {
+          sourceId: z.string().optional().describe('Identifier of the element the derived relationships start from'),
+          sourceName: z.string().optional().describe('Name of the source element, when no sourceId is given'),
+          targetId: z.string().optional().describe('Identifier of the element the derived relationships end at'),
+          targetName: z.string().optional().describe('Name of the target element, when no targetId is given'),
+          relationshipTypes: z.array(z.string()).optional().describe('Derived relationship types to list, e.g. ["Serving"] (default: all)'),
+          includePotential: z.boolean().optional().describe('Include potential derivations (default: true)'),
+          maxChainLength: z.number().int().min(2).max(8).optional().describe('Longest chain of modelled relationships to derive through (default: 4, max: 8)'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names; defaults to the configured language')
+        },
+      },
+      async (args: { sourceId?: string; sourceName?: string; targetId?: string; targetName?: string; relationshipTypes?: string[]; includePotential?: boolean; maxChainLength?: number; language?: string }) => {
+        const out = await tools.getDerivedRelationshipsHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('GetDerivedRelationships');
+
+    // ============================================================================
+    // Model Query Tools
+    // ============================================================================
+
+    // Register the QueryModel tool
+    registerTool(
+      'QueryModel',
+      {
+        title: 'Query Model',
+        description: 'Run a Cypher-like query over the model, e.g. MATCH (a:ApplicationComponent)-[:Serving]->(b:BusinessProcess) WHERE a.properties.Owner = \'Finance\' RETURN a, b. Nodes are elements labelled with their type, relationships are labelled with theirs; -[...]-> and <-[...]- follow a direction, -[...]- either. WHERE supports AND, OR, NOT, =, <>, <, >, CONTAINS, STARTS WITH, ENDS WITH, IN [...], =~ and IS [NOT] NULL on id, name, type, documentation, layer and properties.<name>. RETURN supports count(*), AS, DISTINCT, ORDER BY, SKIP and LIMIT. Returns a Markdown table, or JSON with format "json".',
+        inputSchema: {
+          query: z.string().describe('The query, e.g. MATCH (a:Node)-[:Assignment]->(b) RETURN a.name, b.name'),
+          format: z.enum(['markdown', 'json']).optional().describe('Output format (default: markdown table)'),
+          explain: z.boolean().optional().describe('Include the query plan in the output (default: false)'),
+          language: z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names; defaults to the configured language')
+        },
+      },
+      async (args: { query: string; format?: 'markdown' | 'json'; explain?: boolean; language?: string }) => {
+        const out = await tools.queryModelHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('QueryModel');
+
+    // ============================================================================
+    // Semantic Search Tools
+    // ============================================================================
+
+    // Register the SemanticSearch tool
+    registerTool(
+      'SemanticSearch',
+      {
+        title: 'Semantic Search',
+        description: 'Find elements and views by meaning, for conceptual questions such as "which components handle payments" that keyword search misses. Uses a local embedding model (no network calls) and, by default, combines similarity of meaning with keyword relevance. Requires semantic search to be enabled in the server configuration.',
+        inputSchema: {
+          query: z.string().describe('Question or description of what to find'),
+          kinds: z.array(z.enum(['element', 'view'])).optional().describe('Kinds of concepts to search (default: elements and views)'),
+          type: z.string().optional().describe('Only elements of this type, e.g. "ApplicationComponent"'),
+          mode: z.enum(['hybrid', 'semantic', 'keyword']).optional().describe('Rank by meaning and keywords (hybrid, default), by meaning only, or by keywords only'),
+          semanticWeight: z.number().min(0).max(1).optional().describe('Weight of meaning against keywords in hybrid mode (default: 0.7)'),
+          limit: z.number().int().min(1).max(100).optional().describe('Most results to return (default: 10)')
+        },
+      },
+      async (args: { query: string; kinds?: Array<'element' | 'view'>; type?: string; mode?: 'hybrid' | 'semantic' | 'keyword'; semanticWeight?: number; limit?: number }) => {
+        const out = await tools.semanticSearchHandler(args);
+        return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
+      }
+    );
+    registered('SemanticSearch');
 
     // ============================================================================
     // Validation Tools
     // ============================================================================
 
     // Register the ValidateModel tool
-    server.registerTool(
+    registerTool(
       'ValidateModel',
       {
         title: 'Validate Model',
         description: 'Validate the entire ArchiMate model (XSD, business rules, referential integrity)',
         inputSchema: {
-          strict: z.boolean().optional().describe('If true, use strict validation mode'),
+          strict: z.boolean().optional().describe('If true, report relationships not allowed by the ArchiMate 3.2 relationship table as errors instead of warnings'),
           includeWarnings: z.boolean().optional().describe('If true, include warnings in validation report')
         },
       },
@@ -384,11 +808,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: ValidateModel');
-    logger.log('info', 'mcp.tool.register', { tool: 'ValidateModel', highLevel: true });
+    registered('ValidateModel');
 
     // Register the ValidateElement tool
-    server.registerTool(
+    registerTool(
       'ValidateElement',
       {
         title: 'Validate Element',
@@ -402,11 +825,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: ValidateElement');
-    logger.log('info', 'mcp.tool.register', { tool: 'ValidateElement', highLevel: true });
+    registered('ValidateElement');
 
     // Register the ValidateRelationship tool
-    server.registerTool(
+    registerTool(
       'ValidateRelationship',
       {
         title: 'Validate Relationship',
@@ -420,15 +842,14 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: ValidateRelationship');
-    logger.log('info', 'mcp.tool.register', { tool: 'ValidateRelationship', highLevel: true });
+    registered('ValidateRelationship');
 
     // ============================================================================
     // Model Persistence Tools
     // ============================================================================
 
     // Register the SaveModel tool
-    server.registerTool(
+    registerTool(
       'SaveModel',
       {
         title: 'Save Model',
@@ -444,11 +865,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: SaveModel');
-    logger.log('info', 'mcp.tool.register', { tool: 'SaveModel', highLevel: true });
+    registered('SaveModel');
 
     // Register the GetModelPath tool
-    server.registerTool(
+    registerTool(
       'GetModelPath',
       {
         title: 'Get Model Path',
@@ -460,11 +880,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: GetModelPath');
-    logger.log('info', 'mcp.tool.register', { tool: 'GetModelPath', highLevel: true });
+    registered('GetModelPath');
 
     // Register the SetModelPath tool
-    server.registerTool(
+    registerTool(
       'SetModelPath',
       {
         title: 'Set Model Path',
@@ -478,11 +897,10 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: SetModelPath');
-    logger.log('info', 'mcp.tool.register', { tool: 'SetModelPath', highLevel: true });
+    registered('SetModelPath');
 
     // Register the CreateModel tool
-    server.registerTool(
+    registerTool(
       'CreateModel',
       {
         title: 'Create Model',
@@ -498,16 +916,155 @@ export async function createMcpServer() {
         return { content: [{ type: 'text', text: out.markdown }], structuredContent: out };
       }
     );
-    console.info('MCP: registered tool: CreateModel');
-    logger.log('info', 'mcp.tool.register', { tool: 'CreateModel', highLevel: true });
+    registered('CreateModel');
 
-    sdkServer = server;
-  } catch (err) {
-    // SDK not available or registration failed; continue with in-process tools only
-    const msg = (err as Error)?.message || String(err);
-    console.warn('MCP SDK not loaded, falling back to in-process tools only:', msg);
-    logger.log('warn', 'mcp.init.fallback', { message: 'SDK not loaded, using in-process tools', error: msg });
-    sdkServer = null;
+    // Resources and prompts show what the read tools show: they are allowed
+    // to the clients that may call those tools, and audited like tool calls
+    async function authorizedRead<T>(extra: any, tool: string, request: string, params: Record<string, unknown>, read: () => T | Promise<T>): Promise<T> {
+      await appService.auth.authorize(clientFromAuthInfo(extra?.authInfo), tool, params);
+      return logger.auditToolInvocation(request, params, async () => read());
+    }
+
+    // Lists leave out what the client may not see, so one narrow role does not fail resources/list
+    function mayList(extra: any, tool: string): boolean {
+      const client = clientFromAuthInfo(extra?.authInfo);
+      return !client || appService.auth.isAllowed(client, tool);
+    }
+
+    const resourceTool = (uri: string) => parseResourceUri(uri)?.kind === 'element' ? 'GetElementDetails' : 'GetViewDetails';
+
+    // Register views and elements as resources
+    const resources = createResources(tools);
+    const templates: string[] = [];
+    if (viewsExposed) {
+      server.registerResource(
+        'view',
+        new ResourceTemplate(VIEW_RESOURCE_TEMPLATE, { list: async (extra: any) => ({ resources: mayList(extra, 'SearchViews') ? resources.listViews() : [] }) }),
+        {
+          title: 'ArchiMate View',
+          description: 'A view of the ArchiMate model with its elements and relationships, as markdown',
+          mimeType: RESOURCE_MIME_TYPE
+        },
+        async (uri: URL, _variables: unknown, extra: any) => authorizedRead(extra, 'GetViewDetails', 'resources/read', { uri: uri.href }, () => ({ contents: [resources.readResource(uri.href)] }))
+      );
+      templates.push(VIEW_RESOURCE_TEMPLATE);
+    }
+    if (elementsExposed) {
+      server.registerResource(
+        'element',
+        new ResourceTemplate(ELEMENT_RESOURCE_TEMPLATE, { list: async (extra: any) => ({ resources: mayList(extra, 'SearchElements') ? resources.listElements() : [] }) }),
+        {
+          title: 'ArchiMate Element',
+          description: 'An element of the ArchiMate model with its properties, views and relationships, as markdown',
+          mimeType: RESOURCE_MIME_TYPE
+        },
+        async (uri: URL, _variables: unknown, extra: any) => authorizedRead(extra, 'GetElementDetails', 'resources/read', { uri: uri.href }, () => ({ contents: [resources.readResource(uri.href)] }))
+      );
+      templates.push(ELEMENT_RESOURCE_TEMPLATE);
+    }
+    if (templates.length > 0) {
+      server.server.setRequestHandler(SubscribeRequestSchema, async (request: { params: { uri: string } }, extra: any) => {
+        const { uri } = request.params;
+        const tool = resourceTool(uri);
+        if (!exposed(tool)) throw new Error(`Unknown resource URI: ${uri}`);
+        return authorizedRead(extra, tool, 'resources/subscribe', { uri }, () => {
+          resources.subscribe(uri);
+          return {};
+        });
+      });
+      server.server.setRequestHandler(UnsubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+        resources.unsubscribe(request.params.uri);
+        return {};
+      });
+      resources.onUpdated(uri => {
+        if (!server.isConnected()) return;
+        server.server.sendResourceUpdated({ uri }).catch((err: unknown) => {
+          logger.log('warn', 'mcp.resource.notify.failed', { uri, error: (err as Error)?.message || String(err) });
+        });
+      });
+      resources.onListChanged(() => server.sendResourceListChanged());
+      if (announce) {
+        console.info(`MCP: registered resources: ${templates.join(', ')}`);
+        logger.log('info', 'mcp.resource.register', { templates });
+      }
+    }
+
+    // Register prompts for common architecture tasks
+    const prompts = createPrompts(tools, exposed);
+    const promptNames: string[] = [];
+    // Register a prompt when the read tool it stands in for is exposed
+    function registerPrompt<A extends Record<string, unknown>>(name: string, tool: string, config: any, get: (args: A) => Promise<PromptResult>) {
+      if (!exposed(tool)) return;
+      server.registerPrompt(name, config, async (args: A, extra: any) => authorizedRead(extra, tool, 'prompts/get', { prompt: name, ...args }, () => get(args)));
+      promptNames.push(name);
+    }
+    const viewArg = z.string().describe('Name of the view');
+    const languageArg = z.string().optional().describe('Language (xml:lang code, e.g. "nl") for names and documentation; defaults to the configured language');
+    registerPrompt(
+      'explain-view',
+      'GetViewDetails',
+      {
+        title: 'Explain View',
+        description: 'Explain a view to a newcomer: its purpose, main elements and how they work together',
+        argsSchema: {
+          view: viewArg,
+          audience: z.string().optional().describe('Who the explanation is for (default: a developer new to the team)'),
+          language: languageArg
+        }
+      },
+      (args: { view: string; audience?: string; language?: string }) => prompts.explainView(args)
+    );
+    registerPrompt(
+      'review-for-gaps',
+      'GetViewDetails',
+      {
+        title: 'Review View for Gaps',
+        description: 'Review a view for missing relationships, documentation and supporting elements',
+        argsSchema: { view: viewArg, language: languageArg }
+      },
+      (args: { view: string; language?: string }) => prompts.reviewForGaps(args)
+    );
+    registerPrompt(
+      'draft-adr-from-view',
+      'GetViewDetails',
+      {
+        title: 'Draft ADR from View',
+        description: 'Draft an Architecture Decision Record based on a view',
+        argsSchema: {
+          view: viewArg,
+          decision: z.string().optional().describe('The decision to record (default: the most significant decision the view reflects)'),
+          language: languageArg
+        }
+      },
+      (args: { view: string; decision?: string; language?: string }) => prompts.draftAdrFromView(args)
+    );
+    registerPrompt(
+      'onboard-to-component',
+      'GetElementDetails',
+      {
+        title: 'Onboard to Component',
+        description: 'Introduce a developer to an element: what it does, its dependencies and the views it appears in',
+        argsSchema: {
+          element: z.string().describe('Name of the element'),
+          language: languageArg
+        }
+      },
+      (args: { element: string; language?: string }) => prompts.onboardToComponent(args)
+    );
+    if (announce && promptNames.length > 0) {
+      console.info(`MCP: registered prompts: ${promptNames.join(', ')}`);
+      logger.log('info', 'mcp.prompt.register', { prompts: promptNames });
+    }
+
+    return { server, dispose: () => resources.dispose() };
+  }
+
+  /**
+   * A new server for an HTTP session; dispose it when the session ends
+   */
+  function createSessionServer(): { server: SdkServer; dispose: () => void } {
+    if (!sdk) throw new Error('MCP SDK not loaded');
+    return buildServer(false);
   }
 
   async function start() {
@@ -521,6 +1078,7 @@ export async function createMcpServer() {
   }
 
   async function stop() {
+    disposeSdkServer();
     if (sdkServer && typeof sdkServer.stop === 'function') {
       await sdkServer.stop();
       logger.log('info', 'mcp.server.stop', { mode: 'sdk' });
@@ -530,5 +1088,5 @@ export async function createMcpServer() {
     return;
   }
 
-  return { start, stop, tools, sdkServer };
+  return { start, stop, tools, sdkServer, createSessionServer };
 }
@@ -0,0 +1,242 @@
+/**
+ * MCP HTTP Sessions
+ *
+ * Stateful Streamable HTTP transport: a client starts a session with an
+ * `initialize` request and gets an `mcp-session-id` header, which it sends
+ * with every later request. Each session has its own transport and server,
+ * so many clients can stay connected at once.
+ *
+ * - POST sends requests; responses may stream as server-sent events
+ * - GET opens a stream for notifications (e.g. `list_changed`, resource
+ *   updates) and progress of long-running tools
+ * - DELETE ends the session
+ *
+ * Events sent on a stream are numbered and kept per session, so a client
+ * that reconnects with `Last-Event-ID` gets the events it missed. Sessions
+ * without requests or an open stream for longer than the idle timeout are
+ * closed.
+ *
+ * @module mcp/sessions
+ */
+
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createJsonRpcError } from '../utils/errors';
+import { getLogger } from '../utils/logger';
+
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+/** Events kept per session for clients that reconnect */
+export const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * A server for one session, as created by `createSessionServer` in `mcp/server`
+ */
+export interface SessionServer {
+  server: { connect(transport: unknown): Promise<void> };
+  dispose(): void;
+}
+
+export interface SessionOptions {
+  /** Close sessions idle for longer than this (default: 30 minutes) */
+  idleTimeoutMs?: number;
+  /** Events kept per session for resuming streams (default: 1000) */
+  maxEvents?: number;
+}
+
+export interface SessionInfo {
+  id: string;
+  createdAt: number;
+  lastActivity: number;
+  openStreams: number;
+}
+
+/**
+ * The last events of the streams of one session, to replay after a reconnect
+ */
+export class SessionEventStore implements EventStore {
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  private counter = 0;
+
+  constructor(private maxEvents: number = DEFAULT_MAX_EVENTS) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.counter}`;
+    this.events.set(eventId, { streamId, message });
+    // Maps keep insertion order: drop the oldest events
+    while (this.events.size > this.maxEvents) {
+      this.events.delete(this.events.keys().next().value as EventId);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(lastEventId: EventId, { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) return '';
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && streamId === last.streamId) {
+        await send(eventId, message);
+      }
+    }
+    return last.streamId;
+  }
+}
+
+interface Session extends SessionInfo {
+  /** Authenticated client that started the session, if authentication is on */
+  clientId?: string;
+  transport: any;
+  server: SessionServer;
+  closed: boolean;
+}
+
+/**
+ * Sessions of the `/mcp` endpoint
+ */
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  private idleTimeoutMs: number;
+  private maxEvents: number;
+  private timer: NodeJS.Timeout;
+
+  constructor(private createServer: () => SessionServer, options: SessionOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_SESSION_TIMEOUT_MINUTES * 60_000;
+    this.maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+    this.timer = setInterval(() => this.expireIdleSessions(), Math.min(this.idleTimeoutMs, 60_000));
+    this.timer.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  listSessions(): SessionInfo[] {
+    return [...this.sessions.values()].map(({ id, createdAt, lastActivity, openStreams }) => ({ id, createdAt, lastActivity, openStreams }));
+  }
+
+  /**
+   * Handle a request to the MCP endpoint: start a session, or pass the
+   * request to the transport of its session
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse, body?: unknown): Promise<void> {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        // Clients start a new session after a 404
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      const clientId = (req as any).auth?.clientId;
+      if (session.clientId !== clientId) {
+        this.sendError(res, 403, -32001, 'Session belongs to another client');
+        return;
+      }
+      session.lastActivity = Date.now();
+      if (req.method === 'GET') {
+        session.openStreams++;
+        res.on('close', () => {
+          session.openStreams--;
+          session.lastActivity = Date.now();
+        });
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    const { isInitializeRequest } = await import('@modelcontextprotocol/sdk/types.js');
+    const initialize = req.method === 'POST' && (Array.isArray(body) ? body.some(m => isInitializeRequest(m)) : isInitializeRequest(body));
+    if (!initialize) {
+      this.sendError(res, 400, -32000, 'Bad Request: no valid session ID; start a session with an initialize request');
+      return;
+    }
+
+    const transport = await this.startSession((req as any).auth?.clientId);
+    await transport.handleRequest(req, res, body);
+    // The initialize request was rejected: no session to keep
+    if (!transport.sessionId) await transport.close();
+  }
+
+  private async startSession(clientId?: string): Promise<any> {
+    const { StreamableHTTPServerTransport } = await import('@modelcontextprotocol/sdk/server/streamableHttp.js');
+    const logger = getLogger();
+    const server = this.createServer();
+    const now = Date.now();
+    const session: Session = { id: '', clientId, createdAt: now, lastActivity: now, openStreams: 0, transport: undefined, server, closed: false };
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new SessionEventStore(this.maxEvents),
+      onsessioninitialized: (id: string) => {
+        session.id = id;
+        this.sessions.set(id, session);
+        logger.log('info', 'mcp.session.start', { sessionId: id, client: clientId, sessions: this.sessions.size });
+      }
+    });
+    session.transport = transport;
+    // Called when the client ends the session, it expires or the server stops
+    transport.onclose = () => this.release(session);
+
+    await server.server.connect(transport);
+    return transport;
+  }
+
+  private release(session: Session): void {
+    if (session.closed) return;
+    session.closed = true;
+    if (session.id) this.sessions.delete(session.id);
+    session.server.dispose();
+    getLogger().log('info', 'mcp.session.end', { sessionId: session.id, sessions: this.sessions.size });
+  }
+
+  /**
+   * End a session and close its streams
+   */
+  async closeSession(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    await session.transport.close();
+    this.release(session);
+    return true;
+  }
+
+  /**
+   * Close sessions without requests or an open stream within the idle timeout
+   */
+  async expireIdleSessions(now: number = Date.now()): Promise<string[]> {
+    const expired = [...this.sessions.values()]
+      .filter(s => s.openStreams === 0 && now - s.lastActivity > this.idleTimeoutMs)
+      .map(s => s.id);
+    for (const id of expired) {
+      getLogger().log('info', 'mcp.session.expire', { sessionId: id });
+      await this.closeSession(id);
+    }
+    return expired;
+  }
+
+  /**
+   * Close all sessions, e.g. when the server shuts down
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.timer);
+    for (const id of [...this.sessions.keys()]) {
+      await this.closeSession(id);
+    }
+  }
+
+  private sendError(res: ServerResponse, statusCode: number, code: number, message: string): void {
+    res.statusCode = statusCode;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(createJsonRpcError(code, message)));
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * stdio Transport
+ *
+ * Desktop clients (Claude Desktop, Cursor, …) start the server as a child
+ * process and talk MCP over its stdin and stdout. Started with `--stdio` or
+ * `"transport": "stdio"` in the settings.
+ *
+ * stdout carries the protocol messages only: console output is sent to
+ * stderr and the logger never falls back to stdout.
+ *
+ * @module mcp/stdio
+ */
+
+import { format } from 'util';
+import { Readable, Writable } from 'stream';
+import { createMcpServer } from './server';
+import { appService } from '../services/app';
+import { getLogger } from '../utils/logger';
+
+/**
+ * Whether to serve over stdio rather than HTTP: the `--stdio` or
+ * `--transport=stdio` flag, or the `transport` setting
+ */
+export function isStdioMode(argv: string[] = process.argv, transport: string | undefined = appService.config.transport): boolean {
+  if (argv.includes('--stdio') || argv.includes('--transport=stdio')) return true;
+  if (argv.includes('--http') || argv.includes('--transport=http')) return false;
+  return transport === 'stdio';
+}
+
+/**
+ * Send `console.log`, `console.info` and `console.debug` to stderr;
+ * returns a function that restores them
+ */
+export function redirectConsoleToStderr(): () => void {
+  const original = { log: console.log, info: console.info, debug: console.debug };
+  const toStderr = (...args: unknown[]) => { process.stderr.write(format(...args) + '\n'); };
+  console.log = toStderr;
+  console.info = toStderr;
+  console.debug = toStderr;
+  return () => Object.assign(console, original);
+}
+
+/**
+ * Serve MCP over stdin and stdout until the client closes stdin
+ *
+ * @returns A function that stops the server
+ * @throws Error when the MCP SDK is not available
+ */
+export async function runStdioServer(streams: { stdin?: Readable; stdout?: Writable } = {}): Promise<() => Promise<void>> {
+  const logger = getLogger();
+  const restoreConsole = redirectConsoleToStderr();
+  logger.setConsoleOutput('stderr');
+
+  const mcp = await createMcpServer();
+  if (!mcp.sdkServer) {
+    restoreConsole();
+    throw new Error('stdio mode needs the @modelcontextprotocol/sdk package');
+  }
+
+  const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+  const stdin = streams.stdin || process.stdin;
+  const transport = new StdioServerTransport(stdin, streams.stdout || process.stdout);
+  await mcp.sdkServer.connect(transport);
+  logger.log('info', 'server.stdio.start', { tools: Object.keys(mcp.tools).length });
+
+  let stopped = false;
+  async function stop() {
+    if (stopped) return;
+    stopped = true;
+    stdin.off('end', onEnd);
+    await transport.close();
+    await mcp.stop();
+    logger.log('info', 'server.stdio.stop', {});
+    restoreConsole();
+  }
+  const onEnd = () => { stop().catch(() => undefined); };
+  stdin.on('end', onEnd);
+  return stop;
+}
@@ -1,6 +1,18 @@
 import { ModelLoader } from '../model/loader';
-import { renderViewListMarkdown, renderViewDetailsMarkdownFromModel, renderElementListMarkdown, renderElementDetailsMarkdownFromModel } from '../renderer';
+import { renderViewListMarkdown, renderRankedViewListMarkdown, renderViewDetailsMarkdownFromModel, renderViewDetailsWithinBudget, ViewDetailLevel, renderElementListMarkdown, renderRankedElementListMarkdown, renderElementDetailsMarkdownFromModel, renderFolderListMarkdown, renderModelMetadataMarkdown, renderEditHistoryMarkdown, renderEditStepMarkdown, describeOperation, renderModelDiffMarkdown, renderMergeResultMarkdown, renderImpactAnalysisMarkdown, renderPathsMarkdown, renderDerivedRelationshipsMarkdown, renderQueryResultMarkdown, renderSemanticSearchMarkdown, renderPageSummary } from '../renderer';
 import { loadConfig } from '../config';
+import { localize, localizeModel, allTexts } from '../model/languages';
+import { diffModels, ModelDiff } from '../model/diff';
+import { mergeModels, MergeConflict } from '../model/merge';
+import { analyzeImpact, ImpactAnalysis, ImpactDirection } from '../model/impact';
+import { findPaths, PathSearch } from '../model/paths';
+import { deriveRelationships, DerivedRelationship } from '../model/derivation';
+import { runQuery, QueryResult, ResultValue } from '../model/query';
+import { SearchIndex, SearchHit } from '../model/search';
+import { SemanticIndex, SemanticHit, SemanticKind, Embedder, createLocalEmbedder, embeddingsPath, DEFAULT_SEMANTIC_WEIGHT } from '../model/semantic';
+import { ArchiMateXMLBuilder } from '../model/persistence';
+import { ArchiNativeXMLBuilder } from '../model/archi-persistence';
+import { ModelData, ElementObject, ViewObject, MetadataValue } from '../model/types';
 import { getLogger } from '../utils/logger';
 import { ModelManipulator, getModelManipulator } from '../model/manipulator';
 import { XSDValidator } from '../utils/xsd-validator';
@@ -12,44 +24,73 @@ import {
   UpdateRelationshipInput,
   CreateViewInput,
   UpdateViewInput,
-  ValidationResult
+  UpdateModelMetadataInput,
+  ValidationResult,
+  ModelManipulationError,
+  EditHistoryEntry
 } from '../model/manipulator-types';
 import { ValidationReporter } from '../utils/validation-reporter';
 import { validateModelPath, validatePath } from '../utils/path-validator';
-import { existsSync, writeFileSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
+import { paginate, PageRequest, PaginationError } from '../utils/pagination';
+import { loadRelationshipTableFile, useRelationshipTable } from '../utils/relationship-rules';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, extname } from 'path';
 
-export interface SearchViewsInput {
+export type SearchSort = 'relevance' | 'name' | 'type' | 'model';
+
+export interface SearchViewsInput extends PageRequest {
   query?: string;
+  language?: string;
+  /** Result order (default: relevance with a query, model order without) */
+  sort?: SearchSort;
 }
 
 export interface SearchViewsOutput {
   markdown: string;
+  totalCount?: number;
+  nextCursor?: string;
   [key: string]: unknown; // MCP compatibility
 }
 
 export interface GetViewDetailsInput {
   viewname: string;
+  language?: string;
+  /** Token budget; the view is summarized step by step until it fits */
+  maxTokens?: number;
+  /** Most detailed level to show (default: full) */
+  detail?: ViewDetailLevel;
 }
 
 export interface GetViewDetailsOutput {
   id?: string;
   markdown: string;
+  /** Detail level of the markdown, when the view was found */
+  detail?: ViewDetailLevel;
+  /** Set when even the summary does not fit maxTokens */
+  overBudget?: boolean;
   [key: string]: unknown; // MCP compatibility
 }
 
-export interface SearchElementsInput {
+export interface SearchElementsInput extends PageRequest {
   query?: string;
   type?: string;
+  language?: string;
+  /** Result order (default: relevance with a query, model order without) */
+  sort?: SearchSort;
 }
 
 export interface SearchElementsOutput {
   markdown: string;
+  totalCount?: number;
+  nextCursor?: string;
   [key: string]: unknown; // MCP compatibility
 }
 
 export interface GetElementDetailsInput {
   elementname: string;
+  language?: string;
+  /** Also list the valid derived relationships of the element */
+  includeDerived?: boolean;
 }
 
 export interface GetElementDetailsOutput {
@@ -68,6 +109,7 @@ export interface CreateElementInput {
   identifier?: string;
   documentation?: string;
   properties?: Record<string, string>;
+  language?: string;
   autoSave?: boolean;
 }
 
@@ -83,6 +125,7 @@ export interface UpdateElementInput {
   type?: string;
   documentation?: string;
   properties?: Record<string, string>;
+  language?: string;
   autoSave?: boolean;
 }
 
@@ -116,6 +159,7 @@ export interface CreateRelationshipInput {
   name?: string;
   documentation?: string;
   properties?: Record<string, string>;
+  language?: string;
   autoSave?: boolean;
 }
 
@@ -133,6 +177,7 @@ export interface UpdateRelationshipInput {
   name?: string;
   documentation?: string;
   properties?: Record<string, string>;
+  language?: string;
   autoSave?: boolean;
 }
 
@@ -167,6 +212,7 @@ export interface CreateViewInput {
   elements?: string[];
   relationships?: string[];
   nodeHierarchy?: Array<{ parentElement: string; childElement: string }>;
+  language?: string;
   autoSave?: boolean;
 }
 
@@ -186,6 +232,7 @@ export interface UpdateViewInput {
   elements?: string[];
   relationships?: string[];
   nodeHierarchy?: Array<{ parentElement: string; childElement: string }>;
+  language?: string;
   autoSave?: boolean;
 }
 
@@ -231,6 +278,266 @@ export interface DeleteViewOutput {
   [key: string]: unknown;
 }
 
+// ============================================================================
+// Organization (Folder) MCP Tools
+// ============================================================================
+
+export interface ListFoldersInput {
+  includeItems?: boolean;
+}
+
+export interface ListFoldersOutput {
+  markdown: string;
+  folders: Array<{ id?: string; path: string; itemCount: number }>;
+  [key: string]: unknown;
+}
+
+export interface MoveToFolderInput {
+  identifier: string;
+  folder: string;
+  autoSave?: boolean;
+}
+
+export interface MoveToFolderOutput {
+  success: boolean;
+  folder: string;
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Model Metadata MCP Tools
+// ============================================================================
+
+export interface GetModelMetadataOutput {
+  markdown: string;
+  id?: string;
+  name?: string;
+  format: string;
+  metadata: Record<string, MetadataValue>;
+  properties: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface UpdateModelMetadataToolInput extends UpdateModelMetadataInput {
+  autoSave?: boolean;
+}
+
+export interface UpdateModelMetadataOutput {
+  success: boolean;
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Batch Operations MCP Tools
+// ============================================================================
+
+export type BatchAction =
+  | 'createElement' | 'updateElement' | 'deleteElement'
+  | 'createRelationship' | 'updateRelationship' | 'deleteRelationship'
+  | 'createView' | 'updateView' | 'deleteView'
+  | 'addElementToView' | 'removeElementFromView';
+
+export interface BatchOperationStep {
+  action: BatchAction;
+  identifier?: string;
+  type?: string;
+  name?: string;
+  documentation?: string;
+  properties?: Record<string, string>;
+  language?: string;
+  sourceId?: string;
+  targetId?: string;
+  cascade?: boolean;
+  viewpoint?: string;
+  elements?: string[];
+  relationships?: string[];
+  viewId?: string;
+  elementId?: string;
+  parentElementId?: string;
+}
+
+export interface BatchOperationsInput {
+  operations: BatchOperationStep[];
+  autoSave?: boolean;
+}
+
+export interface BatchOperationsOutput {
+  success: boolean;
+  results: Array<{ action: BatchAction; id: string }>;
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Edit History MCP Tools
+// ============================================================================
+
+export interface EditStepSummary {
+  id: number;
+  source?: string;
+  timestamp: string;
+  changes: string[];
+}
+
+export interface UndoInput {
+  steps?: number;
+  autoSave?: boolean;
+}
+
+export interface UndoOutput {
+  success: boolean;
+  steps: EditStepSummary[];
+  markdown: string;
+  [key: string]: unknown;
+}
+
+export type RedoInput = UndoInput;
+export type RedoOutput = UndoOutput;
+
+export interface GetEditHistoryOutput {
+  undoable: EditStepSummary[];
+  redoable: EditStepSummary[];
+  limit: number;
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Model Diff MCP Tools
+// ============================================================================
+
+export interface DiffModelsInput {
+  basePath?: string;
+  targetPath?: string;
+  format?: 'markdown' | 'json';
+}
+
+export interface DiffModelsOutput {
+  identical: boolean;
+  diff: ModelDiff;
+  markdown: string;
+  [key: string]: unknown;
+}
+
+export interface MergeModelsInput {
+  basePath: string;
+  oursPath: string;
+  theirsPath: string;
+  outputPath: string;
+  prefer?: 'ours' | 'theirs';
+  overwrite?: boolean;
+}
+
+export interface MergeModelsOutput {
+  success: boolean;
+  outputPath: string;
+  conflicts: MergeConflict[];
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Impact Analysis MCP Tools
+// ============================================================================
+
+export interface AnalyzeImpactInput {
+  identifier?: string;
+  elementname?: string;
+  direction?: ImpactDirection;
+  relationshipTypes?: string[];
+  maxDepth?: number;
+  language?: string;
+}
+
+export interface AnalyzeImpactOutput {
+  analysis: ImpactAnalysis;
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Path Finding MCP Tools
+// ============================================================================
+
+export interface FindPathsInput {
+  sourceId?: string;
+  sourceName?: string;
+  targetId?: string;
+  targetName?: string;
+  relationshipTypes?: string[];
+  maxHops?: number;
+  k?: number;
+  directed?: boolean;
+  language?: string;
+}
+
+export interface FindPathsOutput {
+  search: PathSearch;
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Derived Relationships MCP Tools
+// ============================================================================
+
+export interface GetDerivedRelationshipsInput {
+  sourceId?: string;
+  sourceName?: string;
+  targetId?: string;
+  targetName?: string;
+  relationshipTypes?: string[];
+  includePotential?: boolean;
+  maxChainLength?: number;
+  language?: string;
+}
+
+export interface GetDerivedRelationshipsOutput {
+  derived: DerivedRelationship[];
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Model Query MCP Tools
+// ============================================================================
+
+export interface QueryModelInput {
+  query: string;
+  format?: 'markdown' | 'json';
+  explain?: boolean;
+  language?: string;
+}
+
+export interface QueryModelOutput {
+  columns: string[];
+  rows: ResultValue[][];
+  plan: string[];
+  markdown: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Semantic Search MCP Tools
+// ============================================================================
+
+export interface SemanticSearchInput {
+  query: string;
+  kinds?: SemanticKind[];
+  type?: string;
+  mode?: 'hybrid' | 'semantic' | 'keyword';
+  semanticWeight?: number;
+  limit?: number;
+}
+
+export interface SemanticSearchOutput {
+  hits: SemanticHit[];
+  markdown: string;
+  [key: string]: unknown;
+}
+
 // ============================================================================
 // Validation MCP Tools
 // ============================================================================
@@ -331,16 +638,35 @@ export interface CreateModelOutput {
 }
 
 // Helper functions to ensure type safety while maintaining MCP compatibility
-function createSearchViewsOutput(markdown: string): SearchViewsOutput {
-  return { markdown };
+function createSearchViewsOutput(markdown: string, totalCount?: number, nextCursor?: string): SearchViewsOutput {
+  return { markdown, totalCount, nextCursor };
 }
 
-function createGetViewDetailsOutput(markdown: string, id?: string): GetViewDetailsOutput {
-  return { markdown, id };
+function createGetViewDetailsOutput(markdown: string, id?: string, detail?: ViewDetailLevel): GetViewDetailsOutput {
+  return { markdown, id, detail };
 }
 
-function createSearchElementsOutput(markdown: string): SearchElementsOutput {
-  return { markdown };
+function createSearchElementsOutput(markdown: string, totalCount?: number, nextCursor?: string): SearchElementsOutput {
+  return { markdown, totalCount, nextCursor };
+}
+
+/** A search result with its position in the model and, for searches with a query, its ranking */
+type SearchResult<T> = { item: T; index: number; hit?: SearchHit<T> };
+
+/**
+ * Order search results; relevance keeps the ranking (or model order without a query)
+ *
+ * @throws PaginationError for an unknown sort order
+ */
+function sortSearchResults<T extends ElementObject | ViewObject>(results: SearchResult<T>[], sort: SearchSort, lang?: string): SearchResult<T>[] {
+  const name = (item: T) => localize(item, lang).name || '';
+  switch (sort) {
+    case 'name': return [...results].sort((a, b) => name(a.item).localeCompare(name(b.item)) || a.index - b.index);
+    case 'type': return [...results].sort((a, b) => (a.item.type || '').localeCompare(b.item.type || '') || name(a.item).localeCompare(name(b.item)));
+    case 'model': return [...results].sort((a, b) => a.index - b.index);
+    case 'relevance': return results;
+    default: throw new PaginationError(`Unknown sort: ${sort} (expected relevance, name, type or model)`);
+  }
 }
 
 function createGetElementDetailsOutput(markdown: string, id?: string): GetElementDetailsOutput {
@@ -391,6 +717,78 @@ function createDeleteViewOutput(success: boolean, markdown: string): DeleteViewO
   return { success, markdown };
 }
 
+function createListFoldersOutput(markdown: string, folders: ListFoldersOutput['folders']): ListFoldersOutput {
+  return { markdown, folders };
+}
+
+function createMoveToFolderOutput(success: boolean, folder: string, markdown: string): MoveToFolderOutput {
+  return { success, folder, markdown };
+}
+
+function createGetModelMetadataOutput(
+  markdown: string,
+  id: string | undefined,
+  name: string | undefined,
+  format: string,
+  metadata: Record<string, MetadataValue>,
+  properties: Record<string, string>
+): GetModelMetadataOutput {
+  return { markdown, id, name, format, metadata, properties };
+}
+
+function createUpdateModelMetadataOutput(success: boolean, markdown: string): UpdateModelMetadataOutput {
+  return { success, markdown };
+}
+
+function createBatchOperationsOutput(success: boolean, results: BatchOperationsOutput['results'], markdown: string): BatchOperationsOutput {
+  return { success, results, markdown };
+}
+
+function createUndoOutput(success: boolean, steps: EditStepSummary[], markdown: string): UndoOutput {
+  return { success, steps, markdown };
+}
+
+function createGetEditHistoryOutput(
+  undoable: EditStepSummary[],
+  redoable: EditStepSummary[],
+  limit: number,
+  markdown: string
+): GetEditHistoryOutput {
+  return { undoable, redoable, limit, markdown };
+}
+
+function createDiffModelsOutput(identical: boolean, diff: ModelDiff, markdown: string): DiffModelsOutput {
+  return { identical, diff, markdown };
+}
+
+function createMergeModelsOutput(success: boolean, outputPath: string, conflicts: MergeConflict[], markdown: string): MergeModelsOutput {
+  return { success, outputPath, conflicts, markdown };
+}
+
+function createAnalyzeImpactOutput(analysis: ImpactAnalysis, markdown: string): AnalyzeImpactOutput {
+  return { analysis, markdown };
+}
+
+function createFindPathsOutput(search: PathSearch, markdown: string): FindPathsOutput {
+  return { search, markdown };
+}
+
+function createGetDerivedRelationshipsOutput(derived: DerivedRelationship[], markdown: string): GetDerivedRelationshipsOutput {
+  return { derived, markdown };
+}
+
+function createQueryModelOutput(result: QueryResult, markdown: string): QueryModelOutput {
+  return { columns: result.columns, rows: result.rows, plan: result.plan, markdown };
+}
+
+function createSemanticSearchOutput(hits: SemanticHit[], markdown: string): SemanticSearchOutput {
+  return { hits, markdown };
+}
+
+function summarizeEditStep(entry: EditHistoryEntry): EditStepSummary {
+  return { id: entry.id, source: entry.source, timestamp: entry.timestamp, changes: entry.operations.map(describeOperation) };
+}
+
 function createValidateModelOutput(valid: boolean, markdown: string, report?: any): ValidateModelOutput {
   return { valid, markdown, report };
 }
@@ -450,6 +848,14 @@ export function createTools(modelPath?: string) {
     logger.log('warn', 'xsd.validator.init.failed', { message: 'XSD validator not available, validation will be limited' });
   }
   const manipulator = getModelManipulator(loader, validator);
+  if (cfg.historyLimit) {
+    manipulator.setHistoryLimit(cfg.historyLimit);
+  }
+  if (cfg.readOnly) {
+    manipulator.setReadOnly(true);
+  }
+  // A transcription of the published relationship table replaces the generated one
+  useRelationshipTable(cfg.relationshipTablePath ? loadRelationshipTableFile(cfg.relationshipTablePath) : null);
 
   // Add disclaimer at the start of the markdown, to reduce risk of prompt injection
   function withDisclaimer(md: string): string {
@@ -457,6 +863,79 @@ export function createTools(modelPath?: string) {
     return md.startsWith(DISCLAIMER_PREFIX) ? md : DISCLAIMER_PREFIX + md;
   }
 
+  // Audit a tool call that edits the model; its changes form one step in the edit history
+  function auditEdit<T>(tool: string, input: any, fn: () => Promise<T>): Promise<T> {
+    return logger.auditToolInvocation(tool, input, () => manipulator.withEditSource(tool, fn));
+  }
+
+  // Audit a tool call that undoes, saves or replaces the model, queued behind edits in progress
+  function auditSerialized<T>(tool: string, input: any, fn: () => Promise<T>): Promise<T> {
+    return logger.auditToolInvocation(tool, input, () => manipulator.serialize(fn));
+  }
+
+  // Search index over the loaded model, rebuilt after the loader drops its cache or the model is edited
+  let searchIndex: { index: SearchIndex; model: ModelData; revision: number } | undefined;
+  loader.onInvalidate(() => {
+    searchIndex = undefined;
+  });
+
+  function getSearchIndex(model: ModelData): SearchIndex {
+    const revision = manipulator.getRevision();
+    if (!searchIndex || searchIndex.model !== model || searchIndex.revision !== revision) {
+      searchIndex = { index: new SearchIndex(model), model, revision };
+    }
+    return searchIndex.index;
+  }
+
+  // Semantic index, opened on first use; its vector file is updated after each save
+  let embedder: Promise<Embedder> | undefined;
+  let semantic: { index: SemanticIndex; revision: number } | undefined;
+  let semanticUpdate: Promise<void> = Promise.resolve();
+
+  function getEmbedder(): Promise<Embedder> {
+    if (!embedder) {
+      embedder = createLocalEmbedder(cfg.embeddingModelPath!, cfg.embeddingModel);
+      // Try again on the next call, e.g. after the model files were added
+      embedder.catch(() => { embedder = undefined; });
+    }
+    return embedder;
+  }
+
+  async function getSemanticIndex(): Promise<SemanticIndex> {
+    if (!cfg.semanticSearch) {
+      throw new Error('Semantic search is disabled; set semanticSearch in config/settings.json or SEMANTIC_SEARCH=true');
+    }
+    await semanticUpdate;
+    const path = embeddingsPath(loader.getPath());
+    if (!semantic || semantic.index.path !== path) {
+      semantic = { index: SemanticIndex.open(await getEmbedder(), path), revision: -1 };
+    }
+    const revision = manipulator.getRevision();
+    if (semantic.revision !== revision) {
+      const update = await semantic.index.update(manipulator.getModel());
+      // The vector file follows the saved model; unsaved edits, and everything
+      // in read-only mode, are only indexed in memory
+      if (!manipulator.isModified() && !manipulator.isReadOnly() && update.embedded + update.removed > 0) semantic.index.save();
+      semantic.revision = revision;
+      logger.log('info', 'semantic.index.update', { path, ...update });
+    }
+    return semantic.index;
+  }
+
+  manipulator.onSave((path, model) => {
+    if (!cfg.semanticSearch || manipulator.isReadOnly()) return;
+    semanticUpdate = semanticUpdate.then(async () => {
+      const vectorPath = embeddingsPath(path);
+      const index = semantic?.index.path === vectorPath ? semantic.index : SemanticIndex.open(await getEmbedder(), vectorPath);
+      const update = await index.update(model);
+      index.save();
+      if (semantic?.index === index) semantic.revision = manipulator.getRevision();
+      logger.log('info', 'semantic.index.update', { path: vectorPath, ...update });
+    }).catch(err => {
+      logger.log('warn', 'semantic.index.update.failed', { path, error: (err as Error)?.message || String(err) });
+    });
+  });
+
   // Helper function to handle auto-save after CRUD operations
   async function handleAutoSave(autoSave: boolean | undefined, operationResult: any): Promise<{ saveResult?: SaveModelOutput; warning?: string }> {
     if (!autoSave) {
@@ -482,18 +961,30 @@ export function createTools(modelPath?: string) {
 
   async function searchViewsHandler(input: SearchViewsInput): Promise<SearchViewsOutput> {
     return logger.auditToolInvocation('SearchViews', input, async () => {
-      const q = input?.query ? String(input.query).toLowerCase() : '';
+      const q = input?.query ? String(input.query).trim() : '';
+      const lang = input?.language || cfg.language;
+      const sort = input?.sort || (q ? 'relevance' : 'model');
       const model = loader.load();
-      let views = model.views || [];
-      if (q) views = views.filter(v => (v.name || '').toLowerCase().includes(q));
+      const views = model.views || [];
+      const position = new Map(views.map((v, index) => [v, index]));
+
+      // Ranked by relevance, matching names in any language, documentation and properties
+      let results: SearchResult<ViewObject>[] = q
+        ? getSearchIndex(model).searchViews(q).map(hit => ({ item: hit.item, index: position.get(hit.item)!, hit }))
+        : views.map((item, index) => ({ item, index }));
       if (cfg.viewsFilterByProperty) {
         const pname = cfg.viewsFilterPropertyName;
-        views = views.filter(v => v.properties && Object.prototype.hasOwnProperty.call(v.properties, pname));
+        results = results.filter(r => r.item.properties && Object.prototype.hasOwnProperty.call(r.item.properties, pname));
       }
-      const markdown = withDisclaimer(renderViewListMarkdown(views));
-      const out = createSearchViewsOutput(markdown);
+
+      const page = paginate(sortSearchResults(results, sort, lang), input, `views|${q}|${sort}`);
+      const list = q
+        ? renderRankedViewListMarkdown(page.items.map(r => r.hit!), q, lang, sort === 'relevance' ? undefined : sort)
+        : renderViewListMarkdown(page.items.map(r => r.item), lang);
+      const markdown = withDisclaimer(list + renderPageSummary(page));
+      const out = createSearchViewsOutput(markdown, page.totalCount, page.nextCursor);
       (out as any).__audit = {
-        resultCount: views.length
+        resultCount: page.totalCount
       };
       return out;
     });
@@ -502,51 +993,57 @@ export function createTools(modelPath?: string) {
   async function getViewDetailsHandler(input: GetViewDetailsInput): Promise<GetViewDetailsOutput> {
     return logger.auditToolInvocation('GetViewDetails', input, async () => {
       if (!input || !input.viewname) throw new Error('viewname required');
+      const lang = input.language || cfg.language;
       const model = loader.load();
-      // find by exact name or contains
+      // find by exact name or contains, in any language
       const searchName = String(input.viewname || '').toLowerCase();
-      const v = model.views.find(x => String(x.name || '').toLowerCase() === searchName)
-        || model.views.find(x => String(x.name || '').toLowerCase().includes(searchName));
+      const v = model.views.find(x => allTexts(x, 'name').some(n => n.toLowerCase() === searchName))
+        || model.views.find(x => allTexts(x, 'name').some(n => n.toLowerCase().includes(searchName)));
       let out: GetViewDetailsOutput;
       if (!v) {
         out = createGetViewDetailsOutput(`# View not found: ${input.viewname}`);
         (out as any).__audit = { found: false };
         return out;
       }
-      const markdown = withDisclaimer(renderViewDetailsMarkdownFromModel(model, v));
-      out = createGetViewDetailsOutput(markdown, v.id);
-      (out as any).__audit = { found: true, viewId: v.id };
+      if (input.maxTokens !== undefined && (!Number.isInteger(input.maxTokens) || input.maxTokens < 1)) {
+        throw new Error('maxTokens must be a positive integer');
+      }
+      const rendered = renderViewDetailsWithinBudget(model, v, lang, { maxTokens: input.maxTokens, detail: input.detail });
+      out = createGetViewDetailsOutput(withDisclaimer(rendered.markdown), v.id, rendered.detail);
+      if (rendered.overBudget) out.overBudget = true;
+      (out as any).__audit = { found: true, viewId: v.id, detail: rendered.detail, estimatedTokens: rendered.estimatedTokens, overBudget: rendered.overBudget };
       return out;
     });
   }
 
   async function searchElementsHandler(input: SearchElementsInput): Promise<SearchElementsOutput> {
     return logger.auditToolInvocation('SearchElements', input, async () => {
-      const q = input?.query ? String(input.query).toLowerCase() : '';
+      const q = input?.query ? String(input.query).trim() : '';
       const t = input?.type ? String(input.type).toLowerCase() : '';
+      const lang = input?.language || cfg.language;
+      const sort = input?.sort || (q ? 'relevance' : 'model');
       const model = loader.load();
-      let elements = model.elements || [];
-
-      // Filter by query (name or documentation)
-      if (q) {
-        elements = elements.filter(e => 
-          (e.name || '').toLowerCase().includes(q) || 
-          (e.documentation || '').toLowerCase().includes(q) ||
-          Object.entries(e.properties || {}).some(([key, value]) => 
-            String(key || '').toLowerCase().includes(q) || String(value || '').toLowerCase().includes(q)
-          )
-        );
-      }
+      const elements = model.elements || [];
+      const position = new Map(elements.map((e, index) => [e, index]));
+
+      // Ranked by relevance, matching names in any language, documentation and property values
+      let results: SearchResult<ElementObject>[] = q
+        ? getSearchIndex(model).searchElements(q).map(hit => ({ item: hit.item, index: position.get(hit.item)!, hit }))
+        : elements.map((item, index) => ({ item, index }));
 
       // Filter by type if specified
       if (t) {
-        elements = elements.filter(e => (e.type || '').toLowerCase().includes(t));
+        results = results.filter(r => (r.item.type || '').toLowerCase().includes(t));
       }
 
-      const markdown = withDisclaimer(renderElementListMarkdown(elements));
-      const out = createSearchElementsOutput(markdown);
+      const page = paginate(sortSearchResults(results, sort, lang), input, `elements|${q}|${t}|${sort}`);
+      const list = q
+        ? renderRankedElementListMarkdown(page.items.map(r => r.hit!), q, lang, sort === 'relevance' ? undefined : sort)
+        : renderElementListMarkdown(page.items.map(r => r.item), lang);
+      const markdown = withDisclaimer(list + renderPageSummary(page));
+      const out = createSearchElementsOutput(markdown, page.totalCount, page.nextCursor);
       (out as any).__audit = {
-        resultCount: elements.length
+        resultCount: page.totalCount
       };
       return out;
     });
@@ -555,11 +1052,13 @@ export function createTools(modelPath?: string) {
   async function getElementDetailsHandler(input: GetElementDetailsInput): Promise<GetElementDetailsOutput> {
     return logger.auditToolInvocation('GetElementDetails', input, async () => {
       if (!input || !input.elementname) throw new Error('elementname required');
+      const lang = input.language || cfg.language;
       const model = loader.load();
 
-      // Find element by exact name or contains
-      const element = model.elements.find(x => (x.name || '').toLowerCase() === input.elementname.toLowerCase())
-        || model.elements.find(x => (x.name || '').toLowerCase().includes(input.elementname.toLowerCase()));
+      // Find element by exact name or contains, in any language
+      const searchName = input.elementname.toLowerCase();
+      const element = model.elements.find(x => allTexts(x, 'name').some(n => n.toLowerCase() === searchName))
+        || model.elements.find(x => allTexts(x, 'name').some(n => n.toLowerCase().includes(searchName)));
 
       let out: GetElementDetailsOutput;
       if (!element) {
@@ -568,7 +1067,7 @@ export function createTools(modelPath?: string) {
         return out;
       }
 
-      const markdown = withDisclaimer(renderElementDetailsMarkdownFromModel(model, element));
+      const markdown = withDisclaimer(renderElementDetailsMarkdownFromModel(model, element, lang, { includeDerived: input.includeDerived }));
       out = createGetElementDetailsOutput(markdown, element.id);
       (out as any).__audit = { found: true, elementId: element.id };
       return out;
@@ -580,7 +1079,7 @@ export function createTools(modelPath?: string) {
   // ============================================================================
 
   async function createElementHandler(input: CreateElementInput): Promise<CreateElementOutput> {
-    return logger.auditToolInvocation('CreateElement', input, async () => {
+    return auditEdit('CreateElement', input, async () => {
       if (!input || !input.type || !input.name) {
         throw new Error('type and name are required');
       }
@@ -590,14 +1089,15 @@ export function createTools(modelPath?: string) {
         name: input.name,
         identifier: input.identifier,
         documentation: input.documentation,
-        properties: input.properties
+        properties: input.properties,
+        language: input.language
       });
 
       // Handle auto-save if requested
       const { saveResult, warning } = await handleAutoSave(input.autoSave, element);
 
       const model = manipulator.getModel();
-      let markdown = renderElementDetailsMarkdownFromModel(model, element);
+      let markdown = renderElementDetailsMarkdownFromModel(model, element, input.language);
       if (saveResult) {
         markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
       }
@@ -616,7 +1116,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function updateElementHandler(input: UpdateElementInput): Promise<UpdateElementOutput> {
-    return logger.auditToolInvocation('UpdateElement', input, async () => {
+    return auditEdit('UpdateElement', input, async () => {
       if (!input || !input.identifier) {
         throw new Error('identifier is required');
       }
@@ -625,14 +1125,15 @@ export function createTools(modelPath?: string) {
         name: input.name,
         type: input.type,
         documentation: input.documentation,
-        properties: input.properties
+        properties: input.properties,
+        language: input.language
       });
 
       // Handle auto-save if requested
       const { saveResult, warning } = await handleAutoSave(input.autoSave, element);
 
       const model = manipulator.getModel();
-      let markdown = renderElementDetailsMarkdownFromModel(model, element);
+      let markdown = renderElementDetailsMarkdownFromModel(model, element, input.language);
       if (saveResult) {
         markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
       }
@@ -651,7 +1152,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function deleteElementHandler(input: DeleteElementInput): Promise<DeleteElementOutput> {
-    return logger.auditToolInvocation('DeleteElement', input, async () => {
+    return auditEdit('DeleteElement', input, async () => {
       if (!input || !input.identifier) {
         throw new Error('identifier is required');
       }
@@ -687,7 +1188,7 @@ export function createTools(modelPath?: string) {
   // ============================================================================
 
   async function createRelationshipHandler(input: CreateRelationshipInput): Promise<CreateRelationshipOutput> {
-    return logger.auditToolInvocation('CreateRelationship', input, async () => {
+    return auditEdit('CreateRelationship', input, async () => {
       if (!input || !input.type || !input.sourceId || !input.targetId) {
         throw new Error('type, sourceId, and targetId are required');
       }
@@ -699,19 +1200,21 @@ export function createTools(modelPath?: string) {
         identifier: input.identifier,
         name: input.name,
         documentation: input.documentation,
-        properties: input.properties
+        properties: input.properties,
+        language: input.language
       });
 
       // Handle auto-save if requested
       const { saveResult, warning } = await handleAutoSave(input.autoSave, relationship);
 
+      const shown = localize(relationship, input.language);
       let markdown = `# Relationship Created\n\n` +
         `**ID:** ${relationship.id}\n` +
         `**Type:** ${relationship.type}\n` +
         `**Source:** ${relationship.sourceId}\n` +
         `**Target:** ${relationship.targetId}\n` +
-        (relationship.name ? `**Name:** ${relationship.name}\n` : '') +
-        (relationship.documentation ? `**Documentation:** ${relationship.documentation}\n` : '');
+        (shown.name ? `**Name:** ${shown.name}\n` : '') +
+        (shown.documentation ? `**Documentation:** ${shown.documentation}\n` : '');
       if (saveResult) {
         markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
       }
@@ -730,7 +1233,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function updateRelationshipHandler(input: UpdateRelationshipInput): Promise<UpdateRelationshipOutput> {
-    return logger.auditToolInvocation('UpdateRelationship', input, async () => {
+    return auditEdit('UpdateRelationship', input, async () => {
       if (!input || !input.identifier) {
         throw new Error('identifier is required');
       }
@@ -741,19 +1244,21 @@ export function createTools(modelPath?: string) {
         targetId: input.targetId,
         name: input.name,
         documentation: input.documentation,
-        properties: input.properties
+        properties: input.properties,
+        language: input.language
       });
 
       // Handle auto-save if requested
       const { saveResult, warning } = await handleAutoSave(input.autoSave, relationship);
 
+      const shown = localize(relationship, input.language);
       let markdown = `# Relationship Updated\n\n` +
         `**ID:** ${relationship.id}\n` +
         `**Type:** ${relationship.type}\n` +
         `**Source:** ${relationship.sourceId}\n` +
         `**Target:** ${relationship.targetId}\n` +
-        (relationship.name ? `**Name:** ${relationship.name}\n` : '') +
-        (relationship.documentation ? `**Documentation:** ${relationship.documentation}\n` : '');
+        (shown.name ? `**Name:** ${shown.name}\n` : '') +
+        (shown.documentation ? `**Documentation:** ${shown.documentation}\n` : '');
       if (saveResult) {
         markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
       }
@@ -772,7 +1277,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function deleteRelationshipHandler(input: DeleteRelationshipInput): Promise<DeleteRelationshipOutput> {
-    return logger.auditToolInvocation('DeleteRelationship', input, async () => {
+    return auditEdit('DeleteRelationship', input, async () => {
       if (!input || !input.identifier) {
         throw new Error('identifier is required');
       }
@@ -805,7 +1310,7 @@ export function createTools(modelPath?: string) {
   // ============================================================================
 
   async function createViewHandler(input: CreateViewInput): Promise<CreateViewOutput> {
-    return logger.auditToolInvocation('CreateView', input, async () => {
+    return auditEdit('CreateView', input, async () => {
       if (!input || !input.name) {
         throw new Error('name is required');
       }
@@ -819,14 +1324,15 @@ export function createTools(modelPath?: string) {
         properties: input.properties,
         elements: input.elements,
         relationships: input.relationships,
-        nodeHierarchy: input.nodeHierarchy
+        nodeHierarchy: input.nodeHierarchy,
+        language: input.language
       });
 
       // Handle auto-save if requested
       const { saveResult, warning } = await handleAutoSave(input.autoSave, view);
 
       const model = manipulator.getModel();
-      let markdown = renderViewDetailsMarkdownFromModel(model, view);
+      let markdown = renderViewDetailsMarkdownFromModel(model, view, input.language);
       if (saveResult) {
         markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
       }
@@ -845,7 +1351,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function updateViewHandler(input: UpdateViewInput): Promise<UpdateViewOutput> {
-    return logger.auditToolInvocation('UpdateView', input, async () => {
+    return auditEdit('UpdateView', input, async () => {
       if (!input || !input.identifier) {
         throw new Error('identifier is required');
       }
@@ -858,14 +1364,15 @@ export function createTools(modelPath?: string) {
         properties: input.properties,
         elements: input.elements,
         relationships: input.relationships,
-        nodeHierarchy: input.nodeHierarchy
+        nodeHierarchy: input.nodeHierarchy,
+        language: input.language
       });
 
       // Handle auto-save if requested
       const { saveResult, warning } = await handleAutoSave(input.autoSave, view);
 
       const model = manipulator.getModel();
-      let markdown = renderViewDetailsMarkdownFromModel(model, view);
+      let markdown = renderViewDetailsMarkdownFromModel(model, view, input.language);
       if (saveResult) {
         markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
       }
@@ -884,7 +1391,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function addElementToViewHandler(input: AddElementToViewInput): Promise<AddElementToViewOutput> {
-    return logger.auditToolInvocation('AddElementToView', input, async () => {
+    return auditEdit('AddElementToView', input, async () => {
       if (!input || !input.viewId || !input.elementId) {
         throw new Error('viewId and elementId are required');
       }
@@ -915,7 +1422,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function removeElementFromViewHandler(input: RemoveElementFromViewInput): Promise<RemoveElementFromViewOutput> {
-    return logger.auditToolInvocation('RemoveElementFromView', input, async () => {
+    return auditEdit('RemoveElementFromView', input, async () => {
       if (!input || !input.viewId || !input.elementId) {
         throw new Error('viewId and elementId are required');
       }
@@ -945,7 +1452,7 @@ export function createTools(modelPath?: string) {
   }
 
   async function deleteViewHandler(input: DeleteViewInput): Promise<DeleteViewOutput> {
-    return logger.auditToolInvocation('DeleteView', input, async () => {
+    return auditEdit('DeleteView', input, async () => {
       if (!input || !input.identifier) {
         throw new Error('identifier is required');
       }
@@ -973,13 +1480,511 @@ export function createTools(modelPath?: string) {
     });
   }
 
+  // ============================================================================
+  // Organization (Folder) Handlers
+  // ============================================================================
+
+  async function listFoldersHandler(input: ListFoldersInput): Promise<ListFoldersOutput> {
+    return logger.auditToolInvocation('ListFolders', input, async () => {
+      const folders = manipulator.getFolders();
+      const markdown = withDisclaimer(renderFolderListMarkdown(manipulator.getModel(), folders, input?.includeItems));
+      const out = createListFoldersOutput(
+        markdown,
+        folders.map(f => ({ id: f.id, path: f.path, itemCount: f.items.length }))
+      );
+      (out as any).__audit = { resultCount: folders.length };
+      return out;
+    });
+  }
+
+  async function moveToFolderHandler(input: MoveToFolderInput): Promise<MoveToFolderOutput> {
+    return auditEdit('MoveToFolder', input, async () => {
+      if (!input || !input.identifier || !input.folder) {
+        throw new Error('identifier and folder are required');
+      }
+
+      const folder = await manipulator.moveToFolder(input.identifier, input.folder);
+
+      // Handle auto-save if requested
+      const { saveResult, warning } = await handleAutoSave(input.autoSave, { identifier: input.identifier, folder: folder.path });
+
+      let markdown = `# Moved to Folder\n\n"${input.identifier}" has been moved to folder "${folder.path}".`;
+      if (saveResult) {
+        markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
+      }
+      if (warning) {
+        markdown += `\n\n${warning}`;
+      }
+      markdown = withDisclaimer(markdown);
+
+      const out = createMoveToFolderOutput(true, folder.path, markdown);
+      (out as any).__audit = { identifier: input.identifier, folder: folder.path, autoSave: input.autoSave || false };
+      if (saveResult) {
+        (out as any).saveResult = saveResult;
+      }
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Model Metadata Handlers
+  // ============================================================================
+
+  async function getModelMetadataHandler(): Promise<GetModelMetadataOutput> {
+    return logger.auditToolInvocation('GetModelMetadata', {}, async () => {
+      const info = manipulator.getModelMetadata();
+      const markdown = withDisclaimer(renderModelMetadataMarkdown(manipulator.getModel()));
+      const out = createGetModelMetadataOutput(
+        markdown,
+        info.id,
+        info.name,
+        info.format || 'exchange',
+        { ...(info.metadata?.fields || {}) },
+        { ...(info.properties || {}) }
+      );
+      (out as any).__audit = { id: info.id };
+      return out;
+    });
+  }
+
+  async function updateModelMetadataHandler(input: UpdateModelMetadataToolInput): Promise<UpdateModelMetadataOutput> {
+    return auditEdit('UpdateModelMetadata', input, async () => {
+      if (!input) {
+        throw new Error('input is required');
+      }
+
+      const { autoSave, ...data } = input;
+      const info = await manipulator.updateModelMetadata(data);
+
+      // Handle auto-save if requested
+      const { saveResult, warning } = await handleAutoSave(autoSave, { changes: Object.keys(data) });
+
+      let markdown = `# Model Metadata Updated\n\nModel "${info.name || info.id}" has been updated.`;
+      if (saveResult) {
+        markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
+      }
+      if (warning) {
+        markdown += `\n\n${warning}`;
+      }
+      markdown = withDisclaimer(markdown);
+
+      const out = createUpdateModelMetadataOutput(true, markdown);
+      (out as any).__audit = { changes: Object.keys(data), autoSave: autoSave || false };
+      if (saveResult) {
+        (out as any).saveResult = saveResult;
+      }
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Batch Operations Handlers
+  // ============================================================================
+
+  /**
+   * Run one batch step and return the identifier of the concept it changed
+   */
+  async function runBatchStep(step: BatchOperationStep): Promise<string> {
+    const { action, identifier } = step;
+    const requireIdentifier = () => {
+      if (!identifier) throw new Error(`identifier is required for ${action}`);
+      return identifier;
+    };
+
+    switch (action) {
+      case 'createElement':
+        return (await manipulator.createElement({
+          type: step.type!, name: step.name!, identifier, documentation: step.documentation,
+          properties: step.properties, language: step.language
+        })).id;
+      case 'updateElement':
+        return (await manipulator.updateElement(requireIdentifier(), {
+          name: step.name, type: step.type, documentation: step.documentation,
+          properties: step.properties, language: step.language
+        })).id;
+      case 'deleteElement':
+        await manipulator.deleteElement(requireIdentifier(), { cascade: step.cascade !== false, validate: true });
+        return identifier!;
+      case 'createRelationship':
+        return (await manipulator.createRelationship({
+          type: step.type!, sourceId: step.sourceId!, targetId: step.targetId!, identifier, name: step.name,
+          documentation: step.documentation, properties: step.properties, language: step.language
+        })).id;
+      case 'updateRelationship':
+        return (await manipulator.updateRelationship(requireIdentifier(), {
+          type: step.type, sourceId: step.sourceId, targetId: step.targetId, name: step.name,
+          documentation: step.documentation, properties: step.properties, language: step.language
+        })).id;
+      case 'deleteRelationship':
+        await manipulator.deleteRelationship(requireIdentifier());
+        return identifier!;
+      case 'createView':
+        return (await manipulator.createView({
+          name: step.name!, identifier, viewpoint: step.viewpoint, documentation: step.documentation,
+          properties: step.properties, elements: step.elements, relationships: step.relationships, language: step.language
+        })).id;
+      case 'updateView':
+        return (await manipulator.updateView(requireIdentifier(), {
+          name: step.name, viewpoint: step.viewpoint, documentation: step.documentation, properties: step.properties,
+          elements: step.elements, relationships: step.relationships, language: step.language
+        })).id;
+      case 'deleteView':
+        await manipulator.deleteView(requireIdentifier());
+        return identifier!;
+      case 'addElementToView':
+        await manipulator.addElementToView(step.viewId!, step.elementId!, step.parentElementId);
+        return step.viewId!;
+      case 'removeElementFromView':
+        await manipulator.removeElementFromView(step.viewId!, step.elementId!);
+        return step.viewId!;
+      default:
+        throw new Error(`Unknown batch action: ${action}`);
+    }
+  }
+
+  async function batchOperationsHandler(input: BatchOperationsInput): Promise<BatchOperationsOutput> {
+    return auditEdit('BatchOperations', input, async () => {
+      if (!input || !Array.isArray(input.operations) || input.operations.length === 0) {
+        throw new Error('operations must be a non-empty array');
+      }
+
+      const results = await manipulator.runTransaction(async () => {
+        const applied: BatchOperationsOutput['results'] = [];
+        for (const [index, step] of input.operations.entries()) {
+          try {
+            applied.push({ action: step.action, id: await runBatchStep(step) });
+          } catch (err) {
+            const message = `Step ${index + 1} (${step.action}) failed: ${(err as Error)?.message || String(err)}. No changes were applied.`;
+            if (err instanceof ModelManipulationError) {
+              throw new ModelManipulationError(message, err.code, err.entityId, err.details, err.suggestions, { ...err.context, step: index + 1 });
+            }
+            throw new Error(message);
+          }
+        }
+        return applied;
+      });
+
+      // Handle auto-save if requested
+      const { saveResult, warning } = await handleAutoSave(input.autoSave, { operationCount: results.length });
+
+      let markdown = `# Batch Operations Applied\n\n${results.length} operation(s) were applied in one transaction.\n\n`;
+      markdown += results.map((r, i) => `${i + 1}. ${r.action}: ${r.id}`).join('\n');
+      if (saveResult) {
+        markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
+      }
+      if (warning) {
+        markdown += `\n\n${warning}`;
+      }
+      markdown = withDisclaimer(markdown);
+
+      const out = createBatchOperationsOutput(true, results, markdown);
+      (out as any).__audit = { operationCount: results.length, actions: results.map(r => r.action), autoSave: input.autoSave || false };
+      if (saveResult) {
+        (out as any).saveResult = saveResult;
+      }
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Edit History Handlers
+  // ============================================================================
+
+  /**
+   * Undo or redo up to `steps` steps, all or none; fails only when not even one is possible
+   */
+  async function replayEditSteps(direction: 'undo' | 'redo', input: UndoInput): Promise<UndoOutput> {
+    const count = Math.max(1, Math.floor(input?.steps ?? 1));
+    const entries = direction === 'undo' ? await manipulator.undoSteps(count) : await manipulator.redoSteps(count);
+
+    // Handle auto-save if requested
+    const { saveResult, warning } = await handleAutoSave(input?.autoSave, { steps: entries.length });
+
+    let markdown = `# ${direction === 'undo' ? 'Undone' : 'Redone'}\n\n${entries.length} step(s) were ${direction === 'undo' ? 'undone' : 'redone'}.\n\n`;
+    markdown += entries.map(renderEditStepMarkdown).join('\n\n');
+    if (saveResult) {
+      markdown += `\n\n**Save Result:** ${saveResult.markdown}`;
+    }
+    if (warning) {
+      markdown += `\n\n${warning}`;
+    }
+    markdown = withDisclaimer(markdown);
+
+    const out = createUndoOutput(true, entries.map(summarizeEditStep), markdown);
+    (out as any).__audit = { steps: entries.map(e => e.id), sources: entries.map(e => e.source), autoSave: input?.autoSave || false };
+    if (saveResult) {
+      (out as any).saveResult = saveResult;
+    }
+    return out;
+  }
+
+  async function undoHandler(input: UndoInput): Promise<UndoOutput> {
+    return auditSerialized('Undo', input, () => replayEditSteps('undo', input));
+  }
+
+  async function redoHandler(input: RedoInput): Promise<RedoOutput> {
+    return auditSerialized('Redo', input, () => replayEditSteps('redo', input));
+  }
+
+  async function getEditHistoryHandler(): Promise<GetEditHistoryOutput> {
+    return logger.auditToolInvocation('GetEditHistory', {}, async () => {
+      const history = manipulator.getEditHistory();
+      const markdown = withDisclaimer(renderEditHistoryMarkdown(history));
+      const out = createGetEditHistoryOutput(
+        history.undoable.map(summarizeEditStep).reverse(),
+        history.redoable.map(summarizeEditStep),
+        history.limit,
+        markdown
+      );
+      (out as any).__audit = { undoable: history.undoable.length, redoable: history.redoable.length };
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Model Diff Handlers
+  // ============================================================================
+
+  /**
+   * Read a model file to compare or merge, leaving the model being edited alone
+   *
+   * @throws Error when the file cannot be read or parsed, rather than treating it as an empty model
+   */
+  function readModelFile(path: string): ModelData {
+    const validationResult = validateModelPath(path);
+    if (!validationResult.valid) {
+      throw new Error(`Path validation failed for ${path}: ${validationResult.error}`);
+    }
+    return new ModelLoader(validationResult.resolvedPath!, { watch: false }).loadStrict();
+  }
+
+  async function diffModelsHandler(input: DiffModelsInput): Promise<DiffModelsOutput> {
+    return logger.auditToolInvocation('DiffModels', input, async () => {
+      // Defaults compare the saved model file with the model in memory
+      const basePath = input?.basePath || loader.getPath();
+      const base = readModelFile(basePath);
+      const target = input?.targetPath ? readModelFile(input.targetPath) : manipulator.getModel();
+      const targetLabel = input?.targetPath || 'current model (in memory)';
+
+      const diff = diffModels(base, target);
+      const markdown = withDisclaimer(input?.format === 'json'
+        ? '```json\n' + JSON.stringify(diff, null, 2) + '\n```'
+        : renderModelDiffMarkdown(diff, basePath, targetLabel));
+
+      const out = createDiffModelsOutput(diff.identical, diff, markdown);
+      (out as any).__audit = {
+        basePath,
+        targetPath: input?.targetPath,
+        identical: diff.identical,
+        elementChanges: diff.elements.added.length + diff.elements.removed.length + diff.elements.changed.length
+      };
+      return out;
+    });
+  }
+
+  async function mergeModelsHandler(input: MergeModelsInput): Promise<MergeModelsOutput> {
+    return logger.auditToolInvocation('MergeModels', input, async () => {
+      manipulator.assertWritable('MergeModels');
+      if (!input || !input.basePath || !input.oursPath || !input.theirsPath || !input.outputPath) {
+        throw new Error('basePath, oursPath, theirsPath and outputPath are required');
+      }
+
+      // The output file usually does not exist yet, so it cannot be checked to be a file
+      const outputValidation = validatePath(input.outputPath, { checkExists: false, checkReadable: false, mustBeFile: false });
+      if (!outputValidation.valid) {
+        throw new Error(`Path validation failed for ${input.outputPath}: ${outputValidation.error}`);
+      }
+      const outputPath = outputValidation.resolvedPath!;
+      if (outputPath === loader.getPath()) {
+        throw new Error('outputPath is the model currently loaded. Write the merge to another file and load it with SetModelPath.');
+      }
+      if (existsSync(outputPath) && !input.overwrite) {
+        throw new Error(`File already exists at path: ${outputPath}. Pass overwrite: true to replace it.`);
+      }
+
+      const { merged, conflicts } = mergeModels(
+        readModelFile(input.basePath),
+        readModelFile(input.oursPath),
+        readModelFile(input.theirsPath),
+        { prefer: input.prefer }
+      );
+
+      // Conflicts are only resolved automatically when a side is preferred
+      const written = conflicts.length === 0 || input.prefer !== undefined;
+      if (written) {
+        mkdirSync(dirname(outputPath), { recursive: true });
+        // Archi opens only its native format, so a .archimate output is written in it
+        const xml = extname(outputPath).toLowerCase() === '.archimate'
+          ? new ArchiNativeXMLBuilder().serialize(merged)
+          : new ArchiMateXMLBuilder().serialize(merged);
+        writeFileSync(outputPath, xml, 'utf8');
+        logger.log('info', 'model.merge.written', { path: outputPath, conflicts: conflicts.length });
+      }
+
+      const markdown = withDisclaimer(renderMergeResultMarkdown(
+        { basePath: input.basePath, oursPath: input.oursPath, theirsPath: input.theirsPath, outputPath, written, prefer: input.prefer },
+        merged,
+        conflicts
+      ));
+
+      const out = createMergeModelsOutput(written, outputPath, conflicts, markdown);
+      (out as any).__audit = { outputPath, written, conflicts: conflicts.length, prefer: input.prefer };
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Impact Analysis Handlers
+  // ============================================================================
+
+  /**
+   * Identifier of an element given by identifier, or by exact name or contains, in any language
+   */
+  function resolveElementId(model: ModelData, identifier?: string, name?: string): string {
+    if (identifier) return identifier;
+    const searchName = name!.toLowerCase();
+    const element = model.elements.find(x => allTexts(x, 'name').some(n => n.toLowerCase() === searchName))
+      || model.elements.find(x => allTexts(x, 'name').some(n => n.toLowerCase().includes(searchName)));
+    if (!element) throw new Error(`Element not found: ${name}`);
+    return element.id;
+  }
+
+  async function analyzeImpactHandler(input: AnalyzeImpactInput): Promise<AnalyzeImpactOutput> {
+    return logger.auditToolInvocation('AnalyzeImpact', input, async () => {
+      if (!input || (!input.identifier && !input.elementname)) throw new Error('identifier or elementname required');
+      const lang = input.language || cfg.language;
+      const model = manipulator.getModel();
+      const startId = resolveElementId(model, input.identifier, input.elementname);
+
+      const analysis = analyzeImpact(localizeModel(model, lang), startId, {
+        direction: input.direction,
+        relationshipTypes: input.relationshipTypes,
+        maxDepth: input.maxDepth
+      });
+
+      const out = createAnalyzeImpactOutput(analysis, withDisclaimer(renderImpactAnalysisMarkdown(analysis)));
+      (out as any).__audit = { elementId: startId, affected: analysis.elements.length, views: analysis.views.length };
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Path Finding Handlers
+  // ============================================================================
+
+  async function findPathsHandler(input: FindPathsInput): Promise<FindPathsOutput> {
+    return logger.auditToolInvocation('FindPaths', input, async () => {
+      if (!input || (!input.sourceId && !input.sourceName)) throw new Error('sourceId or sourceName required');
+      if (!input.targetId && !input.targetName) throw new Error('targetId or targetName required');
+      const lang = input.language || cfg.language;
+      const model = manipulator.getModel();
+      const sourceId = resolveElementId(model, input.sourceId, input.sourceName);
+      const targetId = resolveElementId(model, input.targetId, input.targetName);
+      if (sourceId === targetId) throw new Error('Source and target are the same element');
+
+      const search = findPaths(localizeModel(model, lang), sourceId, targetId, {
+        relationshipTypes: input.relationshipTypes,
+        maxHops: input.maxHops,
+        k: input.k,
+        directed: input.directed
+      });
+
+      const out = createFindPathsOutput(search, withDisclaimer(renderPathsMarkdown(search)));
+      (out as any).__audit = { sourceId, targetId, paths: search.paths.length };
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Derived Relationships Handlers
+  // ============================================================================
+
+  async function getDerivedRelationshipsHandler(input: GetDerivedRelationshipsInput): Promise<GetDerivedRelationshipsOutput> {
+    return logger.auditToolInvocation('GetDerivedRelationships', input || {}, async () => {
+      const lang = input?.language || cfg.language;
+      const model = localizeModel(manipulator.getModel(), lang);
+      const sourceId = input?.sourceId || input?.sourceName ? resolveElementId(model, input.sourceId, input.sourceName) : undefined;
+      const targetId = input?.targetId || input?.targetName ? resolveElementId(model, input.targetId, input.targetName) : undefined;
+
+      const derived = deriveRelationships(model, {
+        sourceId,
+        targetId,
+        relationshipTypes: input?.relationshipTypes,
+        includePotential: input?.includePotential,
+        maxChainLength: input?.maxChainLength
+      });
+
+      const name = (id: string) => model.elements.find(e => e.id === id)!.name;
+      const title = sourceId && targetId ? `Derived Relationships: ${name(sourceId)} → ${name(targetId)}`
+        : sourceId ? `Derived Relationships from ${name(sourceId)}`
+        : targetId ? `Derived Relationships to ${name(targetId)}`
+        : 'Derived Relationships';
+
+      const out = createGetDerivedRelationshipsOutput(derived, withDisclaimer(renderDerivedRelationshipsMarkdown(model, derived, title)));
+      (out as any).__audit = { sourceId, targetId, resultCount: derived.length };
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Model Query Handlers
+  // ============================================================================
+
+  async function queryModelHandler(input: QueryModelInput): Promise<QueryModelOutput> {
+    return logger.auditToolInvocation('QueryModel', input, async () => {
+      if (!input?.query?.trim()) throw new Error('query is required');
+      const lang = input.language || cfg.language;
+      const model = localizeModel(manipulator.getModel(), lang);
+
+      const result = runQuery(model, input.query);
+      const markdown = withDisclaimer(input.format === 'json'
+        ? '```json\n' + JSON.stringify({ columns: result.columns, rows: result.rows }, null, 2) + '\n```'
+        : renderQueryResultMarkdown(result, input.explain));
+
+      const out = createQueryModelOutput(result, markdown);
+      (out as any).__audit = { query: input.query, resultCount: result.rows.length };
+      return out;
+    });
+  }
+
+  // ============================================================================
+  // Semantic Search Handlers
+  // ============================================================================
+
+  async function semanticSearchHandler(input: SemanticSearchInput): Promise<SemanticSearchOutput> {
+    return logger.auditToolInvocation('SemanticSearch', input, async () => {
+      if (!input?.query?.trim()) throw new Error('query is required');
+      const mode = input.mode || 'hybrid';
+      const semanticWeight = mode === 'semantic' ? 1 : mode === 'keyword' ? 0 : input.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT;
+      const limit = input.limit || 10;
+
+      const index = await getSemanticIndex();
+      const model = manipulator.getModel();
+      let hits = await index.search(input.query, getSearchIndex(model), { kinds: input.kinds, semanticWeight });
+      if (input.type) {
+        const t = input.type.toLowerCase();
+        hits = hits.filter(h => h.kind === 'element' && (h.type || '').toLowerCase().includes(t));
+      }
+      hits = hits.slice(0, limit);
+
+      const out = createSemanticSearchOutput(hits, withDisclaimer(renderSemanticSearchMarkdown(hits, input.query, semanticWeight)));
+      (out as any).__audit = { mode, resultCount: hits.length };
+      return out;
+    });
+  }
+
   // ============================================================================
   // Validation Handlers
   // ============================================================================
 
   async function validateModelHandler(input: ValidateModelInput): Promise<ValidateModelOutput> {
     return logger.auditToolInvocation('ValidateModel', input, async () => {
-      const validationResult = await manipulator.validateModel();
+      let validationResult = await manipulator.validateModel();
+      // Strict mode reports relationships outside the ArchiMate 3.2 table as errors
+      if (input?.strict && validationResult.warnings?.length) {
+        const errors = [...validationResult.errors, ...validationResult.warnings];
+        validationResult = { valid: false, errors, warnings: [] };
+      }
       const reporter = new ValidationReporter();
       
       // Generate comprehensive report
@@ -1066,7 +2071,7 @@ export function createTools(modelPath?: string) {
   // ============================================================================
 
   async function saveModelHandler(input: SaveModelInput): Promise<SaveModelOutput> {
-    return logger.auditToolInvocation('SaveModel', input, async () => {
+    return auditSerialized('SaveModel', input, async () => {
       const modelPath = manipulator.getModel() ? loader.getPath() : null;
       if (!modelPath && !input?.path) {
         throw new Error('No model file path available. Specify a path in the save request.');
@@ -1113,7 +2118,8 @@ export function createTools(modelPath?: string) {
   }
 
   async function setModelPathHandler(input: SetModelPathInput): Promise<SetModelPathOutput> {
-    return logger.auditToolInvocation('SetModelPath', input, async () => {
+    return auditSerialized('SetModelPath', input, async () => {
+      manipulator.assertWritable('SetModelPath');
       if (!input || !input.path) {
         throw new Error('path is required');
       }
@@ -1199,7 +2205,8 @@ export function createTools(modelPath?: string) {
   }
 
   async function createModelHandler(input: CreateModelInput): Promise<CreateModelOutput> {
-    return logger.auditToolInvocation('CreateModel', input, async () => {
+    return auditSerialized('CreateModel', input, async () => {
+      manipulator.assertWritable('CreateModel');
       if (!input || !input.path) {
         throw new Error('path is required');
       }
@@ -1358,6 +2365,21 @@ export function createTools(modelPath?: string) {
     addElementToViewHandler,
     removeElementFromViewHandler,
     deleteViewHandler,
+    listFoldersHandler,
+    moveToFolderHandler,
+    getModelMetadataHandler,
+    updateModelMetadataHandler,
+    batchOperationsHandler,
+    undoHandler,
+    redoHandler,
+    getEditHistoryHandler,
+    diffModelsHandler,
+    mergeModelsHandler,
+    analyzeImpactHandler,
+    findPathsHandler,
+    getDerivedRelationshipsHandler,
+    queryModelHandler,
+    semanticSearchHandler,
     validateModelHandler,
     validateElementHandler,
     validateRelationshipHandler,
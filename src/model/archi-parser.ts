@@ -0,0 +1,307 @@
+/**
+ * Archi Native Format Parser
+ *
+ * Reads Archi's native `.archimate` XML (`archimate:model` with folders,
+ * `element xsi:type="archimate:..."` and `archimate:ArchimateDiagramModel` views)
+ * into the same ModelData shape produced for the Open Group Exchange Format.
+ *
+ * @module model/archi-parser
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { ModelData, ElementObject, RelationshipObject, ViewObject, OrganizationFolder } from './types';
+
+/**
+ * Archi namespace used on the root `archimate:model` element
+ */
+export const ARCHI_NS = 'http://www.archimatetool.com/archimate';
+
+/**
+ * Archi viewpoint identifiers mapped to Exchange Format viewpoint names
+ */
+export const ARCHI_VIEWPOINTS: Record<string, string> = {
+  application_cooperation: 'Application Cooperation',
+  application_usage: 'Application Usage',
+  business_process_cooperation: 'Business Process Cooperation',
+  capability: 'Capability Map',
+  goal_realization: 'Goal Realization',
+  implementation_deployment: 'Implementation and Deployment',
+  implementation_migration: 'Implementation and Migration',
+  information_structure: 'Information Structure',
+  layered: 'Layered',
+  migration: 'Migration',
+  motivation: 'Motivation',
+  organization: 'Organization',
+  outcome_realization: 'Outcome Realization',
+  physical: 'Physical',
+  product: 'Product',
+  project: 'Project',
+  requirements_realization: 'Requirements Realization',
+  resource: 'Resource Map',
+  service_realization: 'Service Realization',
+  stakeholder: 'Stakeholder',
+  strategy: 'Strategy',
+  technology: 'Technology',
+  technology_usage: 'Technology Usage',
+  value_stream: 'Value Stream'
+};
+
+/**
+ * Check whether an XML document is an Archi native model
+ */
+export function isArchiNativeModel(xml: string): boolean {
+  // Only the prologue and root element are needed to tell the formats apart
+  const head = xml.slice(0, 2000);
+  return /<archimate:model[\s>]/.test(head) || head.includes(ARCHI_NS);
+}
+
+/**
+ * Strip the `archimate:` prefix from an Archi xsi:type value
+ */
+export function stripArchiPrefix(xsiType: string | undefined): string | undefined {
+  if (!xsiType) return undefined;
+  const idx = xsiType.indexOf(':');
+  return idx === -1 ? xsiType : xsiType.slice(idx + 1);
+}
+
+/**
+ * Convert an Archi relationship type (e.g. `archimate:ServingRelationship`)
+ * to its Exchange Format name (e.g. `Serving`)
+ */
+export function toRelationshipType(xsiType: string | undefined): string | undefined {
+  const type = stripArchiPrefix(xsiType);
+  return type ? type.replace(/Relationship$/, '') : undefined;
+}
+
+function asArray<T>(v: any): T[] {
+  if (v === undefined || v === null) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+function text(v: any): string | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (typeof v === 'object') return v['#text'] !== undefined ? String(v['#text']) : undefined;
+  return String(v);
+}
+
+/**
+ * Parser for Archi native model files
+ */
+export class ArchiModelParser {
+  private propertyIds = new Map<string, string>();
+
+  /**
+   * Parse Archi native XML into ModelData
+   */
+  parse(xml: string): ModelData {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@',
+      textNodeName: '#text',
+      // Keep prefixes: Archi junctions and folders carry both `type` and `xsi:type`
+      removeNSPrefix: false,
+      parseTagValue: false
+    });
+    const parsed = parser.parse(xml);
+    const root = parsed['archimate:model'] || parsed.model;
+    if (!root) {
+      throw new Error('Not an Archi model: missing archimate:model root element');
+    }
+
+    this.propertyIds.clear();
+    const elements: ElementObject[] = [];
+    const relationships: RelationshipObject[] = [];
+    const views: ViewObject[] = [];
+
+    this.collectFolderContents(root, elements, relationships, views);
+    this.linkReferences(elements, relationships, views);
+
+    const modelProperties = this.parseProperties(root.property);
+
+    const conceptIds = new Set([...elements, ...relationships, ...views].map(c => c.id));
+    const organizations = asArray<any>(root.folder).map(f => this.parseFolder(f, conceptIds));
+
+    const propertyDefinitions = Array.from(this.propertyIds.entries()).map(([name, identifier]) => ({
+      identifier,
+      name,
+      type: 'string'
+    }));
+
+    return {
+      id: root['@id'],
+      name: root['@name'],
+      documentation: text(root.purpose),
+      version: root['@version'],
+      properties: modelProperties,
+      views,
+      elements,
+      relationships,
+      propertyDefinitions,
+      organizations,
+      format: 'archi'
+    };
+  }
+
+  /**
+   * Walk folders recursively and sort their `element` children by kind
+   */
+  private collectFolderContents(
+    folder: any,
+    elements: ElementObject[],
+    relationships: RelationshipObject[],
+    views: ViewObject[]
+  ): void {
+    for (const el of asArray<any>(folder.element)) {
+      const xsiType: string | undefined = el['@xsi:type'];
+      if (!xsiType) continue;
+
+      if (xsiType === 'archimate:ArchimateDiagramModel') {
+        views.push(this.parseView(el));
+      } else if (xsiType.endsWith('Relationship')) {
+        relationships.push(this.parseRelationship(el));
+      } else if (xsiType.startsWith('archimate:') && !xsiType.endsWith('Model')) {
+        elements.push(this.parseElement(el));
+      }
+      // Sketch and canvas models have no ArchiMate semantics and are skipped
+    }
+
+    for (const sub of asArray<any>(folder.folder)) {
+      this.collectFolderContents(sub, elements, relationships, views);
+    }
+  }
+
+  /**
+   * Convert an Archi folder to an organization folder
+   */
+  private parseFolder(folder: any, conceptIds: Set<string>): OrganizationFolder {
+    return {
+      id: folder['@id'],
+      label: folder['@name'] || '',
+      documentation: text(folder.documentation),
+      type: folder['@type'],
+      items: asArray<any>(folder.element).map(el => el['@id']).filter(id => conceptIds.has(id)),
+      folders: asArray<any>(folder.folder).map(sub => this.parseFolder(sub, conceptIds))
+    };
+  }
+
+  private parseElement(el: any): ElementObject {
+    const id = el['@id'];
+    let type = stripArchiPrefix(el['@xsi:type']);
+    if (type === 'Junction') {
+      type = el['@type'] === 'or' ? 'OrJunction' : 'AndJunction';
+    }
+    return {
+      id,
+      type,
+      name: el['@name'] || id,
+      documentation: text(el.documentation),
+      properties: this.parseProperties(el.property),
+      inViews: [],
+      outgoingRelations: [],
+      incomingRelations: []
+    };
+  }
+
+  private parseRelationship(el: any): RelationshipObject {
+    return {
+      id: el['@id'],
+      type: toRelationshipType(el['@xsi:type']),
+      sourceId: el['@source'],
+      targetId: el['@target'],
+      name: el['@name'] || undefined,
+      documentation: text(el.documentation),
+      properties: this.parseProperties(el.property)
+    };
+  }
+
+  private parseView(el: any): ViewObject {
+    const id = el['@id'];
+    const viewpointId: string | undefined = el['@viewpoint'];
+    const elementsInView: string[] = [];
+    const relsInView: string[] = [];
+    const nodeHierarchy: Array<{ parentElement: string; childElement: string }> = [];
+
+    // Recursive function to process diagram children at any nesting level
+    const processChild = (child: any, parentElementRef?: string) => {
+      const eref: string | undefined = child['@archimateElement'];
+      if (eref) {
+        elementsInView.push(eref);
+        if (parentElementRef) {
+          nodeHierarchy.push({ parentElement: parentElementRef, childElement: eref });
+        }
+      }
+
+      for (const conn of asArray<any>(child.sourceConnection)) {
+        const rref = conn['@archimateRelationship'];
+        if (rref) relsInView.push(rref);
+      }
+
+      for (const nested of asArray<any>(child.child)) {
+        processChild(nested, eref);
+      }
+    };
+
+    for (const child of asArray<any>(el.child)) {
+      processChild(child);
+    }
+
+    return {
+      id,
+      type: 'Diagram',
+      name: el['@name'] || id,
+      viewpoint: viewpointId ? (ARCHI_VIEWPOINTS[viewpointId] || viewpointId) : undefined,
+      documentation: text(el.documentation),
+      properties: this.parseProperties(el.property),
+      elements: elementsInView,
+      relationships: relsInView,
+      nodeHierarchy
+    };
+  }
+
+  /**
+   * Archi stores properties as key/value pairs without definitions.
+   * Keys are mapped to generated property definition IDs so that the
+   * resulting ModelData matches the Exchange Format representation.
+   */
+  private parseProperties(propertyData: any): Record<string, string> {
+    const props: Record<string, string> = {};
+    for (const p of asArray<any>(propertyData)) {
+      const key = p['@key'];
+      if (!key) continue;
+      let ref = this.propertyIds.get(key);
+      if (!ref) {
+        ref = `propid-${this.propertyIds.size + 1}`;
+        this.propertyIds.set(key, ref);
+      }
+      props[ref] = p['@value'] !== undefined ? String(p['@value']) : '';
+    }
+    return props;
+  }
+
+  /**
+   * Populate inViews, outgoingRelations and incomingRelations on elements
+   */
+  private linkReferences(elements: ElementObject[], relationships: RelationshipObject[], views: ViewObject[]): void {
+    const elementMap = new Map(elements.map(e => [e.id, e]));
+
+    for (const view of views) {
+      for (const elementId of view.elements || []) {
+        const element = elementMap.get(elementId);
+        if (element && !element.inViews!.includes(view.id)) {
+          element.inViews!.push(view.id);
+        }
+      }
+    }
+
+    for (const rel of relationships) {
+      const source = elementMap.get(rel.sourceId);
+      const target = elementMap.get(rel.targetId);
+      if (source && !source.outgoingRelations!.includes(rel.id)) {
+        source.outgoingRelations!.push(rel.id);
+      }
+      if (target && !target.incomingRelations!.includes(rel.id)) {
+        target.incomingRelations!.push(rel.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * XML Builder for Archi Native Format
+ *
+ * Writes ModelData back to Archi's native `.archimate` XML. The original file is
+ * used as a template and patched in place, so folders, diagram bounds, colours,
+ * fonts and any Archi-specific features the ModelData shape does not carry are
+ * kept exactly as they were.
+ *
+ * @module model/archi-persistence
+ */
+
+import { builder, create } from 'xmlbuilder2';
+import { XMLBuilder } from 'xmlbuilder2/lib/interfaces';
+import { randomUUID } from 'crypto';
+import { ModelData, ElementObject, RelationshipObject, ViewObject, OrganizationFolder } from './types';
+import { ARCHI_NS, ARCHI_VIEWPOINTS } from './archi-parser';
+import { DEFAULT_FOLDERS, defaultFolderType } from './organizations';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger();
+
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+const DIAGRAM_MODEL_TYPE = 'archimate:ArchimateDiagramModel';
+
+// Placeholders for characters the serializer would otherwise write raw, which
+// XML parsers normalise away when the file is read back (attribute newlines and tabs)
+const LF_PLACEHOLDER = '\uE000';
+const TAB_PLACEHOLDER = '\uE001';
+
+type ConceptKind = 'element' | 'relationship' | 'diagram' | 'other';
+
+function kindOf(xsiType: string | null): ConceptKind {
+  if (!xsiType) return 'other';
+  if (xsiType === DIAGRAM_MODEL_TYPE) return 'diagram';
+  if (!xsiType.startsWith('archimate:') || xsiType.endsWith('Model')) return 'other';
+  return xsiType.endsWith('Relationship') ? 'relationship' : 'element';
+}
+
+function childElements(node: any, name?: string): any[] {
+  const result: any[] = [];
+  for (const child of Array.from(node.childNodes as ArrayLike<any>)) {
+    if (child.nodeType === 1 && (!name || child.nodeName === name)) result.push(child);
+  }
+  return result;
+}
+
+function childElementsDeep(node: any, name: string): any[] {
+  const result: any[] = [];
+  for (const child of childElements(node)) {
+    if (child.nodeName === name) result.push(child);
+    result.push(...childElementsDeep(child, name));
+  }
+  return result;
+}
+
+function generateArchiId(): string {
+  return `id-${randomUUID().replace(/-/g, '')}`;
+}
+
+/**
+ * XML Builder for Archi native models
+ */
+export class ArchiNativeXMLBuilder {
+  /**
+   * Serialize ModelData to Archi native XML
+   *
+   * @param model Model data to write
+   * @param sourceXml Original Archi file content used as template (a blank model is used if omitted)
+   */
+  serialize(model: ModelData, sourceXml?: string): string {
+    const doc = create(sourceXml || this.createSkeleton(model));
+    const root = doc.root();
+    const propertyNames = new Map((model.propertyDefinitions || []).map(pd => [pd.identifier, pd.name]));
+
+    // Index every concept in the folder tree by identifier
+    const concepts = new Map<string, { node: any; kind: ConceptKind }>();
+    const walk = (folder: any) => {
+      for (const el of childElements(folder, 'element')) {
+        concepts.set(el.getAttribute('id'), { node: el, kind: kindOf(el.getAttribute('xsi:type')) });
+      }
+      for (const sub of childElements(folder, 'folder')) walk(sub);
+    };
+    walk(root.node);
+
+    // Remove concepts that no longer exist in the model
+    const keep: Record<ConceptKind, Set<string>> = {
+      element: new Set(model.elements.map(e => e.id)),
+      relationship: new Set(model.relationships.map(r => r.id)),
+      diagram: new Set(model.views.map(v => v.id)),
+      other: new Set()
+    };
+    const removedDiagrams = new Set<string>();
+    for (const [id, { node, kind }] of concepts) {
+      if (kind === 'other' || keep[kind].has(id)) continue;
+      node.parentNode.removeChild(node);
+      concepts.delete(id);
+      if (kind === 'diagram') removedDiagrams.add(id);
+    }
+
+    // File concepts in the folders given by the model's organizations
+    const folderOf = model.organizations ? this.syncFolders(root.node, model.organizations, true) : new Map<string, any>();
+    const place = (id: string, folderType: string): any => {
+      const node = concepts.get(id)?.node;
+      const target = folderOf.get(id);
+      if (!node) return this.createConcept(target || this.getTopLevelFolder(root, folderType), id);
+      if (target && node.parentNode !== target) target.appendChild(node);
+      return node;
+    };
+
+    for (const element of model.elements) {
+      this.applyElement(place(element.id, defaultFolderType('element', element.type)), element, propertyNames);
+    }
+
+    for (const relationship of model.relationships) {
+      this.applyRelationship(place(relationship.id, 'relations'), relationship, propertyNames);
+    }
+
+    for (const view of model.views) {
+      this.applyView(place(view.id, 'diagrams'), view, model, propertyNames, removedDiagrams);
+    }
+
+    // Model name, purpose and properties; Archi writes these after the folders
+    const modelName = model.name || (root.node as any).getAttribute('name') || undefined;
+    this.applyCommon(root.node, modelName, model.documentation, model.properties, propertyNames, 'purpose', true);
+
+    this.protectAttributeWhitespace(root.node);
+    const xml = doc.end({ prettyPrint: true, indent: '  ', newline: '\n' })
+      .replace(/\r/g, '&#xD;')
+      .split(LF_PLACEHOLDER).join('&#xA;')
+      .split(TAB_PLACEHOLDER).join('&#x9;');
+
+    logger.log('info', 'xml.serialize.success', {
+      format: 'archi',
+      elements: model.elements.length,
+      relationships: model.relationships.length,
+      views: model.views.length
+    });
+
+    return xml + '\n';
+  }
+
+  /**
+   * Create an empty Archi model with the default folder structure
+   */
+  private createSkeleton(model: ModelData): string {
+    const root = create({ version: '1.0', encoding: 'UTF-8' })
+      .ele('archimate:model', {
+        'xmlns:xsi': XSI_NS,
+        'xmlns:archimate': ARCHI_NS,
+        name: model.name || 'ArchiMate Model',
+        id: model.id || generateArchiId(),
+        version: model.version || '5.0.0'
+      });
+    for (const folder of DEFAULT_FOLDERS) {
+      root.ele('folder', { name: folder.name, id: generateArchiId(), type: folder.type });
+    }
+    return root.end();
+  }
+
+  /**
+   * Find the top-level folder of the given type, creating it when missing
+   */
+  private getTopLevelFolder(root: XMLBuilder, folderType: string): any {
+    const folder = childElements(root.node, 'folder').find(f => f.getAttribute('type') === folderType);
+    if (folder) return folder;
+    const def = DEFAULT_FOLDERS.find(f => f.type === folderType)!;
+    return root.ele('folder', { name: def.name, id: generateArchiId(), type: def.type }).node;
+  }
+
+  /**
+   * Create a new `element` node in a folder.
+   * Attributes are seeded in Archi's order and filled in by the apply methods.
+   */
+  private createConcept(folder: any, id: string): any {
+    const node = this.wrap(folder).ele('element').node as any;
+    // Seed xsi:type in its namespace so the apply methods overwrite it instead of adding a second one
+    node.setAttributeNS(XSI_NS, 'xsi:type', '');
+    node.setAttribute('name', '');
+    node.setAttribute('id', id);
+    return node;
+  }
+
+  /**
+   * Make sure every organization folder exists as a `folder` node and map each
+   * filed concept to its folder node. Folders are matched by id, then by name.
+   */
+  private syncFolders(parent: any, folders: OrganizationFolder[], topLevel: boolean): Map<string, any> {
+    const folderOf = new Map<string, any>();
+    for (const folder of folders) {
+      const existing = childElements(parent, 'folder');
+      let node = existing.find(f => folder.id && f.getAttribute('id') === folder.id)
+        || existing.find(f => f.getAttribute('name') === folder.label)
+        || (topLevel && folder.type ? existing.find(f => f.getAttribute('type') === folder.type) : undefined);
+      if (!node) {
+        const attrs: Record<string, string> = { name: folder.label, id: folder.id || generateArchiId() };
+        if (topLevel && folder.type) attrs.type = folder.type;
+        node = this.wrap(parent).ele('folder', attrs).node;
+        // Archi lists sub-folders before the concepts of a folder
+        const firstElement = childElements(parent, 'element')[0];
+        if (firstElement) parent.insertBefore(node, firstElement);
+      } else if (node.getAttribute('name') !== folder.label) {
+        node.setAttribute('name', folder.label);
+      }
+
+      for (const id of folder.items) folderOf.set(id, node);
+      for (const [id, sub] of this.syncFolders(node, folder.folders, false)) folderOf.set(id, sub);
+    }
+    return folderOf;
+  }
+
+  private applyElement(node: any, element: ElementObject, propertyNames: Map<string, string>): void {
+    if (element.type === 'AndJunction' || element.type === 'OrJunction') {
+      node.setAttributeNS(XSI_NS, 'xsi:type', 'archimate:Junction');
+      if (element.type === 'OrJunction') node.setAttribute('type', 'or');
+      else node.removeAttribute('type');
+    } else if (element.type) {
+      node.setAttributeNS(XSI_NS, 'xsi:type', `archimate:${element.type}`);
+    }
+    this.applyCommon(node, element.name, element.documentation, element.properties, propertyNames);
+  }
+
+  private applyRelationship(node: any, relationship: RelationshipObject, propertyNames: Map<string, string>): void {
+    if (relationship.type) {
+      node.setAttributeNS(XSI_NS, 'xsi:type', `archimate:${relationship.type}Relationship`);
+    }
+    this.applyCommon(node, relationship.name, relationship.documentation, relationship.properties, propertyNames);
+    node.setAttribute('source', relationship.sourceId);
+    node.setAttribute('target', relationship.targetId);
+  }
+
+  private applyView(
+    node: any,
+    view: ViewObject,
+    model: ModelData,
+    propertyNames: Map<string, string>,
+    removedDiagrams: Set<string>
+  ): void {
+    node.setAttributeNS(XSI_NS, 'xsi:type', DIAGRAM_MODEL_TYPE);
+    this.applyCommon(node, view.name, view.documentation, view.properties, propertyNames);
+
+    if (view.viewpoint) {
+      const viewpointId = Object.keys(ARCHI_VIEWPOINTS).find(k => ARCHI_VIEWPOINTS[k] === view.viewpoint);
+      node.setAttribute('viewpoint', viewpointId || view.viewpoint);
+    } else {
+      node.removeAttribute('viewpoint');
+    }
+
+    this.syncDiagram(node, view, model, removedDiagrams);
+  }
+
+  /**
+   * Set name, documentation and properties, leaving unchanged nodes untouched
+   *
+   * @param docTag Element holding the documentation (`purpose` on the model itself)
+   * @param trailingProperties Append properties after all other children, as Archi does on the model
+   */
+  private applyCommon(
+    node: any,
+    name: string | undefined,
+    documentation: string | undefined,
+    properties: Record<string, string> | undefined,
+    propertyNames: Map<string, string>,
+    docTag: string = 'documentation',
+    trailingProperties: boolean = false
+  ): void {
+    if (name) {
+      if (node.getAttribute('name') !== name) node.setAttribute('name', name);
+    } else {
+      node.removeAttribute('name');
+    }
+
+    const docNode = childElements(node, docTag)[0];
+    if (documentation) {
+      if (!docNode) {
+        const created = this.wrap(node).ele(docTag).txt(documentation).node;
+        const firstProperty = childElements(node, 'property')[0];
+        if (firstProperty) node.insertBefore(created, firstProperty);
+      } else if (docNode.textContent !== documentation) {
+        docNode.textContent = documentation;
+      }
+    } else if (docNode) {
+      node.removeChild(docNode);
+    }
+
+    const desired = Object.entries(properties || {}).map(([ref, value]) => [propertyNames.get(ref) || ref, value]);
+    const existing = childElements(node, 'property');
+    const unchanged = existing.length === desired.length && existing.every((p, i) =>
+      (p.getAttribute('key') || '') === desired[i][0] && (p.getAttribute('value') || '') === desired[i][1]
+    );
+    if (unchanged) return;
+
+    for (const p of existing) node.removeChild(p);
+    const anchor = trailingProperties ? undefined : childElements(node).find(c => c.nodeName !== docTag);
+    for (const [key, value] of desired) {
+      const attrs: Record<string, string> = { key };
+      if (value) attrs.value = value;
+      const created = this.wrap(node).ele('property', attrs).node;
+      if (anchor) node.insertBefore(created, anchor);
+    }
+  }
+
+  /**
+   * Bring diagram children and connections in line with the view's element
+   * and relationship lists. Existing children keep their bounds and styles.
+   */
+  private syncDiagram(diagram: any, view: ViewObject, model: ModelData, removedDiagrams: Set<string>): void {
+    const wantedElements = new Set(view.elements || []);
+    const wantedRelationships = new Set(view.relationships || []);
+    const removedObjects = new Set<string>();
+
+    // Remove diagram objects whose element left the view, lifting their nested children
+    const pruneChildren = (container: any) => {
+      for (const child of childElements(container, 'child')) {
+        pruneChildren(child);
+        const elementRef = child.getAttribute('archimateElement');
+        const modelRef = child.getAttribute('model');
+        const orphaned = (elementRef && !wantedElements.has(elementRef)) || (modelRef && removedDiagrams.has(modelRef));
+        if (!orphaned) continue;
+
+        const bounds = childElements(child, 'bounds')[0];
+        const dx = Number(bounds?.getAttribute('x') || 0);
+        const dy = Number(bounds?.getAttribute('y') || 0);
+        for (const nested of childElements(child, 'child')) {
+          const nestedBounds = childElements(nested, 'bounds')[0];
+          if (nestedBounds) {
+            nestedBounds.setAttribute('x', String(Number(nestedBounds.getAttribute('x') || 0) + dx));
+            nestedBounds.setAttribute('y', String(Number(nestedBounds.getAttribute('y') || 0) + dy));
+          }
+          container.insertBefore(nested, child);
+        }
+        removedObjects.add(child.getAttribute('id'));
+        container.removeChild(child);
+      }
+    };
+    pruneChildren(diagram);
+
+    // Index the remaining diagram objects and connections
+    const objects: any[] = [];
+    const connections: any[] = [];
+    const collect = (container: any) => {
+      for (const child of childElements(container, 'child')) {
+        objects.push(child);
+        connections.push(...childElements(child, 'sourceConnection'));
+        collect(child);
+      }
+    };
+    collect(diagram);
+
+    const removedConnections = new Set<string>();
+    for (const conn of connections) {
+      const relationshipRef = conn.getAttribute('archimateRelationship');
+      const dangling = removedObjects.has(conn.getAttribute('source')) || removedObjects.has(conn.getAttribute('target'));
+      if (dangling || (relationshipRef && !wantedRelationships.has(relationshipRef))) {
+        removedConnections.add(conn.getAttribute('id'));
+        conn.parentNode.removeChild(conn);
+      }
+    }
+
+    // Add diagram objects for elements that are not drawn yet
+    const objectFor = (elementId: string) => objects.find(o => o.getAttribute('archimateElement') === elementId);
+    let topLevelY = 24;
+    for (const child of childElements(diagram, 'child')) {
+      const bounds = childElements(child, 'bounds')[0];
+      if (bounds) {
+        topLevelY = Math.max(topLevelY, Number(bounds.getAttribute('y') || 0) + Number(bounds.getAttribute('height') || 55) + 24);
+      }
+    }
+    let topLevelX = 24;
+    for (const elementId of wantedElements) {
+      if (objectFor(elementId)) continue;
+      const parentRef = (view.nodeHierarchy || []).find(h => h.childElement === elementId)?.parentElement;
+      const parentObject = parentRef ? objectFor(parentRef) : undefined;
+      let x = topLevelX;
+      let y = topLevelY;
+      if (parentObject) {
+        x = 12 + childElements(parentObject, 'child').length * 132;
+        y = 24;
+      } else {
+        topLevelX += 144;
+      }
+      const created = this.wrap(parentObject || diagram)
+        .ele('child', { 'xsi:type': 'archimate:DiagramObject', id: generateArchiId(), archimateElement: elementId });
+      created.ele('bounds', { x: String(x), y: String(y), width: '120', height: '55' });
+      objects.push(created.node);
+    }
+
+    // Add connections for relationships that are not drawn yet
+    const drawn = new Set(childElementsDeep(diagram, 'sourceConnection').map(c => c.getAttribute('archimateRelationship')));
+    const addedConnections = new Map<string, string[]>();
+    for (const relationshipId of wantedRelationships) {
+      if (drawn.has(relationshipId)) continue;
+      const relationship = model.relationships.find(r => r.id === relationshipId);
+      if (!relationship) continue;
+      const source = objectFor(relationship.sourceId);
+      const target = objectFor(relationship.targetId);
+      if (!source || !target) continue;
+
+      const connectionId = generateArchiId();
+      const created = this.wrap(source).ele('sourceConnection', {
+        'xsi:type': 'archimate:Connection',
+        id: connectionId,
+        source: source.getAttribute('id'),
+        target: target.getAttribute('id'),
+        archimateRelationship: relationshipId
+      }).node;
+      const firstNested = childElements(source, 'child')[0];
+      if (firstNested) source.insertBefore(created, firstNested);
+
+      const targetId = target.getAttribute('id');
+      addedConnections.set(targetId, [...(addedConnections.get(targetId) || []), connectionId]);
+    }
+
+    // Keep targetConnections attributes consistent with the connections in the diagram
+    for (const obj of objects) {
+      const current = (obj.getAttribute('targetConnections') || '').split(/\s+/).filter((id: string) => id);
+      const next = [...current.filter((id: string) => !removedConnections.has(id)), ...(addedConnections.get(obj.getAttribute('id')) || [])];
+      if (next.join(' ') === current.join(' ')) continue;
+      if (next.length === 0) obj.removeAttribute('targetConnections');
+      else if (obj.hasAttribute('targetConnections')) obj.setAttribute('targetConnections', next.join(' '));
+      else this.insertAttributeAfter(obj, 'id', 'targetConnections', next.join(' '));
+    }
+  }
+
+  /**
+   * Add an attribute directly after another one, matching the attribute order Archi writes
+   */
+  private insertAttributeAfter(node: any, after: string, name: string, value: string): void {
+    const trailing = Array.from(node.attributes as ArrayLike<any>);
+    const index = trailing.findIndex(a => a.name === after);
+    for (const attr of trailing.slice(index + 1)) node.removeAttributeNode(attr);
+    node.setAttribute(name, value);
+    for (const attr of trailing.slice(index + 1)) node.setAttributeNode(attr);
+  }
+
+  /**
+   * Encode newlines and tabs in attribute values so they survive a re-read
+   */
+  private protectAttributeWhitespace(node: any): void {
+    for (const attr of Array.from(node.attributes as ArrayLike<any>)) {
+      if (/[\n\t]/.test(attr.value)) {
+        attr.value = attr.value.replace(/\n/g, LF_PLACEHOLDER).replace(/\t/g, TAB_PLACEHOLDER);
+      }
+    }
+    for (const child of childElements(node)) this.protectAttributeWhitespace(child);
+  }
+
+  private wrap(node: any): XMLBuilder {
+    return builder(node);
+  }
+}
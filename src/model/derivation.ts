@@ -0,0 +1,273 @@
+/**
+ * Derived Relationships
+ *
+ * Relationships implied by chains of modelled relationships, following the
+ * derivation rules of the ArchiMate 3.2 specification (section 5.7) that
+ * `utils/relationship-rules` applies to element types:
+ *
+ * - DR1: a chain of structural relationships gives the weakest of them
+ * - DR2: a structural relationship followed by a dependency gives that dependency
+ * - DR3: a dependency on a part, realized or assigned element gives the same
+ *   dependency on the whole, realizer or assignee
+ * - DR4/DR5: the same two rules for dynamic relationships
+ * - DR6: a chain of triggering relationships gives triggering
+ *
+ * These derivations are valid: they hold in any model. Potential derivations
+ * may hold, depending on what the relationships mean, and are reported
+ * separately:
+ *
+ * - PDR1: a dependency or dynamic relationship to a whole may apply to its parts
+ * - PDR2: a chain of serving, influence or flow relationships may give the same relationship
+ *
+ * Chains are followed from their source element, one modelled relationship
+ * at a time, so each derived relationship carries the shortest chain it was
+ * found through. Potential derivations are not chained further. A derived
+ * relationship is only reported when the relationship table allows it and
+ * the same relationship is not modelled already.
+ *
+ * @module model/derivation
+ */
+
+import { ModelData, ElementObject, RelationshipObject } from './types';
+import { NotFoundError } from './manipulator-types';
+import {
+  RelationshipTypeName,
+  getRelationshipCategory,
+  weakestStructural,
+  derivationsThrough,
+  lookupRelationship
+} from '../utils/relationship-rules';
+
+export type DerivationKind = 'valid' | 'potential';
+
+export interface DerivedRelationship {
+  sourceId: string;
+  targetId: string;
+  type: RelationshipTypeName;
+  kind: DerivationKind;
+  /** Derivation rule applied last, e.g. 'DR2' */
+  rule: string;
+  /** Identifiers of the modelled relationships the derivation runs through, in chain order */
+  chain: string[];
+}
+
+export interface DerivationOptions {
+  /** Only relationships from this element */
+  sourceId?: string;
+  /** Only relationships to this element */
+  targetId?: string;
+  /** Only relationships of these types (default: all) */
+  relationshipTypes?: string[];
+  /** Include potential derivations (default: true) */
+  includePotential?: boolean;
+  /** Longest chain of modelled relationships to derive through (default: 4) */
+  maxChainLength?: number;
+}
+
+export const DEFAULT_CHAIN_LENGTH = 4;
+export const MAX_CHAIN_LENGTH = 8;
+
+const POTENTIAL_CHAINS: RelationshipTypeName[] = ['Serving', 'Influence', 'Flow'];
+
+/**
+ * Derive relationships between elements of a model. With a source, only
+ * relationships from it are derived; with a target, only those to it;
+ * with neither, all derived relationships of the model.
+ */
+export function deriveRelationships(model: ModelData, options: DerivationOptions = {}): DerivedRelationship[] {
+  const graph = new DerivationGraph(model);
+  for (const id of [options.sourceId, options.targetId]) {
+    if (id && !graph.element(id)) throw new NotFoundError('element', id);
+  }
+
+  const maxLength = Math.min(Math.max(options.maxChainLength ?? DEFAULT_CHAIN_LENGTH, 2), MAX_CHAIN_LENGTH);
+  const sources = options.sourceId ? [options.sourceId]
+    : options.targetId ? graph.possibleSources(options.targetId, maxLength)
+    : model.elements.map(e => e.id);
+  const types = options.relationshipTypes?.length ? new Set(options.relationshipTypes.map(t => t.toLowerCase())) : undefined;
+
+  const result: DerivedRelationship[] = [];
+  for (const sourceId of sources) {
+    for (const derived of graph.deriveFrom(sourceId, maxLength, options.includePotential !== false)) {
+      if (options.targetId && derived.targetId !== options.targetId) continue;
+      if (types && !types.has(derived.type.toLowerCase())) continue;
+      result.push(derived);
+    }
+  }
+  return result;
+}
+
+interface ChainState {
+  node: string;
+  type: RelationshipTypeName;
+  chain: string[];
+  rule: string;
+}
+
+/**
+ * Modelled relationships between elements, indexed for walking chains
+ */
+class DerivationGraph {
+  private elements: Map<string, ElementObject>;
+  private outgoing = new Map<string, RelationshipObject[]>();
+  private incoming = new Map<string, RelationshipObject[]>();
+  private modelled = new Set<string>();
+
+  constructor(model: ModelData) {
+    this.elements = new Map(model.elements.map(e => [e.id, e]));
+    for (const r of model.relationships) {
+      if (!r.type || getRelationshipCategory(r.type) === 'other') continue;
+      if (!this.elements.has(r.sourceId) || !this.elements.has(r.targetId)) continue;
+      push(this.outgoing, r.sourceId, r);
+      push(this.incoming, r.targetId, r);
+      this.modelled.add(key(r.sourceId, r.targetId, r.type));
+    }
+  }
+
+  element(id: string): ElementObject | undefined {
+    return this.elements.get(id);
+  }
+
+  /**
+   * Elements a derived relationship to the target could start from: those
+   * that reach it through relationships, or through the parts of its wholes (DR3/DR5)
+   */
+  possibleSources(targetId: string, maxLength: number): string[] {
+    const reached = new Set([targetId]);
+    let frontier = [targetId];
+    for (let length = 0; length < maxLength && frontier.length > 0; length++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        const previous = [
+          ...(this.incoming.get(id) || []).map(r => r.sourceId),
+          ...(this.outgoing.get(id) || []).filter(r => getRelationshipCategory(r.type!) === 'structural').map(r => r.targetId)
+        ];
+        for (const p of previous) {
+          if (!reached.has(p)) {
+            reached.add(p);
+            next.push(p);
+          }
+        }
+      }
+      frontier = next;
+    }
+    reached.delete(targetId);
+    return [...reached];
+  }
+
+  /**
+   * Walk chains of modelled relationships from one element
+   */
+  deriveFrom(sourceId: string, maxLength: number, includePotential: boolean): DerivedRelationship[] {
+    const source = this.elements.get(sourceId)!;
+    const valid = new Map<string, DerivedRelationship>();
+    const potential = new Map<string, DerivedRelationship>();
+    const seen = new Set<string>();
+
+    let frontier: ChainState[] = (this.outgoing.get(sourceId) || [])
+      .map(r => ({ node: r.targetId, type: r.type as RelationshipTypeName, chain: [r.id], rule: '' }));
+    frontier.forEach(state => seen.add(`${state.node}|${state.type}`));
+
+    while (frontier.length > 0) {
+      const next: ChainState[] = [];
+      for (const state of frontier) {
+        if (state.chain.length > 1) this.record(valid, source, state, 'valid');
+        if (state.chain.length >= maxLength) continue;
+
+        const through = this.elements.get(state.node)!;
+        const scope = derivationsThrough(source.type || '', through.type || '');
+        const category = getRelationshipCategory(state.type);
+        if (scope === 'none') continue;
+
+        // Forward: the chain continues with a relationship from the element reached
+        for (const r of this.outgoing.get(state.node) || []) {
+          if (state.chain.includes(r.id)) continue;
+          const type = r.type as RelationshipTypeName;
+          const rule = chainRule(state.type, type, scope);
+          if (rule) {
+            const derived = { node: r.targetId, type: rule.type, chain: [...state.chain, r.id], rule: rule.rule };
+            const id = `${derived.node}|${derived.type}`;
+            if (!seen.has(id)) {
+              seen.add(id);
+              next.push(derived);
+            }
+          } else if (includePotential && scope === 'all' && state.type === type && POTENTIAL_CHAINS.includes(type)) {
+            this.record(potential, source, { node: r.targetId, type, chain: [...state.chain, r.id], rule: 'PDR2' }, 'potential');
+          }
+
+          // A dependency or dynamic relationship to a whole may apply to its parts
+          if (includePotential && scope === 'all' && (category === 'dependency' || category === 'dynamic')
+            && getRelationshipCategory(type) === 'structural') {
+            this.record(potential, source, { node: r.targetId, type: state.type, chain: [...state.chain, r.id], rule: 'PDR1' }, 'potential');
+          }
+        }
+
+        // Backward (DR3/DR5): a dependency or dynamic relationship on a part applies to the whole
+        if (category === 'dependency' || category === 'dynamic') {
+          for (const r of this.incoming.get(state.node) || []) {
+            if (state.chain.includes(r.id) || getRelationshipCategory(r.type!) !== 'structural') continue;
+            const whole = this.elements.get(r.sourceId)!;
+            if (derivationsThrough(whole.type || '', through.type || '') !== 'all') continue;
+            const derived = { node: r.sourceId, type: state.type, chain: [...state.chain, r.id], rule: category === 'dependency' ? 'DR3' : 'DR5' };
+            const id = `${derived.node}|${derived.type}`;
+            if (!seen.has(id)) {
+              seen.add(id);
+              next.push(derived);
+            }
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    for (const id of valid.keys()) potential.delete(id);
+    return [...valid.values(), ...potential.values()];
+  }
+
+  /**
+   * Keep a derived relationship unless it is modelled, disallowed or already found through a shorter chain
+   */
+  private record(found: Map<string, DerivedRelationship>, source: ElementObject, state: ChainState, kind: DerivationKind): void {
+    if (state.node === source.id) return;
+    const id = key(source.id, state.node, state.type);
+    if (this.modelled.has(id) || found.has(id)) return;
+    const target = this.elements.get(state.node)!;
+    if (lookupRelationship(source.type || '', target.type || '', state.type)?.allowed === false) return;
+    found.set(id, { sourceId: source.id, targetId: state.node, type: state.type, kind, rule: state.rule, chain: state.chain });
+  }
+}
+
+/**
+ * Relationship derived from two relationships in a chain, by DR1, DR2, DR4 or DR6
+ */
+function chainRule(
+  first: RelationshipTypeName,
+  second: RelationshipTypeName,
+  scope: 'all' | 'motivation'
+): { type: RelationshipTypeName; rule: string } | undefined {
+  const firstCategory = getRelationshipCategory(first);
+  const secondCategory = getRelationshipCategory(second);
+
+  if (firstCategory === 'structural') {
+    if (scope === 'motivation') {
+      if (first === 'Realization' && second === 'Realization') return { type: 'Realization', rule: 'DR1' };
+      if (second === 'Influence') return { type: 'Influence', rule: 'DR2' };
+      return undefined;
+    }
+    if (secondCategory === 'structural') return { type: weakestStructural(first, second), rule: 'DR1' };
+    if (secondCategory === 'dependency') return { type: second, rule: 'DR2' };
+    if (secondCategory === 'dynamic') return { type: second, rule: 'DR4' };
+  }
+  if (scope === 'all' && first === 'Triggering' && second === 'Triggering') return { type: 'Triggering', rule: 'DR6' };
+  return undefined;
+}
+
+function key(sourceId: string, targetId: string, type: string): string {
+  return `${sourceId}|${targetId}|${type}`;
+}
+
+function push<K, V>(map: Map<K, V[]>, k: K, value: V): void {
+  const list = map.get(k);
+  if (list) list.push(value);
+  else map.set(k, [value]);
+}
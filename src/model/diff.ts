@@ -0,0 +1,268 @@
+/**
+ * Model Diff
+ *
+ * Structural comparison of two models. Elements, relationships and views are
+ * matched by identifier. Properties are matched by the name of their property
+ * definition, so models whose definitions are numbered differently (e.g. an
+ * Archi file and its Exchange Format export) still compare cleanly. Diagram
+ * layout (node positions, sizes and styles) is not compared.
+ *
+ * @module model/diff
+ */
+
+import { ModelData, ElementObject, RelationshipObject, ViewObject, LangStrings, MetadataValue } from './types';
+
+/**
+ * One changed field; `before`/`after` are absent when the field was added or removed
+ */
+export interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ConceptSummary {
+  id: string;
+  name?: string;
+  type?: string;
+  /** Relationship source and target, by name when the element has one */
+  source?: string;
+  target?: string;
+}
+
+export interface ChangedConcept extends ConceptSummary {
+  changes: FieldChange[];
+}
+
+export interface ConceptDiff {
+  added: ConceptSummary[];
+  removed: ConceptSummary[];
+  changed: ChangedConcept[];
+}
+
+/**
+ * Elements and relationships added to or removed from a view present in both models
+ */
+export interface ViewMembershipChange {
+  id: string;
+  name: string;
+  addedElements: ConceptSummary[];
+  removedElements: ConceptSummary[];
+  addedRelationships: ConceptSummary[];
+  removedRelationships: ConceptSummary[];
+}
+
+export interface ModelDiff {
+  /** Changes to the model name, documentation, metadata and properties */
+  model: FieldChange[];
+  elements: ConceptDiff;
+  relationships: ConceptDiff;
+  views: ConceptDiff;
+  viewMembership: ViewMembershipChange[];
+  /** Property definitions by name */
+  propertyDefinitions: { added: string[]; removed: string[] };
+  identical: boolean;
+}
+
+/**
+ * Compare two models
+ *
+ * @param base Model before the changes
+ * @param target Model after the changes
+ */
+export function diffModels(base: ModelData, target: ModelData): ModelDiff {
+  const baseProps = propertyNames(base);
+  const targetProps = propertyNames(target);
+  const baseIndex = new ConceptIndex(base);
+  const targetIndex = new ConceptIndex(target);
+
+  const elements = diffConcepts(base.elements, target.elements,
+    e => ({ id: e.id, name: e.name, type: e.type }),
+    (a, b) => [
+      ...fieldChange('type', a.type, b.type),
+      ...textChanges(a, b),
+      ...propertyChanges(a.properties, b.properties, baseProps, targetProps)
+    ]);
+
+  const relationships = diffConcepts(base.relationships, target.relationships,
+    r => targetIndex.relationship(r.id),
+    (a, b) => [
+      ...fieldChange('type', a.type, b.type),
+      ...fieldChange('source', baseIndex.elementName(a.sourceId), targetIndex.elementName(b.sourceId)),
+      ...fieldChange('target', baseIndex.elementName(a.targetId), targetIndex.elementName(b.targetId)),
+      ...textChanges(a, b),
+      ...propertyChanges(a.properties, b.properties, baseProps, targetProps)
+    ],
+    r => baseIndex.relationship(r.id));
+
+  const views = diffConcepts(base.views, target.views,
+    v => ({ id: v.id, name: v.name, type: v.viewpoint }),
+    (a, b) => [
+      ...fieldChange('viewpoint', a.viewpoint, b.viewpoint),
+      ...textChanges(a, b),
+      ...propertyChanges(a.properties, b.properties, baseProps, targetProps)
+    ]);
+
+  const viewMembership: ViewMembershipChange[] = [];
+  const baseViews = new Map(base.views.map(v => [v.id, v]));
+  for (const view of target.views) {
+    const before = baseViews.get(view.id);
+    if (!before) continue;
+    const change = diffMembership(baseIndex, targetIndex, before, view);
+    if (change) viewMembership.push(change);
+  }
+
+  const baseDefinitions = new Set(baseProps.values());
+  const targetDefinitions = new Set(targetProps.values());
+  const propertyDefinitions = {
+    added: [...targetDefinitions].filter(name => !baseDefinitions.has(name)),
+    removed: [...baseDefinitions].filter(name => !targetDefinitions.has(name))
+  };
+
+  const model = [
+    ...fieldChange('name', base.name, target.name),
+    ...fieldChange('documentation', base.documentation, target.documentation),
+    ...Array.from(new Set([...Object.keys(base.metadata?.fields || {}), ...Object.keys(target.metadata?.fields || {})]))
+      .flatMap(key => fieldChange(`metadata ${key}`, metadataText(base.metadata?.fields[key]), metadataText(target.metadata?.fields[key]))),
+    ...propertyChanges(base.properties, target.properties, baseProps, targetProps)
+  ];
+
+  const identical = model.length === 0
+    && [elements, relationships, views].every(d => d.added.length === 0 && d.removed.length === 0 && d.changed.length === 0)
+    && viewMembership.length === 0
+    && propertyDefinitions.added.length === 0 && propertyDefinitions.removed.length === 0;
+
+  return { model, elements, relationships, views, viewMembership, propertyDefinitions, identical };
+}
+
+function diffConcepts<T extends { id: string }>(
+  base: T[],
+  target: T[],
+  summarize: (concept: T) => ConceptSummary,
+  compare: (before: T, after: T) => FieldChange[],
+  summarizeRemoved: (concept: T) => ConceptSummary = summarize
+): ConceptDiff {
+  const baseById = new Map(base.map(c => [c.id, c]));
+  const targetIds = new Set(target.map(c => c.id));
+  const diff: ConceptDiff = { added: [], removed: [], changed: [] };
+
+  for (const concept of target) {
+    const before = baseById.get(concept.id);
+    if (!before) {
+      diff.added.push(summarize(concept));
+      continue;
+    }
+    const changes = compare(before, concept);
+    if (changes.length > 0) {
+      diff.changed.push({ ...summarize(concept), changes });
+    }
+  }
+  for (const concept of base) {
+    if (!targetIds.has(concept.id)) diff.removed.push(summarizeRemoved(concept));
+  }
+  return diff;
+}
+
+function diffMembership(base: ConceptIndex, target: ConceptIndex, before: ViewObject, after: ViewObject): ViewMembershipChange | undefined {
+  const added = (a: string[] = [], b: string[] = []) => b.filter(id => !a.includes(id));
+
+  const change: ViewMembershipChange = {
+    id: after.id,
+    name: after.name,
+    addedElements: added(before.elements, after.elements).map(id => target.element(id)),
+    removedElements: added(after.elements, before.elements).map(id => base.element(id)),
+    addedRelationships: added(before.relationships, after.relationships).map(id => target.relationship(id)),
+    removedRelationships: added(after.relationships, before.relationships).map(id => base.relationship(id))
+  };
+  const changed = change.addedElements.length + change.removedElements.length
+    + change.addedRelationships.length + change.removedRelationships.length > 0;
+  return changed ? change : undefined;
+}
+
+function fieldChange(field: string, before: string | undefined, after: string | undefined): FieldChange[] {
+  const a = before || undefined;
+  const b = after || undefined;
+  return a === b ? [] : [{ field, before: a, after: b }];
+}
+
+/**
+ * A Dublin Core value as one text; repeated elements are joined in order
+ */
+function metadataText(value: MetadataValue | undefined): string | undefined {
+  return Array.isArray(value) ? value.join('; ') : value;
+}
+
+/**
+ * Changes to names and documentation, including variants in other languages
+ */
+function textChanges(a: ElementObject | RelationshipObject | ViewObject, b: ElementObject | RelationshipObject | ViewObject): FieldChange[] {
+  return [
+    ...fieldChange('name', a.name, b.name),
+    ...variantChanges('name', a.nameTranslations, b.nameTranslations),
+    ...fieldChange('documentation', a.documentation, b.documentation),
+    ...variantChanges('documentation', a.documentationTranslations, b.documentationTranslations)
+  ];
+}
+
+function variantChanges(field: string, a: LangStrings | undefined, b: LangStrings | undefined): FieldChange[] {
+  // The primary variant is already compared through the plain field
+  const primary = [Object.keys(a || {})[0], Object.keys(b || {})[0]];
+  return Array.from(new Set([...Object.keys(a || {}), ...Object.keys(b || {})]))
+    .filter(lang => !primary.includes(lang))
+    .flatMap(lang => fieldChange(`${field} [${lang}]`, a?.[lang], b?.[lang]));
+}
+
+function propertyChanges(
+  a: Record<string, string> | undefined,
+  b: Record<string, string> | undefined,
+  baseNames: Map<string, string>,
+  targetNames: Map<string, string>
+): FieldChange[] {
+  const byName = (props: Record<string, string> | undefined, names: Map<string, string>) =>
+    new Map(Object.entries(props || {}).map(([key, value]) => [names.get(key) || key, value]));
+  const before = byName(a, baseNames);
+  const after = byName(b, targetNames);
+  return Array.from(new Set([...before.keys(), ...after.keys()]))
+    .flatMap(name => fieldChange(`property "${name}"`, before.get(name), after.get(name)));
+}
+
+/**
+ * Property definition identifier to name
+ */
+function propertyNames(model: ModelData): Map<string, string> {
+  return new Map((model.propertyDefinitions || []).map(pd => [pd.identifier, pd.name || pd.identifier]));
+}
+
+/**
+ * Lookup of the concepts of one model by identifier
+ */
+class ConceptIndex {
+  private elements: Map<string, ElementObject>;
+  private relationships: Map<string, RelationshipObject>;
+
+  constructor(model: ModelData) {
+    this.elements = new Map(model.elements.map(e => [e.id, e]));
+    this.relationships = new Map(model.relationships.map(r => [r.id, r]));
+  }
+
+  elementName(id: string): string {
+    return this.elements.get(id)?.name || id;
+  }
+
+  element(id: string): ConceptSummary {
+    const element = this.elements.get(id);
+    return { id, name: element?.name, type: element?.type };
+  }
+
+  relationship(id: string): ConceptSummary {
+    const relationship = this.relationships.get(id);
+    if (!relationship) return { id };
+    return {
+      id,
+      name: relationship.name || undefined,
+      type: relationship.type,
+      source: this.elementName(relationship.sourceId),
+      target: this.elementName(relationship.targetId)
+    };
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Impact Analysis
+ *
+ * Walks the relationship graph from one element to find the elements a
+ * change to it may affect. Relationships are followed transitively up to a
+ * depth limit, optionally only of some types and in one direction.
+ * Following relationships from source to target ("outgoing") finds what
+ * depends on the element through serving, realization, assignment,
+ * triggering and flow; from target to source ("incoming") finds what it
+ * depends on. Junctions are passed through without counting as a step.
+ *
+ * @module model/impact
+ */
+
+import { ModelData, ElementObject, RelationshipObject } from './types';
+import { NotFoundError } from './manipulator-types';
+import { isJunction } from '../utils/relationship-rules';
+
+export type ImpactDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface ImpactOptions {
+  /** Number of relationships to follow from the start element (default: 3) */
+  maxDepth?: number;
+  /** Relationship types to follow (default: all) */
+  relationshipTypes?: string[];
+  /** Direction to follow relationships in (default: outgoing) */
+  direction?: ImpactDirection;
+}
+
+export const DEFAULT_IMPACT_DEPTH = 3;
+export const MAX_IMPACT_DEPTH = 10;
+
+/**
+ * ArchiMate layers and domains, in the order results are grouped in
+ */
+export const ELEMENT_LAYERS: ReadonlyArray<{ layer: string; types: readonly string[] }> = [
+  { layer: 'Strategy', types: ['Resource', 'Capability', 'ValueStream', 'CourseOfAction'] },
+  {
+    layer: 'Business', types: [
+      'BusinessActor', 'BusinessRole', 'BusinessCollaboration', 'BusinessInterface',
+      'BusinessProcess', 'BusinessFunction', 'BusinessInteraction', 'BusinessEvent',
+      'BusinessService', 'BusinessObject', 'Contract', 'Representation', 'Product'
+    ]
+  },
+  {
+    layer: 'Application', types: [
+      'ApplicationComponent', 'ApplicationCollaboration', 'ApplicationInterface',
+      'ApplicationFunction', 'ApplicationInteraction', 'ApplicationProcess',
+      'ApplicationEvent', 'ApplicationService', 'DataObject'
+    ]
+  },
+  {
+    layer: 'Technology', types: [
+      'Node', 'Device', 'SystemSoftware', 'TechnologyCollaboration',
+      'TechnologyInterface', 'TechnologyFunction', 'TechnologyProcess',
+      'TechnologyInteraction', 'TechnologyEvent', 'TechnologyService',
+      'Artifact', 'CommunicationNetwork', 'Path', 'Network'
+    ]
+  },
+  { layer: 'Physical', types: ['Equipment', 'Facility', 'DistributionNetwork', 'Material'] },
+  {
+    layer: 'Motivation', types: [
+      'Stakeholder', 'Driver', 'Assessment', 'Goal', 'Outcome',
+      'Principle', 'Requirement', 'Constraint', 'Meaning', 'Value'
+    ]
+  },
+  { layer: 'Implementation & Migration', types: ['WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau', 'Gap'] }
+];
+
+/**
+ * Layer of an element type; 'Other' for locations, groupings and junctions
+ */
+export function getElementLayer(type: string | undefined): string {
+  return ELEMENT_LAYERS.find(l => type && l.types.includes(type))?.layer || 'Other';
+}
+
+export interface ImpactedElement {
+  id: string;
+  name: string;
+  type?: string;
+  layer: string;
+  /** Number of relationships between the start element and this one */
+  depth: number;
+  /** Relationship this element was first reached through */
+  via: { relationshipId: string; relationshipType?: string; from: string; direction: 'outgoing' | 'incoming' };
+}
+
+export interface ImpactedView {
+  id: string;
+  name: string;
+  /** Start and affected elements shown in the view */
+  elements: string[];
+}
+
+export interface ImpactAnalysis {
+  start: { id: string; name: string; type?: string; layer: string };
+  direction: ImpactDirection;
+  maxDepth: number;
+  relationshipTypes?: string[];
+  /** Affected elements, nearest first */
+  elements: ImpactedElement[];
+  /** Affected elements grouped by layer, in layer order */
+  layers: Array<{ layer: string; elements: ImpactedElement[] }>;
+  /** Views showing the start element or an affected element */
+  views: ImpactedView[];
+  /** True when the depth limit stopped the walk before the graph was exhausted */
+  truncated: boolean;
+}
+
+/**
+ * Find the elements affected by a change to an element
+ */
+export function analyzeImpact(model: ModelData, startId: string, options: ImpactOptions = {}): ImpactAnalysis {
+  const elements = new Map(model.elements.map(e => [e.id, e]));
+  const start = elements.get(startId);
+  if (!start) {
+    throw new NotFoundError('element', startId);
+  }
+
+  const direction = options.direction || 'outgoing';
+  const maxDepth = Math.min(Math.max(options.maxDepth ?? DEFAULT_IMPACT_DEPTH, 1), MAX_IMPACT_DEPTH);
+  const types = options.relationshipTypes?.length ? new Set(options.relationshipTypes.map(t => t.toLowerCase())) : undefined;
+  const relationships = new Map(model.relationships.map(r => [r.id, r]));
+  const follows = (r: RelationshipObject | undefined): r is RelationshipObject => !!r && (!types || types.has((r.type || '').toLowerCase()));
+
+  const neighbours = (element: ElementObject) => {
+    const result: Array<{ element: ElementObject; relationship: RelationshipObject; direction: 'outgoing' | 'incoming' }> = [];
+    if (direction !== 'incoming') {
+      for (const r of (element.outgoingRelations || []).map(id => relationships.get(id)).filter(follows)) {
+        const target = elements.get(r.targetId);
+        if (target) result.push({ element: target, relationship: r, direction: 'outgoing' });
+      }
+    }
+    if (direction !== 'outgoing') {
+      for (const r of (element.incomingRelations || []).map(id => relationships.get(id)).filter(follows)) {
+        const source = elements.get(r.sourceId);
+        if (source) result.push({ element: source, relationship: r, direction: 'incoming' });
+      }
+    }
+    return result;
+  };
+
+  // Breadth-first walk; junctions continue at the depth they were reached at
+  const reached = new Map<string, ImpactedElement>();
+  const visited = new Set<string>([start.id]);
+  let frontier: Array<{ element: ElementObject; from: string }> = [{ element: start, from: start.id }];
+  let truncated = false;
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: Array<{ element: ElementObject; from: string }> = [];
+    const queue = [...frontier];
+    while (queue.length > 0) {
+      const { element, from } = queue.shift()!;
+      for (const step of neighbours(element)) {
+        if (visited.has(step.element.id)) continue;
+        if (depth > maxDepth) {
+          truncated = true;
+          continue;
+        }
+        visited.add(step.element.id);
+        const source = isJunction(element.type || '') ? from : element.id;
+        if (isJunction(step.element.type || '')) {
+          queue.push({ element: step.element, from: source });
+          continue;
+        }
+        reached.set(step.element.id, {
+          id: step.element.id,
+          name: step.element.name,
+          type: step.element.type,
+          layer: getElementLayer(step.element.type),
+          depth,
+          via: { relationshipId: step.relationship.id, relationshipType: step.relationship.type, from: source, direction: step.direction }
+        });
+        next.push({ element: step.element, from: step.element.id });
+      }
+    }
+    if (truncated) break;
+    frontier = next;
+  }
+
+  const impacted = [...reached.values()];
+  const layers = [...ELEMENT_LAYERS.map(l => l.layer), 'Other']
+    .map(layer => ({ layer, elements: impacted.filter(e => e.layer === layer) }))
+    .filter(group => group.elements.length > 0);
+
+  const affected = new Set([start.id, ...reached.keys()]);
+  const views = model.views
+    .map(v => ({ id: v.id, name: v.name, elements: (v.elements || []).filter(id => affected.has(id)) }))
+    .filter(v => v.elements.length > 0);
+
+  return {
+    start: { id: start.id, name: start.name, type: start.type, layer: getElementLayer(start.type) },
+    direction,
+    maxDepth,
+    relationshipTypes: options.relationshipTypes?.length ? options.relationshipTypes : undefined,
+    elements: impacted,
+    layers,
+    views,
+    truncated
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Multi-language Text
+ *
+ * Helpers for the `xml:lang` variants of names and documentation. The plain
+ * `name`/`documentation` fields always hold the primary (first) variant;
+ * `nameTranslations`/`documentationTranslations` hold every variant when a
+ * concept has text in more than one language, or in a language other than
+ * the model's default.
+ *
+ * @module model/languages
+ */
+
+import { LangStrings, ModelData } from './types';
+
+/** Default language for untagged text */
+export const DEFAULT_LANGUAGE = 'en';
+
+export type LocalizedField = 'name' | 'documentation';
+
+/**
+ * Any concept with localizable name and documentation
+ */
+export interface Localizable {
+  name?: string;
+  documentation?: string;
+  nameTranslations?: LangStrings;
+  documentationTranslations?: LangStrings;
+}
+
+const TRANSLATIONS_FIELD = {
+  name: 'nameTranslations',
+  documentation: 'documentationTranslations'
+} as const;
+
+/**
+ * Check whether two language codes denote the same language (case-insensitive)
+ */
+export function sameLanguage(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Find the variant key for a language. An exact (case-insensitive) match
+ * wins; otherwise `nl` matches `nl-BE` and vice versa.
+ */
+export function findLanguage(variants: LangStrings | undefined, lang: string): string | undefined {
+  if (!variants) return undefined;
+  const keys = Object.keys(variants);
+  const base = lang.toLowerCase().split('-')[0];
+  return keys.find(k => sameLanguage(k, lang))
+    || keys.find(k => k.toLowerCase().split('-')[0] === base);
+}
+
+/**
+ * Get a text field in the requested language, falling back to the primary variant
+ */
+export function getText(obj: Localizable, field: LocalizedField, lang?: string): string | undefined {
+  if (lang) {
+    const variants = obj[TRANSLATIONS_FIELD[field]];
+    const key = findLanguage(variants, lang);
+    if (key !== undefined) return variants![key];
+  }
+  return obj[field];
+}
+
+/**
+ * Get the text of a field in every language, primary first
+ */
+export function allTexts(obj: Localizable, field: LocalizedField): string[] {
+  const texts = obj[field] !== undefined ? [obj[field]!] : [];
+  for (const text of Object.values(obj[TRANSLATIONS_FIELD[field]] || {})) {
+    if (!texts.includes(text)) texts.push(text);
+  }
+  return texts;
+}
+
+/**
+ * List the languages a concept has text in
+ */
+export function getLanguages(obj: Localizable): string[] {
+  return Array.from(new Set([
+    ...Object.keys(obj.nameTranslations || {}),
+    ...Object.keys(obj.documentationTranslations || {})
+  ]));
+}
+
+/**
+ * Record the language of text set on a newly created concept. Nothing is
+ * recorded for text in the model's default language.
+ */
+export function tagLanguage(obj: Localizable, lang: string | undefined, defaultLang: string): void {
+  if (!lang || sameLanguage(lang, defaultLang)) return;
+  if (obj.name !== undefined) obj.nameTranslations = { [lang]: obj.name };
+  if (obj.documentation !== undefined) obj.documentationTranslations = { [lang]: obj.documentation };
+}
+
+/**
+ * Set a text field in one language, leaving the other variants untouched.
+ * Without a language, the primary variant is replaced. An empty or undefined
+ * value removes the variant.
+ */
+export function setText(obj: Localizable, field: LocalizedField, value: string | undefined, lang: string | undefined, defaultLang: string): void {
+  const translationsField = TRANSLATIONS_FIELD[field];
+  const text = value === undefined || value === '' ? undefined : value;
+  const existing = obj[translationsField];
+
+  if (!existing && (!lang || sameLanguage(lang, defaultLang))) {
+    obj[field] = text;
+    return;
+  }
+
+  // Copy so that earlier snapshots of the concept keep their variants
+  const variants: LangStrings = existing
+    ? { ...existing }
+    : obj[field] !== undefined ? { [defaultLang]: obj[field]! } : {};
+  const key = lang ? (findLanguage(variants, lang) ?? lang) : Object.keys(variants)[0] ?? defaultLang;
+  if (text === undefined) {
+    delete variants[key];
+  } else {
+    variants[key] = text;
+  }
+
+  // Keep the plain field in sync with the primary variant
+  const primary = Object.keys(variants)[0];
+  if (primary === undefined) {
+    delete obj[translationsField];
+    if (field === 'documentation') obj.documentation = undefined;
+    return;
+  }
+  obj[translationsField] = variants;
+  obj[field] = variants[primary];
+}
+
+/**
+ * Get a copy of a concept with `name` and `documentation` in the requested
+ * language. Returns the concept itself when no language is requested.
+ */
+export function localize<T extends Localizable>(obj: T, lang?: string): T {
+  if (!lang || (!obj.nameTranslations && !obj.documentationTranslations)) return obj;
+  return { ...obj, name: getText(obj, 'name', lang), documentation: getText(obj, 'documentation', lang) };
+}
+
+/**
+ * Get a copy of the model with all names and documentation in the requested
+ * language. Returns the model itself when no language is requested.
+ */
+export function localizeModel(model: ModelData, lang?: string): ModelData {
+  if (!lang) return model;
+  return {
+    ...model,
+    elements: model.elements.map(e => localize(e, lang)),
+    relationships: model.relationships.map(r => localize(r, lang)),
+    views: model.views.map(v => localize(v, lang))
+  };
+}
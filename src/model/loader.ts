@@ -1,8 +1,10 @@
-import { ModelData, ViewObject, ElementObject, RelationshipObject } from './types';
+import { ModelData, ModelMetadata, LangStrings, ViewObject, ElementObject, RelationshipObject, ViewNode, ViewConnection, ViewStyle, ColorValue, OrganizationFolder } from './types';
 import { readFileSync } from 'fs';
 import { watchFile } from 'fs';
-import { XMLParser } from 'fast-xml-parser';
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
 import { getLogger } from '../utils/logger';
+import { ArchiModelParser, isArchiNativeModel } from './archi-parser';
+import { DEFAULT_LANGUAGE, sameLanguage } from './languages';
 
 const logger = getLogger();
 
@@ -20,13 +22,86 @@ function asArray<T>(v: any): T[] {
   return Array.isArray(v) ? v : [v];
 }
 
+function num(v: any): number | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = Number(v);
+  return Number.isNaN(n) ? undefined : n;
+}
+
+function langText(v: any): string | undefined {
+  const first = asArray<any>(v)[0];
+  if (first === undefined) return undefined;
+  return typeof first === 'object' ? (first['#text'] !== undefined ? String(first['#text']) : '') : String(first);
+}
+
+/**
+ * Collect all `xml:lang` variants of a text element, keyed by language ('' when untagged)
+ */
+function langStrings(v: any): LangStrings {
+  const variants: LangStrings = {};
+  for (const item of asArray<any>(v)) {
+    const lang = typeof item === 'object' ? attr(item, 'lang') : undefined;
+    const text = typeof item === 'object' ? (item['#text'] !== undefined ? String(item['#text']) : '') : String(item);
+    const key = lang ? String(lang) : '';
+    if (!(key in variants)) variants[key] = text;
+  }
+  return variants;
+}
+
+/**
+ * Get the primary text of a text element, plus all variants when there is more
+ * than one language or the only one differs from the model's default language
+ */
+function localizedText(v: any, defaultLang: string): { text?: string; translations?: LangStrings } {
+  const variants = langStrings(v);
+  const keys = Object.keys(variants);
+  if (keys.length === 0) return {};
+  const text = variants[keys[0]];
+  if (keys.length === 1 && (keys[0] === '' || sameLanguage(keys[0], defaultLang))) return { text };
+  return { text, translations: variants };
+}
+
+/**
+ * Recompute the relationship and view references of all elements
+ * (`outgoingRelations`, `incomingRelations`, `inViews`) from the
+ * relationships and views of the model
+ */
+export function linkReferences(model: ModelData): void {
+  const elements = new Map(model.elements.map(e => [e.id, e]));
+  for (const element of model.elements) {
+    element.outgoingRelations = [];
+    element.incomingRelations = [];
+    element.inViews = [];
+  }
+  for (const relationship of model.relationships) {
+    elements.get(relationship.sourceId)?.outgoingRelations!.push(relationship.id);
+    elements.get(relationship.targetId)?.incomingRelations!.push(relationship.id);
+  }
+  for (const view of model.views) {
+    for (const elementId of view.elements || []) {
+      const element = elements.get(elementId);
+      if (element && !element.inViews!.includes(view.id)) {
+        element.inViews!.push(view.id);
+      }
+    }
+  }
+}
+
 export class ModelLoader {
   private path: string;
   private cache?: ModelData;
   private watcherInitialized: boolean = false;
+  private watch: boolean;
+  private invalidationListeners: Array<() => void> = [];
 
-  constructor(path: string) {
+  /**
+   * @param path Model file path
+   * @param options.watch Watch the file and reload after changes (default: true);
+   *   disable for models that are only read once, e.g. for a diff
+   */
+  constructor(path: string, options: { watch?: boolean } = {}) {
     this.path = path;
+    this.watch = options.watch !== false;
     this.initWatcher();
   }
 
@@ -43,17 +118,17 @@ export class ModelLoader {
    */
   setPath(newPath: string): void {
     this.path = newPath;
-    this.cache = undefined;
+    this.invalidate();
     this.watcherInitialized = false;
     this.initWatcher();
   }
 
   private initWatcher() {
-    if (this.watcherInitialized) return;
+    if (this.watcherInitialized || !this.watch) return;
     try {
         watchFile(this.path, { persistent: true, interval: 5000 }, (curr, prev) => {
         if (curr.mtime !== prev.mtime) {
-          this.cache = undefined;
+          this.invalidate();
           // Log to output when file watcher triggers, with timestamp
           const ts = new Date().toISOString();
           logger.log('info', 'model.file.update', { path: this.path });
@@ -68,25 +143,7 @@ export class ModelLoader {
   load(): ModelData {
     if (this.cache) return this.cache;
     try {
-      const xml = readFileSync(this.path, 'utf8');
-      const parsed = this.parseXml(xml);
-      const model = parsed.model || parsed;
-
-      const propDefs = this.parsePropertyDefinitions(model);
-      const elements = this.parseElements(model, propDefs);
-      const relationships = this.parseRelationships(model, propDefs);
-      const views = this.parseViews(model, propDefs);
-
-      // Convert property definitions Map to array for storage
-      const propertyDefinitions = Array.from(propDefs.entries()).map(([id, name]) => ({
-        identifier: id,
-        name: name,
-        type: 'string' // Default type, could be parsed from XML if needed
-      }));
-
-      this.cache = { views, elements, relationships, propertyDefinitions } as ModelData;
-      logger.log('info', 'model.load.success', { path: this.path, views: views.length, elements: elements.length, relationships: relationships.length });
-      return this.cache;
+      return this.parseModel(readFileSync(this.path, 'utf8'));
     } catch (err) {
       this.cache = { views: [], elements: [], relationships: [], propertyDefinitions: [] };
       logger.log('warn', 'model.load.fail', { path: this.path, error: (err as Error)?.message || String(err) });
@@ -94,6 +151,103 @@ export class ModelLoader {
     }
   }
 
+  /**
+   * Load the model without falling back to an empty model, for files that
+   * are compared or merged: an unreadable file must not pass for a model
+   * whose contents were all deleted
+   *
+   * @throws Error when the file cannot be read, is not well-formed XML or has no model root element
+   */
+  loadStrict(): ModelData {
+    if (this.cache) return this.cache;
+    let xml: string;
+    try {
+      xml = readFileSync(this.path, 'utf8');
+    } catch (err) {
+      throw new Error(`Cannot read model file ${this.path}: ${(err as Error)?.message || String(err)}`);
+    }
+    const validation = XMLValidator.validate(xml);
+    if (validation !== true) {
+      throw new Error(`Cannot parse model file ${this.path}: ${validation.err.msg} (line ${validation.err.line})`);
+    }
+    if (!isArchiNativeModel(xml) && !this.parseXml(xml).model) {
+      throw new Error(`Cannot parse model file ${this.path}: missing model root element`);
+    }
+    try {
+      return this.parseModel(xml);
+    } catch (err) {
+      throw new Error(`Cannot parse model file ${this.path}: ${(err as Error)?.message || String(err)}`);
+    }
+  }
+
+  private parseModel(xml: string): ModelData {
+    const data = isArchiNativeModel(xml)
+      ? new ArchiModelParser().parse(xml)
+      : this.parseExchangeModel(xml);
+
+    this.cache = data;
+    logger.log('info', 'model.load.success', { path: this.path, format: data.format, views: data.views.length, elements: data.elements.length, relationships: data.relationships.length });
+    return data;
+  }
+
+  private parseExchangeModel(xml: string): ModelData {
+    const parsed = this.parseXml(xml);
+    const model = parsed.model || parsed;
+
+    // The language of the model name is the default for untagged text
+    const language = Object.keys(langStrings(model.name))[0] || undefined;
+    const lang = language || DEFAULT_LANGUAGE;
+    const modelName = localizedText(model.name, lang);
+    const modelDocumentation = localizedText(model.documentation, lang);
+
+    const propDefs = this.parsePropertyDefinitions(model);
+    const elements = this.parseElements(model, propDefs, lang);
+    const relationships = this.parseRelationships(model, propDefs, lang);
+    const views = this.parseViews(model, propDefs, lang);
+    const organizations = this.parseOrganizations(model);
+
+    // Convert property definitions Map to array for storage
+    const propertyDefinitions = Array.from(propDefs.entries()).map(([id, name]) => ({
+      identifier: id,
+      name: name,
+      type: 'string' // Default type, could be parsed from XML if needed
+    }));
+
+    const data: ModelData = {
+      id: attr(model, 'identifier'),
+      name: modelName.text,
+      documentation: modelDocumentation.text || undefined,
+      version: model['@version'] !== undefined ? String(model['@version']) : undefined,
+      metadata: this.parseMetadata(model.metadata),
+      properties: this.parseProperties(model.properties, propDefs),
+      views,
+      elements,
+      relationships,
+      propertyDefinitions,
+      format: 'exchange'
+    };
+    if (language) data.language = language;
+    if (modelName.translations) data.nameTranslations = modelName.translations;
+    if (modelDocumentation.translations) data.documentationTranslations = modelDocumentation.translations;
+    if (organizations) data.organizations = organizations;
+    return data;
+  }
+
+  private parseMetadata(metadataData: any): ModelMetadata | undefined {
+    if (!metadataData || typeof metadataData !== 'object') return undefined;
+    const metadata: ModelMetadata = { fields: {} };
+    for (const [key, value] of Object.entries<any>(metadataData)) {
+      if (key.startsWith('@')) continue;
+      const texts = asArray<any>(value).map(langText).filter((text): text is string => text !== undefined);
+      if (texts.length === 0) continue;
+      // Namespace prefixes are removed by the parser, so `dc:creator` arrives as `creator`
+      if (key === 'schema') metadata.schema = texts[0];
+      else if (key === 'schemaversion') metadata.schemaVersion = texts[0];
+      else metadata.fields[key] = texts.length === 1 ? texts[0] : texts;
+    }
+    return metadata;
+  }
+
   private parseXml(xml: string): any {
     const parser = new XMLParser({ 
       ignoreAttributes: false, 
@@ -130,25 +284,28 @@ export class ModelLoader {
     return props;
   }
 
-  private parseElements(model: any, propDefs: Map<string, string>): ElementObject[] {
+  private parseElements(model: any, propDefs: Map<string, string>, lang: string): ElementObject[] {
     const elementsRaw = asArray<any>(model.elements && model.elements.element);
     const elements = elementsRaw.map((el: any) => {
       const id = attr(el, 'identifier') || attr(el, 'id');
       const type = attr(el, 'type');
-      const name = el.name ? (typeof el.name === 'string' ? el.name : el.name['#text']) : id;
-      const documentation = el.documentation ? (typeof el.documentation === 'string' ? el.documentation : el.documentation['#text']) : undefined;
+      const name = localizedText(el.name, lang);
+      const documentation = localizedText(el.documentation, lang);
       const properties = this.parseProperties(el.properties, propDefs);
       
-      return { 
+      const element = { 
         id, 
         type, 
-        name, 
-        documentation, 
+        name: name.text || id, 
+        documentation: documentation.text || undefined, 
         properties,
         inViews: [],
         outgoingRelations: [],
         incomingRelations: []
       } as ElementObject;
+      if (name.translations) element.nameTranslations = name.translations;
+      if (documentation.translations) element.documentationTranslations = documentation.translations;
+      return element;
     });
 
     // Post-process to populate relationship and view references
@@ -190,55 +347,89 @@ export class ModelLoader {
     return elements;
   }
 
-  private parseRelationships(model: any, propDefs: Map<string, string>): RelationshipObject[] {
+  private parseRelationships(model: any, propDefs: Map<string, string>, lang: string): RelationshipObject[] {
     const relsRaw = asArray<any>(model.relationships && model.relationships.relationship);
     return relsRaw.map((r: any) => {
       const id = attr(r, 'identifier') || attr(r, 'id');
       const type = attr(r, 'type');
       const source = attr(r, 'source');
       const target = attr(r, 'target');
-      const name = r.name ? (typeof r.name === 'string' ? r.name : r.name['#text']) : undefined;
-      const documentation = r.documentation ? (typeof r.documentation === 'string' ? r.documentation : r.documentation['#text']) : undefined;
+      const name = localizedText(r.name, lang);
+      const documentation = localizedText(r.documentation, lang);
       const properties = this.parseProperties(r.properties, propDefs);
       
-      return { id, type, sourceId: source, targetId: target, name, documentation, properties } as RelationshipObject;
+      const relationship = { id, type, sourceId: source, targetId: target, name: name.text || undefined, documentation: documentation.text || undefined, properties } as RelationshipObject;
+      if (name.translations) relationship.nameTranslations = name.translations;
+      if (documentation.translations) relationship.documentationTranslations = documentation.translations;
+      return relationship;
     });
   }
 
-  private parseViews(model: any, propDefs: Map<string, string>): ViewObject[] {
+  private parseViews(model: any, propDefs: Map<string, string>, lang: string): ViewObject[] {
     const viewsRaw = asArray<any>((model.views && model.views.diagrams && model.views.diagrams.view) || (model.views && model.views.view));
     return viewsRaw.map((v: any) => {
       const id = attr(v, 'identifier') || attr(v, 'id');
-      const name = v.name ? (typeof v.name === 'string' ? v.name : v.name['#text']) : id;
-      const documentation = v.documentation ? (typeof v.documentation === 'string' ? v.documentation : v.documentation['#text']) : undefined;
+      const name = localizedText(v.name, lang);
+      const documentation = localizedText(v.documentation, lang);
       const properties = this.parseProperties(v.properties, propDefs);
       const viewpoint = attr(v, 'viewpoint');
       
-      const { elementsInView, nodeHierarchy } = this.parseViewNodes(v.node);
-      const relsInView = this.parseViewConnections(v.connection);
+      const { elementsInView, nodeHierarchy, nodes } = this.parseViewNodes(v.node);
+      const { relsInView, connections } = this.parseViewConnections(v.connection);
       
       const type = attr(v, 'type');
-      return { 
+      const view = { 
         id, 
         type, 
-        name, 
-        documentation, 
+        name: name.text || id, 
+        documentation: documentation.text || undefined, 
         properties, 
         viewpoint,
         elements: elementsInView, 
         relationships: relsInView, 
-        nodeHierarchy 
+        nodeHierarchy,
+        nodes,
+        connections
       } as ViewObject;
+      if (name.translations) view.nameTranslations = name.translations;
+      if (documentation.translations) view.documentationTranslations = documentation.translations;
+      return view;
     });
   }
 
-  private parseViewNodes(nodeData: any): { elementsInView: string[], nodeHierarchy: Array<{ parentElement: string; childElement: string }> } {
+  private parseOrganizations(model: any): OrganizationFolder[] | undefined {
+    const roots = asArray<any>(model.organizations);
+    if (roots.length === 0) return undefined;
+
+    const parseFolder = (item: any): OrganizationFolder => {
+      const folder: OrganizationFolder = {
+        id: item['@identifier'],
+        label: langText(item.label) || '',
+        documentation: langText(item.documentation),
+        items: [],
+        folders: []
+      };
+      for (const child of asArray<any>(item.item)) {
+        const ref = child['@identifierRef'];
+        if (ref) folder.items.push(ref);
+        else folder.folders.push(parseFolder(child));
+      }
+      return folder;
+    };
+
+    // Top-level concept references without a folder are not expected; ignore them
+    return roots.flatMap(root => asArray<any>(root && root.item))
+      .filter(item => !item['@identifierRef'])
+      .map(parseFolder);
+  }
+
+  private parseViewNodes(nodeData: any): { elementsInView: string[], nodeHierarchy: Array<{ parentElement: string; childElement: string }>, nodes: ViewNode[] } {
     const nodeList = asArray<any>(nodeData);
     const elementsInView: string[] = [];
     const nodeHierarchy: Array<{ parentElement: string; childElement: string }> = [];
     
     // Recursive function to process nodes at any nesting level
-    const processNode = (node: any, parentElementRef?: string) => {
+    const processNode = (node: any, parentElementRef?: string): ViewNode => {
       const eref = attr(node, 'elementRef') || attr(node, 'elementref');
       if (eref) {
         elementsInView.push(eref);
@@ -247,33 +438,94 @@ export class ModelLoader {
         }
       }
       
+      const viewNode: ViewNode = {
+        id: node['@identifier'],
+        type: node['@type'] || (eref ? 'Element' : 'Label'),
+        elementRef: eref,
+        x: num(node['@x']),
+        y: num(node['@y']),
+        w: num(node['@w']),
+        h: num(node['@h']),
+        label: langText(node.label),
+        style: this.parseViewStyle(node.style)
+      };
+
       // Process nested nodes recursively
       const nested = asArray<any>(node.node);
-      for (const nestedNode of nested) {
-        processNode(nestedNode, eref);
+      if (nested.length > 0) {
+        viewNode.children = nested.map(nestedNode => processNode(nestedNode, eref));
       }
+      return viewNode;
     };
     
     // Process all top-level nodes
-    for (const n of nodeList) {
-      processNode(n);
-    }
+    const nodes = nodeList.map(n => processNode(n));
     
-    return { elementsInView, nodeHierarchy };
+    return { elementsInView, nodeHierarchy, nodes };
   }
 
-  private parseViewConnections(connectionData: any): string[] {
+  private parseViewConnections(connectionData: any): { relsInView: string[], connections: ViewConnection[] } {
     const connList = asArray<any>(connectionData);
     const relsInView: string[] = [];
+    const connections: ViewConnection[] = [];
     for (const c of connList) {
       const rref = attr(c, 'relationshipRef') || attr(c, 'relationshipref');
       if (rref) relsInView.push(rref);
+      const bendpoints = asArray<any>(c.bendpoint).map(bp => ({ x: num(bp['@x']) || 0, y: num(bp['@y']) || 0 }));
+      connections.push({
+        id: c['@identifier'],
+        type: c['@type'] || (rref ? 'Relationship' : 'Line'),
+        relationshipRef: rref,
+        source: c['@source'],
+        target: c['@target'],
+        label: langText(c.label),
+        style: this.parseViewStyle(c.style),
+        bendpoints: bendpoints.length > 0 ? bendpoints : undefined
+      });
     }
-    return relsInView;
+    return { relsInView, connections };
+  }
+
+  private parseViewStyle(styleData: any): ViewStyle | undefined {
+    if (!styleData || typeof styleData !== 'object') return undefined;
+    const color = (c: any): ColorValue | undefined => c && typeof c === 'object'
+      ? { r: num(c['@r']) || 0, g: num(c['@g']) || 0, b: num(c['@b']) || 0, a: num(c['@a']) }
+      : undefined;
+
+    const style: ViewStyle = {
+      lineWidth: num(styleData['@lineWidth']),
+      fillColor: color(styleData.fillColor),
+      lineColor: color(styleData.lineColor)
+    };
+    if (styleData.font && typeof styleData.font === 'object') {
+      style.font = {
+        name: styleData.font['@name'],
+        size: num(styleData.font['@size']),
+        style: styleData.font['@style'],
+        color: color(styleData.font.color)
+      };
+    }
+    return style;
   }
 
   reload(): ModelData {
-    this.cache = undefined;
+    this.invalidate();
     return this.load();
   }
+
+  /**
+   * Call a listener whenever the cached model is dropped, e.g. to rebuild
+   * data derived from it; returns a function that removes the listener
+   */
+  onInvalidate(listener: () => void): () => void {
+    this.invalidationListeners.push(listener);
+    return () => {
+      this.invalidationListeners = this.invalidationListeners.filter(l => l !== listener);
+    };
+  }
+
+  private invalidate(): void {
+    this.cache = undefined;
+    for (const listener of this.invalidationListeners) listener();
+  }
 }
@@ -5,7 +5,7 @@
  * on ArchiMate models.
  */
 
-import { ElementObject, RelationshipObject, ViewObject, ModelData } from './types';
+import { ElementObject, RelationshipObject, ViewObject, ModelData, MetadataValue } from './types';
 
 // ============================================================================
 // Element Operations
@@ -22,6 +22,8 @@ export interface CreateElementInput {
   documentation?: string;
   /** Optional: Custom properties */
   properties?: Record<string, string>;
+  /** Optional: Language (xml:lang code) of the name and documentation; defaults to the model language */
+  language?: string;
 }
 
 export interface UpdateElementInput {
@@ -33,6 +35,8 @@ export interface UpdateElementInput {
   documentation?: string;
   /** Updated custom properties */
   properties?: Record<string, string>;
+  /** Optional: Language (xml:lang code) of the updated name and documentation; other languages are kept */
+  language?: string;
 }
 
 export interface DeleteOptions {
@@ -61,6 +65,8 @@ export interface CreateRelationshipInput {
   documentation?: string;
   /** Optional: Custom properties */
   properties?: Record<string, string>;
+  /** Optional: Language (xml:lang code) of the name and documentation; defaults to the model language */
+  language?: string;
 }
 
 export interface UpdateRelationshipInput {
@@ -76,6 +82,8 @@ export interface UpdateRelationshipInput {
   documentation?: string;
   /** Updated custom properties */
   properties?: Record<string, string>;
+  /** Optional: Language (xml:lang code) of the updated name and documentation; other languages are kept */
+  language?: string;
 }
 
 // ============================================================================
@@ -101,6 +109,8 @@ export interface CreateViewInput {
   relationships?: string[];
   /** Optional: Node hierarchy (parent-child relationships) */
   nodeHierarchy?: Array<{ parentElement: string; childElement: string }>;
+  /** Optional: Language (xml:lang code) of the name and documentation; defaults to the model language */
+  language?: string;
 }
 
 export interface UpdateViewInput {
@@ -120,8 +130,28 @@ export interface UpdateViewInput {
   relationships?: string[];
   /** Updated node hierarchy (parent-child relationships) */
   nodeHierarchy?: Array<{ parentElement: string; childElement: string }>;
+  /** Optional: Language (xml:lang code) of the updated name and documentation; other languages are kept */
+  language?: string;
 }
 
+// ============================================================================
+// Model Metadata Operations
+// ============================================================================
+
+export interface UpdateModelMetadataInput {
+  /** Updated model name */
+  name?: string;
+  /** Updated model documentation */
+  documentation?: string;
+  /** Dublin Core fields to set (e.g. { creator: 'EA Team' }), a list for repeated elements; an empty value removes the field */
+  metadata?: Record<string, MetadataValue>;
+  /** Updated model properties (replaces all model properties) */
+  properties?: Record<string, string>;
+}
+
+/** Model-level information returned by the metadata operations */
+export type ModelMetadataInfo = Pick<ModelData, 'id' | 'name' | 'documentation' | 'version' | 'metadata' | 'properties' | 'format'>;
+
 // ============================================================================
 // Property Operations
 // ============================================================================
@@ -148,7 +178,7 @@ export interface Operation {
   /** Operation type */
   type: 'create' | 'update' | 'delete';
   /** Entity type */
-  entityType: 'element' | 'relationship' | 'view' | 'property';
+  entityType: 'element' | 'relationship' | 'view' | 'property' | 'folder' | 'model';
   /** Entity identifier */
   entityId: string;
   /** Operation data (for create/update) */
@@ -157,6 +187,34 @@ export interface Operation {
   previousState?: any;
 }
 
+// ============================================================================
+// Edit History
+// ============================================================================
+
+/**
+ * One undoable step: the operations of a single tool call, transaction or
+ * direct API call
+ */
+export interface EditHistoryEntry {
+  /** Step number, unique while the model is loaded */
+  id: number;
+  /** Tool (or other caller) that made the change */
+  source?: string;
+  /** When the change was made (ISO 8601) */
+  timestamp: string;
+  /** Operations in the order they were applied */
+  operations: Operation[];
+}
+
+export interface EditHistory {
+  /** Steps that can be undone, oldest first */
+  undoable: EditHistoryEntry[];
+  /** Steps that can be redone, next one first */
+  redoable: EditHistoryEntry[];
+  /** Maximum number of steps kept */
+  limit: number;
+}
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -209,7 +267,8 @@ export class NotFoundError extends ModelManipulationError {
   constructor(entityType: string, entityId: string, suggestions?: string[], context?: Record<string, any>) {
     const code = entityType.toUpperCase() === 'ELEMENT' ? 'ELEMENT_NOT_FOUND' :
                  entityType.toUpperCase() === 'RELATIONSHIP' ? 'RELATIONSHIP_NOT_FOUND' :
-                 entityType.toUpperCase() === 'VIEW' ? 'VIEW_NOT_FOUND' : 'NOT_FOUND';
+                 entityType.toUpperCase() === 'VIEW' ? 'VIEW_NOT_FOUND' :
+                 entityType.toUpperCase() === 'FOLDER' ? 'FOLDER_NOT_FOUND' : 'NOT_FOUND';
     super(`${entityType} not found: ${entityId}`, code, entityId, undefined, suggestions, { ...context, entityType });
     this.name = 'NotFoundError';
     this.entityType = entityType;
@@ -260,4 +319,5 @@ export interface ValidationResult {
     message: string;
     path?: string;
   }>;
+  warnings?: ValidationResult['errors'];   // Non-blocking issues
 }
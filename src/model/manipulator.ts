@@ -6,7 +6,7 @@
  * @module model/manipulator
  */
 
-import { ModelLoader } from './loader';
+import { ModelLoader, linkReferences } from './loader';
 import { ModelData, ElementObject, RelationshipObject, ViewObject } from './types';
 import {
   CreateElementInput,
@@ -18,34 +18,58 @@ import {
   UpdateViewInput,
   CreatePropertyDefinitionInput,
   PropertyDefinition,
+  UpdateModelMetadataInput,
+  ModelMetadataInfo,
   ModelManipulationError,
   ValidationError,
   NotFoundError,
   DuplicateError,
   ReferentialIntegrityError,
   ValidationResult,
-  Operation
+  Operation,
+  EditHistoryEntry,
+  EditHistory
 } from './manipulator-types';
 import { XSDValidator, ValidationError as XSDValidationError } from '../utils/xsd-validator';
 import { BusinessRulesValidator } from '../utils/business-rules-validator';
 import { ValidationReporter, ValidationReport } from '../utils/validation-reporter';
 import { getLogger } from '../utils/logger';
 import { ArchiMateXMLBuilder } from './persistence';
-import { writeFileSync, copyFileSync, existsSync, mkdirSync } from 'fs';
+import { ArchiNativeXMLBuilder } from './archi-persistence';
+import { isArchiNativeModel } from './archi-parser';
+import { tagLanguage, setText, sameLanguage, DEFAULT_LANGUAGE } from './languages';
+import { defaultFolderType, getDefaultFolder, findFolder, findFolderOf, removeFromFolders, listFolders, FolderSummary } from './organizations';
+import { writeFileSync, readFileSync, copyFileSync, existsSync, mkdirSync } from 'fs';
 import { dirname, join, basename, extname } from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import { getErrorCode, createDetailedError } from '../utils/error-codes';
 
 const logger = getLogger();
 
+/**
+ * Number of steps kept in the edit history unless configured otherwise
+ */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Dublin Core elements accepted in the model metadata
+ */
+const DUBLIN_CORE_FIELDS = [
+  'title', 'creator', 'subject', 'description', 'publisher', 'contributor', 'date', 'type',
+  'format', 'identifier', 'source', 'language', 'relation', 'coverage', 'rights'
+];
+
 /**
  * Model Transaction for atomic operations
  */
 export class ModelTransaction {
   private operations: Operation[] = [];
   private snapshot: ModelData;
+  private modified: boolean;
 
-  constructor(snapshot: ModelData) {
+  constructor(snapshot: ModelData, modified: boolean = false) {
     this.snapshot = JSON.parse(JSON.stringify(snapshot)); // Deep clone
+    this.modified = modified;
   }
 
   addOperation(operation: Operation): void {
@@ -59,6 +83,13 @@ export class ModelTransaction {
   getOperations(): Operation[] {
     return [...this.operations];
   }
+
+  /**
+   * Whether the model had unsaved changes when the transaction began
+   */
+  wasModified(): boolean {
+    return this.modified;
+  }
 }
 
 /**
@@ -73,7 +104,19 @@ export class ModelManipulator {
   private businessRulesValidator: BusinessRulesValidator;
   private model: ModelData;
   private modified: boolean = false;
+  private revision: number = 0;
+  private saveListeners: Array<(path: string, model: ModelData) => void> = [];
   private xmlBuilder: ArchiMateXMLBuilder;
+  private archiBuilder: ArchiNativeXMLBuilder;
+  private transaction: ModelTransaction | null = null;
+  private history: EditHistoryEntry[] = [];
+  private redoStack: EditHistoryEntry[] = [];
+  private readOnly: boolean = false;
+  private historyLimit: number = DEFAULT_HISTORY_LIMIT;
+  private nextHistoryId: number = 1;
+  private currentEdit: { source: string; operations: Operation[] } | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private queueOwner = new AsyncLocalStorage<boolean>();
 
   constructor(loader: ModelLoader, validator?: XSDValidator) {
     this.loader = loader;
@@ -81,6 +124,7 @@ export class ModelManipulator {
     this.businessRulesValidator = new BusinessRulesValidator();
     this.model = loader.load();
     this.xmlBuilder = new ArchiMateXMLBuilder();
+    this.archiBuilder = new ArchiNativeXMLBuilder();
   }
 
   /**
@@ -97,12 +141,67 @@ export class ModelManipulator {
     return this.modified;
   }
 
+  /**
+   * Counter that changes whenever the model data changes, for data derived from the model
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Refuse every change to the model and every save, e.g. for a server
+   * that only answers questions about the model
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  /**
+   * Check if changes to the model are refused
+   */
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * @throws ModelManipulationError when the manipulator is read-only
+   */
+  assertWritable(operation: string): void {
+    if (this.readOnly) {
+      const errorDef = getErrorCode('MODEL_READ_ONLY');
+      throw new ModelManipulationError(errorDef!.message, errorDef!.code, undefined, undefined, errorDef?.suggestions, { operation });
+    }
+  }
+
+  /**
+   * Run work that changes the model once the work queued before it has
+   * finished, so that callers running at the same time (e.g. several HTTP
+   * sessions) do not mix their changes into each other's transaction or
+   * history step. Calls made from within the work run right away.
+   */
+  async serialize<T>(work: () => Promise<T>): Promise<T> {
+    if (this.queueOwner.getStore()) return work();
+    const previous = this.queue;
+    let release!: () => void;
+    this.queue = new Promise<void>(resolve => { release = resolve; });
+    await previous;
+    try {
+      return await this.queueOwner.run(true, work);
+    } finally {
+      release();
+    }
+  }
+
   /**
    * Reload model from file (discards unsaved changes)
    */
   reload(): void {
     this.model = this.loader.reload();
     this.modified = false;
+    this.revision++;
+    this.transaction = null;
+    this.history = [];
+    this.redoStack = [];
   }
 
   // ============================================================================
@@ -113,6 +212,7 @@ export class ModelManipulator {
    * Create a new element
    */
   async createElement(data: CreateElementInput): Promise<ElementObject> {
+    this.assertWritable('createElement');
     // Validate required fields
     if (!data.name || data.name.trim() === '') {
       const errorDef = getErrorCode('ELEMENT_NAME_REQUIRED');
@@ -124,6 +224,8 @@ export class ModelManipulator {
       throw new ValidationError('Element type is required', { valid: false, errors: [{ message: 'Element type is required' }] }, undefined, errorDef?.suggestions, { operation: 'createElement' });
     }
 
+    const lang = this.resolveLanguage(data.language);
+
     // Validate element type against ArchiMate 3.1 specification
     const validationResult = await this.validateElementType(data.type);
     if (!validationResult.valid) {
@@ -160,11 +262,15 @@ export class ModelManipulator {
       outgoingRelations: [],
       incomingRelations: []
     };
+    tagLanguage(element, data.language, lang);
 
     // Add to model
     this.model.elements.push(element);
+    this.fileInDefaultFolder(identifier, defaultFolderType('element', normalizedType));
     this.markModified();
 
+    this.recordOperation({ type: 'create', entityType: 'element', entityId: identifier, data: this.clone(element) });
+
     logger.log('info', 'element.created', { id: identifier, type: data.type, name: data.name });
     return element;
   }
@@ -173,6 +279,7 @@ export class ModelManipulator {
    * Update an existing element
    */
   async updateElement(id: string, data: UpdateElementInput): Promise<ElementObject> {
+    this.assertWritable('updateElement');
     // Find element
     const elementIndex = this.model.elements.findIndex(e => e.id === id);
     if (elementIndex === -1) {
@@ -180,7 +287,8 @@ export class ModelManipulator {
     }
 
     const element = this.model.elements[elementIndex];
-    const previousState = { ...element };
+    const previousState = this.clone(element);
+    const lang = this.resolveLanguage(data.language);
 
     // Validate element type if being changed
     if (data.type && data.type !== element.type) {
@@ -195,7 +303,7 @@ export class ModelManipulator {
       if (data.name.trim() === '') {
         throw new ValidationError('Element name cannot be empty', { valid: false, errors: [{ message: 'Element name cannot be empty' }] });
       }
-      element.name = data.name.trim();
+      setText(element, 'name', data.name.trim(), data.language, lang);
     }
 
     if (data.type !== undefined) {
@@ -208,7 +316,7 @@ export class ModelManipulator {
     }
 
     if (data.documentation !== undefined) {
-      element.documentation = data.documentation?.trim();
+      setText(element, 'documentation', data.documentation?.trim(), data.language, lang);
     }
 
     if (data.properties !== undefined) {
@@ -217,6 +325,8 @@ export class ModelManipulator {
 
     this.markModified();
 
+    this.recordOperation({ type: 'update', entityType: 'element', entityId: id, data: this.clone(element), previousState });
+
     logger.log('info', 'element.updated', { id, changes: Object.keys(data) });
     return element;
   }
@@ -225,6 +335,7 @@ export class ModelManipulator {
    * Delete an element
    */
   async deleteElement(id: string, options?: DeleteOptions): Promise<void> {
+    this.assertWritable('deleteElement');
     const opts = { cascade: true, validate: true, ...options };
 
     // Find element
@@ -234,6 +345,9 @@ export class ModelManipulator {
     }
 
     const element = this.model.elements[elementIndex];
+    const previousState = this.clone(element);
+    // Cascaded changes are recorded too, so that the deletion can be undone
+    const cascaded: Operation[] = [];
 
     // Validate referential integrity if requested
     if (opts.validate && !opts.cascade) {
@@ -269,6 +383,8 @@ export class ModelManipulator {
             }
           }
           this.model.relationships.splice(relIndex, 1);
+          const folder = this.removeFromFolders(relId);
+          cascaded.push({ type: 'delete', entityType: 'relationship', entityId: relId, data: { index: relIndex, folder }, previousState: this.clone(rel) });
         }
       }
 
@@ -287,6 +403,8 @@ export class ModelManipulator {
             }
           }
           this.model.relationships.splice(relIndex, 1);
+          const folder = this.removeFromFolders(relId);
+          cascaded.push({ type: 'delete', entityType: 'relationship', entityId: relId, data: { index: relIndex, folder }, previousState: this.clone(rel) });
         }
       }
 
@@ -295,6 +413,8 @@ export class ModelManipulator {
       for (const viewId of viewIds) {
         const view = this.model.views.find(v => v.id === viewId);
         if (view) {
+          const viewState = this.clone(view);
+
           // Remove element from view's elements array
           if (view.elements) {
             const elemIndex = view.elements.indexOf(id);
@@ -309,14 +429,21 @@ export class ModelManipulator {
               h => h.parentElement !== id && h.childElement !== id
             );
           }
+          cascaded.push({ type: 'update', entityType: 'view', entityId: viewId, data: this.clone(view), previousState: viewState });
         }
       }
     }
 
     // Delete element
     this.model.elements.splice(elementIndex, 1);
+    const folder = this.removeFromFolders(id);
     this.markModified();
 
+    this.recordOperation(
+      ...cascaded,
+      { type: 'delete', entityType: 'element', entityId: id, data: { cascade: opts.cascade, index: elementIndex, folder }, previousState }
+    );
+
     logger.log('info', 'element.deleted', { id, cascade: opts.cascade });
   }
 
@@ -335,6 +462,7 @@ export class ModelManipulator {
    * Create a new relationship
    */
   async createRelationship(data: CreateRelationshipInput): Promise<RelationshipObject> {
+    this.assertWritable('createRelationship');
     // Validate required fields
     if (!data.type || data.type.trim() === '') {
       throw new ValidationError('Relationship type is required', { valid: false, errors: [{ message: 'Relationship type is required' }] });
@@ -348,6 +476,8 @@ export class ModelManipulator {
       throw new ValidationError('Target element ID is required', { valid: false, errors: [{ message: 'Target element ID is required' }] });
     }
 
+    const lang = this.resolveLanguage(data.language);
+
     // Validate relationship type
     const typeValidation = await this.validateRelationshipType(data.type);
     if (!typeValidation.valid) {
@@ -380,6 +510,8 @@ export class ModelManipulator {
       throw new ValidationError('Source and target elements must be different', { valid: false, errors: [{ message: 'Source and target elements must be different' }] });
     }
 
+    this.validateRelationshipAllowed(data.type.trim(), sourceElement, targetElement, 'createRelationship');
+
     // Generate identifier if not provided
     let identifier = data.identifier;
     if (!identifier || identifier.trim() === '') {
@@ -401,9 +533,11 @@ export class ModelManipulator {
       documentation: data.documentation?.trim(),
       properties: data.properties ? { ...data.properties } : {}
     };
+    tagLanguage(relationship, data.language, lang);
 
     // Add to model
     this.model.relationships.push(relationship);
+    this.fileInDefaultFolder(identifier, defaultFolderType('relationship'));
 
     // Update element references
     if (!sourceElement.outgoingRelations) {
@@ -418,6 +552,8 @@ export class ModelManipulator {
 
     this.markModified();
 
+    this.recordOperation({ type: 'create', entityType: 'relationship', entityId: identifier, data: this.clone(relationship) });
+
     logger.log('info', 'relationship.created', { id: identifier, type: data.type, sourceId: data.sourceId, targetId: data.targetId });
     return relationship;
   }
@@ -426,6 +562,7 @@ export class ModelManipulator {
    * Update an existing relationship
    */
   async updateRelationship(id: string, data: UpdateRelationshipInput): Promise<RelationshipObject> {
+    this.assertWritable('updateRelationship');
     // Find relationship
     const relationshipIndex = this.model.relationships.findIndex(r => r.id === id);
     if (relationshipIndex === -1) {
@@ -433,8 +570,10 @@ export class ModelManipulator {
     }
 
     const relationship = this.model.relationships[relationshipIndex];
+    const previousState = this.clone(relationship);
     const previousSourceId = relationship.sourceId;
     const previousTargetId = relationship.targetId;
+    const lang = this.resolveLanguage(data.language);
 
     // Validate relationship type if being changed
     if (data.type && data.type !== relationship.type) {
@@ -467,6 +606,11 @@ export class ModelManipulator {
       throw new ValidationError('Source and target elements must be different', { valid: false, errors: [{ message: 'Source and target elements must be different' }] });
     }
 
+    const newType = data.type || relationship.type;
+    if (newType && (newType !== relationship.type || newSourceId !== previousSourceId || newTargetId !== previousTargetId)) {
+      this.validateRelationshipAllowed(newType, this.getElement(newSourceId)!, this.getElement(newTargetId)!, 'updateRelationship', id);
+    }
+
     // Update element references if source or target changed
     if (data.sourceId && data.sourceId !== previousSourceId) {
       // Remove from old source
@@ -526,11 +670,11 @@ export class ModelManipulator {
     }
 
     if (data.name !== undefined) {
-      relationship.name = data.name?.trim();
+      setText(relationship, 'name', data.name?.trim(), data.language, lang);
     }
 
     if (data.documentation !== undefined) {
-      relationship.documentation = data.documentation?.trim();
+      setText(relationship, 'documentation', data.documentation?.trim(), data.language, lang);
     }
 
     if (data.properties !== undefined) {
@@ -539,6 +683,8 @@ export class ModelManipulator {
 
     this.markModified();
 
+    this.recordOperation({ type: 'update', entityType: 'relationship', entityId: id, data: this.clone(relationship), previousState });
+
     logger.log('info', 'relationship.updated', { id, changes: Object.keys(data) });
     return relationship;
   }
@@ -547,6 +693,7 @@ export class ModelManipulator {
    * Delete a relationship
    */
   async deleteRelationship(id: string): Promise<void> {
+    this.assertWritable('deleteRelationship');
     // Find relationship
     const relationshipIndex = this.model.relationships.findIndex(r => r.id === id);
     if (relationshipIndex === -1) {
@@ -554,6 +701,7 @@ export class ModelManipulator {
     }
 
     const relationship = this.model.relationships[relationshipIndex];
+    const previousState = this.clone(relationship);
 
     // Remove from source element's outgoing relations
     const sourceElement = this.getElement(relationship.sourceId);
@@ -574,19 +722,28 @@ export class ModelManipulator {
     }
 
     // Remove from views
+    const viewOperations: Operation[] = [];
     for (const view of this.model.views) {
       if (view.relationships) {
         const relIndex = view.relationships.indexOf(id);
         if (relIndex !== -1) {
+          const viewState = this.clone(view);
           view.relationships.splice(relIndex, 1);
+          viewOperations.push({ type: 'update', entityType: 'view', entityId: view.id, data: this.clone(view), previousState: viewState });
         }
       }
     }
 
     // Delete relationship
     this.model.relationships.splice(relationshipIndex, 1);
+    const folder = this.removeFromFolders(id);
     this.markModified();
 
+    this.recordOperation(
+      ...viewOperations,
+      { type: 'delete', entityType: 'relationship', entityId: id, data: { index: relationshipIndex, folder }, previousState }
+    );
+
     logger.log('info', 'relationship.deleted', { id });
   }
 
@@ -605,11 +762,14 @@ export class ModelManipulator {
    * Create a new view
    */
   async createView(data: CreateViewInput): Promise<ViewObject> {
+    this.assertWritable('createView');
     // Validate required fields
     if (!data.name || data.name.trim() === '') {
       throw new ValidationError('View name is required', { valid: false, errors: [{ message: 'View name is required' }] });
     }
 
+    const lang = this.resolveLanguage(data.language);
+
     // Generate identifier if not provided
     let identifier = data.identifier;
     if (!identifier || identifier.trim() === '') {
@@ -666,9 +826,11 @@ export class ModelManipulator {
       relationships: data.relationships ? [...data.relationships] : [],
       nodeHierarchy: data.nodeHierarchy ? [...data.nodeHierarchy] : []
     };
+    tagLanguage(view, data.language, lang);
 
     // Add to model
     this.model.views.push(view);
+    this.fileInDefaultFolder(identifier, defaultFolderType('view'));
 
     // Update element references (inViews)
     if (view.elements) {
@@ -687,6 +849,8 @@ export class ModelManipulator {
 
     this.markModified();
 
+    this.recordOperation({ type: 'create', entityType: 'view', entityId: identifier, data: this.clone(view) });
+
     logger.log('info', 'view.created', { id: identifier, name: data.name });
     return view;
   }
@@ -695,6 +859,7 @@ export class ModelManipulator {
    * Update an existing view
    */
   async updateView(id: string, data: UpdateViewInput): Promise<ViewObject> {
+    this.assertWritable('updateView');
     // Find view
     const viewIndex = this.model.views.findIndex(v => v.id === id);
     if (viewIndex === -1) {
@@ -702,15 +867,17 @@ export class ModelManipulator {
     }
 
     const view = this.model.views[viewIndex];
+    const previousState = this.clone(view);
     const previousElements = view.elements ? [...view.elements] : [];
     const previousRelationships = view.relationships ? [...view.relationships] : [];
+    const lang = this.resolveLanguage(data.language);
 
     // Update name
     if (data.name !== undefined) {
       if (data.name.trim() === '') {
         throw new ValidationError('View name cannot be empty', { valid: false, errors: [{ message: 'View name cannot be empty' }] });
       }
-      view.name = data.name.trim();
+      setText(view, 'name', data.name.trim(), data.language, lang);
     }
 
     // Update type - All views under <diagrams> must be "Diagram" for Archi 5.7 compatibility
@@ -723,7 +890,7 @@ export class ModelManipulator {
 
     // Update documentation
     if (data.documentation !== undefined) {
-      view.documentation = data.documentation?.trim();
+      setText(view, 'documentation', data.documentation?.trim(), data.language, lang);
     }
 
     // Update properties
@@ -796,6 +963,8 @@ export class ModelManipulator {
 
     this.markModified();
 
+    this.recordOperation({ type: 'update', entityType: 'view', entityId: id, data: this.clone(view), previousState });
+
     logger.log('info', 'view.updated', { id, changes: Object.keys(data) });
     return view;
   }
@@ -804,6 +973,7 @@ export class ModelManipulator {
    * Delete a view
    */
   async deleteView(id: string): Promise<void> {
+    this.assertWritable('deleteView');
     // Find view
     const viewIndex = this.model.views.findIndex(v => v.id === id);
     if (viewIndex === -1) {
@@ -811,6 +981,7 @@ export class ModelManipulator {
     }
 
     const view = this.model.views[viewIndex];
+    const previousState = this.clone(view);
 
     // Remove view reference from elements
     if (view.elements) {
@@ -827,8 +998,11 @@ export class ModelManipulator {
 
     // Delete view
     this.model.views.splice(viewIndex, 1);
+    const folder = this.removeFromFolders(id);
     this.markModified();
 
+    this.recordOperation({ type: 'delete', entityType: 'view', entityId: id, data: { index: viewIndex, folder }, previousState });
+
     logger.log('info', 'view.deleted', { id });
   }
 
@@ -843,10 +1017,12 @@ export class ModelManipulator {
    * Add an element to a view
    */
   async addElementToView(viewId: string, elementId: string, parentElementId?: string): Promise<void> {
+    this.assertWritable('addElementToView');
     const view = this.getView(viewId);
     if (!view) {
       throw new NotFoundError('view', viewId);
     }
+    const previousState = this.clone(view);
 
     const element = this.getElement(elementId);
     if (!element) {
@@ -901,6 +1077,7 @@ export class ModelManipulator {
     }
 
     this.markModified();
+    this.recordOperation({ type: 'update', entityType: 'view', entityId: viewId, data: this.clone(view), previousState });
     logger.log('info', 'view.element.added', { viewId, elementId, parentElementId });
   }
 
@@ -908,10 +1085,12 @@ export class ModelManipulator {
    * Remove an element from a view
    */
   async removeElementFromView(viewId: string, elementId: string): Promise<void> {
+    this.assertWritable('removeElementFromView');
     const view = this.getView(viewId);
     if (!view) {
       throw new NotFoundError('view', viewId);
     }
+    const previousState = this.clone(view);
 
     // Remove from view's elements array
     if (view.elements) {
@@ -955,6 +1134,7 @@ export class ModelManipulator {
     }
 
     this.markModified();
+    this.recordOperation({ type: 'update', entityType: 'view', entityId: viewId, data: this.clone(view), previousState });
     logger.log('info', 'view.element.removed', { viewId, elementId });
   }
 
@@ -962,10 +1142,12 @@ export class ModelManipulator {
    * Add a relationship to a view
    */
   async addRelationshipToView(viewId: string, relationshipId: string): Promise<void> {
+    this.assertWritable('addRelationshipToView');
     const view = this.getView(viewId);
     if (!view) {
       throw new NotFoundError('view', viewId);
     }
+    const previousState = this.clone(view);
 
     const relationship = this.getRelationship(relationshipId);
     if (!relationship) {
@@ -1017,6 +1199,7 @@ export class ModelManipulator {
     }
 
     this.markModified();
+    this.recordOperation({ type: 'update', entityType: 'view', entityId: viewId, data: this.clone(view), previousState });
     logger.log('info', 'view.relationship.added', { viewId, relationshipId });
   }
 
@@ -1024,10 +1207,12 @@ export class ModelManipulator {
    * Remove a relationship from a view
    */
   async removeRelationshipFromView(viewId: string, relationshipId: string): Promise<void> {
+    this.assertWritable('removeRelationshipFromView');
     const view = this.getView(viewId);
     if (!view) {
       throw new NotFoundError('view', viewId);
     }
+    const previousState = this.clone(view);
 
     // Remove from view's relationships array
     if (view.relationships) {
@@ -1038,9 +1223,157 @@ export class ModelManipulator {
     }
 
     this.markModified();
+    this.recordOperation({ type: 'update', entityType: 'view', entityId: viewId, data: this.clone(view), previousState });
     logger.log('info', 'view.relationship.removed', { viewId, relationshipId });
   }
 
+  // ============================================================================
+  // Model Metadata Operations
+  // ============================================================================
+
+  /**
+   * Get the model identity, documentation, Dublin Core metadata and properties
+   */
+  getModelMetadata(): ModelMetadataInfo {
+    return {
+      id: this.model.id,
+      name: this.model.name,
+      documentation: this.model.documentation,
+      version: this.model.version,
+      metadata: this.model.metadata,
+      properties: this.model.properties,
+      format: this.model.format || 'exchange'
+    };
+  }
+
+  /**
+   * Update the model name, documentation, metadata or properties
+   */
+  async updateModelMetadata(data: UpdateModelMetadataInput): Promise<ModelMetadataInfo> {
+    this.assertWritable('updateModelMetadata');
+    if (data.name !== undefined && data.name.trim() === '') {
+      throw new ValidationError('Model name cannot be empty', { valid: false, errors: [{ message: 'Model name cannot be empty' }] });
+    }
+
+    if (data.metadata !== undefined) {
+      if (this.model.format === 'archi') {
+        const message = 'Dublin Core metadata is not supported by the Archi native format; use model properties instead';
+        throw new ValidationError(message, { valid: false, errors: [{ message }] });
+      }
+      const unknown = Object.keys(data.metadata).filter(key => !DUBLIN_CORE_FIELDS.includes(key));
+      if (unknown.length > 0) {
+        const errors = unknown.map(key => ({ path: key, message: `Unknown Dublin Core element: ${key}` }));
+        throw new ValidationError(
+          `Invalid metadata fields: ${unknown.join(', ')}. Valid fields: ${DUBLIN_CORE_FIELDS.join(', ')}`,
+          { valid: false, errors }
+        );
+      }
+    }
+
+    const previousState = this.clone(this.getModelMetadata());
+
+    if (data.name !== undefined) {
+      this.model.name = data.name.trim();
+    }
+
+    if (data.documentation !== undefined) {
+      this.model.documentation = data.documentation.trim() || undefined;
+    }
+
+    if (data.metadata !== undefined) {
+      const metadata = this.model.metadata || { fields: {} };
+      for (const [key, value] of Object.entries(data.metadata)) {
+        const texts = (Array.isArray(value) ? value : [value ?? '']).map(text => text.trim()).filter(text => text !== '');
+        if (texts.length === 0) {
+          delete metadata.fields[key];
+        } else {
+          metadata.fields[key] = texts.length === 1 ? texts[0] : texts;
+        }
+      }
+      this.model.metadata = Object.keys(metadata.fields).length > 0 ? metadata : undefined;
+    }
+
+    if (data.properties !== undefined) {
+      this.model.properties = { ...data.properties };
+    }
+
+    this.markModified();
+
+    const info = this.getModelMetadata();
+    this.recordOperation({ type: 'update', entityType: 'model', entityId: this.model.id || 'model', data: this.clone(info), previousState });
+
+    logger.log('info', 'model.metadata.updated', { changes: Object.keys(data) });
+    return info;
+  }
+
+  // ============================================================================
+  // Organization (Folder) Operations
+  // ============================================================================
+
+  /**
+   * List all folders in document order
+   */
+  getFolders(): FolderSummary[] {
+    return listFolders(this.model.organizations || []);
+  }
+
+  /**
+   * Move an element, relationship or view into another folder
+   *
+   * @param itemId Identifier of the concept to move
+   * @param folderRef Folder identifier or label path (e.g. "Business/Customers")
+   */
+  async moveToFolder(itemId: string, folderRef: string): Promise<FolderSummary> {
+    this.assertWritable('moveToFolder');
+    if (!this.findEntity(itemId)) {
+      throw new NotFoundError('element, relationship or view', itemId);
+    }
+
+    const folder = this.model.organizations ? findFolder(this.model.organizations, folderRef) : undefined;
+    if (!folder) {
+      const errorDef = getErrorCode('FOLDER_NOT_FOUND');
+      throw new NotFoundError('folder', folderRef, errorDef?.suggestions, { operation: 'moveToFolder', itemId });
+    }
+
+    const previousFolder = this.getFolders().find(f => f.items.includes(itemId));
+    removeFromFolders(this.model.organizations!, itemId);
+    folder.items.push(itemId);
+    this.markModified();
+
+    const summary = this.getFolders().find(f => f.items.includes(itemId))!;
+    this.recordOperation({
+      type: 'update',
+      entityType: 'folder',
+      entityId: itemId,
+      data: { folder: summary.path },
+      previousState: previousFolder ? { folder: previousFolder.path } : undefined
+    });
+    logger.log('info', 'folder.item.moved', { id: itemId, folder: summary.path });
+    return summary;
+  }
+
+  /**
+   * File a new concept in the default folder for its kind.
+   * Models without a folder structure are left without one.
+   */
+  private fileInDefaultFolder(id: string, folderType: string): void {
+    if (!this.model.organizations) return;
+    getDefaultFolder(this.model.organizations, folderType).items.push(id);
+  }
+
+  /**
+   * Remove a deleted concept from the folder structure
+   *
+   * @returns Where the concept was filed, so that it can be put back
+   */
+  private removeFromFolders(id: string): { folder: string; position: number } | undefined {
+    const entry = this.model.organizations ? findFolderOf(this.model.organizations, id) : undefined;
+    if (!entry) return undefined;
+    const position = entry.folder.items.indexOf(id);
+    removeFromFolders(this.model.organizations!, id);
+    return { folder: entry.folder.id || entry.path, position };
+  }
+
   // ============================================================================
   // Property Operations
   // ============================================================================
@@ -1075,6 +1408,7 @@ export class ModelManipulator {
    * Create a property definition
    */
   async createPropertyDefinition(data: CreatePropertyDefinitionInput): Promise<PropertyDefinition> {
+    this.assertWritable('createPropertyDefinition');
     // Validate required fields
     if (!data.identifier || data.identifier.trim() === '') {
       throw new ValidationError('Property definition identifier is required', { valid: false, errors: [{ message: 'Property definition identifier is required' }] });
@@ -1104,6 +1438,7 @@ export class ModelManipulator {
     // Add to model
     this.model.propertyDefinitions.push(propertyDef);
     this.markModified();
+    this.recordOperation({ type: 'create', entityType: 'property', entityId: propertyDef.identifier, data: { ...propertyDef } });
 
     logger.log('info', 'property.definition.created', { id: propertyDef.identifier, name: propertyDef.name });
     return propertyDef;
@@ -1113,6 +1448,7 @@ export class ModelManipulator {
    * Assign a property to an element, relationship, or view
    */
   async assignProperty(targetId: string, propertyDefId: string, value: string): Promise<void> {
+    this.assertWritable('assignProperty');
     // Validate property definition exists
     const propertyDef = this.getPropertyDefinition(propertyDefId);
     if (!propertyDef) {
@@ -1131,8 +1467,10 @@ export class ModelManipulator {
     }
 
     // Assign property (using property definition ID as key)
+    const previousValue = entityResult.entity.properties[propertyDefId];
     entityResult.entity.properties[propertyDefId] = value;
     this.markModified();
+    this.recordPropertyOperation('update', targetId, propertyDefId, value, previousValue);
 
     logger.log('info', 'property.assigned', { 
       targetId, 
@@ -1146,6 +1484,7 @@ export class ModelManipulator {
    * Update a property value
    */
   async updateProperty(targetId: string, propertyDefId: string, value: string): Promise<void> {
+    this.assertWritable('updateProperty');
     // Validate property definition exists
     const propertyDef = this.getPropertyDefinition(propertyDefId);
     if (!propertyDef) {
@@ -1164,8 +1503,10 @@ export class ModelManipulator {
     }
 
     // Update property value
+    const previousValue = entityResult.entity.properties[propertyDefId];
     entityResult.entity.properties[propertyDefId] = value;
     this.markModified();
+    this.recordPropertyOperation('update', targetId, propertyDefId, value, previousValue);
 
     logger.log('info', 'property.updated', { 
       targetId, 
@@ -1179,6 +1520,7 @@ export class ModelManipulator {
    * Delete a property from an element, relationship, or view
    */
   async deleteProperty(targetId: string, propertyDefId: string, options?: { cascade?: boolean }): Promise<void> {
+    this.assertWritable('deleteProperty');
     const opts = { cascade: false, ...options };
 
     // Find target entity
@@ -1193,8 +1535,10 @@ export class ModelManipulator {
     }
 
     // Delete property from entity
+    const previousValue = entityResult.entity.properties[propertyDefId];
     delete entityResult.entity.properties[propertyDefId];
     this.markModified();
+    this.recordPropertyOperation('delete', targetId, propertyDefId, undefined, previousValue);
 
     // If cascade is enabled, check if property definition should be deleted
     if (opts.cascade) {
@@ -1206,7 +1550,8 @@ export class ModelManipulator {
         if (this.model.propertyDefinitions) {
           const index = this.model.propertyDefinitions.findIndex(pd => pd.identifier === propertyDefId);
           if (index !== -1) {
-            this.model.propertyDefinitions.splice(index, 1);
+            const [propertyDef] = this.model.propertyDefinitions.splice(index, 1);
+            this.recordOperation({ type: 'delete', entityType: 'property', entityId: propertyDefId, data: { index }, previousState: { ...propertyDef } });
             logger.log('info', 'property.definition.deleted.cascade', { id: propertyDefId });
           }
         }
@@ -1253,32 +1598,438 @@ export class ModelManipulator {
   // ============================================================================
 
   /**
-   * Begin a new transaction
+   * Begin a new transaction. Every CRUD call until the transaction is
+   * committed or rolled back is recorded in it.
    */
   beginTransaction(): ModelTransaction {
-    return new ModelTransaction(this.model);
+    this.assertWritable('beginTransaction');
+    if (this.transaction) {
+      const errorDef = getErrorCode('TRANSACTION_IN_PROGRESS');
+      throw new ModelManipulationError(errorDef!.message, errorDef!.code, undefined, undefined, errorDef?.suggestions);
+    }
+
+    this.transaction = new ModelTransaction(this.model, this.modified);
+    logger.log('info', 'transaction.begin', {});
+    return this.transaction;
   }
 
   /**
-   * Commit a transaction (apply all operations)
+   * Get the active transaction, if any
+   */
+  getActiveTransaction(): ModelTransaction | null {
+    return this.transaction;
+  }
+
+  /**
+   * Commit a transaction. The model is validated once; if the transaction
+   * introduced validation errors, the model is restored from the snapshot
+   * and a ValidationError is thrown.
    */
   async commitTransaction(transaction: ModelTransaction): Promise<void> {
-    // TODO: Implement transaction commit logic
-    // For now, transactions are not yet implemented
-    logger.log('info', 'transaction.commit', { operationCount: transaction.getOperations().length });
-    this.modified = true;
+    this.assertActiveTransaction(transaction);
+    const operationCount = transaction.getOperations().length;
+
+    // Errors the model already had before the transaction do not fail the commit
+    const before = await this.validateModelData(transaction.getSnapshot());
+    const after = await this.validateModelData(this.model);
+    const knownErrors = new Set(before.errors.map(e => `${e.path}|${e.message}`));
+    const introduced = after.errors.filter(e => !knownErrors.has(`${e.path}|${e.message}`));
+
+    if (introduced.length > 0) {
+      this.restoreSnapshot(transaction);
+      logger.log('warn', 'transaction.commit.failed', { operationCount, errorCount: introduced.length });
+      const errorDef = getErrorCode('VALIDATION_FAILED');
+      throw new ValidationError(
+        `Transaction rolled back, validation failed: ${introduced.map(e => e.message).join('; ')}`,
+        { valid: false, errors: introduced },
+        undefined,
+        errorDef?.suggestions,
+        { operation: 'commitTransaction', operationCount }
+      );
+    }
+
+    this.transaction = null;
+    this.addToHistory(transaction.getOperations());
+    logger.log('info', 'transaction.commit', { operationCount });
   }
 
   /**
    * Rollback a transaction (discard all operations)
    */
   async rollbackTransaction(transaction: ModelTransaction): Promise<void> {
-    // TODO: Implement transaction rollback logic
-    // Restore from snapshot
-    this.model = transaction.getSnapshot();
+    this.assertActiveTransaction(transaction);
+    this.restoreSnapshot(transaction);
     logger.log('info', 'transaction.rollback', { operationCount: transaction.getOperations().length });
   }
 
+  /**
+   * Run a unit of work in a transaction: committed when it completes, rolled
+   * back when it throws or when validation at commit fails
+   */
+  async runTransaction<T>(work: (transaction: ModelTransaction) => Promise<T>): Promise<T> {
+    return this.serialize(async () => {
+      const transaction = this.beginTransaction();
+      let result: T;
+      try {
+        result = await work(transaction);
+      } catch (error) {
+        await this.rollbackTransaction(transaction);
+        throw error;
+      }
+      await this.commitTransaction(transaction);
+      return result;
+    });
+  }
+
+  private assertActiveTransaction(transaction: ModelTransaction): void {
+    if (this.transaction !== transaction) {
+      const errorDef = getErrorCode('TRANSACTION_NOT_ACTIVE');
+      throw new ModelManipulationError(errorDef!.message, errorDef!.code, undefined, undefined, errorDef?.suggestions);
+    }
+  }
+
+  /**
+   * Restore the snapshot in place: the loader cache holds the same object,
+   * so the read tools must see the rolled back model too
+   */
+  private restoreSnapshot(transaction: ModelTransaction): void {
+    const snapshot = transaction.getSnapshot();
+    const model = this.model as unknown as Record<string, unknown>;
+    for (const key of Object.keys(model)) {
+      if (!(key in snapshot)) delete model[key];
+    }
+    Object.assign(this.model, snapshot);
+    this.modified = transaction.wasModified();
+    this.revision++;
+    this.transaction = null;
+  }
+
+  // ============================================================================
+  // Edit History (Undo/Redo)
+  // ============================================================================
+
+  /**
+   * Run a unit of work and record all of its changes as one step in the
+   * edit history, attributed to the given source (usually a tool name).
+   * Nested calls are recorded in the outermost step; other callers wait
+   * until the step is complete.
+   */
+  async withEditSource<T>(source: string, work: () => Promise<T>): Promise<T> {
+    return this.serialize(async () => {
+      if (this.currentEdit) {
+        return work();
+      }
+
+      const edit = { source, operations: [] as Operation[] };
+      this.currentEdit = edit;
+      try {
+        return await work();
+      } finally {
+        this.currentEdit = null;
+        if (edit.operations.length > 0) {
+          this.pushHistoryEntry(source, edit.operations);
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the steps that can be undone and redone
+   */
+  getEditHistory(): EditHistory {
+    return {
+      undoable: [...this.history],
+      redoable: [...this.redoStack].reverse(),
+      limit: this.historyLimit
+    };
+  }
+
+  /**
+   * Set the maximum number of steps kept in the edit history. The oldest
+   * steps are dropped when the limit is exceeded.
+   */
+  setHistoryLimit(limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ModelManipulationError(`History limit must be a positive integer, got ${limit}`, 'INVALID_INPUT');
+    }
+    this.historyLimit = limit;
+    this.trimHistory();
+  }
+
+  /**
+   * Undo the most recent step by applying the inverse of its operations
+   *
+   * @returns The step that was undone
+   */
+  async undo(): Promise<EditHistoryEntry> {
+    this.assertWritable('undo');
+    this.assertNoTransaction('undo');
+    const entry = this.history.pop();
+    if (!entry) {
+      const errorDef = getErrorCode('NOTHING_TO_UNDO');
+      throw new ModelManipulationError(errorDef!.message, errorDef!.code, undefined, undefined, errorDef?.suggestions, { operation: 'undo' });
+    }
+
+    for (const operation of [...entry.operations].reverse()) {
+      this.revertOperation(operation);
+    }
+    linkReferences(this.model);
+    this.markModified();
+    this.redoStack.push(entry);
+
+    logger.log('info', 'history.undo', { id: entry.id, source: entry.source, operationCount: entry.operations.length });
+    return entry;
+  }
+
+  /**
+   * Redo the most recently undone step
+   *
+   * @returns The step that was redone
+   */
+  async redo(): Promise<EditHistoryEntry> {
+    this.assertWritable('redo');
+    this.assertNoTransaction('redo');
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      const errorDef = getErrorCode('NOTHING_TO_REDO');
+      throw new ModelManipulationError(errorDef!.message, errorDef!.code, undefined, undefined, errorDef?.suggestions, { operation: 'redo' });
+    }
+
+    for (const operation of entry.operations) {
+      this.reapplyOperation(operation);
+    }
+    linkReferences(this.model);
+    this.markModified();
+    this.history.push(entry);
+    this.trimHistory();
+
+    logger.log('info', 'history.redo', { id: entry.id, source: entry.source, operationCount: entry.operations.length });
+    return entry;
+  }
+
+  /**
+   * Undo up to `count` steps as one unit. When a step fails, the steps
+   * already undone are restored and the error tells which step failed.
+   *
+   * @returns The steps that were undone; fails only when not even one step can be undone
+   */
+  async undoSteps(count: number): Promise<EditHistoryEntry[]> {
+    return this.replaySteps('undo', count);
+  }
+
+  /**
+   * Redo up to `count` steps as one unit, like `undoSteps`
+   */
+  async redoSteps(count: number): Promise<EditHistoryEntry[]> {
+    return this.replaySteps('redo', count);
+  }
+
+  private async replaySteps(direction: 'undo' | 'redo', count: number): Promise<EditHistoryEntry[]> {
+    return this.serialize(async () => {
+      this.assertWritable(direction);
+      this.assertNoTransaction(direction);
+      const checkpoint = new ModelTransaction(this.model, this.modified);
+      const history = [...this.history];
+      const redoStack = [...this.redoStack];
+
+      const entries: EditHistoryEntry[] = [];
+      for (let i = 0; i < count; i++) {
+        if (i > 0 && (direction === 'undo' ? this.history : this.redoStack).length === 0) break;
+        try {
+          entries.push(direction === 'undo' ? await this.undo() : await this.redo());
+        } catch (error) {
+          this.restoreSnapshot(checkpoint);
+          this.history = history;
+          this.redoStack = redoStack;
+          logger.log('warn', `history.${direction}.failed`, { step: i + 1, count });
+
+          if (i === 0) throw error;
+          const done = direction === 'undo' ? 'undone' : 'redone';
+          const message = `${direction === 'undo' ? 'Undo' : 'Redo'} of step ${i + 1} of ${count} failed: ${(error as Error)?.message || String(error)}. No steps were ${done}.`;
+          if (error instanceof ModelManipulationError) {
+            throw new ModelManipulationError(message, error.code, error.entityId, error.details, error.suggestions, { ...error.context, step: i + 1 });
+          }
+          throw new Error(message);
+        }
+      }
+      return entries;
+    });
+  }
+
+  /**
+   * Add operations made outside a transaction (or by a committed one) to
+   * the current step, or as a step of their own
+   */
+  private addToHistory(operations: Operation[]): void {
+    if (operations.length === 0) return;
+    if (this.currentEdit) {
+      this.currentEdit.operations.push(...operations);
+    } else {
+      this.pushHistoryEntry(undefined, operations);
+    }
+  }
+
+  private pushHistoryEntry(source: string | undefined, operations: Operation[]): void {
+    this.history.push({ id: this.nextHistoryId++, source, timestamp: new Date().toISOString(), operations });
+    this.trimHistory();
+    // A new edit makes the undone steps unreachable
+    this.redoStack = [];
+  }
+
+  private trimHistory(): void {
+    if (this.history.length > this.historyLimit) {
+      this.history.splice(0, this.history.length - this.historyLimit);
+    }
+  }
+
+  private assertNoTransaction(operation: string): void {
+    if (this.transaction) {
+      const errorDef = getErrorCode('TRANSACTION_IN_PROGRESS');
+      throw new ModelManipulationError(errorDef!.message, errorDef!.code, undefined, undefined, errorDef?.suggestions, { operation });
+    }
+  }
+
+  /**
+   * Apply the inverse of an operation, restoring its previous state
+   */
+  private revertOperation(operation: Operation): void {
+    switch (operation.type) {
+      case 'create':
+        this.removeState(operation);
+        break;
+      case 'update':
+        this.applyState(operation, operation.previousState);
+        break;
+      case 'delete':
+        this.insertState(operation, operation.previousState, operation.data);
+        break;
+    }
+  }
+
+  /**
+   * Apply an operation again after it was undone
+   */
+  private reapplyOperation(operation: Operation): void {
+    switch (operation.type) {
+      case 'create':
+        this.insertState(operation, operation.data);
+        break;
+      case 'update':
+        this.applyState(operation, operation.data);
+        break;
+      case 'delete':
+        this.removeState(operation);
+        break;
+    }
+  }
+
+  /**
+   * Whether a 'property' operation changes a property value rather than a
+   * property definition
+   */
+  private isPropertyValueOperation(operation: Operation): boolean {
+    return (operation.data ?? operation.previousState)?.targetId !== undefined;
+  }
+
+  private getCollection(entityType: Operation['entityType']): Array<{ id: string }> {
+    switch (entityType) {
+      case 'element': return this.model.elements;
+      case 'relationship': return this.model.relationships;
+      case 'view': return this.model.views;
+      default: throw new Error(`No collection for ${entityType} operations`);
+    }
+  }
+
+  /**
+   * Remove the concept an operation created (or delete it again)
+   */
+  private removeState(operation: Operation): void {
+    if (operation.entityType === 'property') {
+      if (this.isPropertyValueOperation(operation)) {
+        this.applyState(operation, operation.data);
+        return;
+      }
+      const definitions = this.model.propertyDefinitions || [];
+      const index = definitions.findIndex(pd => pd.identifier === operation.entityId);
+      if (index !== -1) definitions.splice(index, 1);
+      return;
+    }
+
+    const collection = this.getCollection(operation.entityType);
+    const index = collection.findIndex(item => item.id === operation.entityId);
+    if (index !== -1) collection.splice(index, 1);
+    this.removeFromFolders(operation.entityId);
+  }
+
+  /**
+   * Put a concept back at its recorded position and folder, or at the end of
+   * the model and in its default folder
+   */
+  private insertState(operation: Operation, state: any, position?: { index?: number; folder?: { folder: string; position: number } }): void {
+    if (operation.entityType === 'property') {
+      if (this.isPropertyValueOperation(operation)) {
+        this.applyState(operation, state);
+        return;
+      }
+      if (!this.model.propertyDefinitions) this.model.propertyDefinitions = [];
+      this.model.propertyDefinitions.splice(position?.index ?? this.model.propertyDefinitions.length, 0, this.clone(state));
+      return;
+    }
+
+    const collection = this.getCollection(operation.entityType);
+    collection.splice(position?.index ?? collection.length, 0, this.clone(state));
+
+    if (!this.model.organizations) return;
+    const folder = position?.folder ? findFolder(this.model.organizations, position.folder.folder) : undefined;
+    if (folder) {
+      folder.items.splice(position!.folder!.position, 0, operation.entityId);
+    } else {
+      const kind = operation.entityType as 'element' | 'relationship' | 'view';
+      this.fileInDefaultFolder(operation.entityId, defaultFolderType(kind, state.type));
+    }
+  }
+
+  /**
+   * Set a concept, property value, folder or the model metadata to a
+   * recorded state
+   */
+  private applyState(operation: Operation, state: any): void {
+    switch (operation.entityType) {
+      case 'element':
+      case 'relationship':
+      case 'view': {
+        const collection = this.getCollection(operation.entityType);
+        const index = collection.findIndex(item => item.id === operation.entityId);
+        if (index !== -1) collection[index] = this.clone(state);
+        break;
+      }
+      case 'property': {
+        const target = this.findEntity(state.targetId)?.entity;
+        if (!target) break;
+        if (state.value === undefined) {
+          delete target.properties?.[state.propertyDefId];
+        } else {
+          target.properties = { ...(target.properties || {}), [state.propertyDefId]: state.value };
+        }
+        break;
+      }
+      case 'folder': {
+        this.removeFromFolders(operation.entityId);
+        const folder = state && this.model.organizations ? findFolder(this.model.organizations, state.folder) : undefined;
+        folder?.items.push(operation.entityId);
+        break;
+      }
+      case 'model': {
+        const info = this.clone(state) as ModelMetadataInfo;
+        this.model.name = info.name;
+        this.model.documentation = info.documentation;
+        this.model.metadata = info.metadata;
+        this.model.properties = info.properties;
+        break;
+      }
+    }
+  }
+
   // ============================================================================
   // Validation
   // ============================================================================
@@ -1329,12 +2080,20 @@ export class ModelManipulator {
    * - View integrity validation
    */
   async validateModel(): Promise<ValidationResult> {
+    return this.validateModelData(this.model);
+  }
+
+  /**
+   * Validate the given model data with the checks of validateModel
+   */
+  private async validateModelData(model: ModelData): Promise<ValidationResult> {
     const errors: XSDValidationError[] = [];
+    const warnings: XSDValidationError[] = [];
 
     // 1. XSD Schema Validation
     if (this.validator) {
       try {
-        const xml = this.xmlBuilder.serialize(this.model);
+        const xml = this.xmlBuilder.serialize(model);
         const xsdResult = this.validator.validateModel(xml);
         
         if (!xsdResult.valid) {
@@ -1352,7 +2111,7 @@ export class ModelManipulator {
     // 2. Referential Integrity Validation
     // Check identifier uniqueness
     const allIds: string[] = [];
-    for (const element of this.model.elements) {
+    for (const element of model.elements) {
       if (allIds.includes(element.id)) {
         errors.push({
           message: `Duplicate element identifier: ${element.id}`,
@@ -1362,7 +2121,7 @@ export class ModelManipulator {
       allIds.push(element.id);
     }
 
-    for (const relationship of this.model.relationships) {
+    for (const relationship of model.relationships) {
       if (allIds.includes(relationship.id)) {
         errors.push({
           message: `Duplicate relationship identifier: ${relationship.id}`,
@@ -1372,7 +2131,7 @@ export class ModelManipulator {
       allIds.push(relationship.id);
     }
 
-    for (const view of this.model.views) {
+    for (const view of model.views) {
       if (allIds.includes(view.id)) {
         errors.push({
           message: `Duplicate view identifier: ${view.id}`,
@@ -1383,9 +2142,9 @@ export class ModelManipulator {
     }
 
     // Check relationship references
-    for (const relationship of this.model.relationships) {
-      const sourceExists = this.model.elements.some(e => e.id === relationship.sourceId);
-      const targetExists = this.model.elements.some(e => e.id === relationship.targetId);
+    for (const relationship of model.relationships) {
+      const sourceExists = model.elements.some(e => e.id === relationship.sourceId);
+      const targetExists = model.elements.some(e => e.id === relationship.targetId);
       
       if (!sourceExists) {
         errors.push({
@@ -1403,23 +2162,24 @@ export class ModelManipulator {
 
     // 3. Business Rules Validation
     // Validate each relationship
-    for (const relationship of this.model.relationships) {
-      const sourceElement = this.model.elements.find(e => e.id === relationship.sourceId);
-      const targetElement = this.model.elements.find(e => e.id === relationship.targetId);
+    for (const relationship of model.relationships) {
+      const sourceElement = model.elements.find(e => e.id === relationship.sourceId);
+      const targetElement = model.elements.find(e => e.id === relationship.targetId);
       
       if (sourceElement && targetElement && relationship.type) {
         const businessRulesResult = this.businessRulesValidator.validateRelationship(
           relationship,
           sourceElement,
           targetElement,
-          this.model.relationships
+          model.relationships
         );
         errors.push(...businessRulesResult.errors);
+        warnings.push(...(businessRulesResult.warnings || []));
       }
     }
 
     // Validate each element type
-    for (const element of this.model.elements) {
+    for (const element of model.elements) {
       if (element.type) {
         const typeValidation = this.businessRulesValidator.validateElementType(element.type);
         if (!typeValidation.valid) {
@@ -1439,11 +2199,11 @@ export class ModelManipulator {
     }
 
     // 4. View Integrity Validation
-    for (const view of this.model.views) {
+    for (const view of model.views) {
       const viewResult = this.businessRulesValidator.validateViewIntegrity(
         view,
-        this.model.elements,
-        this.model.relationships
+        model.elements,
+        model.relationships
       );
       errors.push(...viewResult.errors);
       
@@ -1457,11 +2217,11 @@ export class ModelManipulator {
     }
 
     // 5. Property Definition References
-    if (this.model.propertyDefinitions) {
-      const propDefIds = new Set(this.model.propertyDefinitions.map(pd => pd.identifier));
+    if (model.propertyDefinitions) {
+      const propDefIds = new Set(model.propertyDefinitions.map(pd => pd.identifier));
       
       // Check element properties
-      for (const element of this.model.elements) {
+      for (const element of model.elements) {
         if (element.properties) {
           for (const propDefId of Object.keys(element.properties)) {
             if (!propDefIds.has(propDefId)) {
@@ -1475,7 +2235,7 @@ export class ModelManipulator {
       }
 
       // Check relationship properties
-      for (const relationship of this.model.relationships) {
+      for (const relationship of model.relationships) {
         if (relationship.properties) {
           for (const propDefId of Object.keys(relationship.properties)) {
             if (!propDefIds.has(propDefId)) {
@@ -1489,7 +2249,7 @@ export class ModelManipulator {
       }
 
       // Check view properties
-      for (const view of this.model.views) {
+      for (const view of model.views) {
         if (view.properties) {
           for (const propDefId of Object.keys(view.properties)) {
             if (!propDefIds.has(propDefId)) {
@@ -1507,9 +2267,9 @@ export class ModelManipulator {
 
     if (isValid) {
       logger.log('info', 'model.validation.success', {
-        elements: this.model.elements.length,
-        relationships: this.model.relationships.length,
-        views: this.model.views.length
+        elements: model.elements.length,
+        relationships: model.relationships.length,
+        views: model.views.length
       });
     } else {
       logger.log('warn', 'model.validation.failed', {
@@ -1519,7 +2279,8 @@ export class ModelManipulator {
 
     return {
       valid: isValid,
-      errors
+      errors,
+      warnings
     };
   }
 
@@ -1607,6 +2368,7 @@ export class ModelManipulator {
    */
   async validateRelationship(rel: RelationshipObject): Promise<ValidationResult> {
     const errors: XSDValidationError[] = [];
+    const warnings: XSDValidationError[] = [];
 
     // Basic validation: required fields
     if (!rel.type) {
@@ -1674,6 +2436,7 @@ export class ModelManipulator {
         this.model.relationships
       );
       errors.push(...businessRulesResult.errors);
+      warnings.push(...(businessRulesResult.warnings || []));
     }
 
     // XSD validation: create minimal model with this relationship and its source/target elements
@@ -1708,7 +2471,8 @@ export class ModelManipulator {
 
     return {
       valid: errors.length === 0,
-      errors
+      errors,
+      warnings
     };
   }
 
@@ -1828,6 +2592,7 @@ export class ModelManipulator {
    * @param options Optional save options
    */
   async save(path?: string, options?: { createBackup?: boolean; validate?: boolean }): Promise<void> {
+    this.assertWritable('save');
     const opts = { createBackup: true, validate: true, ...options };
     const targetPath = path || this.loader.getPath();
 
@@ -1845,9 +2610,8 @@ export class ModelManipulator {
       this.createBackup(targetPath);
     }
 
-    // Serialize model to XML
-    // Note: ModelData doesn't store model-level identifier/name, so we'll use defaults
-    const xml = this.xmlBuilder.serialize(this.model);
+    // Serialize model to XML in the format it was loaded from
+    const xml = this.serializeForSave();
 
     // Ensure directory exists
     const dir = dirname(targetPath);
@@ -1865,6 +2629,18 @@ export class ModelManipulator {
     this.loader.reload();
 
     logger.log('info', 'model.save.success', { path: targetPath });
+    for (const listener of this.saveListeners) listener(targetPath, this.model);
+  }
+
+  /**
+   * Call a listener after each save, e.g. to update data stored next to the
+   * model file; returns a function that removes the listener
+   */
+  onSave(listener: (path: string, model: ModelData) => void): () => void {
+    this.saveListeners.push(listener);
+    return () => {
+      this.saveListeners = this.saveListeners.filter(l => l !== listener);
+    };
   }
 
   /**
@@ -1889,6 +2665,35 @@ export class ModelManipulator {
   // Helper Methods
   // ============================================================================
 
+  /**
+   * Get the default language for text set without a language, checking that
+   * the requested language can be stored. Archi native models have no
+   * language variants.
+   */
+  private resolveLanguage(language?: string): string {
+    const defaultLang = this.model.language || DEFAULT_LANGUAGE;
+    if (language && this.model.format === 'archi' && !sameLanguage(language, defaultLang)) {
+      const message = `Language "${language}" is not supported by the Archi native format, which stores a single language`;
+      throw new ValidationError(message, { valid: false, errors: [{ message }] });
+    }
+    return defaultLang;
+  }
+
+  /**
+   * Serialize the model for saving.
+   * Archi native models are written back over their original file content so
+   * that diagram layout and Archi-only data survive; everything else uses the
+   * Exchange Format builder.
+   */
+  private serializeForSave(): string {
+    if (this.model.format === 'archi') {
+      const sourcePath = this.loader.getPath();
+      const sourceXml = sourcePath && existsSync(sourcePath) ? readFileSync(sourcePath, 'utf8') : undefined;
+      return this.archiBuilder.serialize(this.model, sourceXml && isArchiNativeModel(sourceXml) ? sourceXml : undefined);
+    }
+    return this.xmlBuilder.serialize(this.model);
+  }
+
   /**
    * Generate a unique identifier
    */
@@ -1908,11 +2713,47 @@ export class ModelManipulator {
     return allIds.includes(id);
   }
 
+  /**
+   * Record operations in the active transaction, or in the edit history
+   * when no transaction is active
+   */
+  private recordOperation(...operations: Operation[]): void {
+    if (this.transaction) {
+      operations.forEach(operation => this.transaction!.addOperation(operation));
+    } else {
+      this.addToHistory(operations);
+    }
+  }
+
+  private recordPropertyOperation(
+    type: 'update' | 'delete',
+    targetId: string,
+    propertyDefId: string,
+    value: string | undefined,
+    previousValue: string | undefined
+  ): void {
+    this.recordOperation({
+      type,
+      entityType: 'property',
+      entityId: `${targetId}.${propertyDefId}`,
+      data: { targetId, propertyDefId, value },
+      previousState: { targetId, propertyDefId, value: previousValue }
+    });
+  }
+
+  /**
+   * Deep copy of a model object, for operation records
+   */
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
   /**
    * Mark model as modified
    */
   protected markModified(): void {
     this.modified = true;
+    this.revision++;
   }
 
   /**
@@ -1924,7 +2765,7 @@ export class ModelManipulator {
       // Business Layer
       'BusinessActor', 'BusinessRole', 'BusinessCollaboration', 'BusinessInterface',
       'BusinessProcess', 'BusinessFunction', 'BusinessInteraction', 'BusinessEvent',
-      'BusinessService', 'BusinessObject', 'Contract', 'Representation',
+      'BusinessService', 'BusinessObject', 'Contract', 'Representation', 'Product',
       // Application Layer
       'ApplicationComponent', 'ApplicationCollaboration', 'ApplicationInterface',
       'ApplicationFunction', 'ApplicationInteraction', 'ApplicationProcess',
@@ -1936,13 +2777,15 @@ export class ModelManipulator {
       'Artifact', 'CommunicationNetwork', 'Path', 'Network',
       // Motivation Layer
       'Stakeholder', 'Driver', 'Assessment', 'Goal', 'Outcome',
-      'Principle', 'Requirement', 'Constraint',
+      'Principle', 'Requirement', 'Constraint', 'Meaning', 'Value',
       // Strategy Layer
       'Resource', 'Capability', 'CourseOfAction', 'ValueStream',
       // Physical Layer
       'Equipment', 'Facility', 'DistributionNetwork', 'Material',
       // Implementation & Migration Layer
-      'WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau', 'Gap'
+      'WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau', 'Gap',
+      // Other
+      'Location', 'Grouping', 'AndJunction', 'OrJunction'
     ]);
 
     if (!validTypes.has(type)) {
@@ -1957,6 +2800,35 @@ export class ModelManipulator {
     return { valid: true, errors: [] };
   }
 
+  /**
+   * Reject relationships that the ArchiMate 3.2 relationship table does not
+   * allow between the source and target element types
+   */
+  private validateRelationshipAllowed(
+    type: string,
+    sourceElement: ElementObject,
+    targetElement: ElementObject,
+    operation: string,
+    id: string = 'new'
+  ): void {
+    const result = this.businessRulesValidator.validateRelationshipCompatibility(
+      { id, type, sourceId: sourceElement.id, targetId: targetElement.id },
+      sourceElement,
+      targetElement
+    );
+    if (result.valid) return;
+
+    const allowed = this.businessRulesValidator.getAllowedRelationshipTypes(sourceElement.type!, targetElement.type!);
+    const errorDef = getErrorCode('RELATIONSHIP_INCOMPATIBLE');
+    throw new ValidationError(
+      `Relationship type '${type}' is not allowed from ${sourceElement.type} to ${targetElement.type}`,
+      result,
+      undefined,
+      [`Use one of the allowed relationship types: ${allowed.join(', ')}`, ...(errorDef?.suggestions || [])],
+      { operation, relationshipType: type, sourceType: sourceElement.type, targetType: targetElement.type, allowedTypes: allowed }
+    );
+  }
+
   /**
    * Validate relationship type against ArchiMate 3.1 specification
    */
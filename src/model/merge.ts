@@ -0,0 +1,409 @@
+/**
+ * Three-way Model Merge
+ *
+ * Merges two models that were both edited from a common base ("ours" and
+ * "theirs"). Concepts are matched by identifier and merged field by field:
+ * a field changed on one side only takes that side's value, so unrelated
+ * edits combine without conflicts. Properties, language variants and view
+ * membership are merged per key or item. A field changed differently on
+ * both sides, or a concept changed on one side and deleted on the other, is
+ * a conflict: it is resolved in favour of the preferred side and reported.
+ *
+ * Diagram layout is taken from the side that changed it (ours when both
+ * did); elements added to a view without a diagram node are placed when the
+ * model is saved.
+ *
+ * @module model/merge
+ */
+
+import { ModelData, OrganizationFolder } from './types';
+import { linkReferences } from './loader';
+import { defaultFolderType, getDefaultFolder, findFolder, findFolderOf, removeFromFolders } from './organizations';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export type MergeConflictKind =
+  /** The same field was changed differently on both sides */
+  | 'both-modified'
+  /** A concept with the same identifier was added differently on both sides */
+  | 'both-added'
+  /** A concept was changed on one side and deleted on the other */
+  | 'modify-delete'
+  /** A relationship or view references a concept the other side deleted */
+  | 'dangling-reference';
+
+export interface MergeConflict {
+  kind: MergeConflictKind;
+  entityType: 'element' | 'relationship' | 'view' | 'propertyDefinition' | 'model';
+  entityId: string;
+  name?: string;
+  /** Field in conflict; absent when the concept as a whole is in conflict */
+  field?: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+  /** Side whose version is in the merged model, or 'removed' when the concept was left out */
+  resolution: MergeSide | 'removed';
+  message: string;
+}
+
+export interface MergeOptions {
+  /** Side that wins conflicts (default: ours) */
+  prefer?: MergeSide;
+}
+
+export interface MergeResult {
+  merged: ModelData;
+  conflicts: MergeConflict[];
+}
+
+/** Derived references, rebuilt after the merge */
+const DERIVED_FIELDS = ['inViews', 'outgoingRelations', 'incomingRelations'];
+/** Objects merged per key */
+const KEYED_FIELDS = ['properties', 'nameTranslations', 'documentationTranslations'];
+/** Identifier lists merged per item */
+const SET_FIELDS = ['elements', 'relationships'];
+/** Diagram layout, taken as a whole from one side without reporting conflicts */
+const LAYOUT_FIELDS = ['nodes', 'connections', 'nodeHierarchy'];
+
+type Concept = Record<string, any>;
+
+/**
+ * Merge two models edited from a common base
+ *
+ * @param base Common ancestor
+ * @param ours One edited version; its order and folder structure lead
+ * @param theirs The other edited version
+ */
+export function mergeModels(base: ModelData, ours: ModelData, theirs: ModelData, options: MergeOptions = {}): MergeResult {
+  const merger = new ModelMerger(options.prefer || 'ours');
+  const merged = merger.merge(base, ours, theirs);
+  return { merged, conflicts: merger.conflicts };
+}
+
+class ModelMerger {
+  readonly conflicts: MergeConflict[] = [];
+
+  constructor(private prefer: MergeSide) {}
+
+  merge(base: ModelData, ours: ModelData, theirs: ModelData): ModelData {
+    const merged: ModelData = clone({
+      ...ours,
+      elements: this.mergeCollection('element', base.elements, ours.elements, theirs.elements, e => e.id),
+      relationships: this.mergeCollection('relationship', base.relationships, ours.relationships, theirs.relationships, r => r.id),
+      views: this.mergeCollection('view', base.views, ours.views, theirs.views, v => v.id),
+      propertyDefinitions: this.mergeCollection(
+        'propertyDefinition', base.propertyDefinitions || [], ours.propertyDefinitions || [], theirs.propertyDefinitions || [], pd => pd.identifier
+      )
+    });
+    if (!merged.propertyDefinitions!.length && !ours.propertyDefinitions) delete merged.propertyDefinitions;
+
+    // Model header: name, documentation, metadata and properties
+    const header = (m: ModelData) => ({
+      name: m.name,
+      documentation: m.documentation,
+      nameTranslations: m.nameTranslations,
+      documentationTranslations: m.documentationTranslations,
+      properties: m.properties,
+      metadata: m.metadata?.fields
+    });
+    const mergedHeader = clone(this.mergeFields('model', ours.id || 'model', header(base), header(ours), header(theirs), ['metadata']));
+    merged.name = mergedHeader.name;
+    merged.documentation = mergedHeader.documentation;
+    merged.nameTranslations = mergedHeader.nameTranslations;
+    merged.documentationTranslations = mergedHeader.documentationTranslations;
+    merged.properties = mergedHeader.properties;
+    const schema = ours.metadata || theirs.metadata;
+    merged.metadata = mergedHeader.metadata && Object.keys(mergedHeader.metadata).length > 0
+      ? { ...schema, fields: mergedHeader.metadata }
+      : undefined;
+
+    this.removeDanglingReferences(merged, ours, theirs);
+    this.mergeFolders(merged, base, ours, theirs);
+    linkReferences(merged);
+    return merged;
+  }
+
+  /**
+   * Merge concepts matched by identifier. Ours' order leads; concepts only
+   * theirs has are appended in their order.
+   */
+  private mergeCollection<T extends Concept>(
+    entityType: MergeConflict['entityType'],
+    base: T[],
+    ours: T[],
+    theirs: T[],
+    idOf: (concept: T) => string
+  ): T[] {
+    const baseById = new Map(base.map(c => [idOf(c), c]));
+    const oursById = new Map(ours.map(c => [idOf(c), c]));
+    const theirsById = new Map(theirs.map(c => [idOf(c), c]));
+    const ids = [...oursById.keys(), ...[...theirsById.keys()].filter(id => !oursById.has(id))];
+
+    const result: T[] = [];
+    for (const id of ids) {
+      const merged = this.mergeConcept(entityType, id, baseById.get(id), oursById.get(id), theirsById.get(id));
+      if (merged) result.push(merged as T);
+    }
+    return result;
+  }
+
+  private mergeConcept(entityType: MergeConflict['entityType'], id: string, base?: Concept, ours?: Concept, theirs?: Concept): Concept | undefined {
+    const name = (ours || theirs || base)?.name;
+
+    if (!base) {
+      if (ours && theirs) {
+        if (same(ours, theirs)) return ours;
+        return this.mergeFields(entityType, id, {}, ours, theirs, [], 'both-added');
+      }
+      return ours || theirs;
+    }
+
+    if (!ours && !theirs) return undefined;
+    if (!ours || !theirs) {
+      const kept = (ours || theirs)!;
+      if (same(kept, base)) return undefined; // Deleted on one side, unchanged on the other
+
+      const deletedBy: MergeSide = ours ? 'theirs' : 'ours';
+      const keep = this.prefer !== deletedBy;
+      this.conflicts.push({
+        kind: 'modify-delete',
+        entityType,
+        entityId: id,
+        name,
+        ours: ours ? 'modified' : 'deleted',
+        theirs: theirs ? 'modified' : 'deleted',
+        resolution: keep ? (ours ? 'ours' : 'theirs') : 'removed',
+        message: `${label(entityType)} "${name || id}" was deleted in ${deletedBy} but changed in ${deletedBy === 'ours' ? 'theirs' : 'ours'}`
+      });
+      return keep ? kept : undefined;
+    }
+
+    return this.mergeFields(entityType, id, base, ours, theirs);
+  }
+
+  /**
+   * Three-way merge of the fields of one concept
+   */
+  private mergeFields(
+    entityType: MergeConflict['entityType'],
+    id: string,
+    base: Concept,
+    ours: Concept,
+    theirs: Concept,
+    keyedFields: string[] = [],
+    kind: MergeConflictKind = 'both-modified'
+  ): Concept {
+    const name = ours.name ?? theirs.name;
+    const keys = new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base)]);
+    const result: Concept = {};
+
+    for (const key of keys) {
+      if (DERIVED_FIELDS.includes(key)) continue;
+      let value: unknown;
+
+      if (KEYED_FIELDS.includes(key) || keyedFields.includes(key)) {
+        value = this.mergeKeyed(entityType, id, name, key, base[key], ours[key], theirs[key], kind);
+      } else if (entityType === 'view' && SET_FIELDS.includes(key)) {
+        value = mergeSet(base[key], ours[key], theirs[key]);
+      } else if (entityType === 'view' && LAYOUT_FIELDS.includes(key)) {
+        value = merge3(base[key], ours[key], theirs[key], () => ours[key]);
+      } else {
+        value = merge3(base[key], ours[key], theirs[key], () => this.conflict(kind, entityType, id, name, key, base[key], ours[key], theirs[key]));
+      }
+
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  }
+
+  private mergeKeyed(
+    entityType: MergeConflict['entityType'],
+    id: string,
+    name: string | undefined,
+    field: string,
+    base: Record<string, string> | undefined,
+    ours: Record<string, string> | undefined,
+    theirs: Record<string, string> | undefined,
+    kind: MergeConflictKind
+  ): Record<string, string> | undefined {
+    if (same(ours, theirs)) return ours;
+    if (same(ours, base)) return theirs;
+    if (same(theirs, base)) return ours;
+
+    const keys = [...Object.keys(ours || {}), ...Object.keys(theirs || {}).filter(k => !(k in (ours || {})))];
+    const result: Record<string, string> = {};
+    for (const key of keys) {
+      const value = merge3(base?.[key], ours?.[key], theirs?.[key],
+        () => this.conflict(kind, entityType, id, name, `${field}.${key}`, base?.[key], ours?.[key], theirs?.[key]));
+      if (value !== undefined) result[key] = value;
+    }
+    return Object.keys(result).length > 0 || ours || theirs ? result : undefined;
+  }
+
+  /**
+   * Record a conflict and return the preferred side's value
+   */
+  private conflict<T>(
+    kind: MergeConflictKind,
+    entityType: MergeConflict['entityType'],
+    entityId: string,
+    name: string | undefined,
+    field: string,
+    base: T,
+    ours: T,
+    theirs: T
+  ): T {
+    const verb = kind === 'both-added' ? 'added with different values' : 'changed differently';
+    this.conflicts.push({
+      kind,
+      entityType,
+      entityId,
+      name,
+      field,
+      base,
+      ours,
+      theirs,
+      resolution: this.prefer,
+      message: `${field} of ${label(entityType).toLowerCase()} "${name || entityId}" was ${verb} on both sides`
+    });
+    return this.prefer === 'ours' ? ours : theirs;
+  }
+
+  /**
+   * Drop relationships and view members whose concepts were deleted on the
+   * other side
+   */
+  private removeDanglingReferences(merged: ModelData, ours: ModelData, theirs: ModelData): void {
+    const elementIds = new Set(merged.elements.map(e => e.id));
+    const addedBy = (id: string): MergeSide => ours.relationships.some(r => r.id === id) || ours.views.some(v => v.id === id) ? 'ours' : 'theirs';
+
+    // Relationships can connect to other relationships; repeat until stable
+    let removed = true;
+    while (removed) {
+      removed = false;
+      const conceptIds = new Set([...elementIds, ...merged.relationships.map(r => r.id)]);
+      merged.relationships = merged.relationships.filter(r => {
+        const missing = [r.sourceId, r.targetId].find(ref => !conceptIds.has(ref));
+        if (!missing) return true;
+        removed = true;
+        this.conflicts.push({
+          kind: 'dangling-reference',
+          entityType: 'relationship',
+          entityId: r.id,
+          name: r.name,
+          field: r.sourceId === missing ? 'sourceId' : 'targetId',
+          resolution: 'removed',
+          message: `${r.type || 'Relationship'} relationship ${r.id} in ${addedBy(r.id)} references ${missing}, which the other side deleted`
+        });
+        return false;
+      });
+    }
+
+    const relationshipIds = new Set(merged.relationships.map(r => r.id));
+    for (const view of merged.views) {
+      for (const [field, known] of [['elements', elementIds], ['relationships', relationshipIds]] as const) {
+        const members: string[] = view[field] || [];
+        const missing = members.filter(id => !known.has(id));
+        if (missing.length === 0) continue;
+        view[field] = members.filter(id => known.has(id));
+        this.conflicts.push({
+          kind: 'dangling-reference',
+          entityType: 'view',
+          entityId: view.id,
+          name: view.name,
+          field,
+          theirs: missing,
+          resolution: 'removed',
+          message: `View "${view.name}" shows ${missing.join(', ')}, which the other side deleted`
+        });
+      }
+    }
+  }
+
+  /**
+   * Take ours' folder structure, file theirs' new concepts where theirs filed
+   * them and apply folder moves made only in theirs
+   */
+  private mergeFolders(merged: ModelData, base: ModelData, ours: ModelData, theirs: ModelData): void {
+    const source = ours.organizations || theirs.organizations;
+    if (!source) return;
+    const organizations: OrganizationFolder[] = clone(source);
+    merged.organizations = organizations;
+
+    const concepts: Array<{ id: string; kind: 'element' | 'relationship' | 'view'; type?: string }> = [
+      ...merged.elements.map(e => ({ id: e.id, kind: 'element' as const, type: e.type })),
+      ...merged.relationships.map(r => ({ id: r.id, kind: 'relationship' as const })),
+      ...merged.views.map(v => ({ id: v.id, kind: 'view' as const }))
+    ];
+    const present = new Set(concepts.map(c => c.id));
+    const prune = (folders: OrganizationFolder[]) => {
+      for (const folder of folders) {
+        folder.items = folder.items.filter(id => present.has(id));
+        prune(folder.folders);
+      }
+    };
+    prune(organizations);
+
+    const pathIn = (model: ModelData, id: string) => model.organizations ? findFolderOf(model.organizations, id)?.path : undefined;
+    for (const concept of concepts) {
+      const current = findFolderOf(organizations, concept.id);
+      const theirsPath = pathIn(theirs, concept.id);
+      const movedByTheirs = theirsPath !== undefined && theirsPath !== pathIn(base, concept.id) && pathIn(ours, concept.id) === pathIn(base, concept.id);
+      if (current && !movedByTheirs) continue;
+
+      const target = (theirsPath && findFolder(organizations, theirsPath))
+        || (current ? undefined : getDefaultFolder(organizations, defaultFolderType(concept.kind, concept.type)));
+      if (!target) continue;
+      removeFromFolders(organizations, concept.id);
+      target.items.push(concept.id);
+    }
+  }
+}
+
+function merge3<T>(base: T, ours: T, theirs: T, onConflict: () => T): T {
+  if (same(ours, theirs)) return ours;
+  if (same(ours, base)) return theirs;
+  if (same(theirs, base)) return ours;
+  return onConflict();
+}
+
+/**
+ * Merge identifier lists: items added on either side are added, items
+ * removed on either side are removed
+ */
+function mergeSet(base: string[] = [], ours: string[] = [], theirs: string[] = []): string[] | undefined {
+  const removed = new Set(base.filter(id => !ours.includes(id) || !theirs.includes(id)));
+  const result = ours.filter(id => !removed.has(id));
+  for (const id of theirs) {
+    if (!removed.has(id) && !result.includes(id)) result.push(id);
+  }
+  return result.length > 0 || ours.length > 0 || theirs.length > 0 ? result : undefined;
+}
+
+/**
+ * Compare two values, ignoring derived references and key order
+ */
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value === null || typeof value !== 'object') return value;
+  const obj = value as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(obj)
+    .filter(key => !DERIVED_FIELDS.includes(key) && obj[key] !== undefined)
+    .sort()
+    .map(key => [key, canonical(obj[key])]));
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function label(entityType: MergeConflict['entityType']): string {
+  return entityType === 'propertyDefinition' ? 'Property definition'
+    : entityType === 'model' ? 'Model'
+    : entityType.charAt(0).toUpperCase() + entityType.slice(1);
+}
@@ -0,0 +1,158 @@
+/**
+ * Organizations (Folder Structure)
+ *
+ * Helpers for the folder tree stored in `ModelData.organizations`. The tree
+ * mirrors the Exchange Format `<organizations>` element and Archi's folders.
+ * Folders are addressed either by identifier or by their label path
+ * (e.g. `Business/Customers`).
+ *
+ * @module model/organizations
+ */
+
+import { OrganizationFolder } from './types';
+
+/**
+ * Default top-level folders, in Archi's order
+ */
+export const DEFAULT_FOLDERS: Array<{ type: string; name: string }> = [
+  { type: 'strategy', name: 'Strategy' },
+  { type: 'business', name: 'Business' },
+  { type: 'application', name: 'Application' },
+  { type: 'technology', name: 'Technology & Physical' },
+  { type: 'motivation', name: 'Motivation' },
+  { type: 'implementation_migration', name: 'Implementation & Migration' },
+  { type: 'other', name: 'Other' },
+  { type: 'relations', name: 'Relations' },
+  { type: 'diagrams', name: 'Views' }
+];
+
+/**
+ * Top-level folder type that holds each element type
+ */
+const FOLDER_BY_ELEMENT_TYPE: Record<string, string> = {
+  Resource: 'strategy', Capability: 'strategy', ValueStream: 'strategy', CourseOfAction: 'strategy',
+  BusinessActor: 'business', BusinessRole: 'business', BusinessCollaboration: 'business',
+  BusinessInterface: 'business', BusinessProcess: 'business', BusinessFunction: 'business',
+  BusinessInteraction: 'business', BusinessEvent: 'business', BusinessService: 'business',
+  BusinessObject: 'business', Contract: 'business', Representation: 'business', Product: 'business',
+  ApplicationComponent: 'application', ApplicationCollaboration: 'application',
+  ApplicationInterface: 'application', ApplicationFunction: 'application',
+  ApplicationInteraction: 'application', ApplicationProcess: 'application',
+  ApplicationEvent: 'application', ApplicationService: 'application', DataObject: 'application',
+  Node: 'technology', Device: 'technology', SystemSoftware: 'technology',
+  TechnologyCollaboration: 'technology', TechnologyInterface: 'technology',
+  TechnologyFunction: 'technology', TechnologyProcess: 'technology',
+  TechnologyInteraction: 'technology', TechnologyEvent: 'technology',
+  TechnologyService: 'technology', Artifact: 'technology', CommunicationNetwork: 'technology',
+  Path: 'technology', Equipment: 'technology', Facility: 'technology',
+  DistributionNetwork: 'technology', Material: 'technology',
+  Stakeholder: 'motivation', Driver: 'motivation', Assessment: 'motivation', Goal: 'motivation',
+  Outcome: 'motivation', Principle: 'motivation', Requirement: 'motivation',
+  Constraint: 'motivation', Meaning: 'motivation', Value: 'motivation',
+  WorkPackage: 'implementation_migration', Deliverable: 'implementation_migration',
+  ImplementationEvent: 'implementation_migration', Plateau: 'implementation_migration',
+  Gap: 'implementation_migration'
+};
+
+/**
+ * Folder entry as returned by {@link listFolders}
+ */
+export interface FolderSummary {
+  id?: string;
+  path: string;
+  label: string;
+  depth: number;
+  items: string[];
+}
+
+/**
+ * Get the default top-level folder type for a concept
+ *
+ * @param kind Kind of concept
+ * @param elementType Element type (for elements only)
+ */
+export function defaultFolderType(kind: 'element' | 'relationship' | 'view', elementType?: string): string {
+  if (kind === 'relationship') return 'relations';
+  if (kind === 'view') return 'diagrams';
+  return FOLDER_BY_ELEMENT_TYPE[elementType || ''] || 'other';
+}
+
+/**
+ * Find the top-level folder of the given type, creating it when missing.
+ * Folders without a type (Exchange Format) are matched by their default label.
+ */
+export function getDefaultFolder(organizations: OrganizationFolder[], folderType: string): OrganizationFolder {
+  const def = DEFAULT_FOLDERS.find(f => f.type === folderType) || { type: folderType, name: folderType };
+  let folder = organizations.find(f => f.type === folderType)
+    || organizations.find(f => !f.type && f.label === def.name);
+  if (!folder) {
+    folder = { label: def.name, type: def.type, items: [], folders: [] };
+    organizations.push(folder);
+  }
+  return folder;
+}
+
+/**
+ * Find a folder by identifier or by label path (`Parent/Child`)
+ */
+export function findFolder(organizations: OrganizationFolder[], ref: string): OrganizationFolder | undefined {
+  const byId = walkFolders(organizations).find(({ folder }) => folder.id === ref);
+  if (byId) return byId.folder;
+
+  const segments = ref.split('/').map(s => s.trim()).filter(s => s);
+  let level = organizations;
+  let found: OrganizationFolder | undefined;
+  for (const segment of segments) {
+    found = level.find(f => f.label === segment)
+      || level.find(f => f.label.toLowerCase() === segment.toLowerCase());
+    if (!found) return undefined;
+    level = found.folders;
+  }
+  return found;
+}
+
+/**
+ * Find the folder that contains a concept
+ */
+export function findFolderOf(organizations: OrganizationFolder[], itemId: string): { folder: OrganizationFolder; path: string } | undefined {
+  return walkFolders(organizations).find(({ folder }) => folder.items.includes(itemId));
+}
+
+/**
+ * Remove a concept from whichever folder holds it
+ *
+ * @returns true when the concept was found in a folder
+ */
+export function removeFromFolders(organizations: OrganizationFolder[], itemId: string): boolean {
+  const entry = findFolderOf(organizations, itemId);
+  if (!entry) return false;
+  entry.folder.items.splice(entry.folder.items.indexOf(itemId), 1);
+  return true;
+}
+
+/**
+ * Flatten the folder tree in document order
+ */
+export function listFolders(organizations: OrganizationFolder[]): FolderSummary[] {
+  return walkFolders(organizations).map(({ folder, path, depth }) => ({
+    id: folder.id,
+    path,
+    label: folder.label,
+    depth,
+    items: [...folder.items]
+  }));
+}
+
+function walkFolders(
+  folders: OrganizationFolder[],
+  parentPath: string = '',
+  depth: number = 0
+): Array<{ folder: OrganizationFolder; path: string; depth: number }> {
+  const result: Array<{ folder: OrganizationFolder; path: string; depth: number }> = [];
+  for (const folder of folders) {
+    const path = parentPath ? `${parentPath}/${folder.label}` : folder.label;
+    result.push({ folder, path, depth });
+    result.push(...walkFolders(folder.folders, path, depth + 1));
+  }
+  return result;
+}
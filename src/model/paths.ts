@@ -0,0 +1,194 @@
+/**
+ * Path Finding
+ *
+ * Shortest relationship paths between two elements. Every relationship
+ * counts as one hop; the k shortest paths are found with Yen's algorithm,
+ * so each path visits an element at most once and paths differ in at least
+ * one relationship. Relationships are followed in both directions unless
+ * the search is directed, because many ArchiMate relationships (serving,
+ * access) point against the way a question is usually asked.
+ *
+ * @module model/paths
+ */
+
+import { ModelData, ElementObject, RelationshipObject } from './types';
+import { NotFoundError } from './manipulator-types';
+
+export interface PathOptions {
+  /** Relationship types to follow (default: all) */
+  relationshipTypes?: string[];
+  /** Longest path to return, in relationships (default: 6) */
+  maxHops?: number;
+  /** Number of paths to return, shortest first (default: 3) */
+  k?: number;
+  /** Only follow relationships from source to target (default: false) */
+  directed?: boolean;
+}
+
+export const DEFAULT_MAX_HOPS = 6;
+export const MAX_HOPS_LIMIT = 10;
+export const DEFAULT_PATH_COUNT = 3;
+export const MAX_PATH_COUNT = 10;
+
+export interface PathElement {
+  id: string;
+  name: string;
+  type?: string;
+}
+
+export interface PathStep {
+  relationshipId: string;
+  relationshipType?: string;
+  relationshipName?: string;
+  from: string;
+  to: string;
+  /** 'forward' when the relationship points from `from` to `to` */
+  direction: 'forward' | 'backward';
+}
+
+export interface ElementPath {
+  hops: number;
+  elements: PathElement[];
+  steps: PathStep[];
+}
+
+export interface PathSearch {
+  source: PathElement;
+  target: PathElement;
+  maxHops: number;
+  k: number;
+  directed: boolean;
+  relationshipTypes?: string[];
+  /** Shortest first */
+  paths: ElementPath[];
+}
+
+/**
+ * Find the k shortest relationship paths from one element to another
+ */
+export function findPaths(model: ModelData, sourceId: string, targetId: string, options: PathOptions = {}): PathSearch {
+  const graph = new RelationshipGraph(model, options);
+  const source = graph.element(sourceId);
+  const target = graph.element(targetId);
+  if (!source) throw new NotFoundError('element', sourceId);
+  if (!target) throw new NotFoundError('element', targetId);
+
+  const maxHops = clamp(options.maxHops ?? DEFAULT_MAX_HOPS, 1, MAX_HOPS_LIMIT);
+  const k = clamp(options.k ?? DEFAULT_PATH_COUNT, 1, MAX_PATH_COUNT);
+
+  // Yen's algorithm: each next path deviates from an accepted one at a spur element
+  const accepted: PathStep[][] = [];
+  const candidates: PathStep[][] = [];
+  const first = graph.shortestPath(sourceId, targetId, maxHops, new Set(), new Set());
+  if (first && sourceId !== targetId) accepted.push(first);
+
+  while (accepted.length > 0 && accepted.length < k) {
+    const previous = accepted[accepted.length - 1];
+    for (let i = 0; i < previous.length; i++) {
+      const root = previous.slice(0, i);
+      const spur = i === 0 ? sourceId : root[i - 1].to;
+      const excludedRelationships = new Set<string>();
+      for (const path of accepted) {
+        if (path.length > i && sameSteps(path.slice(0, i), root)) excludedRelationships.add(path[i].relationshipId);
+      }
+      const excludedElements = new Set([sourceId, ...root.map(s => s.to)]);
+      excludedElements.delete(spur);
+
+      const spurPath = graph.shortestPath(spur, targetId, maxHops - i, excludedElements, excludedRelationships);
+      if (!spurPath) continue;
+      const candidate = [...root, ...spurPath];
+      if (![...accepted, ...candidates].some(p => sameSteps(p, candidate))) candidates.push(candidate);
+    }
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.length - b.length);
+    accepted.push(candidates.shift()!);
+  }
+
+  return {
+    source: summarize(source),
+    target: summarize(target),
+    maxHops,
+    k,
+    directed: !!options.directed,
+    relationshipTypes: options.relationshipTypes?.length ? options.relationshipTypes : undefined,
+    paths: accepted.map(steps => ({
+      hops: steps.length,
+      elements: [source, ...steps.map(s => graph.element(s.to)!)].map(summarize),
+      steps
+    }))
+  };
+}
+
+/**
+ * Elements connected by the relationships a search may follow
+ */
+class RelationshipGraph {
+  private elements: Map<string, ElementObject>;
+  private edges = new Map<string, PathStep[]>();
+
+  constructor(model: ModelData, options: PathOptions) {
+    this.elements = new Map(model.elements.map(e => [e.id, e]));
+    const types = options.relationshipTypes?.length ? new Set(options.relationshipTypes.map(t => t.toLowerCase())) : undefined;
+
+    for (const r of model.relationships) {
+      if (types && !types.has((r.type || '').toLowerCase())) continue;
+      if (!this.elements.has(r.sourceId) || !this.elements.has(r.targetId)) continue;
+      this.addEdge(r, r.sourceId, r.targetId, 'forward');
+      if (!options.directed) this.addEdge(r, r.targetId, r.sourceId, 'backward');
+    }
+  }
+
+  element(id: string): ElementObject | undefined {
+    return this.elements.get(id);
+  }
+
+  /**
+   * Breadth-first search for a shortest path avoiding some elements and relationships
+   */
+  shortestPath(from: string, to: string, maxHops: number, excludedElements: Set<string>, excludedRelationships: Set<string>): PathStep[] | undefined {
+    if (maxHops < 1) return undefined;
+    const reachedBy = new Map<string, PathStep | null>([[from, null]]);
+    let frontier = [from];
+
+    for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const step of this.edges.get(id) || []) {
+          if (reachedBy.has(step.to) || excludedElements.has(step.to) || excludedRelationships.has(step.relationshipId)) continue;
+          reachedBy.set(step.to, step);
+          if (step.to === to) return trace(reachedBy, to);
+          next.push(step.to);
+        }
+      }
+      frontier = next;
+    }
+    return undefined;
+  }
+
+  private addEdge(r: RelationshipObject, from: string, to: string, direction: PathStep['direction']): void {
+    const step: PathStep = { relationshipId: r.id, relationshipType: r.type, relationshipName: r.name || undefined, from, to, direction };
+    const edges = this.edges.get(from);
+    if (edges) edges.push(step);
+    else this.edges.set(from, [step]);
+  }
+}
+
+function trace(reachedBy: Map<string, PathStep | null>, to: string): PathStep[] {
+  const steps: PathStep[] = [];
+  for (let step = reachedBy.get(to); step; step = reachedBy.get(step.from)) {
+    steps.unshift(step);
+  }
+  return steps;
+}
+
+function sameSteps(a: PathStep[], b: PathStep[]): boolean {
+  return a.length === b.length && a.every((step, i) => step.relationshipId === b[i].relationshipId && step.to === b[i].to);
+}
+
+function summarize(element: ElementObject): PathElement {
+  return { id: element.id, name: element.name, type: element.type };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
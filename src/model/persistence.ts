@@ -8,7 +8,7 @@
 
 import { create } from 'xmlbuilder2';
 import { XMLBuilder } from 'xmlbuilder2/lib/interfaces';
-import { ModelData, ElementObject, RelationshipObject, ViewObject } from './types';
+import { ModelData, LangStrings, ElementObject, RelationshipObject, ViewObject, ViewNode, ViewConnection, ViewStyle, ColorValue, OrganizationFolder } from './types';
 import { getLogger } from '../utils/logger';
 
 const logger = getLogger();
@@ -19,8 +19,17 @@ const logger = getLogger();
 const ARCHIMATE_NS = 'http://www.opengroup.org/xsd/archimate/3.0/';
 const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
 const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
 const SCHEMA_LOCATION = 'http://www.opengroup.org/xsd/archimate/3.0/ http://www.opengroup.org/xsd/archimate/3.1/archimate3_Diagram.xsd';
 
+/**
+ * Size and spacing used when laying out nodes that have no stored geometry
+ */
+const DEFAULT_NODE_WIDTH = 120;
+const DEFAULT_NODE_HEIGHT = 55;
+const NODE_SPACING = 24;
+const NODES_PER_ROW = 6;
+
 /**
  * Options for XML serialization
  */
@@ -49,22 +58,51 @@ export class ArchiMateXMLBuilder {
    * Serialize ModelData to ArchiMate Exchange File Format XML
    */
   serialize(model: ModelData, options: SerializationOptions = {}): string {
-    const identifier = options.identifier || this.generateModelId();
-    const modelName = options.name || 'ArchiMate Model';
+    // Options take precedence, then the identity loaded with the model
+    const identifier = options.identifier || model.id || this.generateModelId();
+    const modelName = options.name || model.name || 'ArchiMate Model';
     const version = options.version || '3.1';
-    const lang = options.defaultLang || this.defaultLang;
+    const lang = options.defaultLang || model.language || this.defaultLang;
 
     // Create root model element with namespaces
-    const root = create({ version: '1.0', encoding: 'UTF-8' })
-      .ele('model', {
-        'xmlns': ARCHIMATE_NS,
-        'xmlns:xsi': XSI_NS,
-        'xsi:schemaLocation': SCHEMA_LOCATION,
-        'identifier': identifier
-      });
+    const rootAttrs: Record<string, string> = {
+      'xmlns': ARCHIMATE_NS,
+      'xmlns:xsi': XSI_NS
+    };
+    if (model.metadata) {
+      rootAttrs['xmlns:dc'] = DC_NS;
+    }
+    rootAttrs['xsi:schemaLocation'] = SCHEMA_LOCATION;
+    rootAttrs['identifier'] = identifier;
+    if (model.version) {
+      rootAttrs['version'] = model.version;
+    }
+    const root = create({ version: '1.0', encoding: 'UTF-8' }).ele('model', rootAttrs);
+
+    // Add model name and documentation in all languages
+    this.addLangStrings(root, 'name', modelName, model.nameTranslations, lang);
+    this.addLangStrings(root, 'documentation', model.documentation, model.documentationTranslations, lang);
+
+    // Add Dublin Core metadata
+    if (model.metadata) {
+      const metadataEl = root.ele('metadata');
+      metadataEl.ele('schema').txt(model.metadata.schema || 'Dublin Core');
+      metadataEl.ele('schemaversion').txt(model.metadata.schemaVersion || '1.1');
+      for (const [field, value] of Object.entries(model.metadata.fields)) {
+        for (const text of Array.isArray(value) ? value : [value]) {
+          metadataEl.ele(`dc:${field}`).txt(text);
+        }
+      }
+    }
 
-    // Add model name
-    this.addLangString(root, 'name', modelName, lang);
+    // Add model properties
+    if (model.properties && Object.keys(model.properties).length > 0) {
+      const propsEl = root.ele('properties');
+      for (const [key, value] of Object.entries(model.properties)) {
+        const propEl = propsEl.ele('property', { propertyDefinitionRef: key });
+        this.addLangString(propEl, 'value', value, lang);
+      }
+    }
 
     // Add elements
     if (model.elements && model.elements.length > 0) {
@@ -82,6 +120,19 @@ export class ArchiMateXMLBuilder {
       }
     }
 
+    // Add organizations (folder structure)
+    if (model.organizations && model.organizations.length > 0) {
+      const knownIds = new Set([
+        ...(model.elements || []).map(e => e.id),
+        ...(model.relationships || []).map(r => r.id),
+        ...(model.views || []).map(v => v.id)
+      ]);
+      const orgsEl = root.ele('organizations');
+      for (const folder of model.organizations) {
+        this.serializeFolder(orgsEl, folder, knownIds, lang);
+      }
+    }
+
     // Add property definitions
     if (model.propertyDefinitions && model.propertyDefinitions.length > 0) {
       const propDefsEl = root.ele('propertyDefinitions');
@@ -99,7 +150,7 @@ export class ArchiMateXMLBuilder {
       const viewsEl = root.ele('views');
       const diagramsEl = viewsEl.ele('diagrams');
       for (const view of model.views) {
-        this.serializeView(diagramsEl, view, lang);
+        this.serializeView(diagramsEl, view, model.relationships || [], lang);
       }
     }
 
@@ -124,15 +175,9 @@ export class ArchiMateXMLBuilder {
 
     const elementEl = parent.ele('element', attrs);
 
-    // Add name
-    if (element.name) {
-      this.addLangString(elementEl, 'name', element.name, lang);
-    }
-
-    // Add documentation
-    if (element.documentation) {
-      this.addLangString(elementEl, 'documentation', element.documentation, lang);
-    }
+    // Add name and documentation in all languages
+    this.addLangStrings(elementEl, 'name', element.name, element.nameTranslations, lang);
+    this.addLangStrings(elementEl, 'documentation', element.documentation, element.documentationTranslations, lang);
 
     // Add properties
     if (element.properties && Object.keys(element.properties).length > 0) {
@@ -162,15 +207,9 @@ export class ArchiMateXMLBuilder {
 
     const relEl = parent.ele('relationship', attrs);
 
-    // Add name
-    if (relationship.name) {
-      this.addLangString(relEl, 'name', relationship.name, lang);
-    }
-
-    // Add documentation
-    if (relationship.documentation) {
-      this.addLangString(relEl, 'documentation', relationship.documentation, lang);
-    }
+    // Add name and documentation in all languages
+    this.addLangStrings(relEl, 'name', relationship.name, relationship.nameTranslations, lang);
+    this.addLangStrings(relEl, 'documentation', relationship.documentation, relationship.documentationTranslations, lang);
 
     // Add properties
     if (relationship.properties && Object.keys(relationship.properties).length > 0) {
@@ -182,10 +221,28 @@ export class ArchiMateXMLBuilder {
     }
   }
 
+  /**
+   * Serialize an organization folder with its sub-folders and concept references
+   */
+  private serializeFolder(parent: XMLBuilder, folder: OrganizationFolder, knownIds: Set<string>, lang: string): void {
+    const itemEl = parent.ele('item', folder.id ? { identifier: folder.id } : {});
+    this.addLangString(itemEl, 'label', folder.label, lang);
+    if (folder.documentation) {
+      this.addLangString(itemEl, 'documentation', folder.documentation, lang);
+    }
+    for (const sub of folder.folders) {
+      this.serializeFolder(itemEl, sub, knownIds, lang);
+    }
+    // References to concepts that no longer exist would make the file invalid
+    for (const ref of folder.items.filter(id => knownIds.has(id))) {
+      itemEl.ele('item', { identifierRef: ref });
+    }
+  }
+
   /**
    * Serialize a view to XML
    */
-  private serializeView(parent: XMLBuilder, view: ViewObject, lang: string = this.defaultLang): void {
+  private serializeView(parent: XMLBuilder, view: ViewObject, relationships: RelationshipObject[], lang: string = this.defaultLang): void {
     const attrs: Record<string, string> = { identifier: view.id };
     if (view.type) {
       attrs['xsi:type'] = view.type;
@@ -196,15 +253,9 @@ export class ArchiMateXMLBuilder {
 
     const viewEl = parent.ele('view', attrs);
 
-    // Add name
-    if (view.name) {
-      this.addLangString(viewEl, 'name', view.name, lang);
-    }
-
-    // Add documentation
-    if (view.documentation) {
-      this.addLangString(viewEl, 'documentation', view.documentation, lang);
-    }
+    // Add name and documentation in all languages
+    this.addLangStrings(viewEl, 'name', view.name, view.nameTranslations, lang);
+    this.addLangStrings(viewEl, 'documentation', view.documentation, view.documentationTranslations, lang);
 
     // Add properties
     if (view.properties && Object.keys(view.properties).length > 0) {
@@ -215,35 +266,181 @@ export class ArchiMateXMLBuilder {
       }
     }
 
-    // Add nodes (elements in view)
-    if (view.elements && view.elements.length > 0) {
-      for (const elementId of view.elements) {
-        const nodeEl = viewEl.ele('node', { elementRef: elementId });
-        // Note: View nodes can have style, position, etc. - simplified for now
-      }
+    // Add nodes and connections with their layout
+    const { nodes, connections } = this.layoutView(view, relationships);
+    for (const node of nodes) {
+      this.serializeViewNode(viewEl, node, lang);
     }
+    for (const connection of connections) {
+      this.serializeViewConnection(viewEl, connection, lang);
+    }
+  }
 
-    // Add connections (relationships in view)
-    if (view.relationships && view.relationships.length > 0) {
-      for (const relId of view.relationships) {
-        viewEl.ele('connection', { relationshipRef: relId });
+  /**
+   * Reconcile the stored diagram layout with the view's element and relationship lists.
+   * Stored nodes and connections are kept as loaded; nodes for elements that left the
+   * view are dropped (their children move up a level) and elements or relationships
+   * without a diagram object get one, placed below the existing content.
+   */
+  private layoutView(view: ViewObject, relationships: RelationshipObject[]): { nodes: ViewNode[]; connections: ViewConnection[] } {
+    const wantedElements = new Set(view.elements || []);
+    const wantedRelationships = new Set(view.relationships || []);
+    const removedNodes = new Set<string>();
+
+    const prune = (nodes: ViewNode[]): ViewNode[] => nodes.flatMap(node => {
+      const children = prune(node.children || []);
+      if (node.elementRef && !wantedElements.has(node.elementRef)) {
+        removedNodes.add(node.id);
+        return children;
       }
+      return [{ ...node, children: children.length > 0 ? children : undefined }];
+    });
+    const nodes = prune(view.nodes || []);
+
+    const connections = (view.connections || []).filter(c =>
+      !(c.relationshipRef && !wantedRelationships.has(c.relationshipRef)) &&
+      !(c.source && removedNodes.has(c.source)) &&
+      !(c.target && removedNodes.has(c.target))
+    );
+
+    // Index element nodes, first occurrence wins
+    const nodeByElement = new Map<string, ViewNode>();
+    let bottom = 0;
+    const index = (list: ViewNode[]) => {
+      for (const node of list) {
+        if (node.elementRef && !nodeByElement.has(node.elementRef)) nodeByElement.set(node.elementRef, node);
+        if (node.y !== undefined) bottom = Math.max(bottom, node.y + (node.h ?? DEFAULT_NODE_HEIGHT));
+        index(node.children || []);
+      }
+    };
+    index(nodes);
+
+    // Add nodes for elements that are not drawn yet, parents before children
+    const parentOf = new Map((view.nodeHierarchy || []).map(h => [h.childElement, h.parentElement]));
+    const top = bottom + NODE_SPACING;
+    let placed = 0;
+    const place = (elementId: string, visiting: Set<string>): ViewNode | undefined => {
+      const existing = nodeByElement.get(elementId);
+      if (existing || visiting.has(elementId)) return existing;
+      visiting.add(elementId);
+
+      const parentRef = parentOf.get(elementId);
+      const parentNode = parentRef && wantedElements.has(parentRef) ? place(parentRef, visiting) : undefined;
+      const node: ViewNode = { id: `${view.id}-${elementId}`, type: 'Element', elementRef: elementId };
+      if (parentNode) {
+        const siblings = parentNode.children || (parentNode.children = []);
+        node.x = (parentNode.x ?? 0) + 12 + siblings.length * (DEFAULT_NODE_WIDTH + 12);
+        node.y = (parentNode.y ?? 0) + NODE_SPACING;
+        siblings.push(node);
+      } else {
+        node.x = NODE_SPACING + (placed % NODES_PER_ROW) * (DEFAULT_NODE_WIDTH + NODE_SPACING);
+        node.y = top + Math.floor(placed / NODES_PER_ROW) * (DEFAULT_NODE_HEIGHT + NODE_SPACING);
+        placed++;
+        nodes.push(node);
+      }
+      node.w = DEFAULT_NODE_WIDTH;
+      node.h = DEFAULT_NODE_HEIGHT;
+      nodeByElement.set(elementId, node);
+      return node;
+    };
+    for (const elementId of wantedElements) {
+      place(elementId, new Set());
     }
 
-    // Add node hierarchy
-    if (view.nodeHierarchy && view.nodeHierarchy.length > 0) {
-      // Node hierarchy is represented by nested nodes
-      // This is a simplified version - full implementation needs proper nesting
-      for (const { parentElement, childElement } of view.nodeHierarchy) {
-        // Find parent node and add child as nested node
-        const parentNode = viewEl.find(node => 
-          node.att('elementRef') === parentElement
-        );
-        if (parentNode) {
-          parentNode.ele('node', { elementRef: childElement });
-        }
-      }
+    // Add connections for relationships that are not drawn yet. An end may be
+    // a node or, for relationships on relationships, another connection, so
+    // repeat until nothing more can be drawn; a connection needs both ends.
+    const connectionByRelationship = new Map<string, ViewConnection>();
+    for (const connection of connections) {
+      if (connection.relationshipRef) connectionByRelationship.set(connection.relationshipRef, connection);
     }
+    const endOf = (conceptId: string) => nodeByElement.get(conceptId)?.id ?? connectionByRelationship.get(conceptId)?.id;
+    const relationshipMap = new Map(relationships.map(r => [r.id, r]));
+    let pending = [...wantedRelationships].filter(relId => !connectionByRelationship.has(relId));
+    let added = true;
+    while (added) {
+      added = false;
+      pending = pending.filter(relId => {
+        const relationship = relationshipMap.get(relId);
+        const source = relationship && endOf(relationship.sourceId);
+        const target = relationship && endOf(relationship.targetId);
+        if (!source || !target) return true;
+        const connection: ViewConnection = { id: `${view.id}-${relId}`, type: 'Relationship', relationshipRef: relId, source, target };
+        connections.push(connection);
+        connectionByRelationship.set(relId, connection);
+        added = true;
+        return false;
+      });
+    }
+
+    return { nodes, connections };
+  }
+
+  /**
+   * Serialize a diagram node and its nested nodes
+   */
+  private serializeViewNode(parent: XMLBuilder, node: ViewNode, lang: string): void {
+    const attrs: Record<string, string> = {};
+    if (node.elementRef) attrs.elementRef = node.elementRef;
+    attrs.identifier = node.id || `${node.elementRef || 'node'}-${Math.random().toString(36).substr(2, 9)}`;
+    attrs['xsi:type'] = node.type;
+    for (const key of ['x', 'y', 'w', 'h'] as const) {
+      if (node[key] !== undefined) attrs[key] = String(node[key]);
+    }
+
+    const nodeEl = parent.ele('node', attrs);
+    if (node.label !== undefined) {
+      this.addLangString(nodeEl, 'label', node.label, lang);
+    }
+    this.serializeStyle(nodeEl, node.style);
+    for (const child of node.children || []) {
+      this.serializeViewNode(nodeEl, child, lang);
+    }
+  }
+
+  /**
+   * Serialize a diagram connection with its style and bendpoints
+   */
+  private serializeViewConnection(parent: XMLBuilder, connection: ViewConnection, lang: string): void {
+    const attrs: Record<string, string> = {};
+    if (connection.relationshipRef) attrs.relationshipRef = connection.relationshipRef;
+    attrs.identifier = connection.id || `${connection.relationshipRef || 'conn'}-${Math.random().toString(36).substr(2, 9)}`;
+    attrs['xsi:type'] = connection.type;
+    if (connection.source) attrs.source = connection.source;
+    if (connection.target) attrs.target = connection.target;
+
+    const connEl = parent.ele('connection', attrs);
+    if (connection.label !== undefined) {
+      this.addLangString(connEl, 'label', connection.label, lang);
+    }
+    this.serializeStyle(connEl, connection.style);
+    for (const bp of connection.bendpoints || []) {
+      connEl.ele('bendpoint', { x: String(bp.x), y: String(bp.y) });
+    }
+  }
+
+  /**
+   * Serialize a node or connection style
+   */
+  private serializeStyle(parent: XMLBuilder, style?: ViewStyle): void {
+    if (!style) return;
+    const styleEl = parent.ele('style', style.lineWidth !== undefined ? { lineWidth: String(style.lineWidth) } : {});
+    if (style.fillColor) this.serializeColor(styleEl, 'fillColor', style.fillColor);
+    if (style.lineColor) this.serializeColor(styleEl, 'lineColor', style.lineColor);
+    if (style.font) {
+      const fontAttrs: Record<string, string> = {};
+      if (style.font.name !== undefined) fontAttrs.name = style.font.name;
+      if (style.font.size !== undefined) fontAttrs.size = String(style.font.size);
+      if (style.font.style !== undefined) fontAttrs.style = style.font.style;
+      const fontEl = styleEl.ele('font', fontAttrs);
+      if (style.font.color) this.serializeColor(fontEl, 'color', style.font.color);
+    }
+  }
+
+  private serializeColor(parent: XMLBuilder, tagName: string, color: ColorValue): void {
+    const attrs: Record<string, string> = { r: String(color.r), g: String(color.g), b: String(color.b) };
+    if (color.a !== undefined) attrs.a = String(color.a);
+    parent.ele(tagName, attrs);
   }
 
   /**
@@ -255,6 +452,25 @@ export class ArchiMateXMLBuilder {
     el.txt(value);
   }
 
+  /**
+   * Add every language variant of a text. The primary text takes the place of
+   * the first variant; without variants it is written in the default language.
+   */
+  private addLangStrings(parent: XMLBuilder, tagName: string, value: string | undefined, translations: LangStrings | undefined, lang: string): void {
+    const languages = Object.keys(translations || {});
+    if (languages.length === 0) {
+      if (value) this.addLangString(parent, tagName, value, lang);
+      return;
+    }
+    const variants = { ...translations, [languages[0]]: value ?? translations![languages[0]] };
+    for (const [variantLang, text] of Object.entries(variants)) {
+      if (!text) continue;
+      const el = parent.ele(tagName);
+      if (variantLang) el.att('xml:lang', variantLang);
+      el.txt(text);
+    }
+  }
+
 
   /**
    * Generate a model identifier
@@ -0,0 +1,462 @@
+/**
+ * Model Query Parser
+ *
+ * Parser for a small Cypher-like query language over the model:
+ *
+ * ```
+ * MATCH (a:ApplicationComponent)-[:Serving]->(b:BusinessProcess)
+ * WHERE a.properties.Owner = 'Finance'
+ * RETURN a, b ORDER BY b.name LIMIT 10
+ * ```
+ *
+ * - Nodes are elements: `(var:Type|OtherType {name: 'X'})`, all parts optional
+ * - Relationships: `-[var:Type|OtherType]->`, `<-[...]-` or `-[...]-` (either
+ *   direction); `-->`, `<--` and `--` match any relationship
+ * - Several comma-separated patterns are joined on their shared variables
+ * - WHERE: `AND`, `OR`, `NOT`, `=`, `<>`, `<`, `<=`, `>`, `>=`, `CONTAINS`,
+ *   `STARTS WITH`, `ENDS WITH`, `IN [...]`, `=~` (regular expression),
+ *   `IS [NOT] NULL`
+ * - RETURN: variables, properties (`a.name`, `a.properties.Owner`,
+ *   `a.properties['Cost center']`) and `count(*)`/`count([DISTINCT] x)`, with
+ *   `AS` aliases, `DISTINCT`, `ORDER BY ... [ASC|DESC]`, `SKIP` and `LIMIT`
+ *
+ * Keywords are case-insensitive; element and relationship types are not.
+ *
+ * @module model/query-parser
+ */
+
+export type QueryValue = string | number | boolean | null;
+
+export interface NodePattern {
+  variable?: string;
+  labels: string[];
+  properties: Record<string, QueryValue>;
+}
+
+export interface RelationshipPattern {
+  variable?: string;
+  types: string[];
+  direction: 'outgoing' | 'incoming' | 'either';
+}
+
+/**
+ * A chain of nodes joined by relationships; `nodes` has one more entry than `relationships`
+ */
+export interface PathPattern {
+  nodes: NodePattern[];
+  relationships: RelationshipPattern[];
+}
+
+export type ComparisonOperator = '=' | '<>' | '<' | '<=' | '>' | '>=' | 'CONTAINS' | 'STARTS WITH' | 'ENDS WITH' | 'IN' | '=~';
+
+export type Expression =
+  | { kind: 'literal'; value: QueryValue }
+  | { kind: 'list'; items: Expression[] }
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; variable: string; path: string[] }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'logical'; operator: 'AND' | 'OR'; left: Expression; right: Expression }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: Expression; right: Expression }
+  | { kind: 'isNull'; operand: Expression; negated: boolean }
+  | { kind: 'count'; argument?: Expression; distinct: boolean };
+
+export interface ReturnItem {
+  expression: Expression;
+  /** Column name: the `AS` alias, else the expression as written */
+  alias: string;
+}
+
+export interface OrderItem {
+  expression: Expression;
+  descending: boolean;
+}
+
+export interface Query {
+  patterns: PathPattern[];
+  where?: Expression;
+  distinct: boolean;
+  returnItems: ReturnItem[];
+  orderBy: OrderItem[];
+  skip?: number;
+  limit?: number;
+}
+
+/**
+ * A query that cannot be parsed; `position` is the offset in the query text
+ */
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, query: string, position: number) {
+    super(`${message} at position ${position}: ${excerpt(query, position)}`);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+function excerpt(query: string, position: number): string {
+  const start = Math.max(0, position - 20);
+  const text = query.slice(start, position + 20).replace(/\s+/g, ' ');
+  return `"${start > 0 ? '…' : ''}${text}${position + 20 < query.length ? '…' : ''}"`;
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type TokenKind = 'identifier' | 'keyword' | 'string' | 'number' | 'symbol' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  /** Keywords in upper case, everything else as written (strings unescaped) */
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = new Set([
+  'MATCH', 'WHERE', 'RETURN', 'AND', 'OR', 'NOT', 'IS', 'NULL', 'IN', 'CONTAINS', 'STARTS', 'ENDS', 'WITH',
+  'AS', 'ORDER', 'BY', 'ASC', 'ASCENDING', 'DESC', 'DESCENDING', 'SKIP', 'LIMIT', 'DISTINCT', 'TRUE', 'FALSE', 'COUNT'
+]);
+
+const SYMBOLS = ['<>', '<=', '>=', '!=', '=~', '(', ')', '[', ']', '{', '}', ':', ',', '.', '-', '<', '>', '=', '*', '|'];
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const c = query[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const position = i;
+
+    if (/[A-Za-z_]/.test(c)) {
+      while (i < query.length && /[A-Za-z0-9_]/.test(query[i])) i++;
+      const word = query.slice(position, i);
+      const upper = word.toUpperCase();
+      tokens.push(KEYWORDS.has(upper) ? { kind: 'keyword', value: upper, position } : { kind: 'identifier', value: word, position });
+    } else if (c === '`') {
+      const end = query.indexOf('`', i + 1);
+      if (end < 0) throw new QuerySyntaxError('Unterminated quoted name', query, position);
+      tokens.push({ kind: 'identifier', value: query.slice(i + 1, end), position });
+      i = end + 1;
+    } else if (c === '\'' || c === '"') {
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== c) {
+        if (query[i] === '\\' && i + 1 < query.length) i++;
+        value += query[i++];
+      }
+      if (i >= query.length) throw new QuerySyntaxError('Unterminated string', query, position);
+      i++;
+      tokens.push({ kind: 'string', value, position });
+    } else if (/[0-9]/.test(c)) {
+      while (i < query.length && /[0-9]/.test(query[i])) i++;
+      if (query[i] === '.' && /[0-9]/.test(query[i + 1] || '')) {
+        i++;
+        while (i < query.length && /[0-9]/.test(query[i])) i++;
+      }
+      tokens.push({ kind: 'number', value: query.slice(position, i), position });
+    } else {
+      const symbol = SYMBOLS.find(s => query.startsWith(s, i));
+      if (!symbol) throw new QuerySyntaxError(`Unexpected character '${c}'`, query, position);
+      tokens.push({ kind: 'symbol', value: symbol === '!=' ? '<>' : symbol, position });
+      i += symbol.length;
+    }
+  }
+
+  tokens.push({ kind: 'end', value: '', position: query.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parse a query
+ *
+ * @throws QuerySyntaxError when the query is not valid
+ */
+export function parseQuery(query: string): Query {
+  return new QueryParser(query).parse();
+}
+
+class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private query: string) {
+    this.tokens = tokenize(query);
+  }
+
+  parse(): Query {
+    this.expectKeyword('MATCH');
+    const patterns = [this.parsePath()];
+    while (this.acceptSymbol(',')) patterns.push(this.parsePath());
+
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+
+    this.expectKeyword('RETURN');
+    const distinct = this.acceptKeyword('DISTINCT');
+    const returnItems = [this.parseReturnItem()];
+    while (this.acceptSymbol(',')) returnItems.push(this.parseReturnItem());
+
+    const orderBy: OrderItem[] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const expression = this.parseExpression();
+        const descending = this.acceptKeyword('DESC') || this.acceptKeyword('DESCENDING');
+        if (!descending && !this.acceptKeyword('ASC')) this.acceptKeyword('ASCENDING');
+        orderBy.push({ expression, descending });
+      } while (this.acceptSymbol(','));
+    }
+
+    const skip = this.acceptKeyword('SKIP') ? this.parseCount('SKIP') : undefined;
+    const limit = this.acceptKeyword('LIMIT') ? this.parseCount('LIMIT') : undefined;
+
+    if (this.peek().kind !== 'end') this.fail(`Unexpected '${this.peek().value}'`);
+    return { patterns, where, distinct, returnItems, orderBy, skip, limit };
+  }
+
+  // Patterns
+
+  private parsePath(): PathPattern {
+    const nodes = [this.parseNode()];
+    const relationships: RelationshipPattern[] = [];
+    while (this.peekSymbol('-') || (this.peekSymbol('<') && this.peekSymbol('-', 1))) {
+      relationships.push(this.parseRelationship());
+      nodes.push(this.parseNode());
+    }
+    return { nodes, relationships };
+  }
+
+  private parseNode(): NodePattern {
+    this.expectSymbol('(');
+    const variable = this.peek().kind === 'identifier' ? this.next().value : undefined;
+    const labels = this.acceptSymbol(':') ? this.parseTypes() : [];
+    const properties: Record<string, QueryValue> = {};
+    if (this.acceptSymbol('{')) {
+      if (!this.peekSymbol('}')) {
+        do {
+          const key = this.expectName();
+          this.expectSymbol(':');
+          properties[key] = this.parseLiteralValue();
+        } while (this.acceptSymbol(','));
+      }
+      this.expectSymbol('}');
+    }
+    this.expectSymbol(')');
+    return { variable, labels, properties };
+  }
+
+  private parseRelationship(): RelationshipPattern {
+    const incoming = this.acceptSymbol('<');
+    this.expectSymbol('-');
+
+    let variable: string | undefined;
+    let types: string[] = [];
+    if (this.acceptSymbol('[')) {
+      variable = this.peek().kind === 'identifier' ? this.next().value : undefined;
+      if (this.acceptSymbol(':')) types = this.parseTypes();
+      if (this.peekSymbol('*')) this.fail('Variable-length relationships are not supported');
+      this.expectSymbol(']');
+    }
+
+    this.expectSymbol('-');
+    const outgoing = this.acceptSymbol('>');
+    if (incoming && outgoing) this.fail('A relationship cannot point both ways');
+    return { variable, types, direction: outgoing ? 'outgoing' : incoming ? 'incoming' : 'either' };
+  }
+
+  private parseTypes(): string[] {
+    const types = [this.expectName()];
+    while (this.acceptSymbol('|')) {
+      this.acceptSymbol(':');
+      types.push(this.expectName());
+    }
+    return types;
+  }
+
+  // Return items
+
+  private parseReturnItem(): ReturnItem {
+    const start = this.peek().position;
+    const expression = this.parseExpression();
+    const end = this.tokens[this.index].position;
+    const alias = this.acceptKeyword('AS') ? this.expectName() : this.query.slice(start, end).trim();
+    return { expression, alias };
+  }
+
+  private parseCount(clause: string): number {
+    const token = this.next();
+    if (token.kind !== 'number' || !/^\d+$/.test(token.value)) this.fail(`${clause} needs a whole number`, token);
+    return Number(token.value);
+  }
+
+  // Expressions, lowest precedence first
+
+  private parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) left = { kind: 'logical', operator: 'OR', left, right: this.parseAnd() };
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) left = { kind: 'logical', operator: 'AND', left, right: this.parseNot() };
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.acceptKeyword('NOT')) return { kind: 'not', operand: this.parseNot() };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseOperand();
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'isNull', operand: left, negated };
+    }
+
+    let operator: ComparisonOperator | undefined;
+    const token = this.peek();
+    if (token.kind === 'symbol' && ['=', '<>', '<', '<=', '>', '>=', '=~'].includes(token.value)) {
+      operator = this.next().value as ComparisonOperator;
+    } else if (this.acceptKeyword('CONTAINS')) {
+      operator = 'CONTAINS';
+    } else if (this.acceptKeyword('STARTS')) {
+      this.expectKeyword('WITH');
+      operator = 'STARTS WITH';
+    } else if (this.acceptKeyword('ENDS')) {
+      this.expectKeyword('WITH');
+      operator = 'ENDS WITH';
+    } else if (this.acceptKeyword('IN')) {
+      operator = 'IN';
+    }
+
+    return operator ? { kind: 'comparison', operator, left, right: this.parseOperand() } : left;
+  }
+
+  private parseOperand(): Expression {
+    const token = this.peek();
+
+    if (this.acceptSymbol('(')) {
+      const inner = this.parseExpression();
+      this.expectSymbol(')');
+      return inner;
+    }
+    if (this.acceptSymbol('[')) {
+      const items: Expression[] = [];
+      if (!this.peekSymbol(']')) {
+        do {
+          items.push(this.parseOperand());
+        } while (this.acceptSymbol(','));
+      }
+      this.expectSymbol(']');
+      return { kind: 'list', items };
+    }
+    if (this.acceptKeyword('COUNT')) {
+      this.expectSymbol('(');
+      if (this.acceptSymbol('*')) {
+        this.expectSymbol(')');
+        return { kind: 'count', distinct: false };
+      }
+      const distinct = this.acceptKeyword('DISTINCT');
+      const argument = this.parseExpression();
+      this.expectSymbol(')');
+      return { kind: 'count', argument, distinct };
+    }
+    if (token.kind === 'identifier') {
+      const variable = this.next().value;
+      const path: string[] = [];
+      while (this.peekSymbol('.') || this.peekSymbol('[')) {
+        if (this.acceptSymbol('.')) {
+          path.push(this.expectName());
+        } else {
+          this.expectSymbol('[');
+          const key = this.next();
+          if (key.kind !== 'string') this.fail('Expected a quoted property name', key);
+          path.push(key.value);
+          this.expectSymbol(']');
+        }
+      }
+      return path.length > 0 ? { kind: 'property', variable, path } : { kind: 'variable', name: variable };
+    }
+    return { kind: 'literal', value: this.parseLiteralValue() };
+  }
+
+  private parseLiteralValue(): QueryValue {
+    const negative = this.acceptSymbol('-');
+    const token = this.next();
+    if (token.kind === 'number') return negative ? -Number(token.value) : Number(token.value);
+    if (negative) this.fail('Expected a number', token);
+    if (token.kind === 'string') return token.value;
+    if (token.kind === 'keyword' && token.value === 'TRUE') return true;
+    if (token.kind === 'keyword' && token.value === 'FALSE') return false;
+    if (token.kind === 'keyword' && token.value === 'NULL') return null;
+    return this.fail(token.kind === 'end' ? 'Unexpected end of query' : `Unexpected '${token.value}'`, token);
+  }
+
+  // Tokens
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private peekSymbol(symbol: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'symbol' && token.value === symbol;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.peekSymbol(symbol)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) this.fail(`Expected '${symbol}'`);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.kind !== 'keyword' || token.value !== keyword) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) this.fail(`Expected ${keyword}`);
+  }
+
+  /**
+   * A name; keywords are allowed as names where no keyword can appear (e.g. `a.type`, `:Path`)
+   */
+  private expectName(): string {
+    const token = this.next();
+    if (token.kind === 'identifier') return token.value;
+    if (token.kind === 'keyword') return this.query.slice(token.position, token.position + token.value.length);
+    return this.fail('Expected a name', token);
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new QuerySyntaxError(message, this.query, token.position);
+  }
+}
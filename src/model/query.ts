@@ -0,0 +1,529 @@
+/**
+ * Model Queries
+ *
+ * Plans and runs queries of the language parsed by `model/query-parser`
+ * over the in-memory model. The planner:
+ *
+ * - splits WHERE into AND-ed conditions and applies each as soon as the
+ *   variables it uses are bound; conditions on a single element are applied
+ *   while choosing the candidates for that element
+ * - starts each pattern at the element with the fewest candidates and
+ *   expands along relationships from there, so selective conditions anywhere
+ *   in a pattern prune the search
+ * - joins patterns on shared variables, starting with the most selective one
+ *
+ * As in Cypher, a relationship is matched at most once per result row.
+ *
+ * Element and relationship fields are `id`, `name`, `type`, `documentation`
+ * and `properties.<name>` (by property definition name); elements also have
+ * `layer`. Property values are text; they compare as numbers when compared
+ * with a number.
+ *
+ * @module model/query
+ */
+
+import { ModelData, ElementObject, RelationshipObject } from './types';
+import { getElementLayer } from './impact';
+import { parseQuery, Query, Expression, NodePattern, RelationshipPattern, QueryValue } from './query-parser';
+
+export { QuerySyntaxError } from './query-parser';
+
+/** Most partial matches a query may build before it is stopped */
+export const MAX_INTERMEDIATE_ROWS = 100000;
+
+export type ResultValue = QueryValue | { id: string; name: string; type?: string };
+
+export interface QueryResult {
+  columns: string[];
+  rows: ResultValue[][];
+  /** Steps of the plan, in execution order */
+  plan: string[];
+}
+
+/**
+ * Parse, plan and run a query
+ *
+ * @throws QuerySyntaxError when the query is not valid
+ */
+export function runQuery(model: ModelData, text: string): QueryResult {
+  const query = parseQuery(text);
+  const context = new QueryContext(model);
+  const plan = planQuery(query, context);
+  const bindings = executePlan(plan, context);
+  const { columns, rows } = project(query, bindings, context);
+  return { columns, rows, plan: plan.map(describeStep) };
+}
+
+// ============================================================================
+// Model access
+// ============================================================================
+
+type Bound = { kind: 'element'; value: ElementObject } | { kind: 'relationship'; value: RelationshipObject };
+type Binding = Map<string, Bound>;
+
+class QueryContext {
+  readonly elements: ElementObject[];
+  private outgoing = new Map<string, RelationshipObject[]>();
+  private incoming = new Map<string, RelationshipObject[]>();
+  private propertyNames: Map<string, string>;
+
+  constructor(model: ModelData) {
+    this.elements = model.elements;
+    const ids = new Set(model.elements.map(e => e.id));
+    for (const r of model.relationships) {
+      if (!ids.has(r.sourceId) || !ids.has(r.targetId)) continue;
+      push(this.outgoing, r.sourceId, r);
+      push(this.incoming, r.targetId, r);
+    }
+    this.propertyNames = new Map((model.propertyDefinitions || []).map(pd => [pd.identifier, pd.name || pd.identifier]));
+  }
+
+  relationshipsOf(elementId: string, direction: 'outgoing' | 'incoming'): RelationshipObject[] {
+    return (direction === 'outgoing' ? this.outgoing : this.incoming).get(elementId) || [];
+  }
+
+  field(bound: Bound, path: string[]): QueryValue {
+    const concept = bound.value;
+    const [field, ...rest] = path;
+    if (field === 'properties') {
+      if (rest.length !== 1) return null;
+      for (const [key, value] of Object.entries(concept.properties || {})) {
+        if ((this.propertyNames.get(key) || key) === rest[0]) return value;
+      }
+      return null;
+    }
+    if (rest.length > 0) return null;
+    switch (field) {
+      case 'id': return concept.id;
+      case 'name': return concept.name ?? null;
+      case 'type': return concept.type ?? null;
+      case 'documentation': return concept.documentation ?? null;
+      case 'layer': return bound.kind === 'element' ? getElementLayer(concept.type) : null;
+      default: return null;
+    }
+  }
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+type PlanStep =
+  | { kind: 'scan'; variable: string; candidates: ElementObject[]; conditions: Expression[] }
+  | { kind: 'expand'; from: string; relationship: RelationshipPattern & { variable: string }; direction: 'outgoing' | 'incoming' | 'either'; to: string; candidates: Set<string> }
+  | { kind: 'filter'; condition: Expression };
+
+interface PlannedNode {
+  variable: string;
+  candidates: ElementObject[];
+  conditions: Expression[];
+}
+
+function planQuery(query: Query, context: QueryContext): PlanStep[] {
+  // Name anonymous nodes and relationships
+  let anonymous = 0;
+  const patterns = query.patterns.map(p => ({
+    nodes: p.nodes.map(n => ({ ...n, variable: n.variable || `_n${anonymous++}` })),
+    relationships: p.relationships.map(r => ({ ...r, variable: r.variable || `_r${anonymous++}` }))
+  }));
+
+  const nodeVariables = new Set(patterns.flatMap(p => p.nodes.map(n => n.variable)));
+  const relationshipVariables = new Set(patterns.flatMap(p => p.relationships.map(r => r.variable)));
+  for (const variable of relationshipVariables) {
+    if (nodeVariables.has(variable)) throw new Error(`Variable ${variable} is used for both an element and a relationship`);
+  }
+  // ORDER BY may also name returned columns by their alias
+  const aliases = new Set(query.returnItems.map(i => i.alias));
+  const used = [
+    ...referencedVariables(query.where),
+    ...query.returnItems.flatMap(i => [...referencedVariables(i.expression)]),
+    ...query.orderBy.flatMap(o => [...referencedVariables(o.expression)].filter(v => !aliases.has(v)))
+  ];
+  for (const variable of used) {
+    if (!nodeVariables.has(variable) && !relationshipVariables.has(variable)) throw new Error(`Variable ${variable} is not defined in MATCH`);
+  }
+
+  // Conditions on one element narrow its candidates; the others are filters
+  const conditions = splitConjunction(query.where);
+  const nodeConditions = new Map<string, Expression[]>();
+  const filters: Expression[] = [];
+  for (const condition of conditions) {
+    const variables = referencedVariables(condition);
+    if (variables.size === 1 && nodeVariables.has([...variables][0]) && !containsCount(condition)) {
+      push(nodeConditions, [...variables][0], condition);
+    } else {
+      filters.push(condition);
+    }
+  }
+
+  // Candidates per element variable, combining all its occurrences
+  const nodes = new Map<string, PlannedNode>();
+  for (const variable of nodeVariables) {
+    const occurrences = patterns.flatMap(p => p.nodes).filter(n => n.variable === variable);
+    const own = nodeConditions.get(variable) || [];
+    const candidates = context.elements.filter(e =>
+      occurrences.every(n => matchesNode(e, n, context))
+      && own.every(c => evaluate(c, new Map([[variable, { kind: 'element', value: e }]]), context) === true));
+    nodes.set(variable, { variable, candidates, conditions: own });
+  }
+
+  const steps: PlanStep[] = [];
+  const bound = new Set<string>();
+  const bind = (variable: string) => {
+    bound.add(variable);
+    for (let i = filters.length - 1; i >= 0; i--) {
+      if ([...referencedVariables(filters[i])].every(v => bound.has(v))) {
+        steps.push({ kind: 'filter', condition: filters[i] });
+        filters.splice(i, 1);
+      }
+    }
+  };
+
+  const remaining = [...patterns];
+  while (remaining.length > 0) {
+    // Prefer a pattern joined to what is bound, then the one with the most selective element
+    const size = (p: typeof patterns[number]) => Math.min(...p.nodes.map(n => bound.has(n.variable) ? 0 : nodes.get(n.variable)!.candidates.length));
+    remaining.sort((a, b) => size(a) - size(b));
+    const pattern = remaining.shift()!;
+
+    let start = 0;
+    pattern.nodes.forEach((n, i) => {
+      const current = pattern.nodes[start];
+      const rank = (v: string) => bound.has(v) ? -1 : nodes.get(v)!.candidates.length;
+      if (rank(n.variable) < rank(current.variable)) start = i;
+    });
+
+    const startNode = nodes.get(pattern.nodes[start].variable)!;
+    if (!bound.has(startNode.variable)) {
+      steps.push({ kind: 'scan', variable: startNode.variable, candidates: startNode.candidates, conditions: startNode.conditions });
+      bind(startNode.variable);
+    }
+
+    // Expand to the right of the start, then to the left
+    const expand = (fromIndex: number, toIndex: number, relationship: typeof pattern.relationships[number], forward: boolean) => {
+      const to = nodes.get(pattern.nodes[toIndex].variable)!;
+      const direction = relationship.direction === 'either' ? 'either'
+        : forward ? relationship.direction
+        : relationship.direction === 'outgoing' ? 'incoming' : 'outgoing';
+      steps.push({
+        kind: 'expand',
+        from: pattern.nodes[fromIndex].variable,
+        relationship,
+        direction,
+        to: to.variable,
+        candidates: new Set(to.candidates.map(e => e.id))
+      });
+      bind(relationship.variable);
+      bind(to.variable);
+    };
+    for (let i = start; i < pattern.relationships.length; i++) expand(i, i + 1, pattern.relationships[i], true);
+    for (let i = start - 1; i >= 0; i--) expand(i + 1, i, pattern.relationships[i], false);
+  }
+
+  return steps;
+}
+
+function matchesNode(element: ElementObject, node: NodePattern, context: QueryContext): boolean {
+  if (node.labels.length > 0 && !node.labels.some(l => l === 'Element' || l === element.type)) return false;
+  const bound: Bound = { kind: 'element', value: element };
+  return Object.entries(node.properties).every(([field, value]) => equal(context.field(bound, field.split('.')), value));
+}
+
+function describeStep(step: PlanStep): string {
+  switch (step.kind) {
+    case 'scan':
+      return `Scan ${step.variable}: ${step.candidates.length} candidate element(s)${step.conditions.length ? `, ${step.conditions.length} condition(s) applied` : ''}`;
+    case 'expand': {
+      const types = step.relationship.types.length ? `:${step.relationship.types.join('|')}` : '';
+      const arrow = step.direction === 'outgoing' ? `-[${step.relationship.variable}${types}]->`
+        : step.direction === 'incoming' ? `<-[${step.relationship.variable}${types}]-`
+        : `-[${step.relationship.variable}${types}]-`;
+      return `Expand (${step.from})${arrow}(${step.to}): ${step.candidates.size} candidate element(s)`;
+    }
+    case 'filter':
+      return `Filter on ${[...referencedVariables(step.condition)].join(', ')}`;
+  }
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+function executePlan(plan: PlanStep[], context: QueryContext): Binding[] {
+  let rows: Binding[] = [new Map()];
+
+  for (const step of plan) {
+    const next: Binding[] = [];
+    for (const row of rows) {
+      if (step.kind === 'scan') {
+        for (const element of step.candidates) {
+          next.push(new Map(row).set(step.variable, { kind: 'element', value: element }));
+        }
+      } else if (step.kind === 'filter') {
+        if (evaluate(step.condition, row, context) === true) next.push(row);
+      } else {
+        const from = row.get(step.from)!.value as ElementObject;
+        const used = new Set([...row.values()].filter(b => b.kind === 'relationship').map(b => b.value.id));
+        const existing = row.get(step.to);
+        const steps = step.direction === 'either'
+          ? [...context.relationshipsOf(from.id, 'outgoing').map(r => [r, r.targetId] as const), ...context.relationshipsOf(from.id, 'incoming').map(r => [r, r.sourceId] as const)]
+          : context.relationshipsOf(from.id, step.direction).map(r => [r, step.direction === 'outgoing' ? r.targetId : r.sourceId] as const);
+
+        for (const [relationship, otherId] of steps) {
+          if (used.has(relationship.id)) continue;
+          if (step.relationship.types.length > 0 && !step.relationship.types.includes(relationship.type || '')) continue;
+          if (!step.candidates.has(otherId) || (existing && existing.value.id !== otherId)) continue;
+          const boundRelationship = row.get(step.relationship.variable);
+          if (boundRelationship && boundRelationship.value.id !== relationship.id) continue;
+
+          const other = context.elements.find(e => e.id === otherId)!;
+          next.push(new Map(row)
+            .set(step.relationship.variable, { kind: 'relationship', value: relationship })
+            .set(step.to, { kind: 'element', value: other }));
+        }
+      }
+      if (next.length > MAX_INTERMEDIATE_ROWS) {
+        throw new Error(`The query matches more than ${MAX_INTERMEDIATE_ROWS} combinations; add conditions to narrow it down`);
+      }
+    }
+    rows = next;
+  }
+  return rows;
+}
+
+/**
+ * Turn the matches into result rows: group for count(), then DISTINCT, ORDER BY, SKIP and LIMIT
+ */
+function project(query: Query, bindings: Binding[], context: QueryContext): { columns: string[]; rows: ResultValue[][] } {
+  const columns = query.returnItems.map(i => i.alias);
+  const aggregating = query.returnItems.some(i => containsCount(i.expression));
+
+  let rows: Array<{ values: ResultValue[]; binding?: Binding }>;
+  if (aggregating) {
+    const groups = new Map<string, { values: ResultValue[]; members: Binding[] }>();
+    for (const binding of bindings) {
+      const keys = query.returnItems.map(i => containsCount(i.expression) ? null : value(i.expression, binding, context));
+      const key = JSON.stringify(keys);
+      const group = groups.get(key);
+      if (group) group.members.push(binding);
+      else groups.set(key, { values: keys, members: [binding] });
+    }
+    // Without grouping columns, counting no matches gives one row of zeroes
+    if (groups.size === 0 && query.returnItems.every(i => containsCount(i.expression))) {
+      groups.set('', { values: query.returnItems.map(() => null), members: [] });
+    }
+    rows = [...groups.values()].map(group => ({
+      values: query.returnItems.map((item, i) => item.expression.kind === 'count' ? count(item.expression, group.members, context) : group.values[i])
+    }));
+  } else {
+    rows = bindings.map(binding => ({ values: query.returnItems.map(i => value(i.expression, binding, context)), binding }));
+  }
+
+  if (query.distinct) {
+    const seen = new Set<string>();
+    rows = rows.filter(row => {
+      const key = JSON.stringify(row.values);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (query.orderBy.length > 0) {
+    const keyOf = (row: typeof rows[number], expression: Expression): ResultValue => {
+      const column = query.returnItems.findIndex(i => i.alias === expressionText(expression) || sameExpression(i.expression, expression));
+      if (column >= 0) return row.values[column];
+      if (!row.binding) throw new Error('ORDER BY can only use returned columns when counting');
+      return value(expression, row.binding, context);
+    };
+    rows.sort((a, b) => {
+      for (const order of query.orderBy) {
+        const result = compareForSort(keyOf(a, order.expression), keyOf(b, order.expression));
+        if (result !== 0) return order.descending ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  const start = query.skip || 0;
+  const end = query.limit !== undefined ? start + query.limit : undefined;
+  return { columns, rows: rows.slice(start, end).map(row => row.values) };
+}
+
+function count(expression: Extract<Expression, { kind: 'count' }>, members: Binding[], context: QueryContext): number {
+  if (!expression.argument) return members.length;
+  const values = members.map(m => value(expression.argument!, m, context)).filter(v => v !== null);
+  return expression.distinct ? new Set(values.map(v => JSON.stringify(v))).size : values.length;
+}
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+/**
+ * Value of a returned expression; whole elements and relationships become summaries
+ */
+function value(expression: Expression, binding: Binding, context: QueryContext): ResultValue {
+  if (expression.kind === 'variable') {
+    const bound = binding.get(expression.name)!;
+    return { id: bound.value.id, name: bound.value.name || '', type: bound.value.type };
+  }
+  const result = evaluate(expression, binding, context);
+  return Array.isArray(result) ? JSON.stringify(result) : result;
+}
+
+type Evaluated = QueryValue | QueryValue[];
+
+/**
+ * Evaluate an expression; comparisons with null give null, as in Cypher
+ */
+function evaluate(expression: Expression, binding: Binding, context: QueryContext): Evaluated {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'list':
+      return expression.items.map(i => evaluate(i, binding, context) as QueryValue);
+    case 'variable':
+      return binding.get(expression.name)?.value.id ?? null;
+    case 'property': {
+      const bound = binding.get(expression.variable);
+      return bound ? context.field(bound, expression.path) : null;
+    }
+    case 'not': {
+      const operand = evaluate(expression.operand, binding, context);
+      return operand === null ? null : !truthy(operand);
+    }
+    case 'logical': {
+      const left = evaluate(expression.left, binding, context);
+      const right = evaluate(expression.right, binding, context);
+      if (expression.operator === 'AND') {
+        if (left === false || right === false) return false;
+        return left === null || right === null ? null : truthy(left) && truthy(right);
+      }
+      if (left === true || right === true) return true;
+      return left === null || right === null ? null : truthy(left) || truthy(right);
+    }
+    case 'isNull': {
+      const isNull = evaluate(expression.operand, binding, context) === null;
+      return expression.negated ? !isNull : isNull;
+    }
+    case 'count':
+      throw new Error('count() can only be used in RETURN');
+    case 'comparison':
+      return compare(expression.operator, evaluate(expression.left, binding, context), evaluate(expression.right, binding, context));
+  }
+}
+
+function compare(operator: Extract<Expression, { kind: 'comparison' }>['operator'], left: Evaluated, right: Evaluated): QueryValue {
+  if (left === null || right === null) return null;
+
+  if (operator === 'IN') {
+    if (!Array.isArray(right)) throw new Error('IN needs a list, e.g. a.type IN [\'Node\', \'Device\']');
+    return right.some(item => equal(left as QueryValue, item));
+  }
+  if (Array.isArray(left) || Array.isArray(right)) return null;
+
+  switch (operator) {
+    case '=': return equal(left, right);
+    case '<>': return !equal(left, right);
+    case 'CONTAINS': return String(left).includes(String(right));
+    case 'STARTS WITH': return String(left).startsWith(String(right));
+    case 'ENDS WITH': return String(left).endsWith(String(right));
+    case '=~': {
+      // (?i) at the start makes the expression case-insensitive, as in Cypher
+      const pattern = String(right);
+      const insensitive = pattern.startsWith('(?i)');
+      return new RegExp(`^(?:${insensitive ? pattern.slice(4) : pattern})$`, insensitive ? 'i' : '').test(String(left));
+    }
+    default: {
+      const [a, b] = comparable(left, right);
+      if (a === undefined) return null;
+      return operator === '<' ? a < b! : operator === '<=' ? a <= b! : operator === '>' ? a > b! : a >= b!;
+    }
+  }
+}
+
+function equal(left: QueryValue, right: QueryValue): boolean {
+  const [a, b] = comparable(left, right);
+  return a !== undefined && a === b;
+}
+
+/**
+ * Both values as numbers when one is a number and the other numeric text, else both as they are
+ */
+function comparable(left: QueryValue, right: QueryValue): [string | number | boolean | undefined, string | number | boolean | undefined] {
+  if (left === null || right === null) return [undefined, undefined];
+  if (typeof left === 'number' || typeof right === 'number') {
+    const a = Number(left);
+    const b = Number(right);
+    return isNaN(a) || isNaN(b) ? [undefined, undefined] : [a, b];
+  }
+  return [left, right];
+}
+
+function compareForSort(a: ResultValue, b: ResultValue): number {
+  // Nulls last
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  const x = typeof a === 'object' ? a.name : a;
+  const y = typeof b === 'object' ? b.name : b;
+  if (typeof x === 'number' && typeof y === 'number') return x - y;
+  return String(x).localeCompare(String(y));
+}
+
+function truthy(value: Evaluated): boolean {
+  return value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function splitConjunction(expression: Expression | undefined): Expression[] {
+  if (!expression) return [];
+  if (expression.kind === 'logical' && expression.operator === 'AND') {
+    return [...splitConjunction(expression.left), ...splitConjunction(expression.right)];
+  }
+  return [expression];
+}
+
+function referencedVariables(expression: Expression | undefined, into: Set<string> = new Set()): Set<string> {
+  if (!expression) return into;
+  switch (expression.kind) {
+    case 'variable': into.add(expression.name); break;
+    case 'property': into.add(expression.variable); break;
+    case 'list': expression.items.forEach(i => referencedVariables(i, into)); break;
+    case 'not': referencedVariables(expression.operand, into); break;
+    case 'isNull': referencedVariables(expression.operand, into); break;
+    case 'count': referencedVariables(expression.argument, into); break;
+    case 'logical':
+    case 'comparison':
+      referencedVariables(expression.left, into);
+      referencedVariables(expression.right, into);
+      break;
+  }
+  return into;
+}
+
+function containsCount(expression: Expression): boolean {
+  switch (expression.kind) {
+    case 'count': return true;
+    case 'list': return expression.items.some(containsCount);
+    case 'not':
+    case 'isNull': return containsCount(expression.operand);
+    case 'logical':
+    case 'comparison': return containsCount(expression.left) || containsCount(expression.right);
+    default: return false;
+  }
+}
+
+function sameExpression(a: Expression, b: Expression): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function expressionText(expression: Expression): string | undefined {
+  if (expression.kind === 'variable') return expression.name;
+  if (expression.kind === 'property') return `${expression.variable}.${expression.path.join('.')}`;
+  return undefined;
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
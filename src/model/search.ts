@@ -0,0 +1,267 @@
+/**
+ * Model Search
+ *
+ * Ranked full-text search over elements and views. Names (in every
+ * language), documentation and property values are split into words,
+ * which are lowercased, stripped of accents and stemmed ("processes" and
+ * "processing" both index as "process") into an inverted index.
+ *
+ * A query word matches an indexed word when it is the same (after
+ * stemming), a prefix of it, contained in it (three letters or more) or
+ * within a small edit distance of it: one edit for words of four or five
+ * letters, two for longer words, so "custmer" finds "customer".
+ *
+ * Each query word counts with the best of its matches in a concept:
+ * match quality × field weight (name above properties above documentation)
+ * × rarity of the word in the model. Concepts matching only some of the
+ * query words rank below those matching all of them.
+ *
+ * @module model/search
+ */
+
+import { ModelData, ElementObject, ViewObject } from './types';
+import { allTexts } from './languages';
+
+export type SearchField = 'name' | 'documentation' | 'properties';
+
+export interface SearchMatch {
+  field: SearchField;
+  /** Property name, for property matches */
+  key?: string;
+  /** The matched text with the matching words in bold */
+  highlight: string;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  matches: SearchMatch[];
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { name: 3, properties: 1.5, documentation: 1 };
+
+const MATCH_QUALITY = { exact: 1, prefix: 0.8, substring: 0.6, oneEdit: 0.7, twoEdits: 0.5 };
+
+/** Longest documentation excerpt shown in a highlight */
+const EXCERPT_LENGTH = 160;
+
+interface FieldText {
+  field: SearchField;
+  key?: string;
+  text: string;
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+}
+
+/**
+ * Inverted index over the concepts of one kind (elements or views)
+ */
+class ConceptIndex<T extends ElementObject | ViewObject> {
+  private texts: FieldText[][] = [];
+  private postings = new Map<string, Posting[]>();
+
+  constructor(readonly items: T[], propertyNames: Map<string, string>) {
+    items.forEach((item, doc) => {
+      const texts: FieldText[] = [
+        ...allTexts(item, 'name').map(text => ({ field: 'name' as const, text })),
+        ...allTexts(item, 'documentation').map(text => ({ field: 'documentation' as const, text })),
+        ...Object.entries(item.properties || {}).map(([key, value]) => ({
+          field: 'properties' as const,
+          key: propertyNames.get(key) || key,
+          text: String(value ?? '')
+        }))
+      ];
+      this.texts.push(texts);
+      for (const { field, text } of texts) {
+        for (const { term } of tokenize(text)) {
+          const list = this.postings.get(term);
+          if (!list) this.postings.set(term, [{ doc, field }]);
+          else if (!list.some(p => p.doc === doc && p.field === field)) list.push({ doc, field });
+        }
+      }
+    });
+  }
+
+  search(query: string): SearchHit<T>[] {
+    const queryTerms = Array.from(new Set(tokenize(query).map(t => t.term)));
+    if (queryTerms.length === 0) return [];
+
+    const scores = new Map<number, { total: number; matched: number; terms: Set<string> }>();
+    for (const queryTerm of queryTerms) {
+      // Best score of this query word per concept
+      const best = new Map<number, number>();
+      for (const [term, quality] of this.matchingTerms(queryTerm)) {
+        const postings = this.postings.get(term)!;
+        const rarity = Math.log(1 + this.items.length / new Set(postings.map(p => p.doc)).size);
+        for (const posting of postings) {
+          const score = quality * FIELD_WEIGHTS[posting.field] * rarity;
+          if (score > (best.get(posting.doc) || 0)) best.set(posting.doc, score);
+          let entry = scores.get(posting.doc);
+          if (!entry) scores.set(posting.doc, entry = { total: 0, matched: 0, terms: new Set() });
+          entry.terms.add(term);
+        }
+      }
+      for (const [doc, score] of best) {
+        const entry = scores.get(doc)!;
+        entry.total += score;
+        entry.matched++;
+      }
+    }
+
+    const ranked = [...scores].map(([doc, { total, matched, terms }]) => {
+      const coverage = matched / queryTerms.length;
+      return { doc, terms, score: Math.round(total * coverage * coverage * 100) / 100 };
+    });
+    // Ties keep model order
+    ranked.sort((a, b) => b.score - a.score || a.doc - b.doc);
+    return ranked.map(({ doc, terms, score }) => ({ item: this.items[doc], score, matches: this.highlight(doc, terms) }));
+  }
+
+  /**
+   * Indexed words matching a query word, with the quality of each match
+   */
+  private matchingTerms(queryTerm: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    const maxEdits = queryTerm.length >= 6 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+    for (const term of this.postings.keys()) {
+      let quality = 0;
+      if (term === queryTerm) quality = MATCH_QUALITY.exact;
+      else if (term.startsWith(queryTerm)) quality = MATCH_QUALITY.prefix;
+      else if (queryTerm.length >= 3 && term.includes(queryTerm)) quality = MATCH_QUALITY.substring;
+      else if (maxEdits > 0 && Math.abs(term.length - queryTerm.length) <= maxEdits) {
+        // editDistance answers maxEdits + 1 for words that are too far apart
+        const distance = editDistance(queryTerm, term, maxEdits);
+        if (distance > maxEdits) quality = 0;
+        else if (distance === 1) quality = MATCH_QUALITY.oneEdit;
+        else if (distance === 2) quality = MATCH_QUALITY.twoEdits;
+      }
+      if (quality > 0) matches.set(term, quality);
+    }
+    return matches;
+  }
+
+  private highlight(doc: number, terms: Set<string>): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+    for (const { field, key, text } of this.texts[doc]) {
+      const tokens = tokenize(text).filter(t => terms.has(t.term));
+      if (tokens.length === 0) continue;
+
+      let start = 0;
+      let end = text.length;
+      if (field === 'documentation' && text.length > EXCERPT_LENGTH) {
+        start = Math.max(0, tokens[0].start - EXCERPT_LENGTH / 4);
+        end = Math.min(text.length, start + EXCERPT_LENGTH);
+      }
+      let highlight = '';
+      let position = start;
+      for (const token of tokens.filter(t => t.start >= start && t.end <= end)) {
+        highlight += text.slice(position, token.start) + `**${text.slice(token.start, token.end)}**`;
+        position = token.end;
+      }
+      highlight += text.slice(position, end);
+      highlight = (start > 0 ? '…' : '') + highlight.replace(/\s+/g, ' ').trim() + (end < text.length ? '…' : '');
+      matches.push(key !== undefined ? { field, key, highlight } : { field, highlight });
+    }
+    return matches;
+  }
+}
+
+/**
+ * Search index over the elements and views of a model. Build a new index
+ * after the model changes; the index does not follow changes itself.
+ */
+export class SearchIndex {
+  private elements: ConceptIndex<ElementObject>;
+  private views: ConceptIndex<ViewObject>;
+
+  constructor(model: ModelData) {
+    const propertyNames = new Map((model.propertyDefinitions || []).map(pd => [pd.identifier, pd.name || pd.identifier]));
+    this.elements = new ConceptIndex(model.elements || [], propertyNames);
+    this.views = new ConceptIndex(model.views || [], propertyNames);
+  }
+
+  /**
+   * Elements matching the query, most relevant first
+   */
+  searchElements(query: string): SearchHit<ElementObject>[] {
+    return this.elements.search(query);
+  }
+
+  /**
+   * Views matching the query, most relevant first
+   */
+  searchViews(query: string): SearchHit<ViewObject>[] {
+    return this.views.search(query);
+  }
+}
+
+// ============================================================================
+// Text processing
+// ============================================================================
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into stemmed, lowercase words without accents, with their positions in the text
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    tokens.push({ term: stem(word), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Strip common English inflections, e.g. "services" → "servic", "serving" → "serv"
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  const rules: Array<[RegExp, string]> = [
+    [/sses$/, 'ss'],
+    [/ies$/, 'y'],
+    [/(x|ch|sh)es$/, '$1'],
+    [/(ss|us)$/, '$1'],
+    [/ing$/, ''],
+    [/ed$/, ''],
+    [/s$/, '']
+  ];
+  let stemmed = word;
+  const rule = rules.find(([suffix]) => suffix.test(word));
+  if (rule) stemmed = word.replace(rule[0], rule[1]);
+  if (stemmed.endsWith('e')) stemmed = stemmed.slice(0, -1);
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+/**
+ * Edit distance with transpositions, or maxDistance + 1 when it exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1);
+      }
+      next.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousRow = row;
+    row = next;
+  }
+  return Math.min(row[b.length], maxDistance + 1);
+}
@@ -0,0 +1,299 @@
+/**
+ * Semantic Search
+ *
+ * Finds elements and views by meaning rather than by words: "which
+ * components handle payments" finds "Billing Service" even though no word
+ * matches. Each concept's type, name, documentation and property values are
+ * embedded as a vector by a small sentence-embedding model that runs
+ * locally on the CPU; a query matches the concepts whose vectors are
+ * closest to its own.
+ *
+ * The embedding model is loaded from a local directory through the optional
+ * `@huggingface/transformers` package, with remote downloads disabled, so
+ * searching makes no network calls.
+ *
+ * Vectors are stored next to the model file (`model.xml` →
+ * `model.embeddings.json`) together with a hash of the text they were
+ * computed from. Updating the index only embeds concepts whose text changed
+ * and drops those that were removed.
+ *
+ * Hybrid ranking combines the cosine similarity with the keyword score of
+ * `model/search`, scaled to the best keyword match.
+ *
+ * @module model/semantic
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { ModelData, ElementObject, ViewObject } from './types';
+import { allTexts } from './languages';
+import { SearchIndex } from './search';
+
+export type SemanticKind = 'element' | 'view';
+
+/**
+ * Turns texts into vectors of the same length; vectors are compared by cosine similarity
+ */
+export interface Embedder {
+  /** Name of the embedding model; stored vectors of another model are discarded */
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SemanticHit {
+  id: string;
+  kind: SemanticKind;
+  name: string;
+  type?: string;
+  /** Combined score between 0 and 1 */
+  score: number;
+  /** Cosine similarity of the query and the concept */
+  similarity: number;
+  /** Keyword score relative to the best keyword match, between 0 and 1 */
+  keyword: number;
+}
+
+export interface SemanticSearchOptions {
+  kinds?: SemanticKind[];
+  /** Weight of the similarity against the keyword score, from 0 (keywords only) to 1 (similarity only); default 0.7 */
+  semanticWeight?: number;
+  /** Lowest similarity for a concept without keyword match (default: 0.2) */
+  minSimilarity?: number;
+  limit?: number;
+}
+
+export interface SemanticUpdate {
+  embedded: number;
+  removed: number;
+  unchanged: number;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+export const DEFAULT_SEMANTIC_WEIGHT = 0.7;
+export const DEFAULT_MIN_SIMILARITY = 0.2;
+
+/** Texts embedded per call of the embedding model */
+const EMBED_BATCH_SIZE = 32;
+/** Longest text embedded per concept; the models read about 256 words */
+const MAX_TEXT_LENGTH = 2000;
+
+// Not a static import: the package is optional and loaded on first use
+const TRANSFORMERS_PACKAGE: string = '@huggingface/transformers';
+
+/**
+ * Load a sentence-embedding model from a local directory. The directory holds
+ * one folder per model, e.g. `models/Xenova/all-MiniLM-L6-v2/` with the ONNX
+ * weights and tokenizer files.
+ *
+ * @throws Error when the optional `@huggingface/transformers` package is not installed or the model is missing
+ */
+export async function createLocalEmbedder(modelDirectory: string, model: string = DEFAULT_EMBEDDING_MODEL): Promise<Embedder> {
+  let transformers: any;
+  try {
+    transformers = await import(TRANSFORMERS_PACKAGE);
+  } catch (err) {
+    throw new Error(`Semantic search needs the optional ${TRANSFORMERS_PACKAGE} package (npm install ${TRANSFORMERS_PACKAGE})`);
+  }
+
+  transformers.env.allowRemoteModels = false;
+  transformers.env.allowLocalModels = true;
+  transformers.env.localModelPath = modelDirectory;
+
+  let extractor: any;
+  try {
+    extractor = await transformers.pipeline('feature-extraction', model, { device: 'cpu' });
+  } catch (err) {
+    throw new Error(`Embedding model ${model} not found in ${modelDirectory}: ${(err as Error)?.message || String(err)}`);
+  }
+
+  return {
+    model,
+    async embed(texts: string[]): Promise<number[][]> {
+      const output = await extractor(texts, { pooling: 'mean', normalize: true });
+      return output.tolist();
+    }
+  };
+}
+
+/**
+ * Path of the vector file for a model file
+ */
+export function embeddingsPath(modelPath: string): string {
+  return modelPath.replace(/\.(xml|archimate)$/i, '') + '.embeddings.json';
+}
+
+/**
+ * The text embedded for a concept: its type, names in every language, documentation and property values
+ */
+export function conceptText(concept: ElementObject | ViewObject, kind: SemanticKind): string {
+  const type = kind === 'view' ? 'View' : concept.type || 'Element';
+  const parts = [
+    `${splitWords(type)}: ${allTexts(concept, 'name').join(' / ')}`,
+    ...allTexts(concept, 'documentation'),
+    ...Object.values(concept.properties || {}).map(v => String(v ?? ''))
+  ];
+  return parts.filter(p => p.trim()).join('\n').slice(0, MAX_TEXT_LENGTH);
+}
+
+interface StoredVector {
+  kind: SemanticKind;
+  hash: string;
+  /** Float32 values, base64-encoded */
+  vector: string;
+}
+
+interface StoredIndex {
+  model: string;
+  vectors: Record<string, StoredVector>;
+}
+
+interface IndexedConcept {
+  kind: SemanticKind;
+  name: string;
+  type?: string;
+  hash: string;
+  vector: Float32Array;
+}
+
+/**
+ * Vectors of the elements and views of one model file
+ */
+export class SemanticIndex {
+  private concepts = new Map<string, IndexedConcept>();
+
+  private constructor(private embedder: Embedder, readonly path: string) {}
+
+  /**
+   * Open the vector file of a model, or start an empty index when there is
+   * none or it was built with another embedding model
+   */
+  static open(embedder: Embedder, path: string): SemanticIndex {
+    const index = new SemanticIndex(embedder, path);
+    if (!existsSync(path)) return index;
+
+    const stored = JSON.parse(readFileSync(path, 'utf8')) as StoredIndex;
+    if (stored.model !== embedder.model) return index;
+    for (const [id, entry] of Object.entries(stored.vectors || {})) {
+      const bytes = Buffer.from(entry.vector, 'base64');
+      const vector = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+      index.concepts.set(id, { kind: entry.kind, name: '', hash: entry.hash, vector });
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.concepts.size;
+  }
+
+  /**
+   * Bring the vectors up to date with the model, embedding only concepts whose text changed
+   */
+  async update(model: ModelData): Promise<SemanticUpdate> {
+    const current = [
+      ...(model.elements || []).map(concept => ({ concept, kind: 'element' as const })),
+      ...(model.views || []).map(concept => ({ concept, kind: 'view' as const }))
+    ];
+
+    const pending: Array<{ id: string; text: string; entry: Omit<IndexedConcept, 'vector'> }> = [];
+    let unchanged = 0;
+    for (const { concept, kind } of current) {
+      const text = conceptText(concept, kind);
+      const hash = createHash('sha1').update(`${this.embedder.model}\n${text}`).digest('hex');
+      const entry = { kind, name: concept.name || concept.id, type: kind === 'element' ? concept.type : undefined, hash };
+      const existing = this.concepts.get(concept.id);
+      if (existing && existing.hash === hash) {
+        Object.assign(existing, entry);
+        unchanged++;
+      } else {
+        pending.push({ id: concept.id, text, entry });
+      }
+    }
+
+    for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await this.embedder.embed(batch.map(p => p.text));
+      batch.forEach((p, j) => this.concepts.set(p.id, { ...p.entry, vector: normalize(vectors[j]) }));
+    }
+
+    const ids = new Set(current.map(c => c.concept.id));
+    let removed = 0;
+    for (const id of [...this.concepts.keys()]) {
+      if (!ids.has(id)) {
+        this.concepts.delete(id);
+        removed++;
+      }
+    }
+    return { embedded: pending.length, removed, unchanged };
+  }
+
+  /**
+   * Write the vectors to the vector file
+   */
+  save(): void {
+    const stored: StoredIndex = { model: this.embedder.model, vectors: {} };
+    for (const [id, concept] of this.concepts) {
+      stored.vectors[id] = { kind: concept.kind, hash: concept.hash, vector: Buffer.from(concept.vector.buffer, concept.vector.byteOffset, concept.vector.byteLength).toString('base64') };
+    }
+    writeFileSync(this.path, JSON.stringify(stored), 'utf8');
+  }
+
+  /**
+   * Concepts closest in meaning to the query, combined with their keyword
+   * score when a keyword index is given; most relevant first
+   */
+  async search(query: string, keywords?: SearchIndex, options: SemanticSearchOptions = {}): Promise<SemanticHit[]> {
+    const kinds = new Set(options.kinds || ['element', 'view']);
+    const weight = keywords ? Math.min(Math.max(options.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT, 0), 1) : 1;
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+    const keywordScores = new Map<string, number>();
+    if (keywords && weight < 1) {
+      const hits = [
+        ...(kinds.has('element') ? keywords.searchElements(query) : []),
+        ...(kinds.has('view') ? keywords.searchViews(query) : [])
+      ];
+      const best = Math.max(0, ...hits.map(h => h.score));
+      for (const hit of hits) {
+        if (best > 0) keywordScores.set(hit.item.id, hit.score / best);
+      }
+    }
+
+    const queryVector = weight > 0 ? normalize((await this.embedder.embed([query]))[0]) : undefined;
+
+    const hits: SemanticHit[] = [];
+    for (const [id, concept] of this.concepts) {
+      if (!kinds.has(concept.kind)) continue;
+      const similarity = queryVector ? dot(queryVector, concept.vector) : 0;
+      const keyword = keywordScores.get(id) || 0;
+      if (keyword === 0 && (weight === 0 || similarity < minSimilarity)) continue;
+      const score = weight * Math.max(similarity, 0) + (1 - weight) * keyword;
+      hits.push({ id, kind: concept.kind, name: concept.name, type: concept.type, score: round(score), similarity: round(similarity), keyword: round(keyword) });
+    }
+    hits.sort((a, b) => b.score - a.score);
+    return options.limit ? hits.slice(0, options.limit) : hits;
+  }
+}
+
+function normalize(vector: number[] | Float32Array): Float32Array {
+  const result = Float32Array.from(vector);
+  const length = Math.sqrt(result.reduce((sum, v) => sum + v * v, 0));
+  if (length > 0) result.forEach((v, i) => { result[i] = v / length; });
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * "ApplicationComponent" → "Application Component"
+ */
+function splitWords(type: string): string {
+  return type.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
@@ -1,13 +1,61 @@
+/**
+ * Text variants keyed by `xml:lang` code ('' for untagged text), in document order.
+ * The first variant is the primary language, mirrored by the plain `name`/`documentation` field.
+ */
+export type LangStrings = Record<string, string>;
+
+export interface ColorValue {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;                  // Alpha as a percentage (0-100)
+}
+
+export interface ViewStyle {
+  lineWidth?: number;
+  fillColor?: ColorValue;
+  lineColor?: ColorValue;
+  font?: { name?: string; size?: number; style?: string; color?: ColorValue };
+}
+
+export interface ViewNode {
+  id: string;
+  type: string;                // Diagram node type: 'Element', 'Label' or 'Container'
+  elementRef?: string;         // Element shown by an 'Element' node
+  x?: number;                  // Absolute diagram coordinates, also for nested nodes
+  y?: number;
+  w?: number;
+  h?: number;
+  label?: string;              // Text of notes ('Label') and groups ('Container')
+  style?: ViewStyle;
+  children?: ViewNode[];
+}
+
+export interface ViewConnection {
+  id: string;
+  type: string;                // 'Relationship' or 'Line'
+  relationshipRef?: string;    // Relationship shown by a 'Relationship' connection
+  source?: string;             // Source node ID
+  target?: string;             // Target node ID
+  label?: string;
+  style?: ViewStyle;
+  bendpoints?: Array<{ x: number; y: number }>;
+}
+
 export interface ViewObject {
   id: string;
   name: string;
   type?: string;
   viewpoint?: string;
   documentation?: string;
+  nameTranslations?: LangStrings;          // All language variants; absent for single-language text
+  documentationTranslations?: LangStrings;
   properties?: Record<string, string>;
   elements?: string[];
   relationships?: string[];
   nodeHierarchy?: Array<{ parentElement: string; childElement: string }>;
+  nodes?: ViewNode[];          // Diagram layout as loaded; elements/relationships stay authoritative for membership
+  connections?: ViewConnection[];
 }
 
 export interface ElementObject {
@@ -15,6 +63,8 @@ export interface ElementObject {
   name: string;
   type?: string;
   documentation?: string;
+  nameTranslations?: LangStrings;          // All language variants; absent for single-language text
+  documentationTranslations?: LangStrings;
   properties?: Record<string, string>;
   inViews?: string[];          // IDs of views containing this element
   outgoingRelations?: string[]; // IDs of relationships where this element is the source
@@ -28,12 +78,45 @@ export interface RelationshipObject {
   type?: string;
   name?: string;
   documentation?: string;
+  nameTranslations?: LangStrings;          // All language variants; absent for single-language text
+  documentationTranslations?: LangStrings;
   properties?: Record<string,string>;
 }
 
+export interface OrganizationFolder {
+  id?: string;                 // Folder identifier (optional in the Exchange Format)
+  label: string;
+  documentation?: string;
+  type?: string;               // Archi folder type of top-level folders ('business', 'relations', 'diagrams', ...)
+  items: string[];             // IDs of elements, relationships and views filed in this folder
+  folders: OrganizationFolder[];
+}
+
+export interface ModelMetadata {
+  schema?: string;             // Metadata schema, normally 'Dublin Core'
+  schemaVersion?: string;
+  fields: Record<string, MetadataValue>; // Dublin Core element name (e.g. 'creator') to value
+}
+
+/** Value of a Dublin Core element; elements that occur more than once (e.g. several creators) keep every value in order */
+export type MetadataValue = string | string[];
+
+export type ModelFormat = 'exchange' | 'archi';
+
 export interface ModelData {
+  id?: string;                 // Model identifier
+  name?: string;               // Model name
+  documentation?: string;
+  nameTranslations?: LangStrings;
+  documentationTranslations?: LangStrings;
+  version?: string;            // Model version attribute
+  language?: string;           // xml:lang of the model name; default language for untagged text
+  metadata?: ModelMetadata;
+  properties?: Record<string, string>;
   views: ViewObject[];
   elements: ElementObject[];
   relationships: RelationshipObject[];
   propertyDefinitions?: Array<{ identifier: string; name: string; type?: string }>;
+  organizations?: OrganizationFolder[]; // Folder tree; absent when the source file has none
+  format?: ModelFormat;          // Source file format ('exchange' when absent)
 }
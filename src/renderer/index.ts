@@ -1,14 +1,60 @@
 import { ViewObject, ElementObject, RelationshipObject, ModelData } from '../model/types';
+import { FolderSummary } from '../model/organizations';
+import { localize, localizeModel, getLanguages } from '../model/languages';
+import { Operation, EditHistory, EditHistoryEntry } from '../model/manipulator-types';
+import { ModelDiff, ConceptDiff, ConceptSummary, FieldChange } from '../model/diff';
+import { MergeConflict } from '../model/merge';
+import { ImpactAnalysis } from '../model/impact';
+import { PathSearch, PathStep } from '../model/paths';
+import { deriveRelationships, DerivedRelationship } from '../model/derivation';
+import { QueryResult, ResultValue } from '../model/query';
+import { SearchHit } from '../model/search';
+import { SemanticHit } from '../model/semantic';
 
-export function renderViewListMarkdown(views: ViewObject[]): string {
+export function renderViewListMarkdown(views: ViewObject[], lang?: string): string {
   if (!views || views.length === 0) return '# Views\n\n_No views found_';
   const lines: string[] = ['# ArchiMate Views', ''];
   for (const v of views) {
-    lines.push(`- ${v.name}`);
+    lines.push(`- ${localize(v, lang).name}`);
   }
   return lines.join('\n');
 }
 
+/**
+ * Search results with their relevance score and the matching fields highlighted
+ */
+function renderSearchHits<T extends ViewObject | ElementObject>(hits: SearchHit<T>[], label: (item: T) => string): string[] {
+  const lines: string[] = [];
+  for (const hit of hits) {
+    lines.push(`- ${label(hit.item)} — score ${hit.score}`);
+    for (const match of hit.matches) {
+      lines.push(`  - ${match.field === 'properties' ? `property ${match.key}` : match.field}: ${match.highlight}`);
+    }
+  }
+  return lines;
+}
+
+function rankingNote(query: string, sortedBy?: string): string {
+  return sortedBy ? `_Matches for "${query}", sorted by ${sortedBy}_` : `_Ranked by relevance to "${query}"_`;
+}
+
+export function renderRankedViewListMarkdown(hits: SearchHit<ViewObject>[], query: string, lang?: string, sortedBy?: string): string {
+  if (hits.length === 0) return '# Views\n\n_No views found_';
+  const lines: string[] = ['# ArchiMate Views', '', rankingNote(query, sortedBy), ''];
+  lines.push(...renderSearchHits(hits, v => localize(v, lang).name || v.id));
+  return lines.join('\n');
+}
+
+/**
+ * Position of a page in the full result list, with how to get the next page; empty when everything fits on one page
+ */
+export function renderPageSummary(page: { offset: number; items: unknown[]; totalCount: number; nextCursor?: string }): string {
+  if (page.offset === 0 && !page.nextCursor) return '';
+  if (page.items.length === 0) return `\n\n_No results at offset ${page.offset} of ${page.totalCount}_`;
+  const range = `_Showing ${page.offset + 1}–${page.offset + page.items.length} of ${page.totalCount}_`;
+  return page.nextCursor ? `\n\n${range}\n\nNext page: \`cursor: "${page.nextCursor}"\`` : `\n\n${range}`;
+}
+
 function findElementById(model: ModelData, id: string): ElementObject | undefined {
   return model.elements.find(e => e.id === id);
 }
@@ -17,13 +63,54 @@ function findRelationshipById(model: ModelData, id: string) : RelationshipObject
   return model.relationships.find(r => r.id === id);
 }
 
-export function renderViewDetailsMarkdownFromModel(model: ModelData, view: ViewObject): string {
+/**
+ * How much of a view to show, from everything to a summary:
+ *
+ * - full: elements and relationships with documentation and properties
+ * - compact: without properties
+ * - brief: without properties, documentation shortened
+ * - summary: elements grouped by type with counts, relationships counted by type
+ */
+export type ViewDetailLevel = 'full' | 'compact' | 'brief' | 'summary';
+
+export const VIEW_DETAIL_LEVELS: ViewDetailLevel[] = ['full', 'compact', 'brief', 'summary'];
+
+/** Documentation length at the brief level, in characters */
+const BRIEF_DOCUMENTATION_LENGTH = 200;
+/** Element names listed per type at the summary level */
+const SUMMARY_NAMES_PER_TYPE = 10;
+
+/**
+ * Rough token count of a text, for budgets: about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function shorten(text: string, length: number): string {
+  return text.length <= length ? text : text.slice(0, length).replace(/\s+\S*$/, '') + '…';
+}
+
+export function renderViewDetailsMarkdownFromModel(model: ModelData, view: ViewObject, lang?: string, detail: ViewDetailLevel = 'full'): string {
+  const languages = getLanguages(view);
+  model = localizeModel(model, lang);
+  view = localize(view, lang);
+
+  const withProperties = detail === 'full';
+  const documentation = (text?: string) => text && detail === 'brief' ? shorten(text, BRIEF_DOCUMENTATION_LENGTH) : text;
+
   const lines: string[] = [];
   lines.push(`# ArchiMate View name: ${view.name}`, '');
   if (view.viewpoint) {
     lines.push(`> Viewpoint: ${view.viewpoint}`, '');
   }
-  if (view.documentation) lines.push(view.documentation, '');
+  if (languages.length > 0) lines.push(`> Languages: ${languages.join(', ')}`, '');
+  if (view.documentation) lines.push(detail === 'summary' ? shorten(view.documentation, BRIEF_DOCUMENTATION_LENGTH) : documentation(view.documentation)!, '');
+
+  if (detail === 'summary') {
+    lines.push(...renderViewSummary(model, view));
+    return lines.join('\n');
+  }
 
   lines.push('## Elements', '');
   if (!view.elements || view.elements.length === 0) {
@@ -34,8 +121,8 @@ export function renderViewDetailsMarkdownFromModel(model: ModelData, view: ViewO
       if (!el) continue;
       lines.push(`### ${el.name}`);
       if (el.type) lines.push(`- Type: ${el.type}`);
-      if (el.documentation) lines.push(`- Documentation: ${el.documentation}`);
-      if (el.properties && Object.keys(el.properties).length > 0) {
+      if (el.documentation) lines.push(`- Documentation: ${documentation(el.documentation)}`);
+      if (withProperties && el.properties && Object.keys(el.properties).length > 0) {
         lines.push('- Properties:');
         for (const [k, v] of Object.entries(el.properties)) {
           lines.push(`  - ${k}: ${v}`);
@@ -60,8 +147,8 @@ export function renderViewDetailsMarkdownFromModel(model: ModelData, view: ViewO
       explicitRels.push(`- From **${srcName}** to **${tgtName}**`);
       if (r.type) explicitRels.push(`  - Type: ${r.type}`);
       if (r.name) explicitRels.push(`  - Name: ${r.name}`);
-      if (r.documentation) explicitRels.push(`  - Documentation: ${r.documentation}`);
-      if (r.properties && Object.keys(r.properties).length > 0) {
+      if (r.documentation) explicitRels.push(`  - Documentation: ${documentation(r.documentation)}`);
+      if (withProperties && r.properties && Object.keys(r.properties).length > 0) {
         explicitRels.push('  - Properties:');
         for (const [k, v] of Object.entries(r.properties)) explicitRels.push(`    - ${k}: ${v}`);
       }
@@ -88,8 +175,8 @@ export function renderViewDetailsMarkdownFromModel(model: ModelData, view: ViewO
       if (implicitRel) {
         implicitRels.push(`  - Type: ${implicitRel.type} (implicit from view nesting)`);
         if (implicitRel.name) implicitRels.push(`  - Name: ${implicitRel.name}`);
-        if (implicitRel.documentation) implicitRels.push(`  - Documentation: ${implicitRel.documentation}`);
-        if (implicitRel.properties && Object.keys(implicitRel.properties).length > 0) {
+        if (implicitRel.documentation) implicitRels.push(`  - Documentation: ${documentation(implicitRel.documentation)}`);
+        if (withProperties && implicitRel.properties && Object.keys(implicitRel.properties).length > 0) {
           implicitRels.push('  - Properties:');
           for (const [k, v] of Object.entries(implicitRel.properties)) implicitRels.push(`    - ${k}: ${v}`);
         }
@@ -115,21 +202,118 @@ export function renderViewDetailsMarkdownFromModel(model: ModelData, view: ViewO
   return lines.join('\n');
 }
 
-export function renderElementListMarkdown(elements: ElementObject[]): string {
+/**
+ * Elements of a view grouped by type with counts, and its relationships counted by type
+ */
+function renderViewSummary(model: ModelData, view: ViewObject): string[] {
+  const lines: string[] = [];
+  const elements = (view.elements || []).map(id => findElementById(model, id)).filter((e): e is ElementObject => !!e);
+  lines.push(`## Elements (${elements.length})`, '');
+  if (elements.length === 0) lines.push('_No elements_');
+  for (const [type, group] of groupByType(elements)) {
+    const names = group.slice(0, SUMMARY_NAMES_PER_TYPE).map(e => e.name).join(', ');
+    const more = group.length > SUMMARY_NAMES_PER_TYPE ? `, … ${group.length - SUMMARY_NAMES_PER_TYPE} more` : '';
+    lines.push(`- ${type} (${group.length}): ${names}${more}`);
+  }
+
+  const relationships = (view.relationships || []).map(id => findRelationshipById(model, id)).filter((r): r is RelationshipObject => !!r);
+  lines.push('', `## Relationships (${relationships.length})`, '');
+  if (relationships.length === 0) lines.push('_No relationships_');
+  for (const [type, group] of groupByType(relationships)) {
+    lines.push(`- ${type}: ${group.length}`);
+  }
+  if (view.nodeHierarchy && view.nodeHierarchy.length > 0) {
+    lines.push(`- Nested in the diagram: ${view.nodeHierarchy.length}`);
+  }
+  return lines;
+}
+
+function groupByType<T extends { type?: string }>(items: T[]): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const type = item.type || 'Unknown Type';
+    groups.set(type, [...(groups.get(type) || []), item]);
+  }
+  return [...groups].sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Render a view in as much detail as fits a token budget, starting at the
+ * given level and summarizing step by step: first without properties, then
+ * with shortened documentation, then grouped by type. The result tells what
+ * was left out and how to get it, and whether even the summary is over budget.
+ */
+export function renderViewDetailsWithinBudget(
+  model: ModelData,
+  view: ViewObject,
+  lang: string | undefined,
+  options: { maxTokens?: number; detail?: ViewDetailLevel }
+): { markdown: string; detail: ViewDetailLevel; estimatedTokens: number; overBudget: boolean } {
+  const levels = VIEW_DETAIL_LEVELS.slice(VIEW_DETAIL_LEVELS.indexOf(options.detail || 'full'));
+  let detail = levels[0];
+  let body = '';
+  let markdown = '';
+  for (detail of levels) {
+    body = renderViewDetailsMarkdownFromModel(model, view, lang, detail);
+    markdown = detail !== 'full' ? body + '\n\n' + renderOmissionNote(detail, options.maxTokens) : body;
+    if (!options.maxTokens || estimateTokens(markdown) <= options.maxTokens) break;
+  }
+  const overBudget = !!options.maxTokens && estimateTokens(markdown) > options.maxTokens;
+  if (overBudget) markdown = body + '\n\n' + renderOmissionNote(detail, options.maxTokens, true);
+  return { markdown, detail, estimatedTokens: estimateTokens(markdown), overBudget };
+}
+
+function renderOmissionNote(detail: ViewDetailLevel, maxTokens?: number, overBudget: boolean = false): string {
+  const omitted = ['properties'];
+  if (detail === 'brief') omitted.push(`documentation beyond ${BRIEF_DOCUMENTATION_LENGTH} characters`);
+  if (detail === 'summary') omitted.push('element documentation', 'relationship details');
+  const reason = overBudget
+    ? `as far as possible, but still over the budget of ${maxTokens} tokens`
+    : maxTokens ? `to fit ${maxTokens} tokens` : `at detail level "${detail}"`;
+  return [
+    `> Summarized ${reason}; left out: ${omitted.join(', ')}.`,
+    '> Use GetElementDetails for the full documentation, properties and relationships of an element, ' +
+      'or GetViewDetails with detail "full" and a larger maxTokens for the whole view.'
+  ].join('\n');
+}
+
+export function renderElementListMarkdown(elements: ElementObject[], lang?: string): string {
   if (!elements || elements.length === 0) return '# Elements\n\n_No elements found_';
   
   const lines: string[] = ['# ArchiMate Elements', ''];
   for (const el of elements) {
-    lines.push(`- ${el.name} (${el.type || 'Unknown Type'})`);
+    lines.push(`- ${localize(el, lang).name} (${el.type || 'Unknown Type'})`);
   }
   return lines.join('\n');
 }
 
-export function renderElementDetailsMarkdownFromModel(model: ModelData, element: ElementObject): string {
+export function renderRankedElementListMarkdown(hits: SearchHit<ElementObject>[], query: string, lang?: string, sortedBy?: string): string {
+  if (hits.length === 0) return '# Elements\n\n_No elements found_';
+  const lines: string[] = ['# ArchiMate Elements', '', rankingNote(query, sortedBy), ''];
+  lines.push(...renderSearchHits(hits, el => `${localize(el, lang).name} (${el.type || 'Unknown Type'})`));
+  return lines.join('\n');
+}
+
+/** Most derived relationships listed in element details (default) */
+export const DEFAULT_MAX_DERIVED_IN_DETAILS = 20;
+
+export interface ElementDetailsOptions {
+  /** List the valid derived relationships of the element (default: false, as deriving them walks the model) */
+  includeDerived?: boolean;
+  /** Most derived relationships to list (default: 20) */
+  maxDerived?: number;
+}
+
+export function renderElementDetailsMarkdownFromModel(model: ModelData, element: ElementObject, lang?: string, options: ElementDetailsOptions = {}): string {
+  const languages = getLanguages(element);
+  model = localizeModel(model, lang);
+  element = localize(element, lang);
+
   const lines: string[] = [];
   lines.push(`# ArchiMate Element: ${element.name}`, '');
   
   if (element.type) lines.push(`**Type:** ${element.type}`, '');
+  if (languages.length > 0) lines.push(`**Languages:** ${languages.join(', ')}`, '');
   if (element.documentation) lines.push(element.documentation, '');
 
   // Properties
@@ -187,5 +371,474 @@ export function renderElementDetailsMarkdownFromModel(model: ModelData, element:
     }
   }
 
+  // Derived relationships are not in the model, so they are listed apart from the modelled ones
+  const derived = options.includeDerived ? [
+    ...deriveRelationships(model, { sourceId: element.id, includePotential: false }),
+    ...deriveRelationships(model, { targetId: element.id, includePotential: false })
+  ] : [];
+  const shown = derived.slice(0, Math.max(0, options.maxDerived ?? DEFAULT_MAX_DERIVED_IN_DETAILS));
+  if (derived.length > 0) {
+    lines.push('## Derived Relationships', '', '_Implied by chains of modelled relationships (ArchiMate derivation rules); not part of the model._', '');
+    for (const d of shown) {
+      const other = model.elements.find(e => e.id === (d.sourceId === element.id ? d.targetId : d.sourceId));
+      lines.push(`- ${d.sourceId === element.id ? 'To' : 'From'} **${other?.name || ''}**`);
+      lines.push(`  - Type: ${d.type} (derived, ${d.rule})`);
+      lines.push(`  - Via: ${renderDerivationChain(model, d)}`);
+      lines.push('');
+    }
+    if (derived.length > shown.length) {
+      lines.push(`_${derived.length - shown.length} more derived relationship(s) not shown; list them with GetDerivedRelationships._`, '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function renderFolderListMarkdown(model: ModelData, folders: FolderSummary[], includeItems: boolean = false): string {
+  if (!folders || folders.length === 0) return '# Folders\n\n_No folders found_';
+
+  const names = new Map<string, string>();
+  for (const e of model.elements) names.set(e.id, `${e.name} (${e.type || 'Unknown Type'})`);
+  for (const r of model.relationships) names.set(r.id, `${r.name || r.id} (${r.type || 'Relationship'})`);
+  for (const v of model.views) names.set(v.id, `${v.name} (View)`);
+
+  const lines: string[] = ['# Model Folders', ''];
+  for (const folder of folders) {
+    const indent = '  '.repeat(folder.depth);
+    const id = folder.id ? ` \`${folder.id}\`` : '';
+    lines.push(`${indent}- **${folder.label}**${id} — ${folder.items.length} item(s)`);
+    if (includeItems) {
+      for (const itemId of folder.items) {
+        lines.push(`${indent}  - ${names.get(itemId) || itemId}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+export function renderModelMetadataMarkdown(model: ModelData): string {
+  const lines: string[] = [`# ${model.name || 'ArchiMate Model'}`, ''];
+  if (model.id) lines.push(`- **Identifier:** \`${model.id}\``);
+  lines.push(`- **Format:** ${model.format === 'archi' ? 'Archi native (.archimate)' : 'Open Group Exchange Format'}`);
+  if (model.version) lines.push(`- **Version:** ${model.version}`);
+  lines.push(`- **Elements:** ${model.elements.length}, **Relationships:** ${model.relationships.length}, **Views:** ${model.views.length}`);
+
+  if (model.documentation) {
+    lines.push('', '## Documentation', '', model.documentation);
+  }
+
+  const fields = Object.entries(model.metadata?.fields || {});
+  if (fields.length > 0) {
+    lines.push('', `## Metadata (${model.metadata?.schema || 'Dublin Core'})`, '');
+    for (const [key, value] of fields) lines.push(`- **${key}:** ${Array.isArray(value) ? value.join('; ') : value}`);
+  }
+
+  const properties = Object.entries(model.properties || {});
+  if (properties.length > 0) {
+    const names = new Map((model.propertyDefinitions || []).map(pd => [pd.identifier, pd.name]));
+    lines.push('', '## Properties', '');
+    for (const [key, value] of properties) lines.push(`- **${names.get(key) || key}:** ${value}`);
+  }
+
+  return lines.join('\n');
+}
+
+// Derived references are rebuilt on undo/redo and not worth reporting
+const HISTORY_IGNORED_FIELDS = ['inViews', 'outgoingRelations', 'incomingRelations'];
+
+function quoteValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `"${text.length > 60 ? text.slice(0, 57) + '...' : text}"`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * List the fields that differ between two recorded states
+ */
+function describeChanges(before: any, after: any, prefix: string = ''): string[] {
+  const changes: string[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  for (const key of keys) {
+    if (!prefix && HISTORY_IGNORED_FIELDS.includes(key)) continue;
+    const a = before?.[key];
+    const b = after?.[key];
+    if (JSON.stringify(a) === JSON.stringify(b)) continue;
+    const field = prefix + key;
+
+    if (isPlainObject(a) || isPlainObject(b)) {
+      changes.push(...describeChanges(a, b, `${field}.`));
+    } else if (Array.isArray(a) || Array.isArray(b)) {
+      const oldItems: unknown[] = a || [];
+      const newItems: unknown[] = b || [];
+      if ([...oldItems, ...newItems].every(item => typeof item === 'string')) {
+        const added = newItems.filter(item => !oldItems.includes(item));
+        const removed = oldItems.filter(item => !newItems.includes(item));
+        const parts = [];
+        if (added.length > 0) parts.push(`added ${added.join(', ')}`);
+        if (removed.length > 0) parts.push(`removed ${removed.join(', ')}`);
+        changes.push(`${field}: ${parts.join('; ') || 'reordered'}`);
+      } else {
+        changes.push(`${field} changed`);
+      }
+    } else {
+      changes.push(`${field}: ${quoteValue(a)} → ${quoteValue(b)}`);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Describe what a recorded operation changed, in one line
+ */
+export function describeOperation(operation: Operation): string {
+  const { type, entityType, entityId, data, previousState } = operation;
+  const state = type === 'delete' ? previousState : (data ?? previousState);
+
+  let label: string;
+  switch (entityType) {
+    case 'element':
+      label = `element ${quoteValue(state?.name)} (${state?.type}) \`${entityId}\``;
+      break;
+    case 'relationship':
+      label = `${state?.type} relationship \`${entityId}\` from \`${state?.sourceId}\` to \`${state?.targetId}\``;
+      break;
+    case 'view':
+      label = `view ${quoteValue(state?.name)} \`${entityId}\``;
+      break;
+    case 'property':
+      label = state?.targetId !== undefined
+        ? `property \`${state.propertyDefId}\` of \`${state.targetId}\``
+        : `property definition ${quoteValue(state?.name)} \`${entityId}\``;
+      break;
+    case 'folder':
+      return `Moved \`${entityId}\` from folder ${quoteValue(previousState?.folder)} to ${quoteValue(data?.folder)}`;
+    case 'model':
+    default:
+      label = 'model metadata';
+  }
+
+  if (type === 'create') return `Created ${label}`;
+  if (type === 'delete' && !(entityType === 'property' && state?.targetId !== undefined)) return `Deleted ${label}`;
+  const changes = describeChanges(previousState, data);
+  return `Updated ${label}${changes.length > 0 ? ': ' + changes.join(', ') : ''}`;
+}
+
+/**
+ * Render one edit history step with the tool that made it and its changes
+ */
+export function renderEditStepMarkdown(entry: EditHistoryEntry): string {
+  const lines = [`### Step ${entry.id}: ${entry.source || 'direct API call'}`, '', `_${entry.timestamp}_`, ''];
+  for (const operation of entry.operations) {
+    lines.push(`- ${describeOperation(operation)}`);
+  }
+  return lines.join('\n');
+}
+
+export function renderEditHistoryMarkdown(history: EditHistory): string {
+  const lines = [
+    '# Edit History',
+    '',
+    `${history.undoable.length} step(s) can be undone and ${history.redoable.length} redone (at most ${history.limit} steps are kept).`
+  ];
+
+  if (history.undoable.length > 0) {
+    lines.push('', '## Undo (most recent first)');
+    for (const entry of [...history.undoable].reverse()) {
+      lines.push('', renderEditStepMarkdown(entry));
+    }
+  }
+
+  if (history.redoable.length > 0) {
+    lines.push('', '## Redo (next first)');
+    for (const entry of history.redoable) {
+      lines.push('', renderEditStepMarkdown(entry));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function renderConceptSummary(concept: ConceptSummary): string {
+  if (concept.source !== undefined || concept.target !== undefined) {
+    const name = concept.name ? ` "${concept.name}"` : '';
+    return `${concept.type || 'Relationship'}${name}: **${concept.source}** → **${concept.target}** \`${concept.id}\``;
+  }
+  return `**${concept.name || concept.id}**${concept.type ? ` (${concept.type})` : ''} \`${concept.id}\``;
+}
+
+function renderFieldChange(change: FieldChange): string {
+  return `${change.field}: ${quoteValue(change.before)} → ${quoteValue(change.after)}`;
+}
+
+function renderConceptDiff(lines: string[], title: string, diff: ConceptDiff): void {
+  if (diff.added.length + diff.removed.length + diff.changed.length === 0) return;
+  lines.push('', `## ${title}`);
+  if (diff.added.length > 0) {
+    lines.push('', `### Added (${diff.added.length})`, '');
+    for (const concept of diff.added) lines.push(`- ${renderConceptSummary(concept)}`);
+  }
+  if (diff.removed.length > 0) {
+    lines.push('', `### Removed (${diff.removed.length})`, '');
+    for (const concept of diff.removed) lines.push(`- ${renderConceptSummary(concept)}`);
+  }
+  if (diff.changed.length > 0) {
+    lines.push('', `### Changed (${diff.changed.length})`, '');
+    for (const concept of diff.changed) {
+      lines.push(`- ${renderConceptSummary(concept)}`);
+      for (const change of concept.changes) lines.push(`  - ${renderFieldChange(change)}`);
+    }
+  }
+}
+
+export function renderModelDiffMarkdown(diff: ModelDiff, baseLabel: string, targetLabel: string): string {
+  const lines = ['# Model Diff', '', `Comparing **${baseLabel}** (base) with **${targetLabel}**.`];
+  if (diff.identical) {
+    lines.push('', 'No structural differences.');
+    return lines.join('\n');
+  }
+
+  const count = (d: ConceptDiff) => `${d.added.length} added, ${d.removed.length} removed, ${d.changed.length} changed`;
+  lines.push(
+    '',
+    `- **Elements:** ${count(diff.elements)}`,
+    `- **Relationships:** ${count(diff.relationships)}`,
+    `- **Views:** ${count(diff.views)}`,
+    `- **View membership:** ${diff.viewMembership.length} view(s) changed`
+  );
+
+  if (diff.model.length > 0) {
+    lines.push('', '## Model', '');
+    for (const change of diff.model) lines.push(`- ${renderFieldChange(change)}`);
+  }
+
+  renderConceptDiff(lines, 'Elements', diff.elements);
+  renderConceptDiff(lines, 'Relationships', diff.relationships);
+  renderConceptDiff(lines, 'Views', diff.views);
+
+  if (diff.viewMembership.length > 0) {
+    lines.push('', '## View Membership');
+    for (const view of diff.viewMembership) {
+      lines.push('', `### ${view.name} \`${view.id}\``, '');
+      for (const concept of view.addedElements) lines.push(`- Added element ${renderConceptSummary(concept)}`);
+      for (const concept of view.removedElements) lines.push(`- Removed element ${renderConceptSummary(concept)}`);
+      for (const concept of view.addedRelationships) lines.push(`- Added relationship ${renderConceptSummary(concept)}`);
+      for (const concept of view.removedRelationships) lines.push(`- Removed relationship ${renderConceptSummary(concept)}`);
+    }
+  }
+
+  const definitions = diff.propertyDefinitions;
+  if (definitions.added.length + definitions.removed.length > 0) {
+    lines.push('', '## Property Definitions', '');
+    for (const name of definitions.added) lines.push(`- Added "${name}"`);
+    for (const name of definitions.removed) lines.push(`- Removed "${name}"`);
+  }
+
+  return lines.join('\n');
+}
+
+export interface MergeSummary {
+  basePath: string;
+  oursPath: string;
+  theirsPath: string;
+  outputPath: string;
+  written: boolean;
+  prefer?: string;
+}
+
+export function renderMergeResultMarkdown(summary: MergeSummary, merged: ModelData, conflicts: MergeConflict[]): string {
+  const lines = [
+    '# Model Merge',
+    '',
+    `Merged **${summary.theirsPath}** (theirs) into **${summary.oursPath}** (ours), from base **${summary.basePath}**.`,
+    '',
+    `- **Elements:** ${merged.elements.length}, **Relationships:** ${merged.relationships.length}, **Views:** ${merged.views.length}`,
+    `- **Conflicts:** ${conflicts.length}${conflicts.length > 0 && summary.prefer ? ` (resolved in favour of ${summary.prefer})` : ''}`,
+    ''
+  ];
+  lines.push(summary.written
+    ? `Merged model written to \`${summary.outputPath}\`.`
+    : 'Nothing was written: resolve the conflicts below in the source models, or pass `prefer` to resolve them in favour of one side.');
+
+  if (conflicts.length > 0) {
+    lines.push('', '## Conflicts', '');
+    conflicts.forEach((conflict, i) => {
+      lines.push(`${i + 1}. **${conflict.kind}** — ${conflict.message}`);
+      if (conflict.kind === 'both-modified' || conflict.kind === 'both-added') {
+        const values = [
+          conflict.kind === 'both-modified' ? `base: ${quoteValue(conflict.base)}` : undefined,
+          `ours: ${quoteValue(conflict.ours)}`,
+          `theirs: ${quoteValue(conflict.theirs)}`
+        ].filter(Boolean);
+        lines.push(`   - ${values.join(', ')}`);
+      }
+      if (summary.written) lines.push(`   - Resolution: ${conflict.resolution}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+export function renderImpactAnalysisMarkdown(analysis: ImpactAnalysis): string {
+  const { start } = analysis;
+  const names = new Map([[start.id, start.name], ...analysis.elements.map(e => [e.id, e.name] as [string, string])]);
+  const lines = [
+    `# Impact Analysis: ${start.name}`,
+    '',
+    `**Start:** **${start.name}** (${start.type || 'Element'}, ${start.layer}) \`${start.id}\``,
+    '',
+    `**Direction:** ${analysis.direction}, **Depth:** up to ${analysis.maxDepth}, **Relationships:** ${analysis.relationshipTypes?.join(', ') || 'all'}`,
+    ''
+  ];
+
+  if (analysis.elements.length === 0) {
+    lines.push('No elements are affected.');
+  } else {
+    lines.push(`**Affected elements:** ${analysis.elements.length} in ${analysis.layers.length} layer(s)`);
+    for (const group of analysis.layers) {
+      lines.push('', `## ${group.layer}`, '');
+      for (const element of group.elements) {
+        const { via } = element;
+        const from = names.get(via.from) || via.from;
+        const step = via.direction === 'outgoing' ? `${via.relationshipType || 'Relationship'} from **${from}**` : `${via.relationshipType || 'Relationship'} to **${from}**`;
+        lines.push(`- **${element.name}** (${element.type || 'Element'}) \`${element.id}\` — depth ${element.depth}, ${step}`);
+      }
+    }
+  }
+
+  if (analysis.views.length > 0) {
+    lines.push('', '## Views to Update', '');
+    for (const view of analysis.views) {
+      lines.push(`- **${view.name}** \`${view.id}\` — shows ${view.elements.map(id => names.get(id) || id).join(', ')}`);
+    }
+  }
+
+  if (analysis.truncated) {
+    lines.push('', `_The depth limit was reached: more elements are affected beyond depth ${analysis.maxDepth}._`);
+  }
+
   return lines.join('\n');
-}
\ No newline at end of file
+}
+
+/**
+ * A relationship in a path chain, pointing the way the relationship does
+ */
+function renderPathStep(step: PathStep): string {
+  const label = `${step.relationshipType || 'Relationship'}${step.relationshipName ? ` "${step.relationshipName}"` : ''}`;
+  return step.direction === 'forward' ? `—[${label}]→` : `←[${label}]—`;
+}
+
+export function renderPathsMarkdown(search: PathSearch): string {
+  const lines = [
+    `# Paths: ${search.source.name} → ${search.target.name}`,
+    '',
+    `**From:** **${search.source.name}** (${search.source.type || 'Element'}) \`${search.source.id}\``,
+    `**To:** **${search.target.name}** (${search.target.type || 'Element'}) \`${search.target.id}\``,
+    '',
+    `**Search:** up to ${search.k} path(s) of at most ${search.maxHops} hop(s), `
+      + `${search.directed ? 'following relationships from source to target only' : 'following relationships in both directions'}, `
+      + `relationships: ${search.relationshipTypes?.join(', ') || 'all'}`,
+    ''
+  ];
+
+  if (search.paths.length === 0) {
+    lines.push(`No path within ${search.maxHops} hop(s).`);
+    return lines.join('\n');
+  }
+
+  search.paths.forEach((path, i) => {
+    const chain = path.steps.map((step, j) => `${renderPathStep(step)} **${path.elements[j + 1].name}**`);
+    lines.push(`## Path ${i + 1} (${path.hops} hop${path.hops === 1 ? '' : 's'})`, '');
+    lines.push(`**${path.elements[0].name}** ${chain.join(' ')}`, '');
+    path.steps.forEach((step, j) => {
+      const [from, to] = [path.elements[j].name, path.elements[j + 1].name];
+      const [source, target] = step.direction === 'forward' ? [from, to] : [to, from];
+      lines.push(`- ${step.relationshipType || 'Relationship'} \`${step.relationshipId}\`: ${source} → ${target}`);
+    });
+    lines.push('');
+  });
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * The modelled relationships a derived relationship runs through, as a chain from its source
+ */
+export function renderDerivationChain(model: ModelData, derived: DerivedRelationship): string {
+  const name = (id: string) => model.elements.find(e => e.id === id)?.name || id;
+  let current = derived.sourceId;
+  const parts = [`**${name(current)}**`];
+  for (const id of derived.chain) {
+    const rel = model.relationships.find(r => r.id === id);
+    if (!rel) continue;
+    const forward = rel.sourceId === current;
+    current = forward ? rel.targetId : rel.sourceId;
+    parts.push(`${forward ? `—[${rel.type}]→` : `←[${rel.type}]—`} **${name(current)}**`);
+  }
+  return parts.join(' ');
+}
+
+export function renderDerivedRelationshipsMarkdown(model: ModelData, derived: DerivedRelationship[], title: string): string {
+  const lines = [`# ${title}`, ''];
+  if (derived.length === 0) {
+    lines.push('No derived relationships.');
+    return lines.join('\n');
+  }
+
+  const name = (id: string) => model.elements.find(e => e.id === id)?.name || id;
+  for (const kind of ['valid', 'potential'] as const) {
+    const group = derived.filter(d => d.kind === kind);
+    if (group.length === 0) continue;
+    lines.push(kind === 'valid' ? `## Valid (${group.length})` : `## Potential (${group.length})`, '');
+    if (kind === 'potential') lines.push('_May hold, depending on what the relationships in the chain mean._', '');
+    for (const d of group) {
+      lines.push(`- **${name(d.sourceId)}** —[${d.type}]→ **${name(d.targetId)}** (${d.rule})`);
+      lines.push(`  - Via: ${renderDerivationChain(model, d)}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n').trimEnd();
+}
+
+function renderResultValue(value: ResultValue): string {
+  if (value === null) return '';
+  if (typeof value === 'object') return `${value.name || value.id} (${value.type ? `${value.type}, ` : ''}\`${value.id}\`)`;
+  // Pipes and line breaks would break the table
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function renderQueryResultMarkdown(result: QueryResult, explain = false): string {
+  const lines = ['# Query Result', ''];
+  if (explain) {
+    lines.push('## Plan', '', ...result.plan.map((step, i) => `${i + 1}. ${step}`), '');
+  }
+  if (result.rows.length === 0) {
+    lines.push('No matches.');
+    return lines.join('\n');
+  }
+  lines.push(`${result.rows.length} row(s)`, '');
+  lines.push(`| ${result.columns.join(' | ')} |`);
+  lines.push(`| ${result.columns.map(() => '---').join(' | ')} |`);
+  for (const row of result.rows) {
+    lines.push(`| ${row.map(renderResultValue).join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
+
+export function renderSemanticSearchMarkdown(hits: SemanticHit[], query: string, semanticWeight: number): string {
+  const weight = Math.round(semanticWeight * 100);
+  const ranking = weight === 100 ? 'by meaning' : weight === 0 ? 'by keywords' : `${weight}% by meaning, ${100 - weight}% by keywords`;
+  const lines = [`# Semantic Search: "${query}"`, '', `_Ranked ${ranking}_`, ''];
+  if (hits.length === 0) {
+    lines.push('No matching elements or views.');
+    return lines.join('\n');
+  }
+  hits.forEach((hit, i) => {
+    const kind = hit.kind === 'view' ? 'View' : hit.type || 'Element';
+    lines.push(`${i + 1}. **${hit.name}** (${kind}) — score ${hit.score} (similarity ${hit.similarity}, keywords ${hit.keyword})`);
+  });
+  return lines.join('\n');
+}
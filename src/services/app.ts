@@ -1,5 +1,6 @@
 import { createTools, ToolsFactory } from '../mcp/tools';
 import { loadConfig, Config } from '../config';
+import { Authenticator } from '../utils/auth';
 
 /**
  * Singleton service to manage application dependencies
@@ -9,6 +10,7 @@ class ApplicationService {
   private static instance: ApplicationService;
   private _config?: Config;
   private _tools?: ToolsFactory;
+  private _auth?: Authenticator;
 
   private constructor() {}
 
@@ -33,12 +35,20 @@ class ApplicationService {
     return this._tools;
   }
 
+  get auth(): Authenticator {
+    if (!this._auth) {
+      this._auth = new Authenticator(this.config.auth);
+    }
+    return this._auth;
+  }
+
   /**
    * Reset the singleton (useful for testing)
    */
   reset(): void {
     this._config = undefined;
     this._tools = undefined;
+    this._auth = undefined;
   }
 }
 
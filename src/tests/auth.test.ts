@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHash } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { Authenticator, AccessDeniedError, tokenFromHeaders } from '../../src/utils/auth';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Router } from '../../src/api/router';
+import { appService } from '../../src/services/app';
+import { createMcpServer } from '../../src/mcp/server';
+import { SessionManager } from '../../src/mcp/sessions';
+
+describe('Authenticator', () => {
+  const auth = new Authenticator({
+    tokens: [
+      { name: 'assistant', token: 'read-token', roles: ['read'] },
+      { name: 'agent', tokenSha256: createHash('sha256').update('write-token').digest('hex'), roles: ['write'] },
+      { name: 'dashboard', token: 'viewer-token', roles: ['viewer'] }
+    ],
+    roles: { viewer: ['SearchViews', 'GetViewDetails'] }
+  });
+
+  it('reads the token from the Authorization or X-API-Key header', () => {
+    expect(tokenFromHeaders({ authorization: 'Bearer abc' })).toBe('abc');
+    expect(tokenFromHeaders({ 'x-api-key': 'def' })).toBe('def');
+    expect(tokenFromHeaders({ authorization: 'Basic xyz' })).toBeUndefined();
+    expect(tokenFromHeaders({})).toBeUndefined();
+  });
+
+  it('finds the client of a token or its hash', () => {
+    expect(auth.enabled).toBe(true);
+    expect(auth.authenticate('read-token')).toEqual({ name: 'assistant', roles: ['read'] });
+    expect(auth.authenticate('write-token')?.name).toBe('agent');
+    expect(auth.authenticate('wrong')).toBeUndefined();
+    expect(auth.authenticate(undefined)).toBeUndefined();
+    expect(new Authenticator().enabled).toBe(false);
+  });
+
+  it('allows tools by built-in and custom roles', () => {
+    const reader = auth.authenticate('read-token')!;
+    const writer = auth.authenticate('write-token')!;
+    const viewer = auth.authenticate('viewer-token')!;
+
+    expect(auth.isAllowed(reader, 'GetViewDetails')).toBe(true);
+    expect(auth.isAllowed(reader, 'CreateElement')).toBe(false);
+    expect(auth.isAllowed(writer, 'SaveModel')).toBe(true);
+    expect(auth.isAllowed(writer, 'SetModelPath')).toBe(false);
+    expect(auth.isAllowed(reader, 'DiffModels')).toBe(false);
+    expect(auth.isAllowed({ name: 'ops', roles: ['admin'] }, 'SetModelPath')).toBe(true);
+    expect(auth.isAllowed(viewer, 'GetViewDetails')).toBe(true);
+    expect(auth.isAllowed(viewer, 'SearchElements')).toBe(false);
+  });
+
+  it('denies tools outside the client roles', async () => {
+    const reader = auth.authenticate('read-token')!;
+    await expect(auth.authorize(reader, 'SearchViews', {})).resolves.toBeUndefined();
+    await expect(auth.authorize(reader, 'DeleteElement', { identifier: 'x' })).rejects.toThrow(AccessDeniedError);
+    await expect(auth.authorize(reader, 'DeleteElement', {})).rejects.toThrow('client "assistant" (roles: read) may not call DeleteElement');
+    // Without authentication there is no client, and nothing to check
+    await expect(auth.authorize(undefined, 'DeleteElement', {})).resolves.toBeUndefined();
+  });
+
+  it('rejects invalid configurations', () => {
+    expect(() => new Authenticator({ tokens: [{ name: '', token: 't', roles: ['read'] }] })).toThrow('token #1 has no name');
+    expect(() => new Authenticator({ tokens: [{ name: 'a', roles: ['read'] }] })).toThrow('neither token nor tokenSha256');
+    expect(() => new Authenticator({ tokens: [{ name: 'a', token: 't', roles: [] }] })).toThrow('has no roles');
+    expect(() => new Authenticator({ tokens: [{ name: 'a', token: 't', roles: ['owner'] }] })).toThrow('unknown role(s) owner');
+    const hash = createHash('sha256').update('t').digest('hex');
+    expect(() => new Authenticator({ tokens: [{ name: 'a', tokenSha256: hash.slice(0, 40), roles: ['read'] }] })).toThrow('tokenSha256 that is not 64 hex characters');
+    expect(() => new Authenticator({ tokens: [{ name: 'a', tokenSha256: hash.replace(/.$/, 'g'), roles: ['read'] }] })).toThrow('not 64 hex characters');
+    // Upper case hashes are the same hash
+    expect(new Authenticator({ tokens: [{ name: 'a', tokenSha256: hash.toUpperCase(), roles: ['read'] }] }).authenticate('t')?.name).toBe('a');
+  });
+});
+
+describe('HTTP API authentication', () => {
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    process.env.MODEL_PATH = join(__dirname, 'fixtures', 'model-with-views.xml');
+    appService.reset();
+
+    const router = new Router(new Authenticator({
+      tokens: [
+        { name: 'dashboard', token: 'viewer-token', roles: ['viewer'] }
+      ],
+      roles: { viewer: ['SearchViews'] }
+    }));
+    server = http.createServer((req, res) => { router.handle(req, res); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    delete process.env.MODEL_PATH;
+    appService.reset();
+  });
+
+  it('answers 401 without a valid token, except for /health', async () => {
+    expect((await fetch(`${base}/health`)).status).toBe(200);
+
+    const missing = await fetch(`${base}/views`);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+
+    const unknown = await fetch(`${base}/views`, { headers: { authorization: 'Bearer nope' } });
+    expect(unknown.status).toBe(401);
+  });
+
+  it('answers 403 for endpoints outside the client roles', async () => {
+    const allowed = await fetch(`${base}/views?q=`, { headers: { 'x-api-key': 'viewer-token' } });
+    expect(allowed.status).toBe(200);
+
+    const denied = await fetch(`${base}/elements?q=`, { headers: { 'x-api-key': 'viewer-token' } });
+    expect(denied.status).toBe(403);
+    expect(await denied.text()).toContain('may not call SearchElements');
+  });
+});
+
+describe('MCP authentication', () => {
+  let server: http.Server;
+  let sessions: SessionManager;
+  let stop: () => Promise<void>;
+  let url: URL;
+
+  beforeAll(async () => {
+    process.env.MODEL_PATH = join(__dirname, 'fixtures', 'model-with-views.xml');
+    appService.reset();
+    appService.config.auth = {
+      tokens: [
+        { name: 'assistant', token: 'read-token', roles: ['read'] },
+        { name: 'agent', token: 'write-token', roles: ['write'] },
+        { name: 'index', token: 'search-token', roles: ['searcher'] }
+      ],
+      roles: { searcher: ['SearchViews'] }
+    };
+
+    const mcp = await createMcpServer();
+    stop = mcp.stop;
+    sessions = new SessionManager(mcp.createSessionServer);
+    server = http.createServer(async (req, res) => {
+      if (!appService.auth.authenticateRequest(req, res, true)) return;
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined;
+      await sessions.handleRequest(req, res, body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterAll(async () => {
+    await sessions.closeAll();
+    await stop();
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    delete process.env.MODEL_PATH;
+    appService.reset();
+  });
+
+  async function connect(token: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: { authorization: `Bearer ${token}` } } });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  it('rejects clients without a valid token', async () => {
+    await expect(connect('wrong')).rejects.toThrow();
+  });
+
+  it('lets a read-only client read but not edit the model', async () => {
+    const { client } = await connect('read-token');
+    try {
+      const read = await client.callTool({ name: 'SearchViews', arguments: { query: 'Application' } });
+      expect(read.isError).toBeFalsy();
+
+      const write = await client.callTool({ name: 'DeleteElement', arguments: { identifier: 'view-elem-1' } });
+      expect(write.isError).toBe(true);
+      expect(JSON.stringify(write.content)).toContain('Access denied');
+      expect(appService.tools.loader.load().elements.some(e => e.id === 'view-elem-1')).toBe(true);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('allows resources and prompts only to clients that may call the matching read tools', async () => {
+    const reader = await connect('read-token');
+    const searcher = await connect('search-token');
+    try {
+      const view = await reader.client.readResource({ uri: 'archimate://view/view-1' });
+      expect(view.contents[0].text).toContain('Application Cooperation View');
+      expect((await reader.client.getPrompt({ name: 'onboard-to-component', arguments: { element: 'Customer Portal' } })).messages).toHaveLength(1);
+
+      // Views are listed, elements are left out, and nothing can be read
+      const listed = (await searcher.client.listResources()).resources.map(r => r.uri);
+      expect(listed).toContain('archimate://view/view-1');
+      expect(listed.some(uri => uri.startsWith('archimate://element/'))).toBe(false);
+      await expect(searcher.client.readResource({ uri: 'archimate://view/view-1' })).rejects.toThrow('may not call GetViewDetails');
+      await expect(searcher.client.readResource({ uri: 'archimate://element/view-elem-2' })).rejects.toThrow('may not call GetElementDetails');
+      await expect(searcher.client.subscribeResource({ uri: 'archimate://element/view-elem-2' })).rejects.toThrow('Access denied');
+      await expect(searcher.client.getPrompt({ name: 'explain-view', arguments: { view: 'Application Cooperation View' } })).rejects.toThrow('Access denied');
+    } finally {
+      await reader.client.close();
+      await searcher.client.close();
+    }
+  });
+
+  it('keeps a session to the client that started it', async () => {
+    const { client, transport } = await connect('read-token');
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          authorization: 'Bearer write-token',
+          'mcp-session-id': transport.sessionId!
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      });
+      expect(response.status).toBe(403);
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -50,4 +50,65 @@ describe('HTTP integration', () => {
     const text = await res.text();
     expect(text).toContain('ArchiMate View name: Application Cooperation View');
   });
+
+  it('GET /elements pages through the results', async () => {
+    const first = await fetch(`http://localhost:${port}/elements?limit=3&sort=name`);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('x-total-count')).toBe('4');
+    const cursor = first.headers.get('x-next-cursor')!;
+    expect(await first.text()).toContain('- Backend Service (ApplicationComponent)\n- Customer (BusinessActor)\n- Customer Portal (ApplicationComponent)');
+
+    const second = await fetch(`http://localhost:${port}/elements?limit=3&sort=name&cursor=${cursor}`);
+    expect(second.headers.get('x-next-cursor')).toBeNull();
+    const text = await second.text();
+    expect(text).toContain('- Database Server (Device)');
+    expect(text).toContain('_Showing 4–4 of 4_');
+  });
+
+  it('GET /elements answers 400 for a malformed cursor, limit or sort', async () => {
+    const badCursor = await fetch(`http://localhost:${port}/elements?cursor=not-a-cursor`);
+    expect(badCursor.status).toBe(400);
+    expect(await badCursor.text()).toBe('Invalid cursor');
+
+    const badLimit = await fetch(`http://localhost:${port}/views?limit=ten`);
+    expect(badLimit.status).toBe(400);
+    expect(await badLimit.text()).toBe('limit must be a positive integer');
+
+    const badSort = await fetch(`http://localhost:${port}/elements?sort=foo`);
+    expect(badSort.status).toBe(400);
+    expect(await badSort.text()).toBe('Unknown sort: foo (expected relevance, name, type or model)');
+  });
+
+  it('GET /diff compares two model files', async () => {
+    const otherModelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+    const res = await fetch(`http://localhost:${port}/diff?target=${encodeURIComponent(otherModelPath)}&format=json`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    const diff = await res.json();
+    expect(diff.identical).toBe(false);
+    expect(diff.elements.added.map((e: any) => e.id)).toContain('elem-business-actor-1');
+
+    const unchanged = await fetch(`http://localhost:${port}/diff`);
+    expect(await unchanged.text()).toContain('No structural differences.');
+  });
+
+  it('serves only the endpoints of the read-only tools in read-only mode', async () => {
+    const otherModelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+    process.env.READ_ONLY = 'true';
+    try {
+      appService.reset();
+      const refused = await fetch(`http://localhost:${port}/diff?target=${encodeURIComponent(otherModelPath)}`);
+      expect(refused.status).toBe(404);
+      expect((await fetch(`http://localhost:${port}/views?q=Application`)).status).toBe(200);
+
+      process.env.READ_ONLY_TOOLS = 'SearchViews,GetViewDetails';
+      appService.reset();
+      expect((await fetch(`http://localhost:${port}/views?q=Application`)).status).toBe(200);
+      expect((await fetch(`http://localhost:${port}/elements`)).status).toBe(404);
+    } finally {
+      delete process.env.READ_ONLY;
+      delete process.env.READ_ONLY_TOOLS;
+      appService.reset();
+    }
+  });
 });
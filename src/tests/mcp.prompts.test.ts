@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createTools } from '../../src/mcp/tools';
+import { createPrompts } from '../../src/mcp/prompts';
+import { loadConfig } from '../../src/config';
+import { getLogger } from '../../src/utils/logger';
+import { join } from 'path';
+
+describe('MCP prompts', () => {
+  const modelPath = join(__dirname, 'fixtures', 'model-with-views.xml');
+  const disclaimer = loadConfig().disclaimerPrefix || '';
+
+  it('explain-view embeds the view markdown after the disclaimer', async () => {
+    const prompts = createPrompts(createTools(modelPath));
+    const result = await prompts.explainView({ view: 'Application Cooperation', audience: 'a product owner' });
+
+    expect(result.description).toBe('Explain the view "Application Cooperation"');
+    expect(result.messages).toHaveLength(1);
+    const text = result.messages[0].content.text;
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toMatch(/^Explain the ArchiMate view below to a product owner\./);
+    expect(text).toContain(disclaimer + '# ArchiMate View name: Application Cooperation View');
+    expect(text).toContain('### Backend Service');
+  });
+
+  it('draft-adr-from-view records the given decision', async () => {
+    const prompts = createPrompts(createTools(modelPath));
+    const result = await prompts.draftAdrFromView({ view: 'Application Cooperation View', decision: 'Split the portal from the backend' });
+    expect(result.messages[0].content.text).toContain('The decision to record: Split the portal from the backend');
+    expect(result.messages[0].content.text).toContain('Alternatives Considered');
+  });
+
+  it('onboard-to-component embeds the element details', async () => {
+    const prompts = createPrompts(createTools(modelPath));
+    const result = await prompts.onboardToComponent({ element: 'Customer Portal' });
+    expect(result.messages[0].content.text).toContain(disclaimer + '# ArchiMate Element: Customer Portal');
+  });
+
+  it('renders from the model without running the tool handlers', async () => {
+    const audit = vi.spyOn(getLogger(), 'auditToolInvocation');
+    try {
+      const prompts = createPrompts(createTools(modelPath));
+      await prompts.explainView({ view: 'Application Cooperation' });
+      await prompts.onboardToComponent({ element: 'Customer Portal' });
+      expect(audit).not.toHaveBeenCalled();
+    } finally {
+      audit.mockRestore();
+    }
+  });
+
+  it('only points to tools the server exposes', async () => {
+    const all = createPrompts(createTools(modelPath));
+    expect((await all.reviewForGaps({ view: 'Application Cooperation' })).messages[0].content.text).toContain('Use ValidateModel');
+    expect((await all.onboardToComponent({ element: 'Customer Portal' })).messages[0].content.text).toContain('Use AnalyzeImpact');
+
+    const readOnly = createPrompts(createTools(modelPath), tool => tool.startsWith('Search') || tool.startsWith('Get'));
+    expect((await readOnly.reviewForGaps({ view: 'Application Cooperation' })).messages[0].content.text).not.toContain('ValidateModel');
+    const onboard = (await readOnly.onboardToComponent({ element: 'Customer Portal' })).messages[0].content.text;
+    expect(onboard).toContain('Use GetViewDetails for those views.');
+    expect(onboard).not.toContain('AnalyzeImpact');
+  });
+
+  it('rejects unknown views and elements', async () => {
+    const prompts = createPrompts(createTools(modelPath));
+    await expect(prompts.reviewForGaps({ view: 'No Such View' })).rejects.toThrow('View not found: No Such View');
+    await expect(prompts.onboardToComponent({ element: 'No Such Element' })).rejects.toThrow('Element not found: No Such Element');
+  });
+});
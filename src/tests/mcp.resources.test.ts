@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { createTools } from '../../src/mcp/tools';
+import { createResources, parseResourceUri, resourceUri } from '../../src/mcp/resources';
+import { join } from 'path';
+import { copyFileSync, existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+
+// Let the resources compare the model after the loader dropped its cache
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MCP resources', () => {
+  const fixturePath = join(__dirname, 'fixtures', 'model-with-views.xml');
+  const TEMP_DIR = join(tmpdir(), 'archiscribe-resource-tests');
+  const modelPath = join(TEMP_DIR, 'model.xml');
+
+  beforeAll(() => {
+    mkdirSync(TEMP_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(modelPath)) unlinkSync(modelPath);
+  });
+
+  it('builds and parses resource URIs', () => {
+    expect(resourceUri('view', 'view-1')).toBe('archimate://view/view-1');
+    expect(parseResourceUri('archimate://element/id%201')).toEqual({ kind: 'element', id: 'id 1' });
+    expect(parseResourceUri('file:///model.xml')).toBeUndefined();
+  });
+
+  it('lists and reads views and elements', () => {
+    const resources = createResources(createTools(fixturePath));
+
+    expect(resources.listViews().map(r => r.uri)).toEqual(['archimate://view/view-1', 'archimate://view/view-2']);
+    expect(resources.listElements()).toContainEqual({
+      uri: 'archimate://element/view-elem-2',
+      name: 'Customer Portal',
+      description: 'ApplicationComponent',
+      mimeType: 'text/markdown'
+    });
+
+    const view = resources.readResource('archimate://view/view-1');
+    expect(view.mimeType).toBe('text/markdown');
+    expect(view.text).toContain('# ArchiMate View name: Application Cooperation View');
+    expect(resources.readResource('archimate://element/view-elem-3').text).toContain('Backend Service');
+
+    expect(() => resources.readResource('archimate://view/missing')).toThrow('Resource not found');
+    expect(() => resources.readResource('https://example.com/view')).toThrow('Unknown resource URI');
+  });
+
+  it('notifies subscribers of resources changed by a save', async () => {
+    copyFileSync(fixturePath, modelPath);
+    const tools = createTools(modelPath);
+    const resources = createResources(tools);
+    const updated: string[] = [];
+    resources.onUpdated(uri => updated.push(uri));
+
+    resources.subscribe('archimate://element/view-elem-2');
+    resources.subscribe('archimate://element/view-elem-4');
+    expect(resources.getSubscriptions()).toHaveLength(2);
+
+    await tools.updateElementHandler({ identifier: 'view-elem-2', name: 'Self-Service Portal' });
+    await tools.saveModelHandler({ createBackup: false, validate: false });
+    await settle();
+
+    expect(updated).toEqual(['archimate://element/view-elem-2']);
+
+    resources.unsubscribe('archimate://element/view-elem-2');
+    await tools.updateElementHandler({ identifier: 'view-elem-2', name: 'Portal' });
+    await tools.saveModelHandler({ createBackup: false, validate: false });
+    await settle();
+    expect(updated).toHaveLength(1);
+
+    resources.subscribe('archimate://element/view-elem-2');
+    resources.dispose();
+    await tools.updateElementHandler({ identifier: 'view-elem-2', name: 'Customer Portal' });
+    await tools.saveModelHandler({ createBackup: false, validate: false });
+    await settle();
+    expect(updated).toHaveLength(1);
+  });
+
+  it('notifies when the file changes on disk and the list of concepts changes', async () => {
+    copyFileSync(fixturePath, modelPath);
+    const tools = createTools(modelPath);
+    const resources = createResources(tools);
+    const updated: string[] = [];
+    let listChanged = 0;
+    resources.onUpdated(uri => updated.push(uri));
+    resources.onListChanged(() => listChanged++);
+    resources.subscribe('archimate://view/view-2');
+
+    // Remove the second view, as another tool editing the file would
+    const xml = readFileSync(modelPath, 'utf8');
+    writeFileSync(modelPath, xml.replace(/<view identifier="view-2"[\s\S]*?<\/view>/, ''), 'utf8');
+    tools.loader.reload();
+    await settle();
+
+    expect(updated).toEqual(['archimate://view/view-2']);
+    expect(listChanged).toBe(1);
+    expect(() => resources.readResource('archimate://view/view-2')).toThrow('Resource not found');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { SessionManager, SessionEventStore } from '../../src/mcp/sessions';
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('MCP HTTP sessions', () => {
+  let servers: McpServer[];
+  let disposed: number;
+  let sessions: SessionManager;
+  let http: Server;
+  let url: URL;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    servers = [];
+    disposed = 0;
+    clients = [];
+    sessions = new SessionManager(() => {
+      const server = new McpServer({ name: 'test', version: '1.0.0' }, { capabilities: { tools: { listChanged: true } } });
+      server.registerTool('Echo', { description: 'Echo' }, async () => ({ content: [{ type: 'text', text: 'echo' }] }));
+      servers.push(server);
+      return { server, dispose: () => { disposed++; } };
+    }, { idleTimeoutMs: 60_000 });
+
+    http = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined;
+      await sessions.handleRequest(req, res, body);
+    });
+    await new Promise<void>(resolve => http.listen(0, '127.0.0.1', resolve));
+    url = new URL(`http://127.0.0.1:${(http.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterEach(async () => {
+    for (const client of clients) await client.close().catch(() => undefined);
+    await sessions.closeAll();
+    http.closeAllConnections();
+    await new Promise(resolve => http.close(resolve));
+  });
+
+  async function connect(): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url);
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  it('keeps a session per client and sends notifications on its stream', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(sessions.size).toBe(2);
+    expect((await first.client.listTools()).tools.map(t => t.name)).toEqual(['Echo']);
+
+    let notified = 0;
+    first.client.setNotificationHandler(ToolListChangedNotificationSchema, async () => { notified++; });
+    await waitFor(() => sessions.listSessions().every(s => s.openStreams === 1));
+    servers[0].sendToolListChanged();
+    await waitFor(() => notified === 1);
+  });
+
+  it('ends a session on DELETE and rejects its ID afterwards', async () => {
+    const { transport } = await connect();
+    const sessionId = transport.sessionId!;
+    await transport.terminateSession();
+    expect(sessions.size).toBe(0);
+    expect(disposed).toBe(1);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', 'mcp-session-id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('requires an initialize request to start a session', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(response.status).toBe(400);
+    expect(sessions.size).toBe(0);
+  });
+
+  it('expires idle sessions without an open stream', async () => {
+    const { transport } = await connect();
+    await waitFor(() => sessions.listSessions()[0].openStreams === 1);
+    expect(await sessions.expireIdleSessions(Date.now() + 120_000)).toEqual([]);
+
+    // Close the notification stream, as a client that went away would
+    await transport.close();
+    await waitFor(() => sessions.listSessions()[0].openStreams === 0);
+    expect(await sessions.expireIdleSessions(Date.now() + 120_000)).toHaveLength(1);
+    expect(sessions.size).toBe(0);
+    expect(disposed).toBe(1);
+  });
+});
+
+describe('SessionEventStore', () => {
+  const message = (id: number) => ({ jsonrpc: '2.0' as const, method: 'notifications/message', params: { id } });
+
+  it('replays the later events of the same stream', async () => {
+    const store = new SessionEventStore();
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('b', message(2));
+    const third = await store.storeEvent('a', message(3));
+
+    const replayed: string[] = [];
+    const streamId = await store.replayEventsAfter(first, { send: async eventId => { replayed.push(eventId); } });
+    expect(streamId).toBe('a');
+    expect(replayed).toEqual([third]);
+    expect(await store.getStreamIdForEventId(third)).toBe('a');
+  });
+
+  it('keeps only the last events', async () => {
+    const store = new SessionEventStore(2);
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('a', message(2));
+    await store.storeEvent('a', message(3));
+
+    expect(await store.getStreamIdForEventId(first)).toBeUndefined();
+    expect(await store.replayEventsAfter(first, { send: async () => undefined })).toBe('');
+  });
+});
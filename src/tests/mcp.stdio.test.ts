@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { join } from 'path';
+import { isStdioMode, redirectConsoleToStderr, runStdioServer } from '../../src/mcp/stdio';
+import { appService } from '../../src/services/app';
+
+describe('stdio transport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('is chosen by a CLI flag or the transport setting', () => {
+    expect(isStdioMode(['node', 'index.js', '--stdio'], 'http')).toBe(true);
+    expect(isStdioMode(['node', 'index.js', '--transport=stdio'], undefined)).toBe(true);
+    expect(isStdioMode(['node', 'index.js'], 'stdio')).toBe(true);
+    expect(isStdioMode(['node', 'index.js', '--http'], 'stdio')).toBe(false);
+    expect(isStdioMode(['node', 'index.js'], 'http')).toBe(false);
+  });
+
+  it('sends console output to stderr', () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const restore = redirectConsoleToStderr();
+    try {
+      console.log('registered %s', 'SearchViews');
+      console.info('info');
+    } finally {
+      restore();
+    }
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).toHaveBeenCalledWith('registered SearchViews\n');
+    expect(stderr).toHaveBeenCalledWith('info\n');
+  });
+
+  it('answers MCP requests on stdout with protocol messages only', async () => {
+    process.env.MODEL_PATH = join(__dirname, 'fixtures', 'model-with-views.xml');
+    appService.reset();
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    const stdin = new PassThrough();
+    const stdout = new PassThrough();
+    let output = '';
+    stdout.on('data', chunk => { output += chunk; });
+
+    const stop = await runStdioServer({ stdin, stdout });
+    try {
+      const send = (message: object) => stdin.write(JSON.stringify(message) + '\n');
+      send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } } });
+      send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+      send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+      for (let i = 0; i < 200 && output.split('\n').filter(Boolean).length < 2; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    } finally {
+      await stop();
+      delete process.env.MODEL_PATH;
+      appService.reset();
+    }
+
+    const messages = output.split('\n').filter(Boolean).map(line => JSON.parse(line));
+    expect(messages.map(m => m.id)).toEqual([1, 2]);
+    expect(messages[0].result.serverInfo.name).toBe('ArchiScribe MCP');
+    expect(messages[1].result.tools.map((t: { name: string }) => t.name)).toContain('GetViewDetails');
+  });
+
+  it('removes its resource listeners when stopped', async () => {
+    process.env.MODEL_PATH = join(__dirname, 'fixtures', 'model-with-views.xml');
+    appService.reset();
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const listeners = () => (appService.tools.loader as any).invalidationListeners.length;
+
+    try {
+      const before = listeners();
+      const stop = await runStdioServer({ stdin: new PassThrough(), stdout: new PassThrough() });
+      expect(listeners()).toBeGreaterThan(before);
+      await stop();
+      expect(listeners()).toBe(before);
+    } finally {
+      delete process.env.MODEL_PATH;
+      appService.reset();
+    }
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeAll, afterEach } from 'vitest';
 import { createTools } from '../../src/mcp/tools';
+import { ModelLoader } from '../../src/model/loader';
 import { join } from 'path';
-import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { existsSync, unlinkSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
 
 describe('MCP tools', () => {
@@ -23,6 +24,19 @@ describe('MCP tools', () => {
     expect(result.id && result.id.length).toBeGreaterThan(0);
   });
 
+  it('getViewDetailsHandler summarizes a view to fit maxTokens', async () => {
+    const modelPath = join(__dirname, '..', '..', 'data', 'archimate-scribe-demo-model.xml');
+    const tools = createTools(modelPath);
+    const result = await tools.getViewDetailsHandler({ viewname: 'Dataflow View', maxTokens: 150 });
+    expect(result.detail).toBe('summary');
+    expect(result.markdown).toContain('## Elements (4)');
+    expect(result.markdown).toContain('Summarized to fit 150 tokens');
+
+    const full = await tools.getViewDetailsHandler({ viewname: 'Dataflow View' });
+    expect(full.detail).toBe('full');
+    await expect(tools.getViewDetailsHandler({ viewname: 'Dataflow View', maxTokens: 0 })).rejects.toThrow('maxTokens must be a positive integer');
+  });
+
   it('searchElementsHandler returns markdown', async () => {
     const modelPath = join(__dirname, '..', '..', 'data', 'archimate-scribe-demo-model.xml');
     const tools = createTools(modelPath);
@@ -188,3 +202,313 @@ describe('CreateModel tool', () => {
     expect(pathResult.modified).toBe(false);
   });
 });
+
+describe('BatchOperations tool', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('batchOperationsHandler applies all steps in one transaction', async () => {
+    const tools = createTools(modelPath);
+    const result = await tools.batchOperationsHandler({
+      operations: [
+        { action: 'createElement', type: 'BusinessRole', name: 'Buyer', identifier: 'batch-role' },
+        { action: 'createRelationship', type: 'Assignment', sourceId: 'elem-business-actor-1', targetId: 'batch-role' },
+        { action: 'createView', name: 'Buyers', identifier: 'batch-view', elements: ['batch-role'] }
+      ]
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.results.map(r => r.action)).toEqual(['createElement', 'createRelationship', 'createView']);
+    expect(result.markdown).toContain('3 operation(s) were applied in one transaction');
+    expect(tools.manipulator.getView('batch-view')!.elements).toEqual(['batch-role']);
+  });
+
+  it('batchOperationsHandler applies nothing when a step fails', async () => {
+    const tools = createTools(modelPath);
+    const elementCount = tools.manipulator.getModel().elements.length;
+
+    await expect(tools.batchOperationsHandler({
+      operations: [
+        { action: 'createElement', type: 'BusinessRole', name: 'Buyer', identifier: 'batch-role' },
+        { action: 'deleteElement', identifier: 'missing-element' }
+      ]
+    })).rejects.toThrow('Step 2 (deleteElement) failed');
+
+    expect(tools.manipulator.getModel().elements.length).toBe(elementCount);
+    expect(tools.manipulator.isModified()).toBe(false);
+  });
+
+  it('read tools see the rolled back model after a failed batch', async () => {
+    const tools = createTools(modelPath);
+
+    await expect(tools.batchOperationsHandler({
+      operations: [
+        { action: 'createElement', type: 'ApplicationComponent', name: 'Zebra Component', identifier: 'zebra-1' },
+        { action: 'deleteElement', identifier: 'missing-element' }
+      ]
+    })).rejects.toThrow('Step 2 (deleteElement) failed');
+
+    expect((await tools.searchElementsHandler({ query: 'Zebra Component' })).markdown).not.toContain('zebra-1');
+    expect((await tools.getElementDetailsHandler({ elementname: 'Zebra Component' })).markdown).toContain('Element not found');
+
+    await tools.createElementHandler({ type: 'ApplicationComponent', name: 'Okapi Component', identifier: 'okapi-1' });
+    expect((await tools.searchElementsHandler({ query: 'Okapi Component' })).markdown).toContain('Okapi Component');
+    expect((await tools.getElementDetailsHandler({ elementname: 'Okapi Component' })).id).toBe('okapi-1');
+  });
+});
+
+describe('Edit history tools', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('undoHandler and redoHandler replay the steps made by tool calls', async () => {
+    const tools = createTools(modelPath);
+    await tools.updateElementHandler({ identifier: 'elem-business-actor-1', name: 'Client' });
+    await tools.deleteRelationshipHandler({ identifier: 'rel-serving-1' });
+
+    const history = await tools.getEditHistoryHandler();
+    expect(history.undoable.map(s => s.source)).toEqual(['DeleteRelationship', 'UpdateElement']);
+    expect(history.markdown).toContain('### Step 1: UpdateElement');
+    expect(history.markdown).toContain('name: "Customer" → "Client"');
+
+    const undone = await tools.undoHandler({ steps: 5 });
+    expect(undone.steps.map(s => s.source)).toEqual(['DeleteRelationship', 'UpdateElement']);
+    expect(undone.markdown).toContain('2 step(s) were undone');
+    expect(tools.manipulator.getRelationship('rel-serving-1')).not.toBeNull();
+    expect(tools.manipulator.getElement('elem-business-actor-1')!.name).toBe('Customer');
+
+    const redone = await tools.redoHandler({});
+    expect(redone.steps[0].changes).toEqual(['Updated element "Client" (BusinessActor) `elem-business-actor-1`: name: "Customer" → "Client"']);
+    await expect(tools.undoHandler({ steps: 2 })).resolves.toMatchObject({ success: true });
+    await expect(tools.undoHandler({})).rejects.toThrow('There are no edits to undo');
+  });
+});
+
+describe('DiffModels tool', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('diffModelsHandler shows the unsaved changes by default', async () => {
+    const tools = createTools(modelPath);
+    await tools.updateElementHandler({ identifier: 'elem-business-actor-1', name: 'Client' });
+
+    const result = await tools.diffModelsHandler({});
+    expect(result.identical).toBe(false);
+    expect(result.diff.elements.changed.map(e => e.id)).toEqual(['elem-business-actor-1']);
+    expect(result.markdown).toContain('# Model Diff');
+    expect(result.markdown).toContain('current model (in memory)');
+
+    const json = await tools.diffModelsHandler({ format: 'json' });
+    expect(json.markdown).toContain('"field": "name"');
+    await expect(tools.diffModelsHandler({ targetPath: join(__dirname, 'fixtures', 'missing.xml') })).rejects.toThrow('Path validation failed');
+  });
+
+  it('diffModelsHandler fails for a file that is not a model', async () => {
+    const tools = createTools(modelPath);
+    const dir = join(tmpdir(), 'archiscribe-diff-tests');
+    mkdirSync(dir, { recursive: true });
+    const garbagePath = join(dir, 'garbage.xml');
+    const notModelPath = join(dir, 'not-a-model.xml');
+    writeFileSync(garbagePath, '<model><elements><element></model', 'utf8');
+    writeFileSync(notModelPath, '<catalog><book id="1"/></catalog>', 'utf8');
+    try {
+      await expect(tools.diffModelsHandler({ targetPath: garbagePath })).rejects.toThrow(`Cannot parse model file ${garbagePath}`);
+      await expect(tools.diffModelsHandler({ basePath: notModelPath })).rejects.toThrow('missing model root element');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MergeModels tool', () => {
+  const basePath = join(__dirname, 'fixtures', 'basic-model.xml');
+  const TEMP_DIR = join(tmpdir(), 'archiscribe-merge-tests');
+  const oursPath = join(TEMP_DIR, 'ours.xml');
+  const theirsPath = join(TEMP_DIR, 'theirs.xml');
+  const outputPath = join(TEMP_DIR, 'merged.xml');
+
+  beforeAll(() => {
+    mkdirSync(TEMP_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    for (const path of [oursPath, theirsPath, outputPath]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  const saveVersion = async (path: string, name: string) => {
+    const tools = createTools(basePath);
+    await tools.updateElementHandler({ identifier: 'elem-business-actor-1', name });
+    await tools.manipulator.save(path, { createBackup: false, validate: false });
+  };
+
+  it('mergeModelsHandler reports conflicts and writes the merge only when a side is preferred', async () => {
+    await saveVersion(oursPath, 'Client');
+    await saveVersion(theirsPath, 'Buyer');
+    const tools = createTools(basePath);
+
+    const result = await tools.mergeModelsHandler({ basePath, oursPath, theirsPath, outputPath });
+    expect(result.success).toBe(false);
+    expect(result.conflicts).toMatchObject([{ kind: 'both-modified', entityId: 'elem-business-actor-1', field: 'name', ours: 'Client', theirs: 'Buyer' }]);
+    expect(result.markdown).toContain('Nothing was written');
+    expect(existsSync(outputPath)).toBe(false);
+
+    const merged = await tools.mergeModelsHandler({ basePath, oursPath, theirsPath, outputPath, prefer: 'theirs' });
+    expect(merged.success).toBe(true);
+    expect(merged.markdown).toContain('Resolution: theirs');
+    expect(createTools(outputPath).manipulator.getElement('elem-business-actor-1')!.name).toBe('Buyer');
+
+    await expect(tools.mergeModelsHandler({ basePath, oursPath, theirsPath, outputPath, prefer: 'theirs' })).rejects.toThrow('File already exists');
+  });
+
+  it('mergeModelsHandler fails without writing when a side is not a model', async () => {
+    await saveVersion(oursPath, 'Client');
+    writeFileSync(theirsPath, '<model><elements><element identifier="x"></model', 'utf8');
+    const tools = createTools(basePath);
+
+    await expect(tools.mergeModelsHandler({ basePath, oursPath, theirsPath, outputPath, prefer: 'ours' })).rejects.toThrow(`Cannot parse model file ${theirsPath}`);
+    expect(existsSync(outputPath)).toBe(false);
+  });
+
+  it('mergeModelsHandler writes Archi native format for a .archimate output', async () => {
+    const archiOutputPath = join(TEMP_DIR, 'merged.archimate');
+    await saveVersion(oursPath, 'Client');
+    await saveVersion(theirsPath, 'Client');
+    try {
+      const result = await createTools(basePath).mergeModelsHandler({ basePath, oursPath, theirsPath, outputPath: archiOutputPath });
+      expect(result.success).toBe(true);
+      expect(readFileSync(archiOutputPath, 'utf8')).toContain('<archimate:model');
+      const reloaded = new ModelLoader(archiOutputPath, { watch: false }).loadStrict();
+      expect(reloaded.format).toBe('archi');
+      expect(reloaded.elements.find(e => e.id === 'elem-business-actor-1')!.name).toBe('Client');
+    } finally {
+      if (existsSync(archiOutputPath)) unlinkSync(archiOutputPath);
+    }
+  });
+});
+
+describe('AnalyzeImpact tool', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('analyzeImpactHandler finds the start element by name and filters by relationship type', async () => {
+    const tools = createTools(modelPath);
+
+    const all = await tools.analyzeImpactHandler({ identifier: 'elem-technology-device-1' });
+    expect(all.analysis.elements.map(e => e.id)).toEqual(['elem-application-component-1', 'elem-business-actor-1']);
+    expect(all.markdown).toContain('# Impact Analysis');
+
+    const serving = await tools.analyzeImpactHandler({ elementname: 'customer portal', direction: 'incoming', relationshipTypes: ['Serving'] });
+    expect(serving.analysis.start.id).toBe('elem-application-component-1');
+    expect(serving.analysis.elements).toEqual([]);
+    expect(serving.markdown).toContain('No elements are affected.');
+
+    await expect(tools.analyzeImpactHandler({ elementname: 'Missing' })).rejects.toThrow('Element not found: Missing');
+  });
+});
+
+describe('FindPaths tool', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('findPathsHandler finds the elements by name and renders the paths', async () => {
+    const tools = createTools(modelPath);
+
+    const result = await tools.findPathsHandler({ sourceName: 'Web Server', targetName: 'Customer' });
+    expect(result.search.paths.map(p => p.hops)).toEqual([2]);
+    expect(result.markdown).toContain('**Web Server** —[Assignment "Hosts"]→ **Customer Portal** —[Serving "Serves"]→ **Customer**');
+
+    await expect(tools.findPathsHandler({ sourceId: 'elem-business-actor-1', targetName: 'Customer' })).rejects.toThrow('Source and target are the same element');
+    await expect(tools.findPathsHandler({ sourceName: 'Web Server' })).rejects.toThrow('targetId or targetName required');
+  });
+});
+
+describe('GetDerivedRelationships tool', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('getDerivedRelationshipsHandler lists derived relationships between two elements', async () => {
+    const tools = createTools(modelPath);
+
+    const result = await tools.getDerivedRelationshipsHandler({ sourceName: 'Web Server', targetName: 'Customer' });
+    expect(result.derived.map(d => [d.type, d.kind])).toEqual([['Serving', 'valid']]);
+    expect(result.markdown).toContain('# Derived Relationships: Web Server → Customer');
+
+    const none = await tools.getDerivedRelationshipsHandler({ sourceId: 'elem-business-actor-1' });
+    expect(none.markdown).toContain('No derived relationships.');
+  });
+});
+
+describe('QueryModel tool', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('queryModelHandler returns a Markdown table or JSON', async () => {
+    const tools = createTools(modelPath);
+
+    const result = await tools.queryModelHandler({ query: 'MATCH (d:Device)-[:Assignment]->(c)-[:Serving]->(a) RETURN d.name, c.name, a.name' });
+    expect(result.rows).toEqual([['Web Server', 'Customer Portal', 'Customer']]);
+    expect(result.markdown).toContain('| d.name | c.name | a.name |');
+
+    const json = await tools.queryModelHandler({ query: 'MATCH (e) RETURN count(*) AS elements', format: 'json' });
+    expect(json.markdown).toContain('```json');
+    expect(json.rows).toEqual([[3]]);
+
+    await expect(tools.queryModelHandler({ query: 'MATCH (e RETURN e' })).rejects.toThrow('Expected');
+  });
+});
+
+describe('Ranked search', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('searchElementsHandler tolerates typos and follows edits to the model', async () => {
+    const tools = createTools(modelPath);
+
+    const result = await tools.searchElementsHandler({ query: 'custmer portal' });
+    expect(result.markdown).toMatch(/- Customer Portal \(ApplicationComponent\) — score [\d.]+\n {2}- name: \*\*Customer\*\* \*\*Portal\*\*/);
+    expect(result.markdown.indexOf('Customer Portal')).toBeLessThan(result.markdown.indexOf('Customer (BusinessActor)'));
+
+    await tools.createElementHandler({ type: 'BusinessRole', name: 'Customer Support Agent' });
+    const after = await tools.searchElementsHandler({ query: 'suport', type: 'BusinessRole' });
+    expect(after.markdown).toContain('- Customer Support Agent (BusinessRole)');
+    expect(after.markdown).not.toContain('Customer Portal');
+  });
+});
+
+describe('SemanticSearch tool', () => {
+  const modelPath = join(__dirname, 'fixtures', 'basic-model.xml');
+
+  it('semanticSearchHandler explains how to enable semantic search', async () => {
+    const tools = createTools(modelPath);
+    await expect(tools.semanticSearchHandler({ query: 'payments' })).rejects.toThrow('Semantic search is disabled');
+    await expect(tools.semanticSearchHandler({ query: ' ' })).rejects.toThrow('query is required');
+  });
+});
+
+describe('Search pagination', () => {
+  const modelPath = join(__dirname, 'fixtures', 'model-with-views.xml');
+
+  it('searchElementsHandler returns pages with totalCount and nextCursor', async () => {
+    const tools = createTools(modelPath);
+
+    const first = await tools.searchElementsHandler({ limit: 2 });
+    expect(first.totalCount).toBe(4);
+    expect(first.markdown).toContain('- Customer (BusinessActor)\n- Customer Portal (ApplicationComponent)');
+    expect(first.markdown).toContain('_Showing 1–2 of 4_');
+    expect(first.markdown).toContain(`cursor: "${first.nextCursor}"`);
+
+    const second = await tools.searchElementsHandler({ limit: 2, cursor: first.nextCursor });
+    expect(second.markdown).toContain('- Backend Service (ApplicationComponent)\n- Database Server (Device)');
+    expect(second.nextCursor).toBeUndefined();
+
+    const byType = await tools.searchElementsHandler({ sort: 'type', offset: 1, limit: 1 });
+    expect(byType.markdown).toContain('- Customer Portal (ApplicationComponent)');
+
+    await expect(tools.searchElementsHandler({ query: 'customer', cursor: first.nextCursor })).rejects.toThrow('Cursor belongs to another search');
+    await expect(tools.searchElementsHandler({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+  });
+
+  it('searchViewsHandler sorts ranked matches by name when asked', async () => {
+    const tools = createTools(modelPath);
+
+    const result = await tools.searchViewsHandler({ query: 'view', sort: 'name' });
+    expect(result.totalCount).toBe(2);
+    expect(result.nextCursor).toBeUndefined();
+    expect(result.markdown).toContain('_Matches for "view", sorted by name_');
+    expect(result.markdown).not.toContain('Showing');
+  });
+});
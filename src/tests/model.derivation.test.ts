@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { NotFoundError } from '../model/manipulator-types';
+import { deriveRelationships, DerivedRelationship } from '../model/derivation';
+import { renderElementDetailsMarkdownFromModel, renderDerivedRelationshipsMarkdown } from '../renderer';
+import { join } from 'path';
+
+// Web Server -Assignment-> Customer Portal -Serving-> Customer
+const FIXTURE = join(__dirname, 'fixtures', 'basic-model.xml');
+
+const summarize = (derived: DerivedRelationship[]) => derived.map(d => `${d.sourceId} ${d.type} ${d.targetId} ${d.kind} ${d.rule}`);
+
+describe('Derived relationships', () => {
+  let manipulator: ModelManipulator;
+  const element = (identifier: string, type: string) => manipulator.createElement({ identifier, type, name: identifier });
+  const relationship = (type: string, sourceId: string, targetId: string) =>
+    manipulator.createRelationship({ type, sourceId, targetId, identifier: `${sourceId}-${type}-${targetId}` });
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+  });
+
+  it('derives a dependency through a structural relationship (DR2)', () => {
+    const derived = deriveRelationships(manipulator.getModel());
+    expect(derived).toEqual([{
+      sourceId: 'elem-technology-device-1',
+      targetId: 'elem-business-actor-1',
+      type: 'Serving',
+      kind: 'valid',
+      rule: 'DR2',
+      chain: ['rel-assignment-1', 'rel-serving-1']
+    }]);
+  });
+
+  it('derives the weakest of a chain of structural relationships (DR1)', async () => {
+    await element('actor', 'BusinessActor');
+    await element('role', 'BusinessRole');
+    await element('process', 'BusinessProcess');
+    await element('service', 'BusinessService');
+    await relationship('Assignment', 'actor', 'role');
+    await relationship('Assignment', 'role', 'process');
+    await relationship('Realization', 'process', 'service');
+
+    const derived = deriveRelationships(manipulator.getModel(), { sourceId: 'actor' });
+    expect(summarize(derived)).toEqual([
+      'actor Assignment process valid DR1',
+      'actor Realization service valid DR1'
+    ]);
+    expect(derived[1].chain).toEqual(['actor-Assignment-role', 'role-Assignment-process', 'process-Realization-service']);
+  });
+
+  it('moves a dependency on a part to the whole (DR3) and reports potential derivations apart', async () => {
+    await element('role', 'BusinessRole');
+    await element('process', 'BusinessProcess');
+    await element('step', 'BusinessProcess');
+    await relationship('Assignment', 'role', 'process');
+    await relationship('Composition', 'process', 'step');
+    await relationship('Serving', 'elem-application-component-1', 'process');
+
+    const derived = deriveRelationships(manipulator.getModel(), { sourceId: 'elem-application-component-1' });
+    expect(summarize(derived)).toEqual([
+      'elem-application-component-1 Serving role valid DR3',
+      'elem-application-component-1 Serving step potential PDR1'
+    ]);
+    expect(summarize(deriveRelationships(manipulator.getModel(), { sourceId: 'elem-application-component-1', includePotential: false })))
+      .toEqual(['elem-application-component-1 Serving role valid DR3']);
+  });
+
+  it('filters by source, target and relationship type and skips modelled relationships', async () => {
+    await element('first', 'BusinessEvent');
+    await element('second', 'BusinessProcess');
+    await element('third', 'BusinessProcess');
+    await relationship('Triggering', 'first', 'second');
+    await relationship('Triggering', 'second', 'third');
+
+    expect(summarize(deriveRelationships(manipulator.getModel(), { targetId: 'third' }))).toEqual(['first Triggering third valid DR6']);
+    expect(deriveRelationships(manipulator.getModel(), { relationshipTypes: ['triggering'] })).toHaveLength(1);
+
+    await relationship('Triggering', 'first', 'third');
+    expect(deriveRelationships(manipulator.getModel(), { relationshipTypes: ['Triggering'] })).toEqual([]);
+    expect(() => deriveRelationships(manipulator.getModel(), { sourceId: 'missing' })).toThrow(NotFoundError);
+  });
+
+  it('lists no more derived relationships in element details than asked for', async () => {
+    // Each system composed of the portal serves the customer through it
+    for (const id of ['system-a', 'system-b', 'system-c']) {
+      await element(id, 'ApplicationComponent');
+      await relationship('Composition', id, 'elem-application-component-1');
+    }
+    const model = manipulator.getModel();
+    const customer = model.elements.find(e => e.id === 'elem-business-actor-1')!;
+
+    const details = renderElementDetailsMarkdownFromModel(model, customer, undefined, { includeDerived: true, maxDerived: 2 });
+    expect(details.match(/\(derived, DR2\)/g)).toHaveLength(2);
+    expect(details).toContain('_2 more derived relationship(s) not shown; list them with GetDerivedRelationships._');
+  });
+
+  it('shows derived relationships apart from the modelled ones', () => {
+    const model = manipulator.getModel();
+    const customer = model.elements.find(e => e.id === 'elem-business-actor-1')!;
+
+    expect(renderElementDetailsMarkdownFromModel(model, customer)).not.toContain('## Derived Relationships');
+
+    const details = renderElementDetailsMarkdownFromModel(model, customer, undefined, { includeDerived: true });
+    expect(details).toContain('## Derived Relationships');
+    expect(details).toContain('- From **Web Server**\n  - Type: Serving (derived, DR2)\n  - Via: **Web Server** —[Assignment]→ **Customer Portal** —[Serving]→ **Customer**');
+
+    const markdown = renderDerivedRelationshipsMarkdown(model, deriveRelationships(model), 'Derived Relationships');
+    expect(markdown).toContain('## Valid (1)');
+    expect(markdown).toContain('- **Web Server** —[Serving]→ **Customer** (DR2)');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { diffModels } from '../model/diff';
+import { renderModelDiffMarkdown } from '../renderer';
+import { join } from 'path';
+
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-organizations.xml');
+const PROPERTIES_FIXTURE = join(__dirname, 'fixtures', 'model-with-properties.xml');
+
+const loadFixture = (path: string = FIXTURE) => new ModelLoader(path, { watch: false }).load();
+
+describe('Model diff', () => {
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+  });
+
+  it('reports no differences for the same file', () => {
+    const diff = diffModels(loadFixture(), manipulator.getModel());
+    expect(diff.identical).toBe(true);
+    expect(renderModelDiffMarkdown(diff, 'a.xml', 'b.xml')).toContain('No structural differences.');
+  });
+
+  it('reports added, removed and changed concepts matched by identifier', async () => {
+    await manipulator.createElement({ type: 'BusinessRole', name: 'Buyer', identifier: 'role-buyer' });
+    await manipulator.updateElement('org-elem-1', { name: 'Client', documentation: 'Buys our products' });
+    await manipulator.deleteElement('org-elem-3');
+    await manipulator.createRelationship({ type: 'Assignment', sourceId: 'org-elem-1', targetId: 'role-buyer', identifier: 'rel-buyer' });
+    await manipulator.updateView('org-view-1', { name: 'Customer Overview' });
+
+    const diff = diffModels(loadFixture(), manipulator.getModel());
+    expect(diff.identical).toBe(false);
+    expect(diff.elements.added).toEqual([{ id: 'role-buyer', name: 'Buyer', type: 'BusinessRole' }]);
+    expect(diff.elements.removed).toEqual([{ id: 'org-elem-3', name: 'Billing', type: 'ApplicationComponent' }]);
+    expect(diff.elements.changed).toEqual([{
+      id: 'org-elem-1',
+      name: 'Client',
+      type: 'BusinessActor',
+      changes: [
+        { field: 'name', before: 'Customer', after: 'Client' },
+        { field: 'documentation', before: undefined, after: 'Buys our products' }
+      ]
+    }]);
+    expect(diff.relationships.added[0]).toMatchObject({ id: 'rel-buyer', type: 'Assignment', source: 'Client', target: 'Buyer' });
+    expect(diff.views.changed[0].changes).toEqual([{ field: 'name', before: 'Overview', after: 'Customer Overview' }]);
+
+    const markdown = renderModelDiffMarkdown(diff, 'saved.xml', 'current');
+    expect(markdown).toContain('- **Elements:** 1 added, 1 removed, 1 changed');
+    expect(markdown).toContain('- **Client** (BusinessActor) `org-elem-1`\n  - name: "Customer" → "Client"');
+    expect(markdown).toContain('- Assignment: **Client** → **Buyer** `rel-buyer`');
+  });
+
+  it('reports view membership changes', async () => {
+    await manipulator.addElementToView('org-view-1', 'org-elem-1');
+    await manipulator.addElementToView('org-view-1', 'org-elem-2');
+    await manipulator.addRelationshipToView('org-view-1', 'org-rel-1');
+
+    const diff = diffModels(loadFixture(), manipulator.getModel());
+    expect(diff.views.changed).toEqual([]);
+    expect(diff.viewMembership).toHaveLength(1);
+    expect(diff.viewMembership[0].addedElements.map(e => e.name)).toEqual(['Customer', 'CRM System']);
+    expect(diff.viewMembership[0].addedRelationships[0]).toMatchObject({ type: 'Serving', source: 'CRM System', target: 'Customer' });
+    expect(renderModelDiffMarkdown(diff, 'a', 'b')).toContain('- Added element **Customer** (BusinessActor) `org-elem-1`');
+  });
+
+  it('matches properties by the name of their definition', async () => {
+    const base = loadFixture(PROPERTIES_FIXTURE);
+    const target = JSON.parse(JSON.stringify(base));
+    const element = target.elements.find((e: any) => Object.keys(e.properties || {}).length > 0);
+    const [key] = Object.keys(element.properties);
+    const name = base.propertyDefinitions!.find(pd => pd.identifier === key)!.name;
+
+    // Renumbering the definitions is not a change
+    target.propertyDefinitions = target.propertyDefinitions.map((pd: any) => ({ ...pd, identifier: `renumbered-${pd.identifier}` }));
+    for (const concept of [...target.elements, ...target.relationships, ...target.views]) {
+      concept.properties = Object.fromEntries(Object.entries(concept.properties || {}).map(([k, v]) => [`renumbered-${k}`, v]));
+    }
+    expect(diffModels(base, target).identical).toBe(true);
+
+    element.properties[`renumbered-${key}`] = 'Changed value';
+    const diff = diffModels(base, target);
+    expect(diff.elements.changed[0].changes).toEqual([
+      { field: `property "${name}"`, before: base.elements.find(e => e.id === element.id)!.properties![key], after: 'Changed value' }
+    ]);
+  });
+});
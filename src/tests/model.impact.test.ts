@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { NotFoundError } from '../model/manipulator-types';
+import { analyzeImpact, getElementLayer } from '../model/impact';
+import { renderImpactAnalysisMarkdown } from '../renderer';
+import { join } from 'path';
+
+// Database Server -Serving-> Backend Service -Serving-> Customer Portal -Serving-> Customer
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-views.xml');
+
+describe('Impact analysis', () => {
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+  });
+
+  it('follows relationships transitively and groups the affected elements by layer', () => {
+    const analysis = analyzeImpact(manipulator.getModel(), 'view-elem-4');
+
+    expect(analysis.start).toEqual({ id: 'view-elem-4', name: 'Database Server', type: 'Device', layer: 'Technology' });
+    expect(analysis.elements.map(e => [e.name, e.depth])).toEqual([['Backend Service', 1], ['Customer Portal', 2], ['Customer', 3]]);
+    expect(analysis.elements[1].via).toEqual({ relationshipId: 'view-rel-2', relationshipType: 'Serving', from: 'view-elem-3', direction: 'outgoing' });
+    expect(analysis.layers.map(l => [l.layer, l.elements.length])).toEqual([['Business', 1], ['Application', 2]]);
+    expect(analysis.views).toEqual([
+      { id: 'view-1', name: 'Application Cooperation View', elements: ['view-elem-2', 'view-elem-3'] },
+      { id: 'view-2', name: 'Business Process View', elements: ['view-elem-1', 'view-elem-2', 'view-elem-3', 'view-elem-4'] }
+    ]);
+    expect(analysis.truncated).toBe(false);
+
+    const markdown = renderImpactAnalysisMarkdown(analysis);
+    expect(markdown).toContain('**Affected elements:** 3 in 2 layer(s)');
+    expect(markdown).toContain('- **Customer Portal** (ApplicationComponent) `view-elem-2` — depth 2, Serving from **Backend Service**');
+    expect(markdown).toContain('## Views to Update');
+  });
+
+  it('stops at the depth limit and follows the requested direction', () => {
+    const shallow = analyzeImpact(manipulator.getModel(), 'view-elem-4', { maxDepth: 1 });
+    expect(shallow.elements.map(e => e.id)).toEqual(['view-elem-3']);
+    expect(shallow.truncated).toBe(true);
+
+    expect(analyzeImpact(manipulator.getModel(), 'view-elem-4', { direction: 'incoming' }).elements).toEqual([]);
+    const dependencies = analyzeImpact(manipulator.getModel(), 'view-elem-1', { direction: 'incoming' });
+    expect(dependencies.elements.map(e => e.name)).toEqual(['Customer Portal', 'Backend Service', 'Database Server']);
+    expect(dependencies.elements[0].via.direction).toBe('incoming');
+  });
+
+  it('only follows the requested relationship types', async () => {
+    await manipulator.createElement({ type: 'ApplicationComponent', name: 'Reporting', identifier: 'app-reporting' });
+    await manipulator.createRelationship({ type: 'Flow', sourceId: 'view-elem-3', targetId: 'app-reporting', identifier: 'rel-flow' });
+
+    expect(analyzeImpact(manipulator.getModel(), 'view-elem-3').elements.map(e => e.id)).toContain('app-reporting');
+    const serving = analyzeImpact(manipulator.getModel(), 'view-elem-3', { relationshipTypes: ['serving'] });
+    expect(serving.elements.map(e => e.id)).toEqual(['view-elem-2', 'view-elem-1']);
+  });
+
+  it('passes through junctions without counting them', async () => {
+    await manipulator.createElement({ type: 'AndJunction', name: 'And', identifier: 'junction-1' });
+    await manipulator.createElement({ type: 'ApplicationComponent', name: 'Reporting', identifier: 'app-reporting' });
+    await manipulator.createRelationship({ type: 'Serving', sourceId: 'view-elem-1', targetId: 'junction-1' });
+    await manipulator.createRelationship({ type: 'Serving', sourceId: 'junction-1', targetId: 'app-reporting' });
+
+    const analysis = analyzeImpact(manipulator.getModel(), 'view-elem-1');
+    expect(analysis.elements.map(e => [e.id, e.depth, e.via.from])).toEqual([['app-reporting', 1, 'view-elem-1']]);
+  });
+
+  it('rejects an unknown start element', () => {
+    expect(() => analyzeImpact(manipulator.getModel(), 'missing')).toThrow(NotFoundError);
+    expect(getElementLayer('Capability')).toBe('Strategy');
+    expect(getElementLayer('Grouping')).toBe('Other');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { isArchiNativeModel } from '../model/archi-parser';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+const ARCHI_MODEL = join(__dirname, 'fixtures', 'archi-native-model.xml');
+const EXCHANGE_MODEL = join(__dirname, 'fixtures', 'basic-model.xml');
+
+describe('ModelLoader - Archi native format', () => {
+  describe('Format detection', () => {
+    it('detects Archi native models', () => {
+      expect(isArchiNativeModel(readFileSync(ARCHI_MODEL, 'utf8'))).toBe(true);
+    });
+
+    it('does not mistake Exchange Format models for Archi models', () => {
+      expect(isArchiNativeModel(readFileSync(EXCHANGE_MODEL, 'utf8'))).toBe(false);
+    });
+
+    it('records the source format on the loaded model', () => {
+      expect(new ModelLoader(ARCHI_MODEL).load().format).toBe('archi');
+      expect(new ModelLoader(EXCHANGE_MODEL).load().format).toBe('exchange');
+    });
+  });
+
+  describe('Elements', () => {
+    it('reads elements from nested folders', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const ids = model.elements.map(e => e.id);
+      expect(ids).toContain('id-customer');
+      expect(ids).toContain('id-crm');
+      expect(ids).toContain('id-crm-api');
+      expect(ids).toContain('id-app-server');
+    });
+
+    it('strips the archimate prefix from element types', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const crm = model.elements.find(e => e.id === 'id-crm');
+      expect(crm?.type).toBe('ApplicationComponent');
+      expect(crm?.name).toBe('CRM System');
+      expect(crm?.documentation).toBe('Customer relationship management.');
+    });
+
+    it('maps junctions to their Exchange Format type', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      expect(model.elements.find(e => e.id === 'id-junction')?.type).toBe('OrJunction');
+    });
+
+    it('maps key/value properties to property definitions', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const ownerDef = model.propertyDefinitions?.find(pd => pd.name === 'Owner');
+      expect(ownerDef).toBeDefined();
+
+      const crm = model.elements.find(e => e.id === 'id-crm');
+      expect(crm?.properties?.[ownerDef!.identifier]).toBe('Finance');
+
+      const customer = model.elements.find(e => e.id === 'id-customer');
+      expect(customer?.properties?.[ownerDef!.identifier]).toBe('Sales');
+    });
+  });
+
+  describe('Relationships', () => {
+    it('converts relationship types to Exchange Format names', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const serving = model.relationships.find(r => r.id === 'id-rel-serving');
+      expect(serving?.type).toBe('Serving');
+      expect(serving?.sourceId).toBe('id-crm');
+      expect(serving?.targetId).toBe('id-place-order');
+
+      const access = model.relationships.find(r => r.id === 'id-rel-access');
+      expect(access?.type).toBe('Access');
+      expect(access?.name).toBe('reads');
+      expect(access?.documentation).toBe('CRM reads customer records.');
+    });
+
+    it('populates incoming and outgoing relations on elements', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const crm = model.elements.find(e => e.id === 'id-crm');
+      expect(crm?.outgoingRelations).toEqual(expect.arrayContaining(['id-rel-serving', 'id-rel-composition', 'id-rel-access']));
+      expect(crm?.incomingRelations).toEqual(['id-rel-realization']);
+    });
+  });
+
+  describe('Views', () => {
+    it('reads ArchiMate diagrams and skips sketch models', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      expect(model.views.map(v => v.id)).toEqual(['id-view-crm', 'id-view-data']);
+    });
+
+    it('collects elements and connections from nested children', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const view = model.views.find(v => v.id === 'id-view-crm')!;
+      expect(view.type).toBe('Diagram');
+      expect(view.elements).toEqual(['id-customer', 'id-place-order', 'id-crm', 'id-crm-api']);
+      expect(view.relationships).toEqual(expect.arrayContaining(['id-rel-assignment', 'id-rel-serving']));
+      expect(view.nodeHierarchy).toEqual([{ parentElement: 'id-crm', childElement: 'id-crm-api' }]);
+    });
+
+    it('translates Archi viewpoint identifiers', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const view = model.views.find(v => v.id === 'id-view-crm')!;
+      expect(view.viewpoint).toBe('Application Cooperation');
+      expect(view.documentation).toBe('How the CRM supports ordering.');
+    });
+
+    it('records view membership on elements', () => {
+      const model = new ModelLoader(ARCHI_MODEL).load();
+      const crm = model.elements.find(e => e.id === 'id-crm');
+      expect(crm?.inViews).toEqual(['id-view-crm', 'id-view-data']);
+    });
+  });
+});
@@ -145,6 +145,19 @@ describe('ModelLoader', () => {
       const model3 = loader.reload();
       expect(model3).not.toBe(model1); // Should create new instance after reload
     });
+
+    it('notifies listeners when the cache is dropped', () => {
+      let calls = 0;
+      const remove = loader.onInvalidate(() => calls++);
+      loader.load();
+      loader.reload();
+      loader.setPath(testPath);
+      expect(calls).toBe(2);
+
+      remove();
+      loader.reload();
+      expect(calls).toBe(2);
+    });
   });
 
   describe('Error Handling', () => {
@@ -281,4 +294,47 @@ describe('ModelLoader', () => {
       });
     });
   });
+
+  describe('Diagram Layout', () => {
+    const layoutPath = join(__dirname, 'fixtures', 'model-with-layout.xml');
+
+    it('reads node bounds, styles and nested nodes', () => {
+      const view = new ModelLoader(layoutPath).load().views[0];
+      const customer = view.nodes!.find(n => n.id === 'layout-node-1')!;
+      expect(customer).toMatchObject({ type: 'Element', elementRef: 'layout-elem-1', x: 24, y: 24, w: 120, h: 55 });
+      expect(customer.style).toEqual({
+        lineWidth: 2,
+        fillColor: { r: 255, g: 255, b: 181, a: 100 },
+        lineColor: { r: 92, g: 92, b: 92, a: 100 },
+        font: { name: 'Segoe UI', size: 9, style: 'bold', color: { r: 0, g: 0, b: 0 } }
+      });
+
+      const group = view.nodes!.find(n => n.id === 'layout-group-1')!;
+      expect(group).toMatchObject({ type: 'Container', label: 'Applications', x: 12, y: 120 });
+      expect(group.children![0].children![0]).toMatchObject({ id: 'layout-node-3', x: 48, y: 216, w: 120, h: 40 });
+    });
+
+    it('reads notes and connections with bendpoints', () => {
+      const view = new ModelLoader(layoutPath).load().views[0];
+      expect(view.nodes!.find(n => n.id === 'layout-note-1')).toMatchObject({
+        type: 'Label',
+        label: 'Draft - review with the portal team.'
+      });
+      expect(view.connections!.find(c => c.id === 'layout-conn-1')).toMatchObject({
+        type: 'Relationship',
+        relationshipRef: 'layout-rel-1',
+        source: 'layout-node-2',
+        target: 'layout-node-1',
+        bendpoints: [{ x: 126, y: 140 }, { x: 84, y: 100 }]
+      });
+      expect(view.connections!.find(c => c.id === 'layout-line-1')).toMatchObject({ type: 'Line', source: 'layout-note-1' });
+    });
+
+    it('keeps element membership and hierarchy alongside the layout', () => {
+      const view = new ModelLoader(layoutPath).load().views[0];
+      expect(view.elements).toEqual(['layout-elem-1', 'layout-elem-2', 'layout-elem-3']);
+      expect(view.relationships).toEqual(['layout-rel-1', 'layout-rel-2']);
+      expect(view.nodeHierarchy).toEqual([{ parentElement: 'layout-elem-2', childElement: 'layout-elem-3' }]);
+    });
+  });
 });
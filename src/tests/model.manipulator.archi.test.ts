@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { ArchiNativeXMLBuilder } from '../model/archi-persistence';
+import { XMLValidator } from 'fast-xml-parser';
+import { existsSync, readFileSync, writeFileSync, copyFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const FIXTURE = join(__dirname, 'fixtures', 'archi-native-model.xml');
+const TEMP_DIR = join(tmpdir(), 'archiscribe-archi-save-tests');
+const SAVE_OPTIONS = { createBackup: false, validate: false };
+
+/** Fail on XML a strict parser rejects, such as a repeated xsi:type attribute */
+function expectWellFormed(xml: string): void {
+  expect(XMLValidator.validate(xml)).toBe(true);
+}
+
+describe('ModelManipulator - Archi native persistence', () => {
+  let modelPath: string;
+  let loader: ModelLoader;
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    mkdirSync(TEMP_DIR, { recursive: true });
+    modelPath = join(TEMP_DIR, 'model.archimate');
+    copyFileSync(FIXTURE, modelPath);
+    loader = new ModelLoader(modelPath);
+    manipulator = new ModelManipulator(loader);
+  });
+
+  afterEach(() => {
+    if (existsSync(TEMP_DIR)) {
+      rmSync(TEMP_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('writes an unchanged model back byte for byte', async () => {
+    await manipulator.save(undefined, SAVE_OPTIONS);
+    expect(readFileSync(modelPath, 'utf8')).toBe(readFileSync(FIXTURE, 'utf8'));
+  });
+
+  it('keeps diagram layout, styles and notes when elements are edited', async () => {
+    await manipulator.updateElement('id-crm', { name: 'CRM Platform' });
+    await manipulator.save(undefined, SAVE_OPTIONS);
+
+    const xml = readFileSync(modelPath, 'utf8');
+    expect(xml).toContain('<archimate:model');
+    expect(xml).toContain('name="CRM Platform" id="id-crm"');
+    expect(xml).toContain('<bounds x="24" y="36" width="180" height="120"/>');
+    expect(xml).toContain('<bendpoint startX="60" startY="-40" endX="-20" endY="100"/>');
+    expect(xml).toContain('font="1|Segoe UI|9.0|1|WINDOWS|1|-12|0|0|0|700|0|0|0|0|3|2|1|34|Segoe UI"');
+    expect(xml).toContain('fillColor="#d2d7d7"');
+    expect(xml).toContain('<content>Draft - review with the CRM team.</content>');
+    expect(xml).toContain('id="id-folder-crm"');
+    expect(xml).toContain('id="id-sketch-1"');
+  });
+
+  it('reloads as the same model after saving', async () => {
+    await manipulator.updateElement('id-customer', { documentation: 'Updated\nover two lines' });
+    await manipulator.save(undefined, SAVE_OPTIONS);
+
+    const reloaded = new ModelLoader(modelPath).load();
+    expect(reloaded.format).toBe('archi');
+    expect(reloaded.elements.find(e => e.id === 'id-customer')?.documentation).toBe('Updated\nover two lines');
+    expect(reloaded.elements.find(e => e.id === 'id-junction')?.type).toBe('OrJunction');
+    expect(reloaded.views.find(v => v.id === 'id-view-crm')?.viewpoint).toBe('Application Cooperation');
+  });
+
+  it('adds new elements and relationships to the matching folders', async () => {
+    const element = await manipulator.createElement({ type: 'Node', name: 'DB Server' });
+    const relationship = await manipulator.createRelationship({
+      type: 'Realization',
+      sourceId: element.id,
+      targetId: 'id-customer-record'
+    });
+    await manipulator.save(undefined, SAVE_OPTIONS);
+
+    const reloaded = new ModelLoader(modelPath).load();
+    expect(reloaded.elements.find(e => e.id === element.id)?.type).toBe('Node');
+    expect(reloaded.relationships.find(r => r.id === relationship.id)?.sourceId).toBe(element.id);
+
+    const xml = readFileSync(modelPath, 'utf8');
+    expectWellFormed(xml);
+    const technology = xml.slice(xml.indexOf('type="technology"'), xml.indexOf('type="motivation"'));
+    expect(technology).toContain(`name="DB Server" id="${element.id}"`);
+  });
+
+  it('removes deleted elements together with their diagram objects and connections', async () => {
+    await manipulator.deleteElement('id-place-order', { cascade: true });
+    await manipulator.save(undefined, SAVE_OPTIONS);
+
+    const xml = readFileSync(modelPath, 'utf8');
+    expect(xml).not.toContain('id-place-order');
+    expect(xml).not.toContain('id-dobj-order');
+    expect(xml).not.toContain('id-conn-serving');
+    expect(xml).not.toContain('id-conn-assignment');
+    expect(xml).toContain('<child xsi:type="archimate:DiagramObject" id="id-dobj-customer" archimateElement="id-customer">');
+  });
+
+  it('draws elements and connections added to a view', async () => {
+    await manipulator.addElementToView('id-view-data', 'id-app-server');
+    await manipulator.addRelationshipToView('id-view-data', 'id-rel-realization');
+    await manipulator.save(undefined, SAVE_OPTIONS);
+
+    const reloaded = new ModelLoader(modelPath).load();
+    const view = reloaded.views.find(v => v.id === 'id-view-data')!;
+    expect(view.elements).toContain('id-app-server');
+    expect(view.relationships).toContain('id-rel-realization');
+
+    const xml = readFileSync(modelPath, 'utf8');
+    expect(xml).toMatch(/archimateElement="id-app-server">\s*<bounds x="24" y="103" width="120" height="55"\/>/);
+    expect(xml).toMatch(/id="id-dobj-crm-2" targetConnections="id-[0-9a-f]{32}" archimateElement="id-crm"/);
+  });
+
+  it('builds a complete Archi model when no source file is available', () => {
+    const model = new ModelLoader(FIXTURE).load();
+    const xml = new ArchiNativeXMLBuilder().serialize(model);
+    expect(xml).toContain('type="diagrams"');
+    expectWellFormed(xml);
+    expect(xml.match(/xsi:type=""/g)).toBeNull();
+
+    const reloadedPath = join(TEMP_DIR, 'fresh.archimate');
+    writeFileSync(reloadedPath, xml, 'utf8');
+    const reloaded = new ModelLoader(reloadedPath).load();
+    expect(reloaded.elements.map(e => e.id).sort()).toEqual(model.elements.map(e => e.id).sort());
+    expect(reloaded.views.find(v => v.id === 'id-view-crm')?.elements).toEqual(
+      expect.arrayContaining(['id-customer', 'id-place-order', 'id-crm', 'id-crm-api'])
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { ModelManipulationError } from '../model/manipulator-types';
+import { describeOperation } from '../renderer';
+import { join } from 'path';
+
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-organizations.xml');
+
+describe('ModelManipulator - Edit History', () => {
+  let manipulator: ModelManipulator;
+  const snapshot = () => JSON.stringify(manipulator.getModel());
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE));
+  });
+
+  it('undoes and redoes an update', async () => {
+    await manipulator.updateElement('org-elem-1', { name: 'Client', documentation: 'Buys our products' });
+
+    const [step] = manipulator.getEditHistory().undoable;
+    expect(describeOperation(step.operations[0])).toBe(
+      'Updated element "Client" (BusinessActor) `org-elem-1`: name: "Customer" → "Client", documentation: (none) → "Buys our products"'
+    );
+
+    await manipulator.undo();
+    expect(manipulator.getElement('org-elem-1')!.name).toBe('Customer');
+    expect(manipulator.getEditHistory().redoable).toHaveLength(1);
+
+    await manipulator.redo();
+    expect(manipulator.getElement('org-elem-1')!.name).toBe('Client');
+    expect(manipulator.getEditHistory().undoable).toHaveLength(1);
+  });
+
+  it('restores everything a cascading delete removed', async () => {
+    await manipulator.addElementToView('org-view-1', 'org-elem-2');
+    await manipulator.addRelationshipToView('org-view-1', 'org-rel-1');
+    const before = snapshot();
+
+    await manipulator.withEditSource('DeleteElement', () => manipulator.deleteElement('org-elem-2', { cascade: true }));
+    expect(manipulator.getRelationship('org-rel-1')).toBeNull();
+    const deleted = snapshot();
+
+    const step = await manipulator.undo();
+    expect(step.source).toBe('DeleteElement');
+    expect(step.operations.map(o => `${o.type} ${o.entityType} ${o.entityId}`)).toEqual([
+      'delete relationship org-rel-1',
+      'update view org-view-1',
+      'delete element org-elem-2'
+    ]);
+    expect(snapshot()).toBe(before);
+
+    await manipulator.redo();
+    expect(snapshot()).toBe(deleted);
+  });
+
+  it('undoes property, folder and model metadata changes', async () => {
+    const before = snapshot();
+    await manipulator.createPropertyDefinition({ identifier: 'propdef-owner', name: 'Owner' });
+    await manipulator.assignProperty('org-elem-1', 'propdef-owner', 'Sales');
+    await manipulator.moveToFolder('org-elem-3', 'Application/CRM');
+    await manipulator.updateModelMetadata({ name: 'Renamed' });
+
+    for (let i = 0; i < 4; i++) {
+      await manipulator.undo();
+    }
+    expect(snapshot()).toBe(before);
+  });
+
+  it('records a tool call or transaction as a single step', async () => {
+    await manipulator.withEditSource('BatchOperations', () => manipulator.runTransaction(async () => {
+      await manipulator.createElement({ type: 'BusinessRole', name: 'Buyer', identifier: 'role-buyer' });
+      await manipulator.createRelationship({ type: 'Assignment', sourceId: 'org-elem-1', targetId: 'role-buyer' });
+    }));
+    await manipulator.runTransaction(async () => {
+      await manipulator.updateElement('role-buyer', { name: 'Purchaser' });
+    });
+
+    const { undoable } = manipulator.getEditHistory();
+    expect(undoable.map(e => [e.source, e.operations.length])).toEqual([['BatchOperations', 2], [undefined, 1]]);
+
+    await manipulator.undo();
+    await manipulator.undo();
+    expect(manipulator.getElement('role-buyer')).toBeNull();
+    expect(manipulator.getElement('org-elem-1')!.outgoingRelations).toEqual([]);
+  });
+
+  it('clears the redo steps on a new edit and keeps a bounded history', async () => {
+    manipulator.setHistoryLimit(2);
+    for (const name of ['One', 'Two', 'Three']) {
+      await manipulator.updateElement('org-elem-1', { name });
+    }
+    expect(manipulator.getEditHistory().undoable.map(e => e.operations[0].data.name)).toEqual(['Two', 'Three']);
+
+    await manipulator.undo();
+    await manipulator.updateElement('org-elem-1', { name: 'Four' });
+    expect(manipulator.getEditHistory().redoable).toEqual([]);
+    await expect(manipulator.redo()).rejects.toThrow('There are no undone edits to redo');
+  });
+
+  it('undoes several steps as one unit and restores them all when one fails', async () => {
+    await manipulator.updateElement('org-elem-1', { name: 'One' });
+    await manipulator.updateElement('org-elem-1', { name: 'Two' });
+    await manipulator.updateElement('org-elem-1', { name: 'Three' });
+
+    const before = snapshot();
+    const history = manipulator.getEditHistory();
+    const revert = vi.spyOn(manipulator as any, 'revertOperation');
+    revert.mockImplementationOnce(() => {});
+    revert.mockImplementationOnce(() => {
+      throw new Error('Element is gone');
+    });
+
+    await expect(manipulator.undoSteps(5)).rejects.toThrow('Undo of step 2 of 5 failed: Element is gone. No steps were undone.');
+    expect(snapshot()).toBe(before);
+    expect(manipulator.getEditHistory()).toEqual(history);
+
+    expect(await manipulator.undoSteps(2)).toHaveLength(2);
+    expect(manipulator.getElement('org-elem-1')!.name).toBe('One');
+  });
+
+  it('rejects undo when there is nothing to undo or a transaction is active', async () => {
+    await expect(manipulator.undo()).rejects.toThrow(ModelManipulationError);
+
+    await manipulator.updateElement('org-elem-1', { name: 'Client' });
+    const transaction = manipulator.beginTransaction();
+    await expect(manipulator.undo()).rejects.toThrow('A transaction is already in progress');
+    await manipulator.rollbackTransaction(transaction);
+
+    manipulator.reload();
+    expect(manipulator.getEditHistory().undoable).toEqual([]);
+  });
+});
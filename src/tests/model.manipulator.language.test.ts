@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { ValidationError } from '../model/manipulator-types';
+import { renderElementDetailsMarkdownFromModel, renderViewListMarkdown } from '../renderer';
+import { existsSync, readFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const FIXTURE = join(__dirname, 'fixtures', 'model-multilingual.xml');
+const ARCHI_FIXTURE = join(__dirname, 'fixtures', 'archi-native-model.xml');
+const TEMP_DIR = join(tmpdir(), 'archiscribe-language-tests');
+const SAVE_OPTIONS = { createBackup: false, validate: false };
+
+describe('ModelManipulator - Languages', () => {
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE));
+  });
+
+  afterEach(() => {
+    if (existsSync(TEMP_DIR)) {
+      rmSync(TEMP_DIR, { recursive: true, force: true });
+    }
+  });
+
+  describe('loading', () => {
+    it('keeps every language variant, with the first one as primary text', () => {
+      const model = manipulator.getModel();
+      expect(model.language).toBe('en');
+
+      const customer = manipulator.getElement('ml-elem-1')!;
+      expect(customer.name).toBe('Customer');
+      expect(customer.nameTranslations).toEqual({ en: 'Customer', nl: 'Klant' });
+      expect(customer.documentationTranslations!.nl).toBe('Een persoon of organisatie die onze producten koopt');
+
+      expect(model.relationships[0].nameTranslations).toEqual({ en: 'serves', nl: 'bedient' });
+      expect(model.views[0].nameTranslations).toEqual({ en: 'Customer Overview', nl: 'Klantoverzicht' });
+    });
+
+    it('only records variants for text outside the default language', () => {
+      expect(manipulator.getElement('ml-elem-2')!.nameTranslations).toBeUndefined();
+      const order = manipulator.getElement('ml-elem-3')!;
+      expect(order.name).toBe('Bestelling');
+      expect(order.nameTranslations).toEqual({ nl: 'Bestelling' });
+    });
+  });
+
+  describe('editing', () => {
+    it('updates one language and keeps the others', async () => {
+      const element = await manipulator.updateElement('ml-elem-1', { name: 'Afnemer', language: 'nl' });
+      expect(element.name).toBe('Customer');
+      expect(element.nameTranslations).toEqual({ en: 'Customer', nl: 'Afnemer' });
+
+      await manipulator.updateElement('ml-elem-1', { name: 'Client' });
+      expect(element.name).toBe('Client');
+      expect(element.nameTranslations).toEqual({ en: 'Client', nl: 'Afnemer' });
+    });
+
+    it('adds a language to single-language text', async () => {
+      const element = await manipulator.updateElement('ml-elem-2', { name: 'Orderafhandeling', documentation: 'Verwerkt bestellingen', language: 'nl' });
+      expect(element.name).toBe('Order Handling');
+      expect(element.nameTranslations).toEqual({ en: 'Order Handling', nl: 'Orderafhandeling' });
+      expect(element.documentation).toBe('Verwerkt bestellingen');
+      expect(element.documentationTranslations).toEqual({ nl: 'Verwerkt bestellingen' });
+    });
+
+    it('creates concepts with text in a given language', async () => {
+      const element = await manipulator.createElement({ type: 'BusinessRole', name: 'Verkoper', language: 'nl' });
+      expect(element.nameTranslations).toEqual({ nl: 'Verkoper' });
+
+      const view = await manipulator.createView({ name: 'Sales', language: 'en' });
+      expect(view.nameTranslations).toBeUndefined();
+    });
+
+    it('rejects other languages for Archi native models', async () => {
+      const archi = new ModelManipulator(new ModelLoader(ARCHI_FIXTURE));
+      await expect(archi.updateElement('id-crm', { name: 'Klantbeheer', language: 'nl' })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('rendering', () => {
+    it('renders names and documentation in the requested language', () => {
+      const model = manipulator.getModel();
+      const markdown = renderElementDetailsMarkdownFromModel(model, manipulator.getElement('ml-elem-1')!, 'nl');
+      expect(markdown).toContain('# ArchiMate Element: Klant');
+      expect(markdown).toContain('Een persoon of organisatie die onze producten koopt');
+      expect(markdown).toContain('**Languages:** en, nl');
+      expect(markdown).toContain('Name: bedient');
+      // Falls back to the primary text where the language is missing
+      expect(markdown).toContain('From **Order Handling**');
+
+      expect(renderViewListMarkdown(model.views, 'nl')).toContain('- Klantoverzicht');
+      expect(renderViewListMarkdown(model.views)).toContain('- Customer Overview');
+    });
+  });
+
+  describe('saving', () => {
+    it('writes all language variants back to the Exchange Format', async () => {
+      mkdirSync(TEMP_DIR, { recursive: true });
+      const path = join(TEMP_DIR, 'model.xml');
+      await manipulator.updateElement('ml-elem-2', { name: 'Orderafhandeling', language: 'nl' });
+      await manipulator.saveAs(path, SAVE_OPTIONS);
+
+      const xml = readFileSync(path, 'utf8');
+      expect(xml).toContain('<name xml:lang="nl">Meertalig Model</name>');
+      expect(xml).toContain('<name xml:lang="nl">Klant</name>');
+      expect(xml).toContain('<name xml:lang="nl">Bestelling</name>');
+      expect(xml).not.toContain('<name xml:lang="en">Bestelling</name>');
+
+      const reloaded = new ModelManipulator(new ModelLoader(path));
+      const original = new ModelManipulator(new ModelLoader(FIXTURE));
+      expect(reloaded.getElement('ml-elem-1')).toEqual(original.getElement('ml-elem-1'));
+      expect(reloaded.getElement('ml-elem-2')!.nameTranslations).toEqual({ en: 'Order Handling', nl: 'Orderafhandeling' });
+      expect(reloaded.getModel().views[0].nameTranslations).toEqual({ en: 'Customer Overview', nl: 'Klantoverzicht' });
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { ValidationError } from '../model/manipulator-types';
+import { existsSync, readFileSync, copyFileSync, writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-metadata.xml');
+const ARCHI_FIXTURE = join(__dirname, 'fixtures', 'archi-native-model.xml');
+const TEMP_DIR = join(tmpdir(), 'archiscribe-metadata-tests');
+const SAVE_OPTIONS = { createBackup: false, validate: false };
+
+describe('ModelManipulator - Model Metadata', () => {
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE));
+  });
+
+  afterEach(() => {
+    if (existsSync(TEMP_DIR)) {
+      rmSync(TEMP_DIR, { recursive: true, force: true });
+    }
+  });
+
+  describe('loading', () => {
+    it('reads the model identity, documentation, metadata and properties', () => {
+      const info = manipulator.getModelMetadata();
+      expect(info.id).toBe('test-model-metadata');
+      expect(info.name).toBe('Enterprise Landscape');
+      expect(info.version).toBe('1.2');
+      expect(info.documentation).toBe('Target architecture for the customer domain');
+      expect(info.metadata).toEqual({
+        schema: 'Dublin Core',
+        schemaVersion: '1.1',
+        fields: { title: 'Enterprise Landscape', creator: 'EA Team', date: '2025-01-31' }
+      });
+      expect(info.properties).toEqual({ 'meta-propdef-owner': 'Architecture Board' });
+      expect(info.format).toBe('exchange');
+    });
+
+    it('reads the Archi model name and identifier', () => {
+      const archi = new ModelManipulator(new ModelLoader(ARCHI_FIXTURE));
+      const info = archi.getModelMetadata();
+      expect(info.id).toBe('id-archi-model-1');
+      expect(info.name).toBe('Archi Native Test Model');
+      expect(info.format).toBe('archi');
+    });
+  });
+
+  describe('updateModelMetadata', () => {
+    it('merges Dublin Core fields and removes empty ones', async () => {
+      const info = await manipulator.updateModelMetadata({
+        name: 'Customer Domain',
+        metadata: { creator: '', rights: 'Internal use only' }
+      });
+      expect(info.name).toBe('Customer Domain');
+      expect(info.metadata!.fields).toEqual({ title: 'Enterprise Landscape', date: '2025-01-31', rights: 'Internal use only' });
+      expect(manipulator.isModified()).toBe(true);
+    });
+
+    it('rejects unknown metadata fields and empty names', async () => {
+      await expect(manipulator.updateModelMetadata({ metadata: { author: 'Someone' } })).rejects.toThrow(ValidationError);
+      await expect(manipulator.updateModelMetadata({ name: '  ' })).rejects.toThrow(ValidationError);
+      expect(manipulator.isModified()).toBe(false);
+    });
+
+    it('rejects Dublin Core metadata for Archi native models', async () => {
+      const archi = new ModelManipulator(new ModelLoader(ARCHI_FIXTURE));
+      await expect(archi.updateModelMetadata({ metadata: { creator: 'EA Team' } })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('saving', () => {
+    it('keeps the model header when saving to the Exchange Format', async () => {
+      mkdirSync(TEMP_DIR, { recursive: true });
+      const path = join(TEMP_DIR, 'model.xml');
+      await manipulator.createElement({ type: 'BusinessRole', name: 'Account Manager' });
+      await manipulator.saveAs(path, SAVE_OPTIONS);
+
+      const xml = readFileSync(path, 'utf8');
+      expect(xml).toContain('identifier="test-model-metadata"');
+      expect(xml).toContain('<name xml:lang="en">Enterprise Landscape</name>');
+      expect(xml).toContain('<dc:creator>EA Team</dc:creator>');
+
+      const reloaded = new ModelManipulator(new ModelLoader(path)).getModelMetadata();
+      const original = new ModelManipulator(new ModelLoader(FIXTURE)).getModelMetadata();
+      expect(reloaded).toEqual(original);
+    });
+
+    it('keeps every value of repeated Dublin Core elements', async () => {
+      mkdirSync(TEMP_DIR, { recursive: true });
+      const path = join(TEMP_DIR, 'model.xml');
+      writeFileSync(path, readFileSync(FIXTURE, 'utf8').replace(
+        '<dc:creator>EA Team</dc:creator>',
+        '<dc:creator>EA Team</dc:creator>\n    <dc:creator>Security Office</dc:creator>\n    <dc:subject>Customers</dc:subject>\n    <dc:subject>Sales</dc:subject>'
+      ), 'utf8');
+      const repeated = new ModelManipulator(new ModelLoader(path));
+      expect(repeated.getModelMetadata().metadata!.fields).toMatchObject({ creator: ['EA Team', 'Security Office'], subject: ['Customers', 'Sales'] });
+
+      await repeated.updateModelMetadata({ metadata: { subject: ['Customers', ' Sales ', 'Marketing', ''] } });
+      await repeated.save(undefined, SAVE_OPTIONS);
+
+      const xml = readFileSync(path, 'utf8');
+      expect(xml).toContain('<dc:creator>EA Team</dc:creator>');
+      expect(xml).toContain('<dc:creator>Security Office</dc:creator>');
+      expect(new ModelManipulator(new ModelLoader(path)).getModelMetadata().metadata!.fields).toMatchObject({
+        creator: ['EA Team', 'Security Office'],
+        subject: ['Customers', 'Sales', 'Marketing']
+      });
+    });
+
+    it('writes the name, purpose and properties of Archi native models', async () => {
+      mkdirSync(TEMP_DIR, { recursive: true });
+      const path = join(TEMP_DIR, 'model.archimate');
+      copyFileSync(ARCHI_FIXTURE, path);
+      const archi = new ModelManipulator(new ModelLoader(path));
+
+      await archi.updateModelMetadata({
+        name: 'Sales Landscape',
+        documentation: 'Owned by the sales architects',
+        properties: { 'propid-1': 'Architecture Board' }
+      });
+      await archi.save(undefined, SAVE_OPTIONS);
+
+      const xml = readFileSync(path, 'utf8');
+      expect(xml).toContain('name="Sales Landscape" id="id-archi-model-1"');
+      expect(xml).toContain('<purpose>Owned by the sales architects</purpose>');
+
+      const reloaded = new ModelManipulator(new ModelLoader(path)).getModelMetadata();
+      expect(reloaded.name).toBe('Sales Landscape');
+      expect(reloaded.documentation).toBe('Owned by the sales architects');
+      expect(Object.values(reloaded.properties || {})).toEqual(['Architecture Board']);
+    });
+  });
+});
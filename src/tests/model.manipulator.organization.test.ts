@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { NotFoundError } from '../model/manipulator-types';
+import { existsSync, readFileSync, copyFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-organizations.xml');
+const ARCHI_FIXTURE = join(__dirname, 'fixtures', 'archi-native-model.xml');
+const TEMP_DIR = join(tmpdir(), 'archiscribe-organization-tests');
+const SAVE_OPTIONS = { createBackup: false, validate: false };
+
+describe('ModelManipulator - Organizations', () => {
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE));
+  });
+
+  afterEach(() => {
+    if (existsSync(TEMP_DIR)) {
+      rmSync(TEMP_DIR, { recursive: true, force: true });
+    }
+  });
+
+  describe('loading', () => {
+    it('reads the folder tree from the organizations element', () => {
+      const folders = manipulator.getFolders();
+      expect(folders.map(f => f.path)).toEqual(['Business', 'Application', 'Application/CRM', 'Relations', 'Views']);
+
+      const crm = folders.find(f => f.path === 'Application/CRM')!;
+      expect(crm.id).toBe('org-folder-crm');
+      expect(crm.depth).toBe(1);
+      expect(crm.items).toEqual(['org-elem-2']);
+      expect(folders.find(f => f.path === 'Application')!.items).toEqual(['org-elem-3']);
+    });
+
+    it('leaves models without organizations without a folder tree', async () => {
+      const plain = new ModelManipulator(new ModelLoader(join(__dirname, 'fixtures', 'basic-model.xml')));
+      await plain.createElement({ type: 'BusinessActor', name: 'Supplier' });
+      expect(plain.getModel().organizations).toBeUndefined();
+      expect(plain.getFolders()).toEqual([]);
+    });
+  });
+
+  describe('keeping folders in sync', () => {
+    it('files new elements, relationships and views in the default folder for their layer', async () => {
+      const actor = await manipulator.createElement({ type: 'BusinessRole', name: 'Account Manager' });
+      const node = await manipulator.createElement({ type: 'Node', name: 'App Server' });
+      const rel = await manipulator.createRelationship({ type: 'Assignment', sourceId: 'org-elem-1', targetId: actor.id });
+      const view = await manipulator.createView({ name: 'New View' });
+
+      const folders = manipulator.getFolders();
+      expect(folders.find(f => f.path === 'Business')!.items).toContain(actor.id);
+      expect(folders.find(f => f.path === 'Relations')!.items).toContain(rel.id);
+      expect(folders.find(f => f.path === 'Views')!.items).toContain(view.id);
+      // Missing top-level folders are created on demand
+      expect(folders.find(f => f.path === 'Technology & Physical')!.items).toEqual([node.id]);
+    });
+
+    it('removes deleted concepts from their folders', async () => {
+      await manipulator.deleteElement('org-elem-2', { cascade: true });
+      await manipulator.deleteView('org-view-1');
+
+      const folders = manipulator.getFolders();
+      expect(folders.find(f => f.path === 'Application/CRM')!.items).toEqual([]);
+      expect(folders.find(f => f.path === 'Relations')!.items).toEqual([]);
+      expect(folders.find(f => f.path === 'Views')!.items).toEqual([]);
+    });
+  });
+
+  describe('moveToFolder', () => {
+    it('moves an element to a folder given by path', async () => {
+      const folder = await manipulator.moveToFolder('org-elem-3', 'Application/CRM');
+      expect(folder.path).toBe('Application/CRM');
+      expect(folder.items).toEqual(['org-elem-2', 'org-elem-3']);
+      expect(manipulator.getFolders().find(f => f.path === 'Application')!.items).toEqual([]);
+      expect(manipulator.isModified()).toBe(true);
+    });
+
+    it('moves a view to a folder given by identifier', async () => {
+      const folder = await manipulator.moveToFolder('org-view-1', 'org-folder-crm');
+      expect(folder.items).toContain('org-view-1');
+    });
+
+    it('rejects unknown folders and concepts', async () => {
+      await expect(manipulator.moveToFolder('org-elem-1', 'Nowhere')).rejects.toThrow(NotFoundError);
+      await expect(manipulator.moveToFolder('missing', 'Business')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('saving', () => {
+    it('writes the folder tree to the Exchange Format', async () => {
+      mkdirSync(TEMP_DIR, { recursive: true });
+      const path = join(TEMP_DIR, 'model.xml');
+      await manipulator.moveToFolder('org-elem-3', 'Application/CRM');
+      await manipulator.saveAs(path, SAVE_OPTIONS);
+
+      const xml = readFileSync(path, 'utf8');
+      expect(xml).toContain('<organizations>');
+      expect(xml).toContain('<item identifier="org-folder-crm">');
+
+      const reloaded = new ModelManipulator(new ModelLoader(path));
+      const crm = reloaded.getFolders().find(f => f.path === 'Application/CRM')!;
+      expect(crm.items).toEqual(['org-elem-2', 'org-elem-3']);
+      expect(reloaded.getModel().organizations![1].folders[0].documentation).toBe('Customer relationship management systems');
+    });
+
+    it('moves concepts between Archi folders in native models', async () => {
+      mkdirSync(TEMP_DIR, { recursive: true });
+      const path = join(TEMP_DIR, 'model.archimate');
+      copyFileSync(ARCHI_FIXTURE, path);
+      const archi = new ModelManipulator(new ModelLoader(path));
+
+      expect(archi.getFolders().find(f => f.path === 'Application/CRM')!.items).toEqual(['id-crm', 'id-crm-api']);
+      await archi.moveToFolder('id-customer-record', 'Application/CRM');
+      await archi.save(undefined, SAVE_OPTIONS);
+
+      const xml = readFileSync(path, 'utf8');
+      const crmFolder = xml.slice(xml.indexOf('id="id-folder-crm"'), xml.indexOf('</folder>', xml.indexOf('id="id-folder-crm"')));
+      expect(crmFolder).toContain('id="id-customer-record"');
+      expect(new ModelManipulator(new ModelLoader(path)).getFolders().find(f => f.path === 'Application/CRM')!.items)
+        .toEqual(['id-crm', 'id-crm-api', 'id-customer-record']);
+    });
+  });
+});
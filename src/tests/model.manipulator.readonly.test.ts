@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { copyFileSync, existsSync, unlinkSync } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { ModelManipulationError } from '../model/manipulator-types';
+import { createTools } from '../mcp/tools';
+import { createMcpServer } from '../mcp/server';
+import { appService } from '../services/app';
+import { embeddingsPath } from '../model/semantic';
+
+// Embed by word length instead of loading an embedding model from disk
+vi.mock('../model/semantic', async importOriginal => ({
+  ...(await importOriginal<typeof import('../model/semantic')>()),
+  createLocalEmbedder: async () => ({
+    model: 'lengths',
+    embed: async (texts: string[]) => texts.map(text => [text.length, 1])
+  })
+}));
+
+describe('ModelManipulator - Read-only Mode', () => {
+  const testPath = join(__dirname, 'fixtures', 'model-with-views.xml');
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(testPath));
+    manipulator.setReadOnly(true);
+  });
+
+  it('refuses changes to the model', async () => {
+    expect(manipulator.isReadOnly()).toBe(true);
+    await expect(manipulator.createElement({ type: 'ApplicationComponent', name: 'New' })).rejects.toThrow(ModelManipulationError);
+    await expect(manipulator.updateElement('view-elem-1', { name: 'Renamed' })).rejects.toMatchObject({ code: 'MODEL_READ_ONLY' });
+    await expect(manipulator.deleteView('view-1')).rejects.toMatchObject({ code: 'MODEL_READ_ONLY', context: { operation: 'deleteView' } });
+    await expect(manipulator.undo()).rejects.toMatchObject({ code: 'MODEL_READ_ONLY' });
+    expect(() => manipulator.beginTransaction()).toThrow(ModelManipulationError);
+
+    expect(manipulator.getElement('view-elem-1')?.name).toBe('Customer');
+    expect(manipulator.isModified()).toBe(false);
+  });
+
+  it('refuses to save', async () => {
+    const savePath = join(__dirname, 'fixtures', 'temp', 'readonly-save.xml');
+    await expect(manipulator.saveAs(savePath)).rejects.toMatchObject({ code: 'MODEL_READ_ONLY' });
+    expect(existsSync(savePath)).toBe(false);
+  });
+
+  it('allows changes again when read-only mode is turned off', async () => {
+    manipulator.setReadOnly(false);
+    const element = await manipulator.createElement({ type: 'ApplicationComponent', name: 'New' });
+    expect(manipulator.getElement(element.id)).not.toBeNull();
+  });
+});
+
+describe('Read-only server', () => {
+  beforeEach(() => {
+    process.env.MODEL_PATH = join(__dirname, 'fixtures', 'model-with-views.xml');
+    process.env.READ_ONLY = 'true';
+    appService.reset();
+  });
+
+  afterEach(() => {
+    delete process.env.MODEL_PATH;
+    delete process.env.READ_ONLY;
+    appService.reset();
+  });
+
+  it('does not register mutating tools', async () => {
+    const mcp = await createMcpServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcp.sdkServer.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    try {
+      const names = (await client.listTools()).tools.map(t => t.name);
+      expect(names).toEqual(['SearchViews', 'GetViewDetails', 'SearchElements', 'GetElementDetails']);
+    } finally {
+      await client.close();
+      await mcp.stop();
+    }
+  });
+
+  it('registers only the resources and prompts of the exposed read tools', async () => {
+    process.env.READ_ONLY_TOOLS = 'SearchElements, GetElementDetails';
+    try {
+      const mcp = await createMcpServer();
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await mcp.sdkServer.connect(serverTransport);
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(clientTransport);
+      try {
+        expect((await client.listResourceTemplates()).resourceTemplates.map(t => t.uriTemplate)).toEqual(['archimate://element/{id}']);
+        expect((await client.listPrompts()).prompts.map(p => p.name)).toEqual(['onboard-to-component']);
+        await expect(client.subscribeResource({ uri: 'archimate://view/view-1' })).rejects.toThrow('Unknown resource URI');
+      } finally {
+        await client.close();
+        await mcp.stop();
+      }
+    } finally {
+      delete process.env.READ_ONLY_TOOLS;
+    }
+  });
+
+  it('registers the configured read tools, and no tools that change the model', async () => {
+    process.env.READ_ONLY_TOOLS = 'SearchViews, ListFolders';
+    try {
+      const mcp = await createMcpServer();
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await mcp.sdkServer.connect(serverTransport);
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(clientTransport);
+      expect((await client.listTools()).tools.map(t => t.name)).toEqual(['SearchViews', 'ListFolders']);
+      expect(client.getServerCapabilities()?.resources).toBeUndefined();
+      expect(client.getServerCapabilities()?.prompts).toBeUndefined();
+      await client.close();
+      await mcp.stop();
+
+      process.env.READ_ONLY_TOOLS = 'SearchViews,SaveModel';
+      appService.reset();
+      await expect(createMcpServer()).rejects.toThrow('Invalid readOnlyTools: SaveModel changes the model');
+    } finally {
+      delete process.env.READ_ONLY_TOOLS;
+    }
+  });
+
+  it('refuses mutations by the tool handlers', async () => {
+    const tools = createTools();
+    await expect(tools.createElementHandler({ type: 'ApplicationComponent', name: 'New' })).rejects.toThrow('read-only');
+    await expect(tools.createModelHandler({ path: join(__dirname, 'fixtures', 'temp', 'readonly-new.xml') })).rejects.toThrow('read-only');
+    const out = await tools.searchElementsHandler({ query: 'Customer' });
+    expect(out.markdown).toContain('Customer');
+  });
+});
+
+describe('Read-only semantic search', () => {
+  const modelPath = join(__dirname, 'fixtures', 'temp', 'readonly-semantic.xml');
+
+  beforeEach(() => {
+    copyFileSync(join(__dirname, 'fixtures', 'model-with-views.xml'), modelPath);
+    process.env.READ_ONLY = 'true';
+    process.env.SEMANTIC_SEARCH = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env.READ_ONLY;
+    delete process.env.SEMANTIC_SEARCH;
+    for (const path of [modelPath, embeddingsPath(modelPath)]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('keeps the index in memory instead of writing it next to the model', async () => {
+    const tools = createTools(modelPath);
+    const out = await tools.semanticSearchHandler({ query: 'customer' });
+    expect(out.hits.length).toBeGreaterThan(0);
+    expect(existsSync(embeddingsPath(modelPath))).toBe(false);
+  });
+});
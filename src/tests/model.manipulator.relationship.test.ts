@@ -1,13 +1,40 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { ModelLoader } from '../model/loader';
 import { ModelManipulator } from '../model/manipulator';
+import { createTools } from '../mcp/tools';
 import { join } from 'path';
+import { tmpdir } from 'os';
+import { readFileSync, writeFileSync, mkdtempSync, rmSync } from 'fs';
+import {
+  getAllowedRelationships,
+  lookupRelationship,
+  parseRelationshipTableXml,
+  loadRelationshipTableFile,
+  useRelationshipTable,
+  compareRelationshipTable
+} from '../utils/relationship-rules';
 import {
   ValidationError,
   NotFoundError,
   DuplicateError
 } from '../model/manipulator-types';
 
+// Element types for which each relationship type is allowed
+const VALID_ELEMENT_TYPES: Record<string, [string, string]> = {
+  Composition: ['ApplicationComponent', 'ApplicationInterface'],
+  Aggregation: ['BusinessCollaboration', 'BusinessRole'],
+  Assignment: ['BusinessActor', 'BusinessRole'],
+  Realization: ['ApplicationProcess', 'ApplicationService'],
+  Serving: ['ApplicationService', 'BusinessProcess'],
+  Access: ['BusinessProcess', 'BusinessObject'],
+  Influence: ['Driver', 'Goal'],
+  Association: ['BusinessActor', 'DataObject'],
+  Flow: ['BusinessProcess', 'BusinessFunction'],
+  Triggering: ['BusinessEvent', 'BusinessProcess'],
+  Specialization: ['BusinessActor', 'BusinessActor'],
+  Junction: ['BusinessProcess', 'AndJunction']
+};
+
 describe('ModelManipulator - Relationship CRUD Operations', () => {
   let loader: ModelLoader;
   let manipulator: ModelManipulator;
@@ -56,7 +83,7 @@ describe('ModelManipulator - Relationship CRUD Operations', () => {
 
     it('should create relationship with custom identifier', async () => {
       const relationship = await manipulator.createRelationship({
-        type: 'Access',
+        type: 'Flow',
         sourceId: sourceElementId,
         targetId: targetElementId,
         identifier: 'custom-rel-id'
@@ -171,7 +198,7 @@ describe('ModelManipulator - Relationship CRUD Operations', () => {
       });
 
       await expect(manipulator.createRelationship({
-        type: 'Access',
+        type: 'Flow',
         sourceId: sourceElementId,
         targetId: targetElementId,
         identifier: 'duplicate-rel-id'
@@ -186,10 +213,13 @@ describe('ModelManipulator - Relationship CRUD Operations', () => {
       ];
 
       for (const type of validTypes) {
+        const [sourceType, targetType] = VALID_ELEMENT_TYPES[type];
+        const source = await manipulator.createElement({ type: sourceType, name: `${type} Source` });
+        const target = await manipulator.createElement({ type: targetType, name: `${type} Target` });
         const relationship = await manipulator.createRelationship({
           type,
-          sourceId: sourceElementId,
-          targetId: targetElementId,
+          sourceId: source.id,
+          targetId: target.id,
           identifier: `test-${type.toLowerCase()}-rel`
         });
         expect(relationship.type).toBe(type);
@@ -271,10 +301,10 @@ describe('ModelManipulator - Relationship CRUD Operations', () => {
 
     it('should update relationship type', async () => {
       const updated = await manipulator.updateRelationship(relationshipId, {
-        type: 'Access'
+        type: 'Flow'
       });
 
-      expect(updated.type).toBe('Access');
+      expect(updated.type).toBe('Flow');
     });
 
     it('should update relationship documentation', async () => {
@@ -336,13 +366,13 @@ describe('ModelManipulator - Relationship CRUD Operations', () => {
     it('should update multiple fields at once', async () => {
       const updated = await manipulator.updateRelationship(relationshipId, {
         name: 'Updated Name',
-        type: 'Access',
+        type: 'Flow',
         documentation: 'Updated docs',
         properties: { 'prop': 'value' }
       });
 
       expect(updated.name).toBe('Updated Name');
-      expect(updated.type).toBe('Access');
+      expect(updated.type).toBe('Flow');
       expect(updated.documentation).toBe('Updated docs');
       expect(updated.properties).toEqual({ 'prop': 'value' });
     });
@@ -547,10 +577,13 @@ describe('ModelManipulator - Relationship CRUD Operations', () => {
       ];
 
       for (const type of validTypes) {
+        const [sourceType, targetType] = VALID_ELEMENT_TYPES[type];
+        const source = await manipulator.createElement({ type: sourceType, name: `${type} Source` });
+        const target = await manipulator.createElement({ type: targetType, name: `${type} Target` });
         const relationship = await manipulator.createRelationship({
           type,
-          sourceId: sourceElementId,
-          targetId: targetElementId,
+          sourceId: source.id,
+          targetId: target.id,
           identifier: `test-${type.toLowerCase()}-rel`
         });
         expect(relationship.type).toBe(type);
@@ -573,4 +606,127 @@ describe('ModelManipulator - Relationship CRUD Operations', () => {
       }
     });
   });
+
+  describe('Relationship Compatibility', () => {
+    it('looks up core and derived relationships in the ArchiMate 3.2 table', () => {
+      expect(lookupRelationship('BusinessActor', 'BusinessRole', 'Assignment')).toEqual({ allowed: true, derived: false });
+      // Component -assigned to-> function -realizes-> service -serves-> actor
+      expect(lookupRelationship('ApplicationComponent', 'BusinessActor', 'Serving')).toEqual({ allowed: true, derived: true });
+      expect(lookupRelationship('DataObject', 'BusinessActor', 'Serving')).toEqual({ allowed: false, derived: false });
+      expect(lookupRelationship('BusinessActor', 'BusinessRole', 'Specialization')!.allowed).toBe(false);
+      expect(lookupRelationship('Unknown', 'BusinessRole', 'Serving')).toBeUndefined();
+
+      expect(getAllowedRelationships('BusinessActor', 'DataObject')).toEqual(['Access', 'Association']);
+      expect(getAllowedRelationships('Network', 'Network')).toContain('Specialization');
+    });
+
+    it('rejects relationships that are not allowed and lists the allowed types', async () => {
+      await manipulator.createElement({ type: 'DataObject', name: 'Order Data', identifier: 'compat-data' });
+      await manipulator.createElement({ type: 'BusinessActor', name: 'Customer', identifier: 'compat-actor' });
+
+      const error = await manipulator.createRelationship({
+        type: 'Serving',
+        sourceId: 'compat-data',
+        targetId: 'compat-actor'
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toContain("'Serving' is not allowed from DataObject to BusinessActor");
+      expect(error.suggestions[0]).toBe('Use one of the allowed relationship types: Association');
+      expect(manipulator.getModel().relationships.some(r => r.sourceId === 'compat-data')).toBe(false);
+    });
+
+    it('rejects updates that make a relationship invalid', async () => {
+      await manipulator.createElement({ type: 'BusinessActor', name: 'Customer', identifier: 'compat-actor' });
+      await manipulator.createElement({ type: 'BusinessObject', name: 'Order', identifier: 'compat-object' });
+      await manipulator.createElement({ type: 'BusinessProcess', name: 'Handle Order', identifier: 'compat-process' });
+      await manipulator.createRelationship({ type: 'Access', sourceId: 'compat-process', targetId: 'compat-object', identifier: 'compat-rel' });
+
+      await expect(manipulator.updateRelationship('compat-rel', { type: 'Triggering' })).rejects.toThrow(ValidationError);
+      await expect(manipulator.updateRelationship('compat-rel', { sourceId: 'compat-actor' })).resolves.toBeDefined();
+      expect(manipulator.getRelationship('compat-rel')!.type).toBe('Access');
+    });
+
+    it('reports invalid relationships in existing models as warnings', async () => {
+      // basic-model.xml assigns a Device to an ApplicationComponent
+      const result = await manipulator.validateModel();
+      const warning = result.warnings!.find(w => w.path === 'relationship[rel-assignment-1].type');
+
+      expect(warning!.message).toContain('Allowed relationship types: Realization, Serving, Triggering, Flow, Association');
+      expect(result.errors.some(e => e.path === warning!.path)).toBe(false);
+    });
+  });
+
+  describe('Published relationship table', () => {
+    // Two rows in the format of Archi's relationships.xml
+    const TABLE = `<?xml version="1.0" encoding="UTF-8"?>
+<relationships>
+  <source concept="BusinessActor">
+    <target concept="BusinessRole" relations="cfgiost"/>
+    <target concept="DataObject" relations="ao"/>
+  </source>
+  <source concept="DataObject">
+    <target concept="BusinessActor" relations="o"/>
+  </source>
+</relationships>`;
+
+    afterEach(() => {
+      useRelationshipTable(null);
+    });
+
+    it('reads the relationship letters of each source and target', () => {
+      expect(parseRelationshipTableXml(TABLE)).toEqual({
+        BusinessActor: {
+          BusinessRole: ['Composition', 'Flow', 'Aggregation', 'Assignment', 'Association', 'Specialization', 'Triggering'],
+          DataObject: ['Access', 'Association']
+        },
+        DataObject: { BusinessActor: ['Association'] }
+      });
+      expect(() => parseRelationshipTableXml('<relationships/>')).toThrow('no <source> elements');
+      expect(() => parseRelationshipTableXml(TABLE.replace('"ao"', '"ax"'))).toThrow('unknown relationship letter "x"');
+    });
+
+    it('names the setting and the path when the table file cannot be used', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'archiscribe-relationship-table-'));
+      const missing = join(dir, 'missing.xml');
+      const malformed = join(dir, 'relationships.xml');
+      writeFileSync(malformed, '<relationships><source concept="BusinessActor">', 'utf8');
+      try {
+        expect(() => loadRelationshipTableFile(missing)).toThrow(`Invalid relationshipTablePath ${missing}: ENOENT`);
+        expect(() => loadRelationshipTableFile(malformed)).toThrow(`Invalid relationshipTablePath ${malformed}: Invalid relationship table`);
+
+        process.env.RELATIONSHIP_TABLE_PATH = missing;
+        expect(() => createTools(join(__dirname, 'fixtures', 'basic-model.xml'))).toThrow(`Invalid relationshipTablePath ${missing}`);
+      } finally {
+        delete process.env.RELATIONSHIP_TABLE_PATH;
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('checks relationships against a loaded table instead of the generated one', () => {
+      useRelationshipTable(parseRelationshipTableXml(TABLE));
+      expect(lookupRelationship('BusinessActor', 'BusinessRole', 'Specialization')!.allowed).toBe(true);
+      expect(getAllowedRelationships('BusinessActor', 'DataObject')).toEqual(['Access', 'Association']);
+      // Pairs the table does not list are looked up in the generated table
+      expect(lookupRelationship('ApplicationComponent', 'BusinessActor', 'Serving')).toEqual({ allowed: true, derived: true });
+    });
+
+    it('lists the cells where the generated table differs', () => {
+      const reference = {
+        BusinessActor: { DataObject: ['Association' as const] },
+        DataObject: { BusinessActor: ['Serving' as const, 'Association' as const] }
+      };
+      expect(compareRelationshipTable(reference)).toEqual([
+        { source: 'BusinessActor', target: 'DataObject', missing: [], extra: ['Access'] },
+        { source: 'DataObject', target: 'BusinessActor', missing: ['Serving'], extra: [] }
+      ]);
+    });
+
+    // Set ARCHIMATE_RELATIONSHIPS_XML to a transcription of Appendix B
+    // (e.g. relationships.xml of Archi) to compare every cell
+    it.runIf(!!process.env.ARCHIMATE_RELATIONSHIPS_XML)('matches the published ArchiMate 3.2 table', () => {
+      const reference = parseRelationshipTableXml(readFileSync(process.env.ARCHIMATE_RELATIONSHIPS_XML!, 'utf8'));
+      expect(compareRelationshipTable(reference)).toEqual([]);
+    });
+  });
 });
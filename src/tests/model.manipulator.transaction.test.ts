@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { ModelManipulationError, NotFoundError, ValidationError } from '../model/manipulator-types';
+import { join } from 'path';
+
+const FIXTURE = join(__dirname, 'fixtures', 'basic-model.xml');
+
+describe('ModelManipulator - Transactions', () => {
+  let manipulator: ModelManipulator;
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE));
+  });
+
+  it('records every CRUD call made inside a transaction', async () => {
+    const transaction = manipulator.beginTransaction();
+    await manipulator.createElement({ type: 'BusinessActor', name: 'Customer', identifier: 'tx-actor' });
+    await manipulator.updateElement('tx-actor', { name: 'Client' });
+    await manipulator.createView({ name: 'Customers', identifier: 'tx-view' });
+    await manipulator.addElementToView('tx-view', 'tx-actor');
+    await manipulator.deleteView('tx-view');
+
+    const operations = transaction.getOperations();
+    expect(operations.map(o => `${o.type} ${o.entityType} ${o.entityId}`)).toEqual([
+      'create element tx-actor',
+      'update element tx-actor',
+      'create view tx-view',
+      'update view tx-view',
+      'delete view tx-view'
+    ]);
+    expect(operations[1].previousState.name).toBe('Customer');
+    expect(operations[1].data.name).toBe('Client');
+
+    await manipulator.commitTransaction(transaction);
+    expect(manipulator.getElement('tx-actor')!.name).toBe('Client');
+    expect(manipulator.getActiveTransaction()).toBeNull();
+  });
+
+  it('restores the snapshot on rollback', async () => {
+    const elementCount = manipulator.getModel().elements.length;
+    const transaction = manipulator.beginTransaction();
+    await manipulator.createElement({ type: 'BusinessActor', name: 'Customer' });
+    await manipulator.deleteElement('elem-business-actor-1', { cascade: true });
+
+    await manipulator.rollbackTransaction(transaction);
+
+    expect(manipulator.getModel().elements.length).toBe(elementCount);
+    expect(manipulator.getElement('elem-business-actor-1')).not.toBeNull();
+    expect(manipulator.isModified()).toBe(false);
+  });
+
+  it('rolls back when validation at commit fails', async () => {
+    const relationshipCount = manipulator.getModel().relationships.length;
+    const transaction = manipulator.beginTransaction();
+    await manipulator.createElement({ type: 'BusinessActor', name: 'Customer', identifier: 'tx-actor' });
+    await manipulator.createElement({ type: 'BusinessRole', name: 'Buyer', identifier: 'tx-role' });
+    // Assignment is one-to-one: the second one only fails whole-model validation
+    await manipulator.createRelationship({ type: 'Assignment', sourceId: 'tx-actor', targetId: 'tx-role' });
+    await manipulator.createRelationship({ type: 'Assignment', sourceId: 'tx-actor', targetId: 'tx-role' });
+
+    await expect(manipulator.commitTransaction(transaction)).rejects.toThrow(ValidationError);
+    expect(manipulator.getElement('tx-actor')).toBeNull();
+    expect(manipulator.getModel().relationships.length).toBe(relationshipCount);
+    expect(manipulator.getActiveTransaction()).toBeNull();
+  });
+
+  it('runs a unit of work all-or-nothing', async () => {
+    await expect(manipulator.runTransaction(async () => {
+      await manipulator.createElement({ type: 'BusinessActor', name: 'Customer', identifier: 'tx-actor' });
+      await manipulator.updateElement('missing', { name: 'Nothing' });
+    })).rejects.toThrow(NotFoundError);
+    expect(manipulator.getElement('tx-actor')).toBeNull();
+
+    const id = await manipulator.runTransaction(async () =>
+      (await manipulator.createElement({ type: 'BusinessActor', name: 'Customer' })).id
+    );
+    expect(manipulator.getElement(id)).not.toBeNull();
+    expect(manipulator.isModified()).toBe(true);
+  });
+
+  it('allows one transaction at a time', async () => {
+    const transaction = manipulator.beginTransaction();
+    expect(() => manipulator.beginTransaction()).toThrow(ModelManipulationError);
+
+    await manipulator.commitTransaction(transaction);
+    await expect(manipulator.commitTransaction(transaction)).rejects.toThrow('Transaction is not active');
+  });
+
+  it('queues edits that arrive while a transaction waits', async () => {
+    let resume!: () => void;
+    const paused = new Promise<void>(resolve => { resume = resolve; });
+
+    const batch = manipulator.withEditSource('BatchOperations', () => manipulator.runTransaction(async () => {
+      await manipulator.createElement({ type: 'BusinessActor', name: 'Zebra', identifier: 'zebra-1' });
+      await paused;
+      throw new Error('step 2 failed');
+    }));
+    const other = manipulator.withEditSource('CreateElement', () =>
+      manipulator.createElement({ type: 'BusinessRole', name: 'Okapi', identifier: 'okapi-1' })
+    );
+
+    resume();
+    await expect(batch).rejects.toThrow('step 2 failed');
+    await other;
+
+    expect(manipulator.getElement('zebra-1')).toBeNull();
+    expect(manipulator.getElement('okapi-1')!.name).toBe('Okapi');
+    expect(manipulator.getEditHistory().undoable.map(e => e.source)).toEqual(['CreateElement']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { mergeModels } from '../model/merge';
+import { findFolderOf } from '../model/organizations';
+import { join } from 'path';
+
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-organizations.xml');
+
+const load = () => new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+
+describe('Model merge', () => {
+  let base: ModelManipulator;
+  let ours: ModelManipulator;
+  let theirs: ModelManipulator;
+  const merge = (prefer?: 'ours' | 'theirs') => mergeModels(base.getModel(), ours.getModel(), theirs.getModel(), { prefer });
+
+  beforeEach(() => {
+    base = load();
+    ours = load();
+    theirs = load();
+  });
+
+  it('combines changes made on different sides without conflicts', async () => {
+    await ours.updateElement('org-elem-1', { name: 'Client' });
+    await theirs.updateElement('org-elem-1', { documentation: 'Buys our products' });
+    await ours.createElement({ type: 'BusinessRole', name: 'Buyer', identifier: 'role-buyer' });
+    await theirs.createElement({ type: 'Node', name: 'Server', identifier: 'node-server' });
+    await theirs.deleteElement('org-elem-3');
+    await ours.addElementToView('org-view-1', 'org-elem-1');
+    await theirs.addElementToView('org-view-1', 'org-elem-2');
+
+    const { merged, conflicts } = merge();
+    expect(conflicts).toEqual([]);
+    expect(merged.elements.map(e => e.id)).toEqual(['org-elem-1', 'org-elem-2', 'role-buyer', 'node-server']);
+    expect(merged.elements[0]).toMatchObject({ name: 'Client', documentation: 'Buys our products' });
+    expect(merged.views[0].elements).toEqual(['org-elem-1', 'org-elem-2']);
+    expect(merged.elements[0].inViews).toEqual(['org-view-1']);
+  });
+
+  it('reports an element renamed differently on both sides', async () => {
+    await ours.updateElement('org-elem-1', { name: 'Client' });
+    await theirs.updateElement('org-elem-1', { name: 'Buyer' });
+
+    const { merged, conflicts } = merge();
+    expect(conflicts).toEqual([{
+      kind: 'both-modified',
+      entityType: 'element',
+      entityId: 'org-elem-1',
+      name: 'Client',
+      field: 'name',
+      base: 'Customer',
+      ours: 'Client',
+      theirs: 'Buyer',
+      resolution: 'ours',
+      message: 'name of element "Client" was changed differently on both sides'
+    }]);
+    expect(merged.elements[0].name).toBe('Client');
+    expect(merge('theirs').merged.elements[0].name).toBe('Buyer');
+  });
+
+  it('merges properties per property', async () => {
+    for (const side of [ours, theirs]) {
+      await side.createPropertyDefinition({ identifier: 'propdef-owner', name: 'Owner' });
+      await side.createPropertyDefinition({ identifier: 'propdef-status', name: 'Status' });
+    }
+    await ours.assignProperty('org-elem-2', 'propdef-owner', 'Sales');
+    await theirs.assignProperty('org-elem-2', 'propdef-status', 'Live');
+
+    const { merged, conflicts } = merge();
+    expect(conflicts).toEqual([]);
+    expect(merged.propertyDefinitions!.map(pd => pd.identifier)).toEqual(['propdef-owner', 'propdef-status']);
+    expect(merged.elements[1].properties).toEqual({ 'propdef-owner': 'Sales', 'propdef-status': 'Live' });
+  });
+
+  it('reports a concept changed on one side and deleted on the other', async () => {
+    await ours.updateElement('org-elem-3', { name: 'Invoicing' });
+    await theirs.deleteElement('org-elem-3');
+
+    const kept = merge();
+    expect(kept.conflicts).toMatchObject([{ kind: 'modify-delete', entityId: 'org-elem-3', ours: 'modified', theirs: 'deleted', resolution: 'ours' }]);
+    expect(kept.merged.elements.map(e => e.id)).toContain('org-elem-3');
+
+    const removed = merge('theirs');
+    expect(removed.conflicts[0].resolution).toBe('removed');
+    expect(removed.merged.elements.map(e => e.id)).not.toContain('org-elem-3');
+  });
+
+  it('drops relationships to elements the other side deleted', async () => {
+    await ours.createRelationship({ type: 'Flow', sourceId: 'org-elem-2', targetId: 'org-elem-3', identifier: 'rel-flow' });
+    await ours.addElementToView('org-view-1', 'org-elem-3');
+    await theirs.deleteElement('org-elem-3');
+
+    const { merged, conflicts } = merge();
+    expect(conflicts.map(c => [c.kind, c.entityId, c.resolution])).toEqual([
+      ['dangling-reference', 'rel-flow', 'removed'],
+      ['dangling-reference', 'org-view-1', 'removed']
+    ]);
+    expect(merged.relationships.map(r => r.id)).toEqual(['org-rel-1']);
+    expect(merged.views[0].elements).toEqual([]);
+  });
+
+  it('files new concepts and folder moves from theirs', async () => {
+    await theirs.createElement({ type: 'ApplicationComponent', name: 'ERP', identifier: 'app-erp' });
+    await theirs.moveToFolder('app-erp', 'Application/CRM');
+    await theirs.moveToFolder('org-elem-3', 'Application/CRM');
+    await ours.createElement({ type: 'BusinessRole', name: 'Buyer', identifier: 'role-buyer' });
+
+    const { merged, conflicts } = merge();
+    expect(conflicts).toEqual([]);
+    const folders = merged.organizations!;
+    expect(findFolderOf(folders, 'app-erp')?.path).toBe('Application/CRM');
+    expect(findFolderOf(folders, 'org-elem-3')?.path).toBe('Application/CRM');
+    expect(findFolderOf(folders, 'role-buyer')?.path).toBe(findFolderOf(ours.getModel().organizations!, 'role-buyer')?.path);
+  });
+});
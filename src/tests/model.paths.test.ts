@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { NotFoundError } from '../model/manipulator-types';
+import { findPaths } from '../model/paths';
+import { renderPathsMarkdown } from '../renderer';
+import { join } from 'path';
+
+// Database Server -Serving-> Backend Service -Serving-> Customer Portal -Serving-> Customer
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-views.xml');
+
+describe('Path finding', () => {
+  let manipulator: ModelManipulator;
+  const ids = (search: ReturnType<typeof findPaths>) => search.paths.map(p => p.steps.map(s => s.relationshipId));
+
+  beforeEach(async () => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+    await manipulator.createRelationship({ type: 'Serving', sourceId: 'view-elem-4', targetId: 'view-elem-2', identifier: 'rel-direct' });
+  });
+
+  it('returns the k shortest paths, shortest first', () => {
+    const search = findPaths(manipulator.getModel(), 'view-elem-4', 'view-elem-1');
+    expect(ids(search)).toEqual([
+      ['rel-direct', 'view-rel-1'],
+      ['view-rel-3', 'view-rel-2', 'view-rel-1']
+    ]);
+    expect(search.paths[0].elements.map(e => e.name)).toEqual(['Database Server', 'Customer Portal', 'Customer']);
+
+    expect(ids(findPaths(manipulator.getModel(), 'view-elem-4', 'view-elem-1', { k: 1 }))).toEqual([['rel-direct', 'view-rel-1']]);
+    expect(ids(findPaths(manipulator.getModel(), 'view-elem-4', 'view-elem-1', { maxHops: 2 }))).toHaveLength(1);
+  });
+
+  it('follows relationships backwards unless the search is directed', () => {
+    const search = findPaths(manipulator.getModel(), 'view-elem-1', 'view-elem-4');
+    expect(ids(search)[0]).toEqual(['view-rel-1', 'rel-direct']);
+    expect(search.paths[0].steps.map(s => s.direction)).toEqual(['backward', 'backward']);
+
+    expect(findPaths(manipulator.getModel(), 'view-elem-1', 'view-elem-4', { directed: true }).paths).toEqual([]);
+  });
+
+  it('only follows the allowed relationship types', async () => {
+    await manipulator.createRelationship({ type: 'Flow', sourceId: 'view-elem-3', targetId: 'view-elem-2', identifier: 'rel-flow', name: 'Orders' });
+
+    const all = findPaths(manipulator.getModel(), 'view-elem-3', 'view-elem-2');
+    expect(ids(all)).toEqual([['view-rel-2'], ['rel-flow'], ['view-rel-3', 'rel-direct']]);
+
+    const flows = findPaths(manipulator.getModel(), 'view-elem-3', 'view-elem-2', { relationshipTypes: ['Flow'] });
+    expect(ids(flows)).toEqual([['rel-flow']]);
+    expect(renderPathsMarkdown(flows)).toContain('**Backend Service** —[Flow "Orders"]→ **Customer Portal**');
+  });
+
+  it('renders each path as a chain', () => {
+    const markdown = renderPathsMarkdown(findPaths(manipulator.getModel(), 'view-elem-1', 'view-elem-3'));
+    expect(markdown).toContain('# Paths: Customer → Backend Service');
+    expect(markdown).toContain('## Path 1 (2 hops)');
+    expect(markdown).toContain('**Customer** ←[Serving "Serves Customer"]— **Customer Portal** ←[Serving "Supports Portal"]— **Backend Service**');
+    expect(markdown).toContain('- Serving `view-rel-1`: Customer Portal → Customer');
+  });
+
+  it('rejects unknown elements and reports when there is no path', async () => {
+    expect(() => findPaths(manipulator.getModel(), 'view-elem-1', 'missing')).toThrow(NotFoundError);
+
+    await manipulator.createElement({ type: 'Goal', name: 'Grow', identifier: 'goal-grow' });
+    const search = findPaths(manipulator.getModel(), 'view-elem-1', 'goal-grow');
+    expect(search.paths).toEqual([]);
+    expect(renderPathsMarkdown(search)).toContain('No path within 6 hop(s).');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { runQuery, QuerySyntaxError } from '../model/query';
+import { parseQuery } from '../model/query-parser';
+import { renderQueryResultMarkdown } from '../renderer';
+import { join } from 'path';
+
+// Database Server -Serving-> Backend Service -Serving-> Customer Portal -Serving-> Customer
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-views.xml');
+
+describe('Model queries', () => {
+  let manipulator: ModelManipulator;
+  const query = (text: string) => runQuery(manipulator.getModel(), text);
+
+  beforeEach(async () => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+    await manipulator.createElement({ type: 'ApplicationComponent', name: 'Ledger', identifier: 'ledger', properties: { Owner: 'Finance' } });
+    await manipulator.createElement({ type: 'BusinessProcess', name: 'Close Books', identifier: 'close-books' });
+    await manipulator.createElement({ type: 'BusinessProcess', name: 'Pay Invoices', identifier: 'pay-invoices' });
+    await manipulator.createRelationship({ type: 'Serving', sourceId: 'ledger', targetId: 'close-books', identifier: 'rel-ledger-1' });
+    await manipulator.createRelationship({ type: 'Serving', sourceId: 'ledger', targetId: 'pay-invoices', identifier: 'rel-ledger-2' });
+    await manipulator.createRelationship({ type: 'Serving', sourceId: 'view-elem-2', targetId: 'pay-invoices', identifier: 'rel-portal' });
+  });
+
+  it('matches typed patterns filtered on properties', () => {
+    const result = query(`MATCH (a:ApplicationComponent)-[:Serving]->(b:BusinessProcess) WHERE a.properties.Owner = 'Finance' RETURN a, b.name ORDER BY b.name`);
+    expect(result.columns).toEqual(['a', 'b.name']);
+    expect(result.rows).toEqual([
+      [{ id: 'ledger', name: 'Ledger', type: 'ApplicationComponent' }, 'Close Books'],
+      [{ id: 'ledger', name: 'Ledger', type: 'ApplicationComponent' }, 'Pay Invoices']
+    ]);
+
+    const withProperties = runQuery(new ModelLoader(join(__dirname, 'fixtures', 'model-with-properties.xml'), { watch: false }).load(),
+      'MATCH (c {type: \'ApplicationComponent\'}) WHERE c.properties.Cost > 1000 RETURN c.name, c.properties.Cost AS cost');
+    expect(withProperties.rows).toEqual([['Component with Properties', 50000]]);
+  });
+
+  it('follows relationships in either direction and joins patterns on shared variables', () => {
+    const either = query(`MATCH (p {name: 'Customer Portal'})-[r]-(x) RETURN x.name, r.type ORDER BY x.name`);
+    expect(either.rows).toEqual([['Backend Service', 'Serving'], ['Customer', 'Serving'], ['Pay Invoices', 'Serving']]);
+
+    const joined = query(`MATCH (a)-[:Serving]->(p:BusinessProcess), (b)-[:Serving]->(p) WHERE a.name < b.name RETURN a.name, b.name, p.name`);
+    expect(joined.rows).toEqual([['Customer Portal', 'Ledger', 'Pay Invoices']]);
+
+    const chain = query('MATCH (d:Device)-->()-->(portal)<-[:Serving]-(d2) RETURN DISTINCT portal.name');
+    expect(chain.rows).toEqual([]);
+    expect(query('MATCH (d:Device)-->()-->(portal) RETURN portal.name').rows).toEqual([['Customer Portal']]);
+  });
+
+  it('counts, groups, orders and pages results', () => {
+    const counts = query('MATCH (a)-[:Serving]->(b) RETURN a.name AS source, count(*) AS served ORDER BY served DESC, source');
+    expect(counts.rows).toEqual([
+      ['Customer Portal', 2],
+      ['Ledger', 2],
+      ['Backend Service', 1],
+      ['Database Server', 1]
+    ]);
+
+    const paged = query('MATCH (e) WHERE e.layer = \'Business\' RETURN e.name ORDER BY e.name SKIP 1 LIMIT 2');
+    expect(paged.rows).toEqual([['Customer'], ['Pay Invoices']]);
+
+    expect(query('MATCH (e:Goal) RETURN count(*)').rows).toEqual([[0]]);
+    expect(query('MATCH (e) WHERE e.name =~ \'(?i)c.*\' AND NOT e.type IN [\'BusinessActor\'] RETURN count(DISTINCT e.type)').rows).toEqual([[2]]);
+  });
+
+  it('applies conditions while choosing candidates and explains the plan', () => {
+    const result = query(`MATCH (a)-[:Serving]->(b:BusinessProcess) WHERE b.name STARTS WITH 'Close' AND a.documentation IS NULL RETURN a.name`);
+    expect(result.rows).toEqual([['Ledger']]);
+    expect(result.plan[0]).toBe('Scan b: 1 candidate element(s), 1 condition(s) applied');
+    expect(result.plan[1]).toMatch(/^Expand \(b\)<-\[_r\d+:Serving\]-\(a\)/);
+
+    const markdown = renderQueryResultMarkdown(result, true);
+    expect(markdown).toContain('## Plan');
+    expect(markdown).toContain('| a.name |\n| --- |\n| Ledger |');
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(() => parseQuery('MATCH (a RETURN a')).toThrow(QuerySyntaxError);
+    expect(() => parseQuery('MATCH (a)-[*1..3]->(b) RETURN a')).toThrow(expect.objectContaining({ position: 11 }));
+    expect(() => query('MATCH (a) RETURN b')).toThrow('Variable b is not defined in MATCH');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { SearchIndex, stem, editDistance } from '../model/search';
+import { renderRankedElementListMarkdown } from '../renderer';
+import { join } from 'path';
+
+const FIXTURE = join(__dirname, 'fixtures', 'model-with-views.xml');
+
+describe('Model search', () => {
+  let manipulator: ModelManipulator;
+  const names = (hits: { item: { name?: string } }[]) => hits.map(h => h.item.name);
+
+  beforeEach(() => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+  });
+
+  it('tolerates typos and ranks full matches first', () => {
+    const hits = new SearchIndex(manipulator.getModel()).searchElements('custmer portal');
+    expect(names(hits)).toEqual(['Customer Portal', 'Customer']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(hits[0].matches).toEqual([{ field: 'name', highlight: '**Customer** **Portal**' }]);
+  });
+
+  it('matches stemmed words, prefixes and words within names', () => {
+    const index = new SearchIndex(manipulator.getModel());
+    const services = index.searchElements('services');
+    expect(names(services)).toEqual(['Backend Service', 'Database Server']);
+    expect(services[0].score).toBeGreaterThan(services[1].score * 1.5);
+    expect(names(index.searchElements('serv'))).toEqual(['Backend Service', 'Database Server']);
+    expect(names(index.searchElements('base'))).toEqual(['Database Server']);
+    expect(index.searchElements('xyz')).toEqual([]);
+    expect(names(index.searchViews('cooperation'))).toEqual(['Application Cooperation View']);
+  });
+
+  it('searches documentation and property values, weighting names highest', async () => {
+    await manipulator.createElement({ type: 'ApplicationComponent', name: 'Billing', identifier: 'billing', documentation: 'Sends invoices to the customer every month.' });
+    await manipulator.createElement({ type: 'ApplicationComponent', name: 'Ledger', identifier: 'ledger', properties: { Owner: 'Customer Care' } });
+
+    const hits = new SearchIndex(manipulator.getModel()).searchElements('customer');
+    expect(names(hits)).toEqual(['Customer', 'Customer Portal', 'Ledger', 'Billing']);
+    expect(hits[2].matches).toEqual([{ field: 'properties', key: 'Owner', highlight: '**Customer** Care' }]);
+    expect(hits[3].matches).toEqual([{ field: 'documentation', highlight: 'Sends invoices to the **customer** every month.' }]);
+  });
+
+  it('finds nothing for nonsense words of four or five letters', () => {
+    const index = new SearchIndex(manipulator.getModel());
+    expect(index.searchElements('xyzzy')).toEqual([]);
+    expect(index.searchElements('zebra')).toEqual([]);
+    expect(index.searchElements('qwer')).toEqual([]);
+    expect(index.searchViews('xyzzy')).toEqual([]);
+  });
+
+  it('renders scores and highlights', () => {
+    const hits = new SearchIndex(manipulator.getModel()).searchElements('database');
+    const markdown = renderRankedElementListMarkdown(hits, 'database');
+    expect(markdown).toContain('_Ranked by relevance to "database"_');
+    expect(markdown).toMatch(/- Database Server \(Device\) — score [\d.]+\n {2}- name: \*\*Database\*\* Server/);
+    expect(renderRankedElementListMarkdown([], 'nothing')).toContain('_No elements found_');
+  });
+
+  it('stems inflections and bounds edit distances', () => {
+    expect(['processes', 'processing', 'process'].map(stem)).toEqual(['process', 'process', 'process']);
+    expect(['capabilities', 'services', 'service'].map(stem)).toEqual(['capability', 'servic', 'servic']);
+    expect(editDistance('custmer', 'customer', 2)).toBe(1);
+    expect(editDistance('recieve', 'receive', 2)).toBe(1);
+    expect(editDistance('portal', 'server', 2)).toBe(3);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ModelLoader } from '../model/loader';
+import { ModelManipulator } from '../model/manipulator';
+import { SearchIndex } from '../model/search';
+import { SemanticIndex, Embedder, embeddingsPath, conceptText } from '../model/semantic';
+import { renderSemanticSearchMarkdown } from '../renderer';
+import { join } from 'path';
+import { existsSync, unlinkSync } from 'fs';
+
+// Customer Portal -Serving-> Customer, Web Server -Assignment-> Customer Portal
+const FIXTURE = join(__dirname, 'fixtures', 'basic-model.xml');
+const TEMP_PATH = join(__dirname, 'fixtures', 'temp', 'semantic-model.xml');
+
+/**
+ * Embeds texts by the topics of their words, standing in for a sentence-embedding model
+ */
+class TopicEmbedder implements Embedder {
+  readonly model = 'topics';
+  calls: string[][] = [];
+  private topics = [
+    ['payment', 'payments', 'invoice', 'invoices', 'billing', 'pay'],
+    ['customer', 'client', 'portal'],
+    ['server', 'device', 'host', 'infrastructure']
+  ];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    return texts.map(text => {
+      const words = text.toLowerCase().split(/\W+/);
+      return this.topics.map(topic => words.filter(w => topic.includes(w)).length + 0.01);
+    });
+  }
+}
+
+describe('Semantic search', () => {
+  let manipulator: ModelManipulator;
+  let embedder: TopicEmbedder;
+
+  beforeEach(async () => {
+    manipulator = new ModelManipulator(new ModelLoader(FIXTURE, { watch: false }));
+    embedder = new TopicEmbedder();
+    await manipulator.createElement({ type: 'ApplicationService', name: 'Collections', identifier: 'collections', documentation: 'Sends invoices and tracks open items.' });
+  });
+
+  afterEach(() => {
+    for (const path of [TEMP_PATH, embeddingsPath(TEMP_PATH)]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('finds concepts by meaning when no word matches', async () => {
+    const index = SemanticIndex.open(embedder, embeddingsPath(TEMP_PATH));
+    await index.update(manipulator.getModel());
+
+    const hits = await index.search('which components handle payments', undefined, { kinds: ['element'] });
+    expect(hits[0]).toMatchObject({ id: 'collections', name: 'Collections', type: 'ApplicationService', keyword: 0 });
+    expect(hits[0].similarity).toBeGreaterThan(0.9);
+    expect(hits.map(h => h.id)).not.toContain('elem-technology-device-1');
+  });
+
+  it('combines similarity with keyword relevance', async () => {
+    const index = SemanticIndex.open(embedder, embeddingsPath(TEMP_PATH));
+    await index.update(manipulator.getModel());
+    const keywords = new SearchIndex(manipulator.getModel());
+
+    const hybrid = await index.search('client portal', keywords, { kinds: ['element'] });
+    expect(hybrid.map(h => h.name)).toEqual(['Customer Portal', 'Customer']);
+    expect(hybrid[0].keyword).toBe(1);
+
+    const keywordOnly = await index.search('web', keywords, { semanticWeight: 0 });
+    expect(keywordOnly[0]).toMatchObject({ name: 'Web Server', score: 1, similarity: 0 });
+
+    const markdown = renderSemanticSearchMarkdown(hybrid, 'client portal', 0.7);
+    expect(markdown).toContain('_Ranked 70% by meaning, 30% by keywords_');
+    expect(markdown).toMatch(/1\. \*\*Customer Portal\*\* \(ApplicationComponent\) — score [\d.]+ \(similarity [\d.]+, keywords 1\)/);
+  });
+
+  it('only embeds concepts whose text changed', async () => {
+    const index = SemanticIndex.open(embedder, embeddingsPath(TEMP_PATH));
+    expect(await index.update(manipulator.getModel())).toEqual({ embedded: 4, removed: 0, unchanged: 0 });
+
+    await manipulator.updateElement('collections', { documentation: 'Collects payments.' });
+    await manipulator.deleteElement('elem-technology-device-1', { cascade: true });
+    expect(await index.update(manipulator.getModel())).toEqual({ embedded: 1, removed: 1, unchanged: 2 });
+    expect(embedder.calls[1]).toEqual([conceptText(manipulator.getModel().elements.find(e => e.id === 'collections')!, 'element')]);
+    expect(embedder.calls[1][0]).toBe('Application Service: Collections\nCollects payments.');
+  });
+
+  it('stores the vectors next to the model file and updates them on save', async () => {
+    manipulator.onSave((path, model) => {
+      const index = SemanticIndex.open(embedder, embeddingsPath(path));
+      index.update(model).then(() => index.save());
+    });
+    await manipulator.save(TEMP_PATH, { createBackup: false, validate: false });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(existsSync(join(__dirname, 'fixtures', 'temp', 'semantic-model.embeddings.json'))).toBe(true);
+
+    const reopened = SemanticIndex.open(embedder, embeddingsPath(TEMP_PATH));
+    expect(reopened.size).toBe(4);
+    expect(await reopened.update(manipulator.getModel())).toEqual({ embedded: 0, removed: 0, unchanged: 4 });
+
+    const otherModel: Embedder = { model: 'other', embed: async texts => texts.map(() => [1]) };
+    expect(SemanticIndex.open(otherModel, embeddingsPath(TEMP_PATH)).size).toBe(0);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { ModelLoader } from '../../src/model/loader';
-import { renderViewDetailsMarkdownFromModel } from '../../src/renderer';
+import { renderViewDetailsMarkdownFromModel, renderViewDetailsWithinBudget, estimateTokens } from '../../src/renderer';
 import { join } from 'path';
 
 describe('Renderer', () => {
@@ -29,4 +29,59 @@ describe('Renderer', () => {
       expect(md).toMatch(/Viewpoint: Implementation and Deployment/i);
     }
   });
+
+  describe('view details within a token budget', () => {
+    const p = join(__dirname, '..', '..', 'data', 'archimate-scribe-demo-model.xml');
+    const model = new ModelLoader(p).load();
+    const view = model.views.find(v => v.name === 'Dataflow View')!;
+
+    it('renders the full view when it fits', () => {
+      const result = renderViewDetailsWithinBudget(model, view, undefined, { maxTokens: 10000 });
+      expect(result.detail).toBe('full');
+      expect(result.markdown).toBe(renderViewDetailsMarkdownFromModel(model, view));
+      expect(result.markdown).not.toContain('Summarized');
+    });
+
+    it('drops properties first', () => {
+      const md = renderViewDetailsMarkdownFromModel(model, view, undefined, 'compact');
+      expect(md).not.toContain('Properties');
+      expect(md).toContain('- Documentation: Public facing responsive web application.');
+    });
+
+    it('shortens documentation at the brief level', () => {
+      const long = { ...view, id: 'long', elements: ['long-el'], relationships: [], nodeHierarchy: [] };
+      const longModel = { ...model, elements: [...model.elements, { id: 'long-el', name: 'Long', type: 'Node', documentation: 'word '.repeat(100) }] };
+      const md = renderViewDetailsMarkdownFromModel(longModel, long, undefined, 'brief');
+      const doc = md.split('\n').find(l => l.startsWith('- Documentation:'))!;
+      expect(doc.endsWith('…')).toBe(true);
+      expect(doc.length).toBeLessThan(230);
+    });
+
+    it('groups elements by type when the budget is small and says what was left out', () => {
+      const result = renderViewDetailsWithinBudget(model, view, undefined, { maxTokens: 150 });
+      expect(result.detail).toBe('summary');
+      expect(result.markdown).toContain('## Elements (4)');
+      expect(result.markdown).toContain('- ApplicationComponent (3): Web App, API Gateway Service, Core Application Service');
+      expect(result.markdown).toContain('- Flow: 2');
+      expect(result.markdown).toContain('> Summarized to fit 150 tokens; left out: properties, element documentation, relationship details.');
+      expect(result.markdown).toContain('GetElementDetails');
+      expect(result.estimatedTokens).toBe(estimateTokens(result.markdown));
+    });
+
+    it('says when even the summary is over budget', () => {
+      const result = renderViewDetailsWithinBudget(model, view, undefined, { maxTokens: 20 });
+      expect(result.detail).toBe('summary');
+      expect(result.overBudget).toBe(true);
+      expect(result.estimatedTokens).toBeGreaterThan(20);
+      expect(result.markdown).toContain('> Summarized as far as possible, but still over the budget of 20 tokens; left out:');
+      expect(result.markdown).not.toContain('to fit 20 tokens');
+      expect(renderViewDetailsWithinBudget(model, view, undefined, { maxTokens: 150 }).overBudget).toBe(false);
+    });
+
+    it('starts at the requested detail level', () => {
+      const result = renderViewDetailsWithinBudget(model, view, undefined, { detail: 'compact' });
+      expect(result.detail).toBe('compact');
+      expect(result.markdown).toContain('> Summarized at detail level "compact"; left out: properties.');
+    });
+  });
 });
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ArchiMateXMLBuilder, SerializationOptions } from '../model/persistence';
+import { ModelLoader } from '../model/loader';
 import { ModelData, ElementObject, RelationshipObject, ViewObject } from '../model/types';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 
 describe('ArchiMateXMLBuilder', () => {
   let builder: ArchiMateXMLBuilder;
@@ -78,8 +82,11 @@ describe('ArchiMateXMLBuilder', () => {
 
     it('should serialize views', () => {
       const model: ModelData = {
-        elements: [],
-        relationships: [],
+        elements: [
+          { id: 'elem-1', name: 'Source', type: 'ApplicationComponent' },
+          { id: 'elem-2', name: 'Target', type: 'ApplicationComponent' }
+        ],
+        relationships: [{ id: 'rel-1', type: 'Flow', sourceId: 'elem-1', targetId: 'elem-2' }],
         views: [
           {
             id: 'view-1',
@@ -88,7 +95,7 @@ describe('ArchiMateXMLBuilder', () => {
             viewpoint: 'ApplicationCooperation',
             documentation: 'View documentation',
             properties: {},
-            elements: ['elem-1'],
+            elements: ['elem-1', 'elem-2'],
             relationships: ['rel-1'],
             nodeHierarchy: []
           }
@@ -222,4 +229,106 @@ describe('ArchiMateXMLBuilder', () => {
       expect(xml).toContain('xml:lang="fr"');
     });
   });
+
+  describe('diagram layout', () => {
+    const layoutPath = join(__dirname, 'fixtures', 'model-with-layout.xml');
+
+    const roundTrip = (model: ModelData): ModelData => {
+      const dir = mkdtempSync(join(tmpdir(), 'archiscribe-layout-'));
+      try {
+        const path = join(dir, 'model.xml');
+        writeFileSync(path, builder.serialize(model), 'utf8');
+        return new ModelLoader(path).load();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    };
+
+    it('writes nodes, styles, labels and bendpoints back as loaded', () => {
+      const model = new ModelLoader(layoutPath).load();
+      const reloaded = roundTrip(model);
+
+      expect(reloaded.views[0].nodes).toEqual(model.views[0].nodes);
+      expect(reloaded.views[0].connections).toEqual(model.views[0].connections);
+      expect(reloaded.views[0].nodeHierarchy).toEqual(model.views[0].nodeHierarchy);
+    });
+
+    it('drops diagram objects of elements removed from the view', () => {
+      const model = new ModelLoader(layoutPath).load();
+      const view = model.views[0];
+      view.elements = view.elements!.filter(id => id !== 'layout-elem-2');
+      view.relationships = [];
+
+      const reloaded = roundTrip(model).views[0];
+      const group = reloaded.nodes!.find(n => n.id === 'layout-group-1')!;
+      // The nested interface moves up into the group with its bounds unchanged
+      expect(group.children).toEqual([expect.objectContaining({ id: 'layout-node-3', x: 48, y: 216 })]);
+      expect(reloaded.connections!.map(c => c.id)).toEqual(['layout-line-1']);
+    });
+
+    it('lays out elements and relationships added to the view', () => {
+      const model = new ModelLoader(layoutPath).load();
+      const view = model.views[0];
+      view.elements!.push('layout-elem-4');
+      view.relationships!.push('layout-rel-3');
+
+      const reloaded = roundTrip(model).views[0];
+      const added = reloaded.nodes!.find(n => n.elementRef === 'layout-elem-4')!;
+      expect(added).toMatchObject({ type: 'Element', x: 24, y: 344, w: 120, h: 55 });
+      expect(reloaded.connections!.find(c => c.relationshipRef === 'layout-rel-3')).toMatchObject({
+        source: added.id,
+        target: 'layout-node-2'
+      });
+    });
+
+    it('draws connections only when both ends are in the view', () => {
+      const model: ModelData = {
+        elements: [
+          { id: 'actor-1', name: 'Actor', type: 'BusinessActor' },
+          { id: 'role-1', name: 'Role', type: 'BusinessRole' },
+          { id: 'outside-1', name: 'Outside', type: 'BusinessActor' }
+        ],
+        relationships: [
+          { id: 'rel-assign', type: 'Assignment', sourceId: 'actor-1', targetId: 'role-1' },
+          { id: 'rel-outside', type: 'Association', sourceId: 'outside-1', targetId: 'actor-1' },
+          { id: 'rel-on-rel', type: 'Association', sourceId: 'role-1', targetId: 'rel-assign' }
+        ],
+        views: [
+          {
+            id: 'view-1',
+            name: 'Connections',
+            type: 'Diagram',
+            elements: ['actor-1', 'role-1'],
+            relationships: ['rel-on-rel', 'rel-assign', 'rel-outside']
+          }
+        ]
+      };
+
+      const connections = roundTrip(model).views[0].connections!;
+      expect(connections.map(c => c.relationshipRef)).toEqual(['rel-assign', 'rel-on-rel']);
+      expect(connections[1]).toMatchObject({ source: 'view-1-role-1', target: connections[0].id });
+      expect(builder.serialize(model)).not.toMatch(/<connection(?![^>]*source=)[^>]*>/);
+    });
+
+    it('nests new nodes according to the node hierarchy', () => {
+      const model: ModelData = {
+        elements: [],
+        relationships: [],
+        views: [
+          {
+            id: 'view-1',
+            name: 'Nested',
+            type: 'Diagram',
+            elements: ['child-1', 'parent-1'],
+            relationships: [],
+            nodeHierarchy: [{ parentElement: 'parent-1', childElement: 'child-1' }]
+          }
+        ]
+      };
+
+      const xml = builder.serialize(model);
+
+      expect(xml).toMatch(/<node elementRef="parent-1"[^>]*>\s*<node elementRef="child-1"/);
+    });
+  });
 });
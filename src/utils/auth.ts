@@ -0,0 +1,273 @@
+/**
+ * Authentication and Authorization
+ *
+ * Clients of the HTTP server identify themselves with a token, sent as
+ * `Authorization: Bearer <token>` or `X-API-Key: <token>`. Tokens are
+ * configured in `settings.json`, each with a name and roles:
+ *
+ * ```json
+ * "auth": {
+ *   "tokens": [
+ *     { "name": "chat-assistant", "tokenSha256": "9f86d0…", "roles": ["read"] },
+ *     { "name": "modelling-agent", "token": "…", "roles": ["write"] }
+ *   ],
+ *   "roles": { "viewer": ["SearchViews", "GetViewDetails"] }
+ * }
+ * ```
+ *
+ * A role decides which tools a client may call. Built-in roles follow the
+ * access level of each tool: `read` for tools that only read, `write` also
+ * for tools that edit and save the model, and `admin` for all tools,
+ * including those that open, switch or create model files. Custom roles list
+ * tool names (or `*`).
+ *
+ * Without tokens, authentication is off and every client may call every tool.
+ *
+ * @module utils/auth
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import { getLogger } from './logger';
+import { createJsonRpcError } from './errors';
+
+export type ToolAccess = 'read' | 'write' | 'admin';
+
+/**
+ * Access level of each tool: whether it only reads, edits the model, or
+ * opens, switches, creates or merges model files
+ */
+export const TOOL_ACCESS: Record<string, ToolAccess> = {
+  SearchViews: 'read',
+  GetViewDetails: 'read',
+  SearchElements: 'read',
+  GetElementDetails: 'read',
+  ListFolders: 'read',
+  GetModelMetadata: 'read',
+  GetEditHistory: 'read',
+  AnalyzeImpact: 'read',
+  FindPaths: 'read',
+  GetDerivedRelationships: 'read',
+  QueryModel: 'read',
+  SemanticSearch: 'read',
+  ValidateModel: 'read',
+  ValidateElement: 'read',
+  ValidateRelationship: 'read',
+  GetModelPath: 'read',
+  CreateElement: 'write',
+  UpdateElement: 'write',
+  DeleteElement: 'write',
+  CreateRelationship: 'write',
+  UpdateRelationship: 'write',
+  DeleteRelationship: 'write',
+  CreateView: 'write',
+  UpdateView: 'write',
+  AddElementToView: 'write',
+  RemoveElementFromView: 'write',
+  DeleteView: 'write',
+  MoveToFolder: 'write',
+  UpdateModelMetadata: 'write',
+  BatchOperations: 'write',
+  Undo: 'write',
+  Redo: 'write',
+  SaveModel: 'write',
+  DiffModels: 'admin',
+  MergeModels: 'admin',
+  SetModelPath: 'admin',
+  CreateModel: 'admin'
+};
+
+/**
+ * Tools a read-only server exposes unless the settings list others: the
+ * tools that answer questions about the model, and nothing that shows server
+ * paths or loads other files
+ */
+export const DEFAULT_READ_ONLY_TOOLS = ['SearchViews', 'GetViewDetails', 'SearchElements', 'GetElementDetails'];
+
+/**
+ * The tools to expose in read-only mode
+ *
+ * @param configured Tool names from the `readOnlyTools` setting
+ * @throws Error when a configured tool does not exist or is not a read tool
+ */
+export function readOnlyTools(configured?: string[]): string[] {
+  if (!configured || configured.length === 0) return [...DEFAULT_READ_ONLY_TOOLS];
+  for (const tool of configured) {
+    if (!TOOL_ACCESS[tool]) throw new Error(`Invalid readOnlyTools: unknown tool ${tool}`);
+    if (TOOL_ACCESS[tool] !== 'read') throw new Error(`Invalid readOnlyTools: ${tool} changes the model`);
+  }
+  return [...configured];
+}
+
+const BUILTIN_ROLES: Record<string, ToolAccess[]> = {
+  read: ['read'],
+  write: ['read', 'write'],
+  admin: ['read', 'write', 'admin']
+};
+
+export interface AuthTokenConfig {
+  /** Client name, shown in the audit log */
+  name: string;
+  /** The token itself */
+  token?: string;
+  /** Hex SHA-256 hash of the token (64 hex characters), to keep the token out of the settings */
+  tokenSha256?: string;
+  roles: string[];
+}
+
+export interface AuthConfig {
+  tokens?: AuthTokenConfig[];
+  /** Custom roles: tool names, or `*` for all tools */
+  roles?: Record<string, string[]>;
+}
+
+/**
+ * An authenticated client
+ */
+export interface AuthClient {
+  name: string;
+  roles: string[];
+}
+
+/**
+ * A client called a tool its roles do not allow
+ */
+export class AccessDeniedError extends Error {
+  constructor(public readonly client: AuthClient, public readonly tool: string) {
+    super(`Access denied: client "${client.name}" (roles: ${client.roles.join(', ')}) may not call ${tool}`);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * The token of a request, from the `Authorization: Bearer` or `X-API-Key` header
+ */
+export function tokenFromHeaders(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    if (match) return match[1].trim();
+  }
+  const apiKey = headers['x-api-key'];
+  const key = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+  return key ? key.trim() : undefined;
+}
+
+/**
+ * The client attached to a request by `Authenticator.authenticateRequest`, as
+ * the MCP SDK passes it to tool calls (`extra.authInfo`)
+ */
+export function clientFromAuthInfo(authInfo: { clientId?: string; scopes?: string[] } | undefined): AuthClient | undefined {
+  if (!authInfo?.clientId) return undefined;
+  return { name: authInfo.clientId, roles: authInfo.scopes || [] };
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value, 'utf8').digest();
+}
+
+export class Authenticator {
+  private tokens: Array<{ hash: Buffer; client: AuthClient }>;
+  private roles: Record<string, (tool: string) => boolean> = {};
+
+  /**
+   * @throws Error when a token has no name, no token or a malformed hash, or an unknown role
+   */
+  constructor(config: AuthConfig = {}) {
+    for (const [role, levels] of Object.entries(BUILTIN_ROLES)) {
+      this.roles[role] = tool => levels.includes(TOOL_ACCESS[tool]);
+    }
+    for (const [role, tools] of Object.entries(config.roles || {})) {
+      const allowed = new Set(tools);
+      this.roles[role] = tool => allowed.has('*') || allowed.has(tool);
+    }
+
+    this.tokens = (config.tokens || []).map((entry, index) => {
+      const label = entry?.name ? `"${entry.name}"` : `#${index + 1}`;
+      if (!entry?.name) throw new Error(`Invalid auth configuration: token ${label} has no name`);
+      if (!entry.token && !entry.tokenSha256) throw new Error(`Invalid auth configuration: token ${label} has neither token nor tokenSha256`);
+      if (!Array.isArray(entry.roles) || entry.roles.length === 0) throw new Error(`Invalid auth configuration: token ${label} has no roles`);
+      const unknown = entry.roles.filter(role => !this.roles[role]);
+      if (unknown.length > 0) throw new Error(`Invalid auth configuration: token ${label} has unknown role(s) ${unknown.join(', ')}`);
+      // Buffer.from(…, 'hex') stops at the first invalid character, so check the whole hash
+      if (entry.tokenSha256 !== undefined && !/^[0-9a-f]{64}$/i.test(entry.tokenSha256.trim())) {
+        throw new Error(`Invalid auth configuration: token ${label} has a tokenSha256 that is not 64 hex characters`);
+      }
+      const hash = entry.tokenSha256 ? Buffer.from(entry.tokenSha256.trim().toLowerCase(), 'hex') : sha256(entry.token!);
+      return { hash, client: { name: entry.name, roles: [...entry.roles] } };
+    });
+  }
+
+  /**
+   * Whether clients must authenticate; false when no tokens are configured
+   */
+  get enabled(): boolean {
+    return this.tokens.length > 0;
+  }
+
+  /**
+   * The client a token belongs to, or undefined for unknown tokens
+   */
+  authenticate(token: string | undefined): AuthClient | undefined {
+    if (!token) return undefined;
+    const hash = sha256(token);
+    // Compare with every token, so the time taken does not reveal which one matched
+    let client: AuthClient | undefined;
+    for (const entry of this.tokens) {
+      if (entry.hash.length === hash.length && timingSafeEqual(entry.hash, hash)) client = entry.client;
+    }
+    return client;
+  }
+
+  /**
+   * Authenticate an HTTP request and attach its client as `req.auth`, which
+   * the MCP transport passes on to tool calls. Answers 401 when
+   * authentication is on and the token is missing or unknown.
+   *
+   * @param jsonRpc Answer with a JSON-RPC error rather than plain text
+   * @returns Whether the request may go on
+   */
+  authenticateRequest(req: IncomingMessage, res: ServerResponse, jsonRpc: boolean = false): boolean {
+    if (!this.enabled) return true;
+    const token = tokenFromHeaders(req.headers);
+    const client = this.authenticate(token);
+    if (client) {
+      (req as any).auth = { token, clientId: client.name, scopes: client.roles };
+      return true;
+    }
+
+    const message = token ? 'Unauthorized: unknown token' : 'Unauthorized: send a token as Authorization: Bearer <token> or X-API-Key';
+    getLogger().log('warn', 'auth.denied', { method: req.method, path: req.url, reason: token ? 'unknown token' : 'no token' });
+    res.statusCode = 401;
+    res.setHeader('www-authenticate', 'Bearer realm="archiscribe"');
+    if (jsonRpc) {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(createJsonRpcError(-32001, message)));
+    } else {
+      res.setHeader('content-type', 'text/plain');
+      res.end(message);
+    }
+    return false;
+  }
+
+  /**
+   * Whether any of the client's roles allows the tool
+   */
+  isAllowed(client: AuthClient, tool: string): boolean {
+    return client.roles.some(role => this.roles[role]?.(tool));
+  }
+
+  /**
+   * Check that a client may call a tool; denials are audited as failed tool calls
+   *
+   * @throws AccessDeniedError when the client's roles do not allow the tool
+   */
+  async authorize(client: AuthClient | undefined, tool: string, params: unknown): Promise<void> {
+    if (!client || this.isAllowed(client, tool)) return;
+    await getLogger().auditToolInvocation(tool, params, async () => {
+      const error = new AccessDeniedError(client, tool);
+      (error as any).__audit = { client: client.name, roles: client.roles, denied: true };
+      throw error;
+    });
+  }
+}
@@ -2,7 +2,7 @@
  * Business Rules Validator for ArchiMate Models
  * 
  * Implements ArchiMate-specific business rule validation including:
- * - Relationship type compatibility with element types
+ * - Relationship type compatibility with element types (ArchiMate 3.2 table)
  * - Relationship cardinality constraints
  * - Element type validation
  * - View integrity validation
@@ -13,17 +13,16 @@
 import { ElementObject, RelationshipObject, ViewObject } from '../model/types';
 import { ValidationError, ValidationResult } from './xsd-validator';
 import { getLogger } from './logger';
+import { lookupRelationship, getAllowedRelationships } from './relationship-rules';
 
 const logger = getLogger();
 
 /**
- * Relationship compatibility matrix
- * Maps relationship types to allowed source and target element types
- * Based on ArchiMate 3.1 specification
+ * Relationship cardinality and notes per relationship type. Which element
+ * types a relationship may connect is defined by the ArchiMate 3.2 table in
+ * relationship-rules.
  */
 const RELATIONSHIP_COMPATIBILITY: Record<string, {
-  allowedSourceTypes?: string[];
-  allowedTargetTypes?: string[];
   cardinality?: 'one-to-one' | 'one-to-many' | 'many-to-many';
   notes?: string;
 }> = {
@@ -79,7 +78,7 @@ const ELEMENT_TYPE_CATEGORIES: Record<string, string[]> = {
   'BusinessLayer': [
     'BusinessActor', 'BusinessRole', 'BusinessCollaboration', 'BusinessInterface',
     'BusinessProcess', 'BusinessFunction', 'BusinessInteraction', 'BusinessEvent',
-    'BusinessService', 'BusinessObject', 'Contract', 'Representation'
+    'BusinessService', 'BusinessObject', 'Contract', 'Representation', 'Product'
   ],
   'ApplicationLayer': [
     'ApplicationComponent', 'ApplicationCollaboration', 'ApplicationInterface',
@@ -94,7 +93,7 @@ const ELEMENT_TYPE_CATEGORIES: Record<string, string[]> = {
   ],
   'MotivationLayer': [
     'Stakeholder', 'Driver', 'Assessment', 'Goal', 'Outcome',
-    'Principle', 'Requirement', 'Constraint'
+    'Principle', 'Requirement', 'Constraint', 'Meaning', 'Value'
   ],
   'StrategyLayer': [
     'Resource', 'Capability', 'CourseOfAction', 'ValueStream'
@@ -104,6 +103,9 @@ const ELEMENT_TYPE_CATEGORIES: Record<string, string[]> = {
   ],
   'ImplementationMigrationLayer': [
     'WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau', 'Gap'
+  ],
+  'Other': [
+    'Location', 'Grouping', 'AndJunction', 'OrJunction'
   ]
 };
 
@@ -121,49 +123,40 @@ export class BusinessRulesValidator {
   ): ValidationResult {
     const errors: ValidationError[] = [];
 
-    if (!relationship.type) {
+    if (!relationship.type || !sourceElement.type || !targetElement.type) {
       return { valid: true, errors: [] };
     }
 
-    const compatibility = RELATIONSHIP_COMPATIBILITY[relationship.type];
-    if (!compatibility) {
-      // Unknown relationship type - will be caught by type validation
+    const rule = lookupRelationship(sourceElement.type, targetElement.type, relationship.type);
+    if (!rule) {
+      // Unknown element or relationship type - will be caught by type validation
       return { valid: true, errors: [] };
     }
 
-    // Check source type compatibility
-    if (compatibility.allowedSourceTypes && sourceElement.type) {
-      if (!compatibility.allowedSourceTypes.includes(sourceElement.type)) {
-        errors.push({
-          message: `Relationship type '${relationship.type}' is not compatible with source element type '${sourceElement.type}'`,
-          path: `relationship[${relationship.id}].sourceId`,
-          line: undefined,
-          column: undefined
-        });
-      }
-    }
-
-    // Check target type compatibility
-    if (compatibility.allowedTargetTypes && targetElement.type) {
-      if (!compatibility.allowedTargetTypes.includes(targetElement.type)) {
-        errors.push({
-          message: `Relationship type '${relationship.type}' is not compatible with target element type '${targetElement.type}'`,
-          path: `relationship[${relationship.id}].targetId`,
-          line: undefined,
-          column: undefined
-        });
-      }
+    if (!rule.allowed) {
+      const allowed = this.getAllowedRelationshipTypes(sourceElement.type, targetElement.type);
+      errors.push({
+        message: `Relationship type '${relationship.type}' is not allowed from '${sourceElement.type}' to '${targetElement.type}' in ArchiMate 3.2. Allowed relationship types: ${allowed.join(', ')}`,
+        path: `relationship[${relationship.id}].type`,
+        line: undefined,
+        column: undefined
+      });
     }
 
-    // Note: Full compatibility matrix would require extensive ArchiMate specification knowledge
-    // This is a simplified version that can be extended
-
     return {
       valid: errors.length === 0,
       errors
     };
   }
 
+  /**
+   * Get the relationship types allowed between two element types, including
+   * derived relationships
+   */
+  getAllowedRelationshipTypes(sourceType: string, targetType: string): string[] {
+    return getAllowedRelationships(sourceType, targetType) || [];
+  }
+
   /**
    * Validate relationship cardinality
    */
@@ -221,7 +214,7 @@ export class BusinessRulesValidator {
 
     if (!isValid) {
       errors.push({
-        message: `Invalid ArchiMate element type: ${elementType}. Must be one of the valid ArchiMate 3.1 element types.`,
+        message: `Invalid ArchiMate element type: ${elementType}. Must be one of the valid ArchiMate 3.2 element types.`,
         path: `element.type`,
         line: undefined,
         column: undefined
@@ -328,7 +321,9 @@ export class BusinessRulesValidator {
   }
 
   /**
-   * Validate all business rules for a relationship
+   * Validate all business rules for a relationship. Relationships that the
+   * ArchiMate 3.2 table does not allow are reported as warnings, so that
+   * models created with other tools can still be saved.
    */
   validateRelationship(
     relationship: RelationshipObject,
@@ -344,7 +339,6 @@ export class BusinessRulesValidator {
       sourceElement,
       targetElement
     );
-    errors.push(...compatibilityResult.errors);
 
     // Validate cardinality
     const cardinalityResult = this.validateRelationshipCardinality(
@@ -355,7 +349,8 @@ export class BusinessRulesValidator {
 
     return {
       valid: errors.length === 0,
-      errors
+      errors,
+      warnings: compatibilityResult.errors
     };
   }
 }
@@ -178,6 +178,69 @@ export const ERROR_CODES: Record<string, ErrorCodeDefinition> = {
     httpStatus: 404
   },
 
+  // Organization Errors
+  FOLDER_NOT_FOUND: {
+    code: 'FOLDER_NOT_FOUND',
+    message: 'Folder not found',
+    suggestions: [
+      'Use ListFolders to see the available folders',
+      'Pass the folder identifier or its full path (e.g. "Business/Customers")',
+      'Check that the model has a folder structure'
+    ],
+    httpStatus: 404
+  },
+
+  // Transaction Errors
+  TRANSACTION_IN_PROGRESS: {
+    code: 'TRANSACTION_IN_PROGRESS',
+    message: 'A transaction is already in progress',
+    suggestions: [
+      'Commit or roll back the current transaction first',
+      'Add the operations to the current transaction instead'
+    ],
+    httpStatus: 409
+  },
+  TRANSACTION_NOT_ACTIVE: {
+    code: 'TRANSACTION_NOT_ACTIVE',
+    message: 'Transaction is not active',
+    suggestions: [
+      'Begin a new transaction with beginTransaction',
+      'Check that the transaction was not already committed or rolled back'
+    ],
+    httpStatus: 400
+  },
+
+  // Edit History Errors
+  NOTHING_TO_UNDO: {
+    code: 'NOTHING_TO_UNDO',
+    message: 'There are no edits to undo',
+    suggestions: [
+      'Use GetEditHistory to see which edits can be undone',
+      'The edit history is cleared when a model is loaded'
+    ],
+    httpStatus: 400
+  },
+  NOTHING_TO_REDO: {
+    code: 'NOTHING_TO_REDO',
+    message: 'There are no undone edits to redo',
+    suggestions: [
+      'Use GetEditHistory to see which edits can be redone',
+      'Any new edit after an undo clears the edits that could be redone'
+    ],
+    httpStatus: 400
+  },
+
+  // Read-only Errors
+  MODEL_READ_ONLY: {
+    code: 'MODEL_READ_ONLY',
+    message: 'The server is read-only; the model cannot be changed or saved',
+    suggestions: [
+      'Use the read tools, such as SearchViews and GetViewDetails',
+      'Ask an administrator to turn off readOnly in the server configuration to edit the model'
+    ],
+    httpStatus: 403
+  },
+
   // Validation Errors
   VALIDATION_FAILED: {
     code: 'VALIDATION_FAILED',
@@ -19,6 +19,7 @@ class DailyFileLogger {
   private logDir: string;
   private level: LogLevel;
   private warned: boolean = false;
+  private consoleOutput: 'stdout' | 'stderr' = 'stdout';
 
   constructor(dir?: string, level?: LogLevel) {
     const cfg = loadConfig();
@@ -52,6 +53,9 @@ class DailyFileLogger {
 
   setLevel(l: LogLevel) { this.level = l; }
 
+  // Where log lines go when the log file cannot be written; stderr when stdout carries the MCP protocol
+  setConsoleOutput(output: 'stdout' | 'stderr') { this.consoleOutput = output; }
+
   shouldLog(l: LogLevel): boolean { return LEVEL_ORDER[l] >= LEVEL_ORDER[this.level]; }
 
   log(level: LogLevel, event: string, record: Record<string, any>) {
@@ -64,7 +68,8 @@ class DailyFileLogger {
       this.stream.write(line + '\n');
     } else {
       // fallback
-      console.log(line);
+      if (this.consoleOutput === 'stderr') process.stderr.write(line + '\n');
+      else console.log(line);
     }
   }
 
@@ -107,7 +112,9 @@ class DailyFileLogger {
       this.log('info', 'tool.invoke', { tool, params, durationMs: Date.now() - start, success: true, ...(auditMeta || {}) });
       return result;
     }).catch(err => {
-      this.log('error', 'tool.invoke', { tool, params, durationMs: Date.now() - start, success: false, error: (err as Error).message });
+      // Errors may carry audit metadata as __audit too, e.g. the client of a denied call
+      const auditMeta = err && typeof err === 'object' ? (err as any).__audit : undefined;
+      this.log('error', 'tool.invoke', { tool, params, durationMs: Date.now() - start, success: false, error: (err as Error).message, ...(auditMeta || {}) });
       throw err;
     });
   }
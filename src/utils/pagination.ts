@@ -0,0 +1,95 @@
+/**
+ * Pagination Utilities
+ *
+ * Splits long result lists into pages. A page is chosen by `offset` or by
+ * the `nextCursor` of the previous page; cursors are opaque strings that
+ * also identify the search they belong to, so a cursor passed with another
+ * query or sort order is rejected instead of silently skipping results.
+ *
+ * @module utils/pagination
+ */
+
+import { createHash } from 'crypto';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * Page selection, as given to a list or search tool
+ */
+export interface PageRequest {
+  /** Results per page (default: 50, max: 500) */
+  limit?: number;
+  /** Results to skip; ignored when a cursor is given */
+  offset?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+}
+
+/**
+ * The page selection of a request is invalid: a malformed or foreign
+ * cursor, a limit or offset that is not a number of results, or an unknown
+ * sort order
+ */
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  totalCount: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Take one page of results
+ *
+ * @param search Identifies the search (query, filters, sort order) the cursor belongs to
+ * @throws PaginationError when the limit or offset is invalid, or the cursor is malformed or belongs to another search
+ */
+export function paginate<T>(items: T[], request: PageRequest = {}, search: string = ''): Page<T> {
+  if (request.limit !== undefined && !(Number.isInteger(request.limit) && request.limit >= 1)) {
+    throw new PaginationError('limit must be a positive integer');
+  }
+  if (request.offset !== undefined && !(Number.isInteger(request.offset) && request.offset >= 0)) {
+    throw new PaginationError('offset must be a non-negative integer');
+  }
+  const limit = Math.min(request.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const offset = request.cursor ? decodeCursor(request.cursor, search) : request.offset || 0;
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    offset,
+    totalCount: items.length,
+    nextCursor: end < items.length ? encodeCursor(end, search) : undefined
+  };
+}
+
+function encodeCursor(offset: number, search: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, s: fingerprint(search) })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, search: string): number {
+  let decoded: { o?: unknown; s?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (err) {
+    throw new PaginationError('Invalid cursor');
+  }
+  if (typeof decoded?.o !== 'number' || decoded.o < 0 || !Number.isInteger(decoded.o)) {
+    throw new PaginationError('Invalid cursor');
+  }
+  if (decoded.s !== fingerprint(search)) {
+    throw new PaginationError('Cursor belongs to another search; repeat the search without a cursor');
+  }
+  return decoded.o;
+}
+
+function fingerprint(search: string): string {
+  return createHash('sha1').update(search).digest('hex').slice(0, 12);
+}
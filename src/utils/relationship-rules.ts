@@ -0,0 +1,563 @@
+/**
+ * ArchiMate 3.2 Relationship Rules
+ *
+ * Source × target × relationship-type table of the ArchiMate 3.2
+ * specification (Appendix B). The table is built the way the appendix is:
+ * the relationships of the metamodel figures in the layer chapters are
+ * listed below as core rules, and the table is closed under the valid
+ * derivation rules of the specification (section 5.7):
+ *
+ * - DR1: a chain of structural relationships gives the weakest of them
+ *   (realization < assignment < aggregation < composition)
+ * - DR2: a structural relationship followed by a dependency gives that
+ *   dependency (serving, access, influence)
+ * - DR3: a dependency on a part, realized or assigned element gives the
+ *   same dependency on the whole, realizer or assignee
+ * - DR4/DR5: the same two rules for dynamic relationships (triggering, flow)
+ * - DR6: a chain of triggering relationships gives triggering
+ *
+ * As in the specification, derivations only run through strategy,
+ * motivation and implementation elements from elements of the same domain,
+ * except for realization and influence chains into motivation elements
+ * (a process realizing a requirement that realizes a goal realizes the goal).
+ *
+ * Association is allowed between any two concepts, specialization only
+ * between concepts of the same type. Junctions may connect anything; the
+ * relationships through a junction are checked on the concepts at the ends.
+ *
+ * The generated table can differ from the published one in single cells.
+ * A transcription of Appendix B in the format of Archi's
+ * `relationships.xml` can be loaded with `useRelationshipTable`, to check
+ * relationships against it instead, and `compareRelationshipTable` lists
+ * the cells where the two tables differ.
+ *
+ * @module utils/relationship-rules
+ */
+
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { readFileSync } from 'fs';
+
+/**
+ * Relationship types of the table, in specification order
+ */
+export const RELATIONSHIP_TYPES = [
+  'Composition', 'Aggregation', 'Assignment', 'Realization',
+  'Serving', 'Access', 'Influence',
+  'Triggering', 'Flow',
+  'Specialization', 'Association'
+] as const;
+
+export type RelationshipTypeName = typeof RELATIONSHIP_TYPES[number];
+
+/**
+ * Result of looking up one cell of the table
+ */
+export interface RelationshipRuleLookup {
+  allowed: boolean;
+  /** True when the relationship is only allowed through derivation */
+  derived: boolean;
+}
+
+// ============================================================================
+// Element groups
+// ============================================================================
+
+const BUSINESS_ACTIVE = ['BusinessActor', 'BusinessRole', 'BusinessCollaboration'];
+const BUSINESS_INTERFACE = ['BusinessInterface'];
+const BUSINESS_BEHAVIOR = ['BusinessProcess', 'BusinessFunction', 'BusinessInteraction'];
+const BUSINESS_EVENT = ['BusinessEvent'];
+const BUSINESS_SERVICE = ['BusinessService'];
+const BUSINESS_PASSIVE = ['BusinessObject', 'Contract', 'Representation'];
+
+const APPLICATION_ACTIVE = ['ApplicationComponent', 'ApplicationCollaboration'];
+const APPLICATION_INTERFACE = ['ApplicationInterface'];
+const APPLICATION_BEHAVIOR = ['ApplicationFunction', 'ApplicationInteraction', 'ApplicationProcess'];
+const APPLICATION_EVENT = ['ApplicationEvent'];
+const APPLICATION_SERVICE = ['ApplicationService'];
+const APPLICATION_PASSIVE = ['DataObject'];
+
+const TECHNOLOGY_NODES = ['Node', 'Device', 'SystemSoftware', 'Equipment', 'Facility'];
+const TECHNOLOGY_ACTIVE = [
+  ...TECHNOLOGY_NODES, 'TechnologyCollaboration', 'Path', 'CommunicationNetwork', 'DistributionNetwork'
+];
+const TECHNOLOGY_INTERFACE = ['TechnologyInterface'];
+const TECHNOLOGY_BEHAVIOR = ['TechnologyFunction', 'TechnologyProcess', 'TechnologyInteraction'];
+const TECHNOLOGY_EVENT = ['TechnologyEvent'];
+const TECHNOLOGY_SERVICE = ['TechnologyService'];
+const TECHNOLOGY_PASSIVE = ['Artifact', 'Material'];
+
+const STRATEGY = ['Resource', 'Capability', 'ValueStream', 'CourseOfAction'];
+const MOTIVATION = [
+  'Stakeholder', 'Driver', 'Assessment', 'Goal', 'Outcome',
+  'Principle', 'Requirement', 'Constraint', 'Meaning', 'Value'
+];
+const REQUIREMENTS = ['Requirement', 'Constraint'];
+const IMPLEMENTATION = ['WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau', 'Gap'];
+const JUNCTIONS = ['AndJunction', 'OrJunction'];
+
+/**
+ * The three core layers, each with the same generic metamodel
+ */
+const LAYERS = [
+  {
+    active: BUSINESS_ACTIVE, interface: BUSINESS_INTERFACE, behavior: BUSINESS_BEHAVIOR,
+    event: BUSINESS_EVENT, service: BUSINESS_SERVICE, passive: BUSINESS_PASSIVE,
+    collaborations: ['BusinessCollaboration']
+  },
+  {
+    active: APPLICATION_ACTIVE, interface: APPLICATION_INTERFACE, behavior: APPLICATION_BEHAVIOR,
+    event: APPLICATION_EVENT, service: APPLICATION_SERVICE, passive: APPLICATION_PASSIVE,
+    collaborations: ['ApplicationCollaboration']
+  },
+  {
+    active: TECHNOLOGY_ACTIVE, interface: TECHNOLOGY_INTERFACE, behavior: TECHNOLOGY_BEHAVIOR,
+    event: TECHNOLOGY_EVENT, service: TECHNOLOGY_SERVICE, passive: TECHNOLOGY_PASSIVE,
+    collaborations: ['TechnologyCollaboration', ...TECHNOLOGY_ACTIVE]
+  }
+];
+
+const CORE_STRUCTURE = LAYERS.flatMap(l => [...l.active, ...l.interface, ...l.passive]);
+const CORE_BEHAVIOR = LAYERS.flatMap(l => [...l.behavior, ...l.event, ...l.service]);
+const CORE = ['Product', ...CORE_STRUCTURE, ...CORE_BEHAVIOR];
+
+/**
+ * All element types covered by the table
+ */
+export const ELEMENT_TYPES: readonly string[] = [
+  ...CORE, ...STRATEGY, ...MOTIVATION, ...IMPLEMENTATION, 'Location', 'Grouping', ...JUNCTIONS
+];
+
+/**
+ * Older or alternative names for element types
+ */
+const ELEMENT_TYPE_ALIASES: Record<string, string> = {
+  'Network': 'CommunicationNetwork',
+  'Junction': 'AndJunction'
+};
+
+// ============================================================================
+// Core rules
+// ============================================================================
+
+type Rule = [sources: string[], targets: string[], relationships: RelationshipTypeName[]];
+
+const STRUCTURAL: RelationshipTypeName[] = ['Composition', 'Aggregation'];
+
+/**
+ * Relationships of the metamodel figures, before derivation
+ */
+function coreRules(): Rule[] {
+  const rules: Rule[] = [];
+
+  for (const layer of LAYERS) {
+    const dynamic = [...layer.behavior, ...layer.event, ...layer.service];
+    rules.push(
+      [layer.active, [...layer.behavior, ...layer.event], ['Assignment']],
+      [layer.active, layer.interface, STRUCTURAL],
+      [layer.collaborations, layer.active, STRUCTURAL],
+      [layer.interface, layer.service, ['Assignment']],
+      [layer.interface, layer.active, ['Serving']],
+      [layer.behavior, layer.service, ['Realization']],
+      [layer.service, [...layer.behavior, ...layer.active], ['Serving']],
+      [layer.behavior, [...layer.behavior, ...layer.event], STRUCTURAL],
+      [dynamic, dynamic, ['Triggering', 'Flow']],
+      [dynamic, layer.passive, ['Access']],
+      [layer.passive, layer.passive, STRUCTURAL]
+    );
+  }
+
+  rules.push(
+    // Business layer
+    [['BusinessActor'], ['BusinessRole'], ['Assignment']],
+    [['Representation'], ['BusinessObject', 'Contract'], ['Realization']],
+    [['Product'], CORE, STRUCTURAL],
+
+    // Application layer, and its alignment with the business layer
+    [APPLICATION_SERVICE, [...BUSINESS_ACTIVE, ...BUSINESS_BEHAVIOR, ...BUSINESS_SERVICE], ['Serving']],
+    [APPLICATION_INTERFACE, BUSINESS_ACTIVE, ['Serving']],
+    [BUSINESS_SERVICE, [...APPLICATION_ACTIVE, ...APPLICATION_BEHAVIOR], ['Serving']],
+    [APPLICATION_BEHAVIOR, BUSINESS_BEHAVIOR, ['Realization']],
+    [APPLICATION_EVENT, BUSINESS_EVENT, ['Realization']],
+    [APPLICATION_SERVICE, BUSINESS_SERVICE, ['Realization']],
+    [APPLICATION_PASSIVE, BUSINESS_PASSIVE, ['Realization']],
+
+    // Technology and physical layers, and their alignment with the layers above
+    [TECHNOLOGY_NODES, ['SystemSoftware', 'Artifact'], ['Assignment']],
+    [['Equipment', 'Facility'], ['Material'], ['Assignment']],
+    [['CommunicationNetwork', 'DistributionNetwork'], ['Path'], ['Realization']],
+    [['Artifact'], ['SystemSoftware', ...APPLICATION_ACTIVE, ...APPLICATION_PASSIVE, ...BUSINESS_PASSIVE], ['Realization']],
+    [TECHNOLOGY_SERVICE, [...APPLICATION_ACTIVE, ...APPLICATION_BEHAVIOR, ...BUSINESS_ACTIVE, ...BUSINESS_BEHAVIOR], ['Serving']],
+    [TECHNOLOGY_INTERFACE, [...APPLICATION_ACTIVE, ...BUSINESS_ACTIVE], ['Serving']],
+    [TECHNOLOGY_BEHAVIOR, [...APPLICATION_BEHAVIOR, ...BUSINESS_BEHAVIOR], ['Realization']],
+    [TECHNOLOGY_EVENT, [...APPLICATION_EVENT, ...BUSINESS_EVENT], ['Realization']],
+    [TECHNOLOGY_SERVICE, [...APPLICATION_SERVICE, ...BUSINESS_SERVICE], ['Realization']],
+
+    // Strategy
+    [['Resource'], ['Capability'], ['Assignment']],
+    [['Capability', 'ValueStream'], ['Capability', 'ValueStream'], ['Serving', 'Triggering', 'Flow']],
+    [['Capability', 'Resource'], ['CourseOfAction'], ['Realization']],
+    [['CourseOfAction'], ['CourseOfAction'], ['Triggering', 'Flow']],
+    [CORE_BEHAVIOR, ['Capability', 'ValueStream'], ['Realization']],
+    [CORE_STRUCTURE, ['Resource'], ['Realization']],
+    [STRATEGY, ['Goal', 'Outcome', 'Principle', ...REQUIREMENTS], ['Realization']],
+    [STRATEGY, MOTIVATION, ['Influence']],
+
+    // Motivation
+    [MOTIVATION, MOTIVATION, ['Influence']],
+    [['Outcome'], ['Goal'], ['Realization']],
+    [['Principle'], ['Goal', 'Outcome'], ['Realization']],
+    [REQUIREMENTS, ['Goal', 'Outcome', 'Principle', ...REQUIREMENTS], ['Realization']],
+    [CORE, REQUIREMENTS, ['Realization', 'Influence']],
+
+    // Implementation and migration
+    [['WorkPackage'], ['Deliverable'], ['Realization']],
+    [['WorkPackage', 'ImplementationEvent'], ['WorkPackage', 'ImplementationEvent'], ['Triggering', 'Flow']],
+    [['WorkPackage', 'ImplementationEvent'], ['Deliverable'], ['Access']],
+    [BUSINESS_ACTIVE, ['WorkPackage', 'ImplementationEvent'], ['Assignment']],
+    [['Deliverable'], [...CORE, ...STRATEGY, 'Plateau'], ['Realization']],
+    [['Plateau'], [...CORE, ...STRATEGY, ...MOTIVATION, ...IMPLEMENTATION], STRUCTURAL],
+    [['Plateau'], ['Plateau'], ['Triggering']],
+    [['WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau'], REQUIREMENTS, ['Realization', 'Influence']],
+
+    // Location and grouping
+    [['Location'], [...CORE, ...STRATEGY, ...IMPLEMENTATION], ['Aggregation']],
+    [['Grouping'], ELEMENT_TYPES.slice(), ['Composition', 'Aggregation', 'Assignment', 'Realization', 'Serving', 'Access', 'Influence', 'Triggering', 'Flow']],
+    [ELEMENT_TYPES.slice(), ['Grouping'], ['Composition', 'Aggregation', 'Assignment', 'Realization', 'Serving', 'Access', 'Influence', 'Triggering', 'Flow']]
+  );
+
+  return rules;
+}
+
+// ============================================================================
+// Table
+// ============================================================================
+
+/** Structural relationships from weakest to strongest (DR1) */
+const STRUCTURAL_STRENGTH: RelationshipTypeName[] = ['Realization', 'Assignment', 'Aggregation', 'Composition'];
+const DEPENDENCY: RelationshipTypeName[] = ['Serving', 'Access', 'Influence'];
+const DYNAMIC: RelationshipTypeName[] = ['Triggering', 'Flow'];
+
+/** Concepts that do not carry derivations through them */
+const NOT_DERIVABLE_THROUGH = new Set(['Location', 'Grouping', ...JUNCTIONS]);
+
+type Domain = 'core' | 'strategy' | 'motivation' | 'implementation' | 'other';
+
+function domainOf(elementType: string): Domain {
+  if (CORE.includes(elementType)) return 'core';
+  if (STRATEGY.includes(elementType)) return 'strategy';
+  if (MOTIVATION.includes(elementType)) return 'motivation';
+  if (IMPLEMENTATION.includes(elementType)) return 'implementation';
+  return 'other';
+}
+
+const bit = (type: RelationshipTypeName): number => 1 << RELATIONSHIP_TYPES.indexOf(type);
+const mask = (types: RelationshipTypeName[]): number => types.reduce((m, t) => m | bit(t), 0);
+
+const STRUCTURAL_MASK = mask(STRUCTURAL_STRENGTH);
+const DEPENDENCY_MASK = mask(DEPENDENCY);
+const DYNAMIC_MASK = mask(DYNAMIC);
+
+interface RelationshipTable {
+  index: Map<string, number>;
+  /** Relationship bits per source and target, core rules only */
+  core: number[][];
+  /** Relationship bits per source and target, core and derived */
+  all: number[][];
+}
+
+let table: RelationshipTable | null = null;
+
+/**
+ * Weakest structural relationships for each combination of two structural masks
+ */
+function weakestOf(first: number, second: number): number {
+  let result = 0;
+  for (const a of STRUCTURAL_STRENGTH) {
+    if (!(first & bit(a))) continue;
+    for (const b of STRUCTURAL_STRENGTH) {
+      if (!(second & bit(b))) continue;
+      result |= bit(STRUCTURAL_STRENGTH.indexOf(a) < STRUCTURAL_STRENGTH.indexOf(b) ? a : b);
+    }
+  }
+  return result;
+}
+
+function buildTable(): RelationshipTable {
+  const types = ELEMENT_TYPES;
+  const index = new Map(types.map((t, i) => [t, i]));
+  const n = types.length;
+  const core = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    core[i][i] |= mask(['Composition', 'Aggregation', 'Specialization']);
+  }
+  for (const [sources, targets, relationships] of coreRules()) {
+    const bits = mask(relationships);
+    for (const s of sources) {
+      for (const t of targets) {
+        core[index.get(s)!][index.get(t)!] |= bits;
+      }
+    }
+  }
+
+  // Close the table under the derivation rules
+  const all = core.map(row => row.slice());
+  const through = types.map(t => !NOT_DERIVABLE_THROUGH.has(t));
+  const domains = types.map(domainOf);
+  const sameDomain = (x: number, y: number) => domains[y] === 'core' || domains[x] === domains[y];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let b = 0; b < n; b++) {
+      if (!through[b]) continue;
+      for (let a = 0; a < n; a++) {
+        const ab = all[a][b];
+        if (!ab) continue;
+        for (let c = 0; c < n; c++) {
+          const bc = all[b][c];
+          const cb = all[c][b];
+          let derived = 0;
+          if (ab & STRUCTURAL_MASK) {
+            if (sameDomain(a, b)) {
+              derived |= weakestOf(ab & STRUCTURAL_MASK, bc & STRUCTURAL_MASK); // DR1
+              derived |= bc & (DEPENDENCY_MASK | DYNAMIC_MASK); // DR2, DR4
+            } else if (domains[b] === 'motivation') {
+              derived |= weakestOf(ab & bit('Realization'), bc & bit('Realization'));
+              derived |= bc & bit('Influence');
+            }
+          }
+          if ((cb & STRUCTURAL_MASK) && sameDomain(c, b)) {
+            derived |= ab & (DEPENDENCY_MASK | DYNAMIC_MASK); // DR3, DR5
+          }
+          if (ab & bc & bit('Triggering') && sameDomain(a, b)) {
+            derived |= bit('Triggering'); // DR6
+          }
+          if (derived & ~all[a][c]) {
+            all[a][c] |= derived;
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+
+  return { index, core, all };
+}
+
+function getTable(): RelationshipTable {
+  if (!table) {
+    table = buildTable();
+  }
+  return table;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Map alternative element type names to the names used in the table
+ */
+export function normalizeElementType(elementType: string): string {
+  return ELEMENT_TYPE_ALIASES[elementType] || elementType;
+}
+
+/**
+ * Check whether a type is a junction
+ */
+export function isJunction(elementType: string): boolean {
+  return JUNCTIONS.includes(normalizeElementType(elementType));
+}
+
+/**
+ * Look up whether a relationship type is allowed between two element types,
+ * in the loaded Appendix B table when there is one, else in the generated
+ * table. Returns undefined when a type is not part of the table.
+ */
+export function lookupRelationship(
+  sourceType: string,
+  targetType: string,
+  relationshipType: string
+): RelationshipRuleLookup | undefined {
+  const allowedTypes = normative?.[normalizeElementType(sourceType)]?.[normalizeElementType(targetType)];
+  if (!allowedTypes || !RELATIONSHIP_TYPES.includes(relationshipType as RelationshipTypeName)) {
+    return lookupGenerated(sourceType, targetType, relationshipType);
+  }
+  const allowed = allowedTypes.includes(relationshipType as RelationshipTypeName);
+  return { allowed, derived: allowed && lookupGenerated(sourceType, targetType, relationshipType)?.derived === true };
+}
+
+function lookupGenerated(sourceType: string, targetType: string, relationshipType: string): RelationshipRuleLookup | undefined {
+  const { index, core, all } = getTable();
+  const s = index.get(normalizeElementType(sourceType));
+  const t = index.get(normalizeElementType(targetType));
+  const r = RELATIONSHIP_TYPES.indexOf(relationshipType as RelationshipTypeName);
+  if (s === undefined || t === undefined || r < 0) {
+    return undefined;
+  }
+
+  if (relationshipType === 'Association' || isJunction(sourceType) || isJunction(targetType)) {
+    return { allowed: true, derived: false };
+  }
+
+  const allowed = (all[s][t] & (1 << r)) !== 0;
+  return { allowed, derived: allowed && (core[s][t] & (1 << r)) === 0 };
+}
+
+/**
+ * Get the relationship types allowed between two element types, in
+ * specification order. Returns undefined when a type is not part of the table.
+ */
+export function getAllowedRelationships(sourceType: string, targetType: string): RelationshipTypeName[] | undefined {
+  const allowed = RELATIONSHIP_TYPES.filter(r => lookupRelationship(sourceType, targetType, r)?.allowed);
+  return allowed.length > 0 ? allowed : undefined;
+}
+
+// ============================================================================
+// Published table
+// ============================================================================
+
+/**
+ * Allowed relationship types per source and target element type
+ */
+export type RelationshipTableData = Record<string, Record<string, RelationshipTypeName[]>>;
+
+/**
+ * A cell where the generated table differs from a reference table
+ */
+export interface RelationshipTableDifference {
+  source: string;
+  target: string;
+  /** Allowed by the reference, not by the generated table */
+  missing: RelationshipTypeName[];
+  /** Allowed by the generated table, not by the reference */
+  extra: RelationshipTypeName[];
+}
+
+/** Letters of the relationship types in Archi's `relationships.xml` */
+const RELATIONSHIP_LETTERS: Record<string, RelationshipTypeName> = {
+  a: 'Access', c: 'Composition', f: 'Flow', g: 'Aggregation', i: 'Assignment', n: 'Influence',
+  o: 'Association', r: 'Realization', s: 'Specialization', t: 'Triggering', v: 'Serving'
+};
+
+let normative: RelationshipTableData | null = null;
+
+/**
+ * Read the relationship table file of the `relationshipTablePath` setting
+ *
+ * @throws Error naming the setting and the path when the file cannot be read or is not a relationship table
+ */
+export function loadRelationshipTableFile(path: string): RelationshipTableData {
+  let xml: string;
+  try {
+    xml = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new Error(`Invalid relationshipTablePath ${path}: ${(err as Error)?.message || String(err)}`);
+  }
+  try {
+    return parseRelationshipTableXml(xml);
+  } catch (err) {
+    throw new Error(`Invalid relationshipTablePath ${path}: ${(err as Error)?.message || String(err)}`);
+  }
+}
+
+/**
+ * Read a relationship table in the format of Archi's `relationships.xml`:
+ * `<source concept="…">` elements holding `<target concept="…" relations="…"/>`
+ * elements, with one letter per allowed relationship type
+ *
+ * @throws Error when the document is not well-formed, or holds no sources or an unknown letter
+ */
+export function parseRelationshipTableXml(xml: string): RelationshipTableData {
+  const validation = XMLValidator.validate(xml);
+  if (validation !== true) {
+    throw new Error(`Invalid relationship table: ${validation.err.msg} (line ${validation.err.line})`);
+  }
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@',
+    isArray: name => name === 'source' || name === 'target'
+  });
+  const sources: any[] = parser.parse(xml)?.relationships?.source || [];
+  if (sources.length === 0) {
+    throw new Error('Invalid relationship table: no <source> elements under <relationships>');
+  }
+
+  const data: RelationshipTableData = {};
+  for (const source of sources) {
+    const row: Record<string, RelationshipTypeName[]> = data[normalizeElementType(source['@concept'])] = {};
+    for (const target of source.target || []) {
+      row[normalizeElementType(target['@concept'])] = [...String(target['@relations'] || '')].map(letter => {
+        const type = RELATIONSHIP_LETTERS[letter];
+        if (!type) throw new Error(`Invalid relationship table: unknown relationship letter "${letter}" from ${source['@concept']} to ${target['@concept']}`);
+        return type;
+      });
+    }
+  }
+  return data;
+}
+
+/**
+ * Check relationships against a published table (Appendix B) instead of the
+ * generated one; pairs of types it does not list are still looked up in the
+ * generated table. Pass null to go back to the generated table.
+ */
+export function useRelationshipTable(data: RelationshipTableData | null): void {
+  normative = data;
+}
+
+/**
+ * Cells where the generated table differs from a reference table, for the
+ * element types both tables cover
+ */
+export function compareRelationshipTable(reference: RelationshipTableData): RelationshipTableDifference[] {
+  const differences: RelationshipTableDifference[] = [];
+  for (const [source, targets] of Object.entries(reference)) {
+    for (const [target, expected] of Object.entries(targets)) {
+      if (!lookupGenerated(source, target, 'Association')) continue;
+      const generated = RELATIONSHIP_TYPES.filter(r => lookupGenerated(source, target, r)?.allowed);
+      const missing = expected.filter(r => !generated.includes(r));
+      const extra = generated.filter(r => !expected.includes(r));
+      if (missing.length > 0 || extra.length > 0) differences.push({ source, target, missing, extra });
+    }
+  }
+  return differences;
+}
+
+// ============================================================================
+// Derivation
+// ============================================================================
+
+/**
+ * Relationship types by the derivation rules they take part in
+ */
+export type RelationshipCategory = 'structural' | 'dependency' | 'dynamic' | 'other';
+
+export function getRelationshipCategory(relationshipType: string): RelationshipCategory {
+  const type = relationshipType as RelationshipTypeName;
+  if (STRUCTURAL_STRENGTH.includes(type)) return 'structural';
+  if (DEPENDENCY.includes(type)) return 'dependency';
+  if (DYNAMIC.includes(type)) return 'dynamic';
+  return 'other';
+}
+
+/**
+ * The weaker of two structural relationships (DR1)
+ */
+export function weakestStructural(first: RelationshipTypeName, second: RelationshipTypeName): RelationshipTypeName {
+  return STRUCTURAL_STRENGTH.indexOf(first) <= STRUCTURAL_STRENGTH.indexOf(second) ? first : second;
+}
+
+/**
+ * Which derivations may run from an element through another one, as in the
+ * table: 'all' within a domain or through core elements, 'motivation' for
+ * realization and influence chains into motivation elements, else 'none'
+ */
+export function derivationsThrough(sourceType: string, throughType: string): 'all' | 'motivation' | 'none' {
+  const source = normalizeElementType(sourceType);
+  const through = normalizeElementType(throughType);
+  if (NOT_DERIVABLE_THROUGH.has(through)) return 'none';
+  const throughDomain = domainOf(through);
+  if (throughDomain === 'core' || domainOf(source) === throughDomain) return 'all';
+  return throughDomain === 'motivation' ? 'motivation' : 'none';
+}
@@ -90,6 +90,15 @@ export class ValidationReporter {
       }
     }
 
+    for (const warning of businessRulesResult?.warnings || []) {
+      warnings.push({
+        ...warning,
+        severity: ValidationSeverity.WARNING,
+        category: 'business-rule',
+        suggestions: this.generateBusinessRuleSuggestions(warning)
+      });
+    }
+
     // Process referential integrity validation results
     if (referentialIntegrityResult && !referentialIntegrityResult.valid) {
       for (const error of referentialIntegrityResult.errors) {
@@ -158,6 +167,11 @@ export class ValidationReporter {
   private generateBusinessRuleSuggestions(error: ValidationError): string[] {
     const suggestions: string[] = [];
 
+    if (error.message.includes('not allowed')) {
+      suggestions.push('Use one of the allowed relationship types listed for these element types');
+      suggestions.push('Check the direction of the relationship; the reverse direction may allow it');
+    }
+
     if (error.message.includes('compatible')) {
       suggestions.push('Review ArchiMate 3.1 specification for allowed relationship types between these element types');
       suggestions.push('Consider using a different relationship type that is compatible with both source and target elements');
@@ -20,6 +20,7 @@ export interface ValidationError {
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
+  warnings?: ValidationError[];   // Non-blocking issues
 }
 
 /**